@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Project, Code, Selection, Transcript, AppSettings, CloudProject, UserProjectData, StickyNote, ChatMessage, DirectMessage, CodebookChangeProposal, AppNotification, DocumentSnapshot, VersionControlEvent } from './types';
+import { Project, Code, Selection, Transcript, AppSettings, AutoCodeQuery, SavedQuery, CloudProject, UserProjectData, StickyNote, ChatMessage, DirectMessage, CodebookChangeProposal, AppNotification, DocumentSnapshot, VersionControlEvent } from './types';
 import { Editor } from './components/Editor';
 import { CodeTree } from './components/CodeTree';
 import { AnalysisView } from './components/AnalysisView';
@@ -11,6 +11,11 @@ import { MemosView } from './components/MemosView';
 import { TranscriptNoteLayer, TranscriptNoteLayerHandle } from './components/TranscriptNoteLayer';
 import { CollaborationPanel } from './components/CollaborationPanel';
 import { VersionControlPanel } from './components/VersionControlPanel';
+import { SpeakerPanel } from './components/SpeakerPanel';
+import { AttributesView } from './components/AttributesView';
+import { FrameworkView } from './components/FrameworkView';
+import { AutoCodeModal } from './components/AutoCodeModal';
+import { GlobalSearchPanel } from './components/GlobalSearchPanel';
 
 import { useAuth } from './contexts/AuthContext';
 import {
@@ -23,6 +28,7 @@ import {
   saveSharedCode,
   deleteSharedCode,
   saveUserProjectData,
+  CONSENSUS_USER_ID,
   updateCloudProject,
   deleteTranscript as deleteCloudTranscript,
   updateTranscript as updateCloudTranscript,
@@ -40,7 +46,10 @@ import {
   subscribeToProposals,
   logVersionControlEvent,
   saveDocumentSnapshot,
-  sendNotification
+  sendNotification,
+  saveAttributeSchema,
+  saveTranscriptSets,
+  saveTranscriptAttributes
 } from './services/firestoreService';
 import { parseTranscriptFile } from './utils/transcriptParser';
 import { exportProjectData, parseCodebookFile, mergeCodesInProject, saveProjectFile, printTranscript, exportCodebook, generateId } from './utils/dataUtils';
@@ -48,12 +57,26 @@ import { removeHighlightsForCode, stripHighlights, restoreHighlights } from './u
 import { generateChildColor, generateColor } from './utils/colorUtils';
 import { applyTheme } from './utils/themeUtils';
 import { reconcileSelectionsAfterEdit } from './utils/selectionReconciler';
+import { isTextSelection, withTextAnchor } from './utils/textAnchors';
+import { createAutoCodeSelections } from './utils/autoCode';
+import { CodeQuerySpan } from './utils/codeQuery';
+import { ConsensusSpan, keepUnsettled } from './utils/adjudication';
+import { SearchResult } from './utils/searchQuery';
+import { exportProjectToQdpx } from './utils/refiQda';
+import { exportTranscriptsDocx } from './utils/transcriptDocx';
+import { exportCodebookReport } from './utils/codebookReport';
+import { DEFAULT_SPEAKER_DETECTION, SpeakerLabelEdit, shiftSelectionsForLabelEdits } from './utils/speakerUtils';
 import { addToQueue, processQueue, getQueue } from './utils/offlineQueue';
+import { deleteTranscriptMedia } from './utils/mediaStore';
+import { CLOUD_IMAGE_LIMIT, imageDocumentSize } from './utils/imageDocuments';
 import { ConfirmationModal, ModalType } from './components/ConfirmationModal'; // Added import
-import { Eye, Save, LogOut, Trash2, Edit2, FileText, MoreHorizontal, Upload, Plus, StickyNote as StickyNoteIcon, Printer, Download, Cloud, Users, Wifi, WifiOff, Clock, GitPullRequest, Bell } from 'lucide-react';
+import { Eye, Save, LogOut, Trash2, Edit2, FileText, MoreHorizontal, Upload, Plus, StickyNote as StickyNoteIcon, Printer, FileDown, Download, Cloud, Users, Wifi, WifiOff, Clock, GitPullRequest, Bell, FileArchive, MessagesSquare, Wand2 } from 'lucide-react';
 
 
 
+// Quiet period after the last tap-to-sync stamp before the transcript is saved to the cloud
+const STAMP_SAVE_DELAY_MS = 1500;
+
 const initialProject: Project = {
   id: 'default-project',
   name: 'My Vibe Project',
@@ -81,7 +104,7 @@ export default function App() {
   const { user } = useAuth();
 
   const [project, setProject] = useState<Project | null>(null);
-  const [activeView, setActiveView] = useState<'editor' | 'analysis' | 'codebook' | 'memos'>('editor');
+  const [activeView, setActiveView] = useState<'editor' | 'analysis' | 'codebook' | 'memos' | 'attributes' | 'framework'>('editor');
   const [activeTranscriptId, setActiveTranscriptId] = useState<string | null>(null);
   const [history, setHistory] = useState<Project[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
@@ -90,7 +113,10 @@ export default function App() {
 
   const [showVisualSettings, setShowVisualSettings] = useState(false);
   const [showMemoSidebar, setShowMemoSidebar] = useState(true);
+  const [showWordExportMenu, setShowWordExportMenu] = useState(false);
+  const [showSpeakerPanel, setShowSpeakerPanel] = useState(false);
   const [showCollabPanel, setShowCollabPanel] = useState(false);
+  const [showAutoCode, setShowAutoCode] = useState(false);
   const [appSettings, setAppSettings] = useState<AppSettings>(defaultSettings);
   const [sidebarWidth, setSidebarWidth] = useState(288);
   // Replaced editingTranscriptId with a boolean for inline editing of the *active* transcript
@@ -207,12 +233,13 @@ export default function App() {
   const cloudProjectRef = useRef<CloudProject | null>(null);
   const userRef = useRef<typeof user>(null);
   const lastSavedTime = useRef<number>(Date.now());
+  const pendingStampSave = useRef<{ transcriptId: string; timer: ReturnType<typeof setTimeout>; save: () => void } | null>(null);
 
 
 
   // Search States
   const [globalSearchQuery, setGlobalSearchQuery] = useState('');
-  const [globalSearchResults, setGlobalSearchResults] = useState<{ transcriptId: string, lineIndex: number, text: string }[]>([]);
+  const [searchJump, setSearchJump] = useState<{ transcriptId: string; line: number; nonce: number } | null>(null);
   const [showSearchResults, setShowSearchResults] = useState(false);
   const [codeSearchQuery, setCodeSearchQuery] = useState('');
   const [sidebarCodeFilter, setSidebarCodeFilter] = useState<'master' | 'personal'>('master');
@@ -361,38 +388,6 @@ export default function App() {
     }
   }, [appSettings]);
 
-  // Global Search Logic (Debounced)
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      if (!globalSearchQuery.trim()) {
-        setGlobalSearchResults([]);
-        return;
-      }
-
-      const results: { transcriptId: string, lineIndex: number, text: string }[] = [];
-      const query = globalSearchQuery.toLowerCase();
-
-      project?.transcripts.forEach(t => {
-        const parser = new DOMParser();
-        const doc = parser.parseFromString(t.content, 'text/html');
-        const lines = doc.querySelectorAll('.transcript-line');
-
-        lines.forEach((line, idx) => {
-          const text = line.textContent || '';
-          if (text.toLowerCase().includes(query)) {
-            results.push({
-              transcriptId: t.id,
-              lineIndex: idx + 1,
-              text: text.substring(0, 100) + (text.length > 100 ? '...' : '')
-            });
-          }
-        });
-      });
-      setGlobalSearchResults(results);
-    }, 300);
-
-    return () => clearTimeout(timer);
-  }, [globalSearchQuery, project]);
 
   const saveToCloud = useCallback(async (
     currentProject: Project,
@@ -434,6 +429,9 @@ export default function App() {
         transcriptMemos,
         personalMemo: currentProject.projectMemo || '',
         personalCodes,
+        frameworkSummaries: currentProject.frameworkSummaries || {},
+        savedQueries: currentProject.savedQueries || [],
+        codeQueries: currentProject.codeQueries || [],
       });
 
 
@@ -469,7 +467,10 @@ export default function App() {
           data: {
             selections: currentProject.selections,
             transcriptMemos: {},
-            personalMemo: currentProject.projectMemo || ''
+            personalMemo: currentProject.projectMemo || '',
+            frameworkSummaries: currentProject.frameworkSummaries || {},
+            savedQueries: currentProject.savedQueries || [],
+            codeQueries: currentProject.codeQueries || []
           }
         });
       } catch (e) {
@@ -573,6 +574,8 @@ export default function App() {
         content: restoreHighlights(t.content, userData.selections.filter(s => s.transcriptId === t.id), codes),
         dateAdded: t.dateAdded,
         memo: userData.transcriptMemos[t.id] || '',
+        attributes: t.attributes,
+        images: t.images,
       }));
 
 
@@ -586,6 +589,11 @@ export default function App() {
         transcripts: localTranscripts,
         selections: userData.selections,
         projectMemo: userData.personalMemo || cp.projectMemo || '',
+        frameworkSummaries: userData.frameworkSummaries || {},
+        savedQueries: userData.savedQueries || [],
+        codeQueries: userData.codeQueries || [],
+        attributes: cp.attributes || [],
+        transcriptSets: cp.transcriptSets || [],
         isCloud: true,
         cloudProjectId: cp.id,
       };
@@ -605,9 +613,10 @@ export default function App() {
   if (!project) {
     return (
       <ProjectLauncher
-        onOpenProject={(p) => {
+        onOpenProject={(p, warnings) => {
           setCloudProject(null);
           setProject(p);
+          if (warnings?.length) showAlert('Imported with Warnings', `Some content could not be imported. ${warnings.join(' ')}`);
         }}
         onCreateProject={() => {
           setCloudProject(null);
@@ -620,6 +629,12 @@ export default function App() {
 
   const activeTranscript = project.transcripts.find(t => t.id === activeTranscriptId) || null;
   const activeCode = project.codes.find(c => c.id === activeCodeId) || null;
+  // Codes of the codebook shown in the sidebar (cloud projects switch between master and personal)
+  const sidebarCodes = !cloudProject ? project.codes : project.codes.filter(c => {
+    const type = c.type || 'personal';
+    if (sidebarCodeFilter === 'master') return type === 'master' || type === 'suggested';
+    return type === 'personal';
+  });
 
   // --- Actions ---
 
@@ -657,14 +672,23 @@ export default function App() {
     const file = e.target.files?.[0];
     if (!file) return;
     try {
-      const { name, content } = await parseTranscriptFile(file);
+      const { name, content, images } = await parseTranscriptFile(file, {
+        speakerDetection: appSettings.speakerDetection || DEFAULT_SPEAKER_DETECTION
+      });
+
+      if (images && cloudProject && imageDocumentSize(images) > CLOUD_IMAGE_LIMIT) {
+        showAlert('Image Too Large', `"${name}" is too large to share in a cloud project. Try a smaller image or split the scan into several files.`);
+        e.target.value = '';
+        return;
+      }
 
       const newTranscript: Transcript = {
         id: crypto.randomUUID(),
         name,
         content,
         dateAdded: Date.now(),
-        memo: ''
+        memo: '',
+        ...(images ? { images } : {})
       };
 
       // If cloud project, save clean (no highlights) content to cloud
@@ -675,6 +699,7 @@ export default function App() {
           content: stripHighlights(newTranscript.content),
           dateAdded: newTranscript.dateAdded,
           uploadedBy: user.uid,
+          ...(images ? { images } : {})
         });
       }
 
@@ -687,6 +712,60 @@ export default function App() {
     }
   };
 
+  // Speaker rename/merge/detection and media timestamps on the active transcript. Only line
+  // attributes change in shared projects, so collaborators' selection offsets stay valid.
+  // The cloud copy is stored without the admin's own highlight spans. Tap-to-sync stamps
+  // arrive one per line, so they skip the undo history and reach the cloud in one write
+  // once stamping pauses.
+  const handleLineMetaUpdate = (content: string, edits: SpeakerLabelEdit[] = [], isStamp = false) => {
+    if (!activeTranscript || viewingAsUser) return;
+    if (cloudProject) {
+      if (!isProjectAdmin) return;
+      const save = () => updateCloudTranscript(cloudProject.id, activeTranscript.id, { content: stripHighlights(content) }).catch(console.error);
+      const pending = pendingStampSave.current;
+      if (pending) {
+        clearTimeout(pending.timer);
+        // A newer write to the same transcript supersedes the pending one
+        if (pending.transcriptId !== activeTranscript.id) pending.save();
+        pendingStampSave.current = null;
+      }
+      if (isStamp) {
+        const timer = setTimeout(() => {
+          pendingStampSave.current = null;
+          save();
+        }, STAMP_SAVE_DELAY_MS);
+        pendingStampSave.current = { transcriptId: activeTranscript.id, timer, save };
+      } else {
+        save();
+      }
+    }
+    handleProjectUpdate({
+      ...project,
+      transcripts: project.transcripts.map(t => t.id === activeTranscript.id ? { ...t, content } : t),
+      selections: shiftSelectionsForLabelEdits(project.selections, activeTranscript.id, edits, content)
+    }, !isStamp);
+  };
+
+  // Attribute schema and transcript sets live on the cloud project document, values on each
+  // cloud transcript. AttributesView only replaces what it changed, so a reference check finds the writes.
+  const handleAttributesUpdate = (next: Project) => {
+    if (cloudProject) {
+      if (next.attributes !== project.attributes) {
+        saveAttributeSchema(cloudProject.id, next.attributes || []).catch(console.error);
+      }
+      if (next.transcriptSets !== project.transcriptSets) {
+        saveTranscriptSets(cloudProject.id, next.transcriptSets || []).catch(console.error);
+      }
+      next.transcripts.forEach(t => {
+        const previous = project.transcripts.find(p => p.id === t.id);
+        if (previous && previous.attributes !== t.attributes) {
+          saveTranscriptAttributes(cloudProject.id, t.id, t.attributes || {}).catch(console.error);
+        }
+      });
+    }
+    handleProjectUpdate(next);
+  };
+
   const deleteTranscriptHandler = async (id: string) => {
     // If not admin and cloud project, submit request
     if (cloudProject && !isProjectAdmin) {
@@ -715,6 +794,7 @@ export default function App() {
       if (cloudProject) {
         deleteCloudTranscript(cloudProject.id, id).catch(console.error);
       }
+      deleteTranscriptMedia(id).catch(console.error);
 
       handleProjectUpdate({
         ...project,
@@ -766,7 +846,7 @@ export default function App() {
     if (viewingAsUser) return;
     handleProjectUpdate({
       ...project,
-      selections: [...project.selections, newSelection],
+      selections: [...project.selections, withTextAnchor(newSelection, updatedHtml)],
       transcripts: project.transcripts.map(t => t.id === newSelection.transcriptId ? { ...t, content: updatedHtml } : t)
     });
 
@@ -774,6 +854,132 @@ export default function App() {
     // The cloud transcript stores clean content. Selections are saved via userdata.
   };
 
+  // Broken codings moved by the repair panel; highlights are re-rendered from the new offsets
+  const handleRepairSelections = (repaired: Selection[]) => {
+    if (viewingAsUser || repaired.length === 0) return;
+    const byId = new Map(repaired.map(s => [s.id, s]));
+    const selections = project.selections.map(s => byId.get(s.id) || s);
+    const transcriptIds = new Set(repaired.map(s => s.transcriptId));
+    handleProjectUpdate({
+      ...project,
+      selections,
+      transcripts: project.transcripts.map(t => transcriptIds.has(t.id)
+        ? { ...t, content: restoreHighlights(stripHighlights(t.content), selections.filter(s => s.transcriptId === t.id), project.codes) }
+        : t)
+    });
+  };
+
+  // Auto-code: codings from a search across documents; the search is kept on the code to re-run later
+  const handleAutoCode = (codeId: string, newSelections: Selection[], query: AutoCodeQuery | null) => {
+    if (viewingAsUser) return;
+    const codes = query ? project.codes.map(c => c.id === codeId ? { ...c, autoCodeQuery: query } : c) : project.codes;
+    const selections = [...project.selections, ...newSelections];
+    const transcriptIds = new Set(newSelections.map(s => s.transcriptId));
+    handleProjectUpdate({
+      ...project,
+      codes,
+      selections,
+      transcripts: project.transcripts.map(t => transcriptIds.has(t.id)
+        ? { ...t, content: restoreHighlights(stripHighlights(t.content), selections.filter(s => s.transcriptId === t.id), codes) }
+        : t)
+    });
+    const code = codes.find(c => c.id === codeId);
+    if (query && cloudProject && code && (code.type === 'master' || code.type === 'suggested') && isProjectAdmin) {
+      saveSharedCode(cloudProject.id, code).catch(console.error);
+    }
+    setShowAutoCode(false);
+    if (newSelections.length > 0) {
+      showAlert('Coding Added', `Added ${newSelections.length} coding${newSelections.length === 1 ? '' : 's'} with "${code?.name}".`);
+    }
+  };
+
+  // ─── Global Search ───
+  const handleSaveQuery = (name: string) => {
+    const saved: SavedQuery = { id: generateId(), name, query: globalSearchQuery.trim(), createdAt: Date.now() };
+    handleProjectUpdate({ ...project, savedQueries: [...(project.savedQueries || []), saved] });
+  };
+
+  const handleSearchJump = (result: SearchResult) => {
+    setShowSearchResults(false);
+    if (result.transcriptId) {
+      setActiveTranscriptId(result.transcriptId);
+      setActiveView('editor');
+      if (result.line !== undefined) setSearchJump({ transcriptId: result.transcriptId, line: result.line, nonce: Date.now() });
+      if (result.source === 'transcriptMemo') setShowMemoSidebar(true);
+    } else if (result.codeId) {
+      setActiveCodeId(result.codeId);
+      setActiveView('codebook');
+    } else {
+      setActiveView('memos');
+    }
+  };
+
+  // Codes whole result lines, skipping lines the code already covers
+  const handleCodeSearchResults = (codeId: string, results: SearchResult[]) => {
+    const spans = results
+      .filter(r => r.source === 'line' && r.transcriptId)
+      .map(r => {
+        const leading = r.text.length - r.text.trimStart().length;
+        const trailing = r.text.length - r.text.trimEnd().length;
+        return { transcriptId: r.transcriptId!, start: r.lineStart! + leading, end: r.lineEnd! - trailing };
+      })
+      .filter(span => span.end > span.start);
+    codeSpans(codeId, spans);
+  };
+
+  // Codes transcript spans (search hits, concordance lines), skipping any the code already covers
+  const codeSpans = (codeId: string, spans: { transcriptId: string; start: number; end: number }[]) => {
+    const uncoded = spans.filter(span => !project.selections.some(s =>
+      s.transcriptId === span.transcriptId && s.codeId === codeId && isTextSelection(s) && s.startIndex <= span.start && s.endIndex >= span.end));
+    if (uncoded.length === 0) {
+      showAlert('Nothing to Code', 'Every selected passage is already coded with this code.');
+      return;
+    }
+    handleAutoCode(codeId, createAutoCodeSelections(uncoded, codeId, project.transcripts), null);
+  };
+
+  // ─── Coding Queries ───
+  // Query results become a new personal code, so collaborators' shared codebook is untouched
+  const handleCreateCodeFromQuery = (name: string, spans: CodeQuerySpan[]) => {
+    if (viewingAsUser) return;
+    const newCode: Code = {
+      id: generateId(),
+      name,
+      color: generateColor(project.codes.filter(c => !c.parentId).length),
+      type: 'personal',
+      createdBy: user?.uid
+    };
+    const codes = [...project.codes, newCode];
+    const newSelections = createAutoCodeSelections(spans, newCode.id, project.transcripts);
+    const selections = [...project.selections, ...newSelections];
+    const transcriptIds = new Set(newSelections.map(s => s.transcriptId));
+    handleProjectUpdate({
+      ...project,
+      codes,
+      selections,
+      transcripts: project.transcripts.map(t => transcriptIds.has(t.id)
+        ? { ...t, content: restoreHighlights(stripHighlights(t.content), selections.filter(s => s.transcriptId === t.id), codes) }
+        : t)
+    });
+    showAlert('Code Created', `Created "${name}" with ${newSelections.length} coding${newSelections.length === 1 ? '' : 's'}.`);
+  };
+
+  // ─── Adjudication ───
+  // The consensus layer has its own userdata document. Only the stretches settled in this
+  // session are replaced, so decisions from earlier sessions are kept until decided again.
+  const handleSaveConsensus = async (selections: Selection[], regions: ConsensusSpan[]) => {
+    if (!cloudProject) return;
+    try {
+      const existing = await getUserProjectData(cloudProject.id, CONSENSUS_USER_ID);
+      const kept = keepUnsettled(existing.selections || [], regions);
+      await saveUserProjectData(cloudProject.id, CONSENSUS_USER_ID, { ...existing, selections: [...kept, ...selections] });
+      showAlert('Consensus Saved', `Saved ${selections.length} consensus coding${selections.length === 1 ? '' : 's'}. View "Consensus" in the Collaboration panel to see them in the documents.`);
+    } catch (err) {
+      console.error('[handleSaveConsensus] Error:', err);
+      showAlert('Save Failed', 'The consensus coding could not be saved. Check your connection and try again.');
+    }
+  };
+
   const handleSelectionDelete = (selectionId: string, updatedHtml: string) => {
     if (!activeTranscriptId || viewingAsUser) return;
     handleProjectUpdate({
@@ -949,7 +1155,10 @@ export default function App() {
         codes: viewCodes, // Update codes to show collaborator's personal codes in CodeTree
         selections: data.selections,
         transcripts: updatedTranscripts,
-        projectMemo: data.personalMemo || ''
+        projectMemo: data.personalMemo || '',
+        frameworkSummaries: data.frameworkSummaries || {},
+        savedQueries: data.savedQueries || [],
+        codeQueries: data.codeQueries || []
       });
 
 
@@ -1002,7 +1211,10 @@ export default function App() {
         codes: restoredCodes,
         selections: data.selections,
         transcripts: restoredTranscripts,
-        projectMemo: data.personalMemo || ''
+        projectMemo: data.personalMemo || '',
+        frameworkSummaries: data.frameworkSummaries || {},
+        savedQueries: data.savedQueries || [],
+        codeQueries: data.codeQueries || []
       });
 
 
@@ -1048,7 +1260,7 @@ export default function App() {
             QualCode Vibed
           </span>
           <nav className="flex gap-1 bg-white/10 p-1 rounded-lg">
-            {(['editor', 'codebook', 'analysis', 'memos'] as const).map(view => (
+            {(['editor', 'codebook', 'attributes', 'framework', 'analysis', 'memos'] as const).map(view => (
               <button
                 key={view}
                 onClick={() => setActiveView(view)}
@@ -1077,37 +1289,21 @@ export default function App() {
           </div>
 
           {/* Search Results Dropdown */}
-          {showSearchResults && globalSearchQuery && (
+          {showSearchResults && (
             <>
               <div className="fixed inset-0 z-40" onClick={() => setShowSearchResults(false)} />
-              <div className="absolute top-full left-0 right-0 mt-1 bg-[var(--bg-panel)] border border-[var(--border)] rounded-md shadow-xl max-h-96 overflow-y-auto z-50 text-[var(--text-main)]">
-                {globalSearchResults.length === 0 ? (
-                  <div className="p-3 text-sm text-[var(--text-muted)]">No matches found.</div>
-                ) : (
-                  <div>
-                    <div className="p-2 bg-[var(--bg-main)] text-xs font-bold text-[var(--text-muted)] sticky top-0">
-                      Found {globalSearchResults.length} matches
-                    </div>
-                    {globalSearchResults.map((res, i) => {
-                      const t = project.transcripts.find(tr => tr.id === res.transcriptId);
-                      return (
-                        <div
-                          key={i}
-                          className="p-3 border-b border-[var(--border)] hover:bg-[var(--bg-main)] cursor-pointer"
-                          onClick={() => {
-                            setActiveTranscriptId(res.transcriptId);
-                            setActiveView('editor');
-                            setShowSearchResults(false);
-                          }}
-                        >
-                          <div className="text-xs font-bold text-[var(--accent)] mb-1">{t?.name} (Line {res.lineIndex})</div>
-                          <div className="text-sm line-clamp-2 text-[var(--text-muted)]">"{res.text}"</div>
-                        </div>
-                      );
-                    })}
-                  </div>
-                )}
-              </div>
+              <GlobalSearchPanel
+                project={project}
+                query={globalSearchQuery}
+                codes={sidebarCodes}
+                canCode={!viewingAsUser}
+                activeCodeId={activeCodeId}
+                onPickQuery={setGlobalSearchQuery}
+                onSaveQuery={handleSaveQuery}
+                onDeleteQuery={id => handleProjectUpdate({ ...project, savedQueries: (project.savedQueries || []).filter(q => q.id !== id) })}
+                onJump={handleSearchJump}
+                onCode={handleCodeSearchResults}
+              />
             </>
           )}
         </div>
@@ -1208,6 +1404,17 @@ export default function App() {
             {cloudProject ? "Cloud Save" : "Export File"}
           </button>
 
+          <button
+            onClick={() => exportProjectToQdpx(project).catch(err => {
+              console.error(err);
+              showAlert('Export Failed', 'Could not create the REFI-QDA project file.');
+            })}
+            className="px-3 py-1.5 rounded text-xs font-bold transition-colors flex items-center gap-2 text-slate-300 hover:bg-white/10 hover:text-white"
+            title="Export REFI-QDA Project (.qdpx) for NVivo, ATLAS.ti, MAXQDA"
+          >
+            <FileArchive size={14} /> .qdpx
+          </button>
+
           <button
             onClick={handleCloseProject}
             className="p-2 text-slate-400 hover:text-red-400 hover:bg-white/10 rounded transition-colors"
@@ -1238,6 +1445,19 @@ export default function App() {
       {/* Sticky Notes Overlay - Only show in non-editor views (Editor has its own embedded board) */}
 
 
+      {/* Speakers of the active transcript */}
+      {showSpeakerPanel && activeTranscript && (
+        <SpeakerPanel
+          transcript={activeTranscript}
+          settings={appSettings}
+          onUpdateSettings={setAppSettings}
+          canEdit={!viewingAsUser && (!cloudProject || isProjectAdmin)}
+          canRewriteLabels={!cloudProject}
+          onApply={handleLineMetaUpdate}
+          onClose={() => setShowSpeakerPanel(false)}
+        />
+      )}
+
       {/* Visual Settings Overlay */}
       {showVisualSettings && (
         <VisualSettings settings={appSettings} onUpdate={setAppSettings} />
@@ -1317,10 +1537,14 @@ export default function App() {
           onUpdateCodes={(newCodes) => handleProjectUpdate({ ...project, codes: newCodes })}
           onRestoreSnapshot={(snapshot) => {
             if (snapshot.transcriptId) {
-              // Restore transcript content locally
+              // Restore transcript content locally; codings follow their text where they can
+              const current = project.transcripts.find(t => t.id === snapshot.transcriptId);
               handleProjectUpdate({
                 ...project,
-                transcripts: project.transcripts.map(t => t.id === snapshot.transcriptId ? { ...t, content: snapshot.content || '' } : t)
+                transcripts: project.transcripts.map(t => t.id === snapshot.transcriptId ? { ...t, content: snapshot.content || '' } : t),
+                selections: current
+                  ? reconcileSelectionsAfterEdit(current.content, snapshot.content || '', project.selections, snapshot.transcriptId)
+                  : project.selections
               });
               setActiveTranscriptId(snapshot.transcriptId);
               setActiveView('editor');
@@ -1369,7 +1593,7 @@ export default function App() {
                 <h3 className="font-bold text-xs uppercase text-[var(--text-muted)] tracking-wider">Documents</h3>
                 <label className="cursor-pointer hover:bg-[var(--bg-main)] p-1 rounded text-[var(--accent)] transition-colors" title="Import Document">
                   <Plus size={16} />
-                  <input type="file" className="hidden" accept=".txt,.docx,.pdf" onChange={handleTranscriptUpload} />
+                  <input type="file" className="hidden" accept=".txt,.docx,.pdf,.srt,.vtt,.png,.jpg,.jpeg" onChange={handleTranscriptUpload} />
                 </label>
               </div>
               <div className="overflow-y-auto px-2 pb-2 space-y-1">
@@ -1403,6 +1627,15 @@ export default function App() {
               <div className="p-3 pb-2 flex justify-between items-center flex-shrink-0 z-10">
                 <h3 className="font-bold text-xs uppercase text-[var(--text-muted)] tracking-wider">Codes</h3>
                 <div className="flex gap-1">
+                  {!viewingAsUser && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setShowAutoCode(true); }}
+                      className="hover:bg-[var(--bg-main)] p-1 rounded text-[var(--text-muted)] hover:text-[var(--accent)]"
+                      title="Auto-code by Search"
+                    >
+                      <Wand2 size={14} />
+                    </button>
+                  )}
                   <button
                     onClick={(e) => { e.stopPropagation(); exportCodebook(project.codes); }}
                     className="hover:bg-[var(--bg-main)] p-1 rounded text-[var(--text-muted)] hover:text-[var(--accent)]"
@@ -1461,11 +1694,7 @@ export default function App() {
                 onClick={() => setActiveCodeId(null)}
               >
                 <CodeTree
-                  codes={!cloudProject ? project.codes : project.codes.filter(c => {
-                    const type = c.type || 'personal';
-                    if (sidebarCodeFilter === 'master') return type === 'master' || type === 'suggested';
-                    return type === 'personal';
-                  })}
+                  codes={sidebarCodes}
                   activeCodeId={activeCodeId}
                   hiddenCodeIds={hiddenCodeIds}
                   onToggleVisibility={(id) => {
@@ -1535,6 +1764,14 @@ export default function App() {
                 )}
                 <div className="w-px h-4 bg-[var(--border)] mx-1"></div>
 
+                <button
+                  onClick={() => setShowSpeakerPanel(true)}
+                  disabled={!activeTranscript || !!activeTranscript.images}
+                  className="text-xs font-bold flex items-center gap-1 px-2 py-1 rounded text-[var(--text-muted)] hover:bg-[var(--bg-main)] disabled:opacity-50"
+                  title="Detect, rename and merge speakers in this transcript"
+                >
+                  <MessagesSquare size={14} /> Speakers
+                </button>
                 <button
                   onClick={() => activeTranscript && printTranscript(activeTranscript, project, (msg) => showAlert('Popup Blocked', msg))}
                   className="text-xs font-bold flex items-center gap-1 px-2 py-1 rounded text-[var(--text-muted)] hover:bg-[var(--bg-main)]"
@@ -1542,6 +1779,36 @@ export default function App() {
                 >
                   <Printer size={14} /> Print / PDF
                 </button>
+                <div className="relative">
+                  <button
+                    onClick={() => setShowWordExportMenu(!showWordExportMenu)}
+                    className="text-xs font-bold flex items-center gap-1 px-2 py-1 rounded text-[var(--text-muted)] hover:bg-[var(--bg-main)]"
+                    title="Export coded transcripts as Word documents"
+                  >
+                    <FileDown size={14} /> Export Word
+                  </button>
+                  {showWordExportMenu && (
+                    <div className="absolute right-0 mt-1 w-48 bg-[var(--bg-panel)] border border-[var(--border)] rounded-lg shadow-xl z-50 py-1 text-xs">
+                      {[
+                        { label: 'This transcript', transcripts: activeTranscript ? [activeTranscript] : [] },
+                        { label: 'All transcripts (bundle)', transcripts: project.transcripts }
+                      ].map(option => (
+                        <button
+                          key={option.label}
+                          disabled={option.transcripts.length === 0}
+                          onClick={() => {
+                            setShowWordExportMenu(false);
+                            exportTranscriptsDocx(option.transcripts, project, { author: user?.displayName || undefined })
+                              .catch(err => showAlert('Export Failed', err instanceof Error ? err.message : String(err)));
+                          }}
+                          className="w-full text-left px-3 py-2 hover:bg-[var(--bg-main)] text-[var(--text-main)] disabled:opacity-50"
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
                 <button
                   onClick={() => setShowMemoSidebar(!showMemoSidebar)}
                   className={`text-xs font-bold flex items-center gap-1 px-2 py-1 rounded transition-colors ${showMemoSidebar ? 'bg-[var(--accent)] text-[var(--accent-text)]' : 'text-[var(--text-muted)] hover:bg-[var(--bg-main)]'}`}
@@ -1588,10 +1855,12 @@ export default function App() {
                       });
                     }}
                     settings={appSettings}
+                    onUpdateSettings={setAppSettings}
                     codes={project.codes}
                     selections={project.selections}
                     codebookFilter={sidebarCodeFilter}
                     hiddenCodeIds={hiddenCodeIds}
+                    jumpTo={searchJump}
                     // Editor Props
                     canEditDirectly={isProjectAdmin}
                     readOnly={!!viewingAsUser}
@@ -1686,6 +1955,8 @@ export default function App() {
                       setIsEditing(false);
                     }}
                     onCancelEdit={() => setIsEditing(false)}
+                    onUpdateLineTimes={!viewingAsUser && (!cloudProject || isProjectAdmin) ? (content, isStamp) => handleLineMetaUpdate(content, [], isStamp) : undefined}
+                    onRepairSelections={viewingAsUser ? undefined : handleRepairSelections}
                     onAutoSave={(newContent) => {
                       if (!activeTranscriptId) return;
 
@@ -1870,6 +2141,38 @@ export default function App() {
                   deleteSharedCode(cloudProject.id, src).catch(console.error);
                 }
               }}
+              onImportCodes={(added, updated) => {
+                const updatedById = new Map(updated.map(c => [c.id, c]));
+                handleProjectUpdate({
+                  ...project,
+                  codes: [...project.codes.map(c => updatedById.get(c.id) || c), ...added]
+                });
+                if (cloudProject && user) {
+                  [...added, ...updated].forEach(code => {
+                    if (code.type === 'master') saveSharedCode(cloudProject.id, code).catch(console.error);
+                    const previous = project.codes.find(c => c.id === code.id);
+                    logCodeHistory(cloudProject.id, {
+                      id: crypto.randomUUID(),
+                      codeId: code.id,
+                      projectId: cloudProject.id,
+                      previousData: previous || {},
+                      newData: code,
+                      changeType: previous ? 'update' : 'create',
+                      userId: user.uid,
+                      userName: user.displayName || 'Me',
+                      timestamp: Date.now(),
+                      description: previous ? `Updated "${code.name}" from imported codebook` : `Imported code "${code.name}"`
+                    });
+                  });
+                }
+              }}
+              onPublishCodebook={(format) => {
+                // Cloud projects publish the shared master codebook; local projects have only one
+                const codes = cloudProject ? project.codes.filter(c => c.type === 'master') : project.codes;
+                if (codes.length === 0) { showAlert('Nothing to Publish', 'The codebook has no codes yet.'); return; }
+                exportCodebookReport(project, codes, format, (msg) => showAlert('Popup Blocked', msg))
+                  .catch(err => showAlert('Export Failed', err instanceof Error ? err.message : String(err)));
+              }}
               currentUser={user || undefined}
               isAdmin={isProjectAdmin}
               projectId={cloudProject?.id}
@@ -1884,6 +2187,36 @@ export default function App() {
               cloudProjectId={cloudProject?.id}
               currentUserId={user?.uid}
               cloudProject={cloudProject}
+              onSaveCodeQuery={viewingAsUser ? undefined : query => handleProjectUpdate({ ...project, codeQueries: [...(project.codeQueries || []), query] })}
+              onDeleteCodeQuery={viewingAsUser ? undefined : id => handleProjectUpdate({ ...project, codeQueries: (project.codeQueries || []).filter(q => q.id !== id) })}
+              onCreateCodeFromQuery={viewingAsUser ? undefined : handleCreateCodeFromQuery}
+              codableCodes={sidebarCodes}
+              onCodeSpans={viewingAsUser ? undefined : codeSpans}
+              onSaveConsensus={cloudProject && isProjectAdmin && !viewingAsUser ? handleSaveConsensus : undefined}
+              onAlert={showAlert}
+            />
+          )}
+
+          {activeView === 'attributes' && (
+            <AttributesView
+              project={project}
+              onUpdateProject={handleAttributesUpdate}
+              readOnly={!!viewingAsUser || (!!cloudProject && !isProjectAdmin)}
+              onAlert={showAlert}
+              onConfirm={(title, message, callback) => {
+                showConfirm(title, message, 'confirm').then(confirmed => {
+                  if (confirmed) callback();
+                });
+              }}
+            />
+          )}
+
+          {activeView === 'framework' && (
+            <FrameworkView
+              project={project}
+              onUpdateProject={handleProjectUpdate}
+              readOnly={!!viewingAsUser}
+              onAlert={showAlert}
             />
           )}
 
@@ -1939,6 +2272,7 @@ export default function App() {
             }}
             onClose={() => setShowCollabPanel(false)}
             onViewCollaborator={handleViewCollaborator}
+            ownSelections={viewingAsUser ? undefined : project.selections}
           />
         </div>
       )}
@@ -1962,6 +2296,10 @@ export default function App() {
                   showAlert("View Only", "Cannot edit in view-only mode.");
                   return;
                 }
+                if (project.transcripts.find(t => t.id === transcriptMenu.id)?.images) {
+                  showAlert("Image Document", "Image documents have no text to edit.");
+                  return;
+                }
                 if (transcriptMenu.id !== activeTranscriptId) {
                   setActiveTranscriptId(transcriptMenu.id);
                 }
@@ -1988,6 +2326,16 @@ export default function App() {
         </>
       )}
 
+      {showAutoCode && (
+        <AutoCodeModal
+          project={project}
+          codes={sidebarCodes}
+          initialCodeId={activeCodeId}
+          onApply={handleAutoCode}
+          onClose={() => setShowAutoCode(false)}
+        />
+      )}
+
       {/* Modal Container */}
       <ConfirmationModal
         isOpen={confirmModal.isOpen}
@@ -0,0 +1,260 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Gavel, RefreshCw, X } from 'lucide-react';
+import { Code, Selection, Transcript } from '../types';
+import { CodeRange } from '../utils/codeQuery';
+import { AdjudicationDecision, ConsensusSpan, createConsensusSelections, findDisagreements, resolveConsensus, settledRegions } from '../utils/adjudication';
+import { getTranscriptLines } from '../utils/highlightUtils';
+
+export interface AdjudicationCoder {
+  id: string;
+  name: string;
+  selections: Selection[];
+}
+
+interface Props {
+  codes: Code[];
+  transcripts: Transcript[]; // Documents in scope
+  coderA: AdjudicationCoder;
+  coderB: AdjudicationCoder;
+  // Replaces the consensus codings inside the settled regions
+  onSave: (selections: Selection[], regions: ConsensusSpan[]) => Promise<void>;
+  onClose: () => void;
+}
+
+// Lines shown either side of a disagreement
+const CONTEXT_LINES = 2;
+
+const DECISIONS: { decision: AdjudicationDecision; key: string }[] = [
+  { decision: 'a', key: '1' },
+  { decision: 'b', key: '2' },
+  { decision: 'both', key: '3' },
+  { decision: 'neither', key: '0' },
+];
+
+interface ContextProps {
+  lines: string[];
+  lineStarts: number[];
+  from: number;       // Line indexes, inclusive
+  to: number;
+  ranges: CodeRange[];
+  color: string;
+}
+
+// The lines around a disagreement with one coder's ranges highlighted
+const ContextText: React.FC<ContextProps> = ({ lines, lineStarts, from, to, ranges, color }) => (
+  <div className="text-sm leading-relaxed text-[var(--text-main)] space-y-1">
+    {lines.slice(from, to + 1).map((line, i) => {
+      const lineStart = lineStarts[from + i];
+      const lineEnd = lineStart + line.length;
+      const parts: React.ReactNode[] = [];
+      let pos = lineStart;
+      ranges.filter(([s, e]) => s < lineEnd && e > lineStart).forEach(([s, e], j) => {
+        const start = Math.max(s, lineStart);
+        const end = Math.min(e, lineEnd);
+        if (start > pos) parts.push(line.slice(pos - lineStart, start - lineStart));
+        parts.push(<mark key={j} className="rounded px-0.5 text-[var(--text-main)]" style={{ backgroundColor: `${color}40`, borderBottom: `2px solid ${color}` }}>{line.slice(start - lineStart, end - lineStart)}</mark>);
+        pos = end;
+      });
+      parts.push(line.slice(pos - lineStart));
+      return (
+        <div key={from + i} className="flex gap-2">
+          <span className="w-8 flex-shrink-0 text-right text-[10px] font-mono text-[var(--text-muted)] pt-1">{from + i + 1}</span>
+          <span className="break-words min-w-0">{parts}</span>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export const AdjudicationPanel: React.FC<Props> = ({ codes, transcripts, coderA, coderB, onSave, onClose }) => {
+  const set = useMemo(
+    () => findDisagreements(codes, transcripts, coderA.selections, coderB.selections),
+    [codes, transcripts, coderA.selections, coderB.selections]
+  );
+  const [decisions, setDecisions] = useState<Record<string, AdjudicationDecision>>({});
+  const [transcriptFilter, setTranscriptFilter] = useState('');
+  const [codeFilter, setCodeFilter] = useState('');
+  const [index, setIndex] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  const items = set.disagreements.filter(d =>
+    (!transcriptFilter || d.transcriptId === transcriptFilter) && (!codeFilter || d.codeId === codeFilter));
+  const current = items[Math.min(index, items.length - 1)];
+  const decidedCount = set.disagreements.filter(d => decisions[d.id]).length;
+
+  useEffect(() => setIndex(0), [transcriptFilter, codeFilter]);
+
+  const linesOf = useMemo(() => {
+    const cache = new Map<string, { lines: string[]; lineStarts: number[] }>();
+    return (transcript: Transcript) => {
+      if (!cache.has(transcript.id)) {
+        const lines = getTranscriptLines(transcript.content);
+        const lineStarts: number[] = [];
+        lines.reduce((pos, line) => { lineStarts.push(pos); return pos + line.length; }, 0);
+        cache.set(transcript.id, { lines, lineStarts });
+      }
+      return cache.get(transcript.id)!;
+    };
+  }, [transcripts]);
+
+  const decide = (decision: AdjudicationDecision) => {
+    if (!current) return;
+    const next = { ...decisions, [current.id]: decision };
+    setDecisions(next);
+    // Move on to the next disagreement still waiting for a decision
+    const after = items.findIndex((d, i) => i > index && !next[d.id]);
+    if (after !== -1) setIndex(after);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft') setIndex(i => Math.max(0, i - 1));
+      else if (e.key === 'ArrowRight') setIndex(i => Math.min(items.length - 1, i + 1));
+      else {
+        const match = DECISIONS.find(d => d.key === e.key);
+        if (!match) return;
+        decide(match.decision);
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(createConsensusSelections(resolveConsensus(set, decisions), transcripts), settledRegions(set, decisions));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const transcriptById = new Map(transcripts.map(t => [t.id, t]));
+  const codeById = new Map(codes.map(c => [c.id, c]));
+  const decisionLabel = (decision: AdjudicationDecision) =>
+    decision === 'a' ? `Accept ${coderA.name}` : decision === 'b' ? `Accept ${coderB.name}` : decision === 'both' ? 'Accept both' : 'Neither';
+
+  const renderCurrent = () => {
+    if (!current) return null;
+    const transcript = transcriptById.get(current.transcriptId)!;
+    const code = codeById.get(current.codeId)!;
+    const { lines, lineStarts } = linesOf(transcript);
+    const lineAt = (pos: number) => {
+      const i = lineStarts.findIndex((start, j) => pos >= start && pos < start + lines[j].length);
+      return i === -1 ? lines.length - 1 : i;
+    };
+    const first = lineAt(current.start);
+    const last = lineAt(current.end - 1);
+    const from = Math.max(0, first - CONTEXT_LINES);
+    const to = Math.min(lines.length - 1, last + CONTEXT_LINES);
+    const chosen = decisions[current.id];
+
+    const column = (label: string, ranges: CodeRange[], decision: AdjudicationDecision) => (
+      <div className={`flex flex-col rounded-xl border-2 ${chosen === decision || chosen === 'both' ? 'border-[var(--accent)]' : 'border-[var(--border)]'} bg-[var(--bg-panel)] overflow-hidden`}>
+        <div className="flex items-center justify-between px-4 py-2 bg-[var(--bg-main)] border-b border-[var(--border)]">
+          <span className="text-sm font-bold text-[var(--text-main)]">{label}</span>
+          <span className="text-xs text-[var(--text-muted)]">{ranges.length === 0 ? 'Not coded' : `${ranges.reduce((n, [s, e]) => n + e - s, 0)} characters coded`}</span>
+        </div>
+        <div className="flex-1 p-4 overflow-y-auto">
+          <ContextText lines={lines} lineStarts={lineStarts} from={from} to={to} ranges={ranges} color={code.color} />
+        </div>
+        <button
+          onClick={() => decide(decision)}
+          className={`m-3 px-3 py-2 rounded-lg text-sm font-bold transition-colors ${chosen === decision ? 'bg-[var(--accent)] text-[var(--accent-text)]' : 'bg-[var(--bg-main)] text-[var(--text-main)] hover:bg-[var(--border)]'}`}
+        >
+          {decisionLabel(decision)} <kbd className="ml-1 text-[10px] opacity-60">{DECISIONS.find(d => d.decision === decision)!.key}</kbd>
+        </button>
+      </div>
+    );
+
+    return (
+      <div className="flex-1 flex flex-col min-h-0">
+        <div className="flex items-center gap-2 mb-3 text-sm">
+          <span className="w-3 h-3 rounded-full" style={{ backgroundColor: code.color }} />
+          <span className="font-bold text-[var(--text-main)]">{code.name}</span>
+          <span className="text-[var(--text-muted)]">· {transcript.name} · {first === last ? `Line ${first + 1}` : `Lines ${first + 1}–${last + 1}`}</span>
+          {chosen && <span className="ml-auto text-xs font-bold text-[var(--accent)]">{decisionLabel(chosen)}</span>}
+        </div>
+        <div className="flex-1 grid grid-cols-2 gap-4 min-h-0">
+          {column(coderA.name, current.a, 'a')}
+          {column(coderB.name, current.b, 'b')}
+        </div>
+        <div className="flex justify-center gap-3 mt-3">
+          {(['both', 'neither'] as AdjudicationDecision[]).map(decision => (
+            <button
+              key={decision}
+              onClick={() => decide(decision)}
+              className={`px-4 py-2 rounded-lg text-sm font-bold transition-colors ${chosen === decision ? 'bg-[var(--accent)] text-[var(--accent-text)]' : 'bg-[var(--bg-main)] text-[var(--text-main)] hover:bg-[var(--border)]'}`}
+            >
+              {decisionLabel(decision)} <kbd className="ml-1 text-[10px] opacity-60">{DECISIONS.find(d => d.decision === decision)!.key}</kbd>
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const disagreeingTranscripts = transcripts.filter(t => set.disagreements.some(d => d.transcriptId === t.id));
+  const disagreeingCodes = codes.filter(c => set.disagreements.some(d => d.codeId === c.id));
+  const selectClass = 'bg-[var(--bg-main)] border border-[var(--border)] text-[var(--text-main)] text-sm rounded-md px-2 py-1.5 outline-none max-w-[14rem]';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div
+        className="bg-[var(--bg-panel)] border border-[var(--border)] rounded-2xl shadow-2xl w-full max-w-6xl h-full max-h-[90vh] flex flex-col overflow-hidden"
+        role="dialog"
+        aria-modal="true"
+      >
+        <div className="flex items-center gap-3 px-6 py-4 border-b border-[var(--border)]">
+          <Gavel size={20} className="text-[var(--accent)]" />
+          <h3 className="font-bold text-lg text-[var(--text-main)] flex-1">Adjudicate: {coderA.name} vs {coderB.name}</h3>
+          <select value={transcriptFilter} onChange={e => setTranscriptFilter(e.target.value)} className={selectClass}>
+            <option value="">All documents</option>
+            {disagreeingTranscripts.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+          <select value={codeFilter} onChange={e => setCodeFilter(e.target.value)} className={selectClass}>
+            <option value="">All codes</option>
+            {disagreeingCodes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          <button onClick={onClose} className="p-2 hover:bg-[var(--bg-main)] rounded-full text-[var(--text-muted)] hover:text-[var(--text-main)]" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col p-6 min-h-0 bg-[var(--bg-main)]">
+          {set.disagreements.length === 0 ? (
+            <div className="flex-1 flex items-center justify-center text-[var(--text-muted)] italic">
+              {set.agreed.length === 0 ? 'Neither coder has coded text with these codes.' : 'The two coders agree everywhere: nothing to adjudicate.'}
+            </div>
+          ) : items.length === 0 ? (
+            <div className="flex-1 flex items-center justify-center text-[var(--text-muted)] italic">No disagreements match the filters.</div>
+          ) : renderCurrent()}
+        </div>
+
+        <div className="flex items-center gap-3 px-6 py-3 border-t border-[var(--border)] text-sm">
+          <button onClick={() => setIndex(i => Math.max(0, i - 1))} disabled={index === 0} className="p-1.5 rounded hover:bg-[var(--bg-main)] disabled:opacity-30" title="Previous (←)">
+            <ChevronLeft size={18} />
+          </button>
+          <span className="font-bold text-[var(--text-main)]">{items.length === 0 ? 0 : Math.min(index, items.length - 1) + 1} of {items.length}</span>
+          <button onClick={() => setIndex(i => Math.min(items.length - 1, i + 1))} disabled={index >= items.length - 1} className="p-1.5 rounded hover:bg-[var(--bg-main)] disabled:opacity-30" title="Next (→)">
+            <ChevronRight size={18} />
+          </button>
+          <span className="flex-1 text-xs text-[var(--text-muted)]">
+            {decidedCount} of {set.disagreements.length} decided · {set.agreed.length} matching coding{set.agreed.length === 1 ? '' : 's'} kept as-is
+            {decidedCount < set.disagreements.length && ' · undecided ones keep any consensus saved earlier'}
+          </span>
+          <button
+            onClick={handleSave}
+            disabled={saving || (set.agreed.length === 0 && decidedCount === 0)}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg font-bold bg-[var(--accent)] text-[var(--accent-text)] disabled:opacity-40"
+          >
+            {saving && <RefreshCw size={14} className="animate-spin" />} Save consensus
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,118 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { Project, CollaboratorData } from '../types';
-import { X, Download, Filter, BarChart as IconChart, Users, RefreshCw, Info } from 'lucide-react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { getAllCollaboratorData } from '../services/firestoreService';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { Project, CollaboratorData, Selection, Transcript, CodeQuery, Code } from '../types';
+import { X, Download, Filter, BarChart as IconChart, Users, RefreshCw, Info, FileSpreadsheet, MessagesSquare, Table2, ChevronRight, ChevronDown, Grid3x3, Film, Gavel, Layers } from 'lucide-react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { getAllCollaboratorData, isSharedLayer } from '../services/firestoreService';
+import { computeCooccurrence, createSpeakerLookup, buildCodeMatrix, matrixCellValue, MatrixCellMode, MatrixColumn } from '../utils/analysisUtils';
+import { getTranscriptLines } from '../utils/highlightUtils';
+import { listProjectSpeakers, speakerColor } from '../utils/speakerUtils';
+import { buildAttributeDimension, attributeBucketLabel, MISSING_ATTRIBUTE_VALUE } from '../utils/attributeUtils';
+import { exportCodedSegmentReport, exportCodeMatrix, ReportCoder } from '../utils/excelReport';
+import { mediaRangeLabel } from '../utils/mediaSync';
+import { RegionThumbnail } from './RegionThumbnail';
+import { CodeQueryPanel, QueryCoder } from './CodeQueryPanel';
+import { CodeQuerySpan } from '../utils/codeQuery';
+import { computeReliability, Estimate, ReliabilityUnit } from '../utils/reliability';
+import { ReliabilityInfoPanel } from './ReliabilityInfoPanel';
+import { AdjudicationPanel } from './AdjudicationPanel';
+import { ConsensusSpan } from '../utils/adjudication';
+import { TextMiningPanel } from './TextMiningPanel';
+import { groupTranscriptSets, trendColumns, trendValue, TREND_MEASURES } from '../utils/transcriptSets';
+import { generateColor } from '../utils/colorUtils';
+
+// Filter/column key for selections on lines without a speaker
+const NO_SPEAKER = '__none__';
+
+// Media and image segments have no transcript text: they show their time range or a thumbnail
+const SegmentText: React.FC<{ selection: Selection; transcript?: Transcript }> = ({ selection, transcript }) => {
+    const page = selection.region && transcript?.images?.[selection.region.page];
+    if (page) return <RegionThumbnail image={page} region={selection.region!} />;
+    if (selection.media) {
+        return (
+            <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-[var(--bg-main)] border border-[var(--border)] text-xs font-mono not-italic text-[var(--text-muted)]">
+                <Film size={12} /> {mediaRangeLabel(selection.media)}
+            </span>
+        );
+    }
+    return <>"{selection.text}"</>;
+};
+
+interface CrossTabColumn {
+    key: string;
+    label: string;
+    color?: string;
+    note?: string;
+    muted?: boolean;
+}
+
+// Selections as listed in Compare mode, labelled with the coder they came from
+type CoderSelection = Selection & { userName?: string };
+
+// Matrix column choice: one column per document, one per bucket of an attribute, or one
+// per set of a transcript-set group (option value MATRIX_BY_SETS + group name)
+const MATRIX_BY_DOCUMENT = '__documents__';
+const MATRIX_BY_SETS = '__sets__:';
+const MATRIX_TOTAL = '__total__';
+
+// Chance-corrected statistics: a value with its 95% interval, coloured by the usual thresholds
+const reliabilityTone = (value: number | null) =>
+    value === null ? 'text-[var(--text-muted)]' : value >= 0.8 ? 'text-green-600' : value >= 0.667 ? 'text-yellow-600' : 'text-red-600';
+
+const EstimateCell: React.FC<{ estimate?: Estimate }> = ({ estimate }) => {
+    if (!estimate || estimate.value === null) {
+        return <span className="text-[var(--text-muted)]" title="Undefined: every unit got the same rating">—</span>;
+    }
+    return (
+        <span className="whitespace-nowrap">
+            <span className={`font-bold ${reliabilityTone(estimate.value)}`}>{estimate.value.toFixed(2)}</span>
+            {estimate.low !== null && estimate.high !== null && (
+                <span className="ml-1 text-xs font-mono text-[var(--text-muted)]">[{estimate.low.toFixed(2)}, {estimate.high.toFixed(2)}]</span>
+            )}
+        </span>
+    );
+};
+
+const MATRIX_CELL_MODES: { mode: MatrixCellMode; label: string }[] = [
+    { mode: 'segments', label: 'Segments' },
+    { mode: 'documents', label: 'Documents' },
+    { mode: 'coverage', label: 'Coverage %' },
+];
+
+interface TrendSeries {
+    key: string;
+    name: string;
+    color: string;
+}
+
+// Prevalence across the sets of a group, one line per series; a set with no documents leaves a gap
+const TrendChart: React.FC<{ data: Record<string, string | number | null>[]; series: TrendSeries[]; yMax: number; unit: string; height: number; legend?: boolean }> = ({ data, series, yMax, unit, height, legend }) => {
+    const format = (value: number) => `${unit === '%' ? value.toFixed(0) : value.toFixed(2)}${unit}`;
+    return (
+        <ResponsiveContainer width="100%" height={height}>
+            <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" />
+                <XAxis dataKey="name" tick={{ fontSize: 11, fill: 'var(--text-muted)' }} />
+                <YAxis domain={[0, yMax]} tick={{ fontSize: 11, fill: 'var(--text-muted)' }} tickFormatter={format} width={50} />
+                <Tooltip
+                    contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: 'var(--bg-panel)', color: 'var(--text-main)' }}
+                    labelStyle={{ fontWeight: 'bold', marginBottom: '5px' }}
+                    formatter={(value: number) => format(value)}
+                />
+                {legend && <Legend />}
+                {series.map(s => (
+                    <Line key={s.key} type="monotone" dataKey={s.key} name={s.name} stroke={s.color} strokeWidth={2} dot={{ r: 3 }} isAnimationActive={false} />
+                ))}
+            </LineChart>
+        </ResponsiveContainer>
+    );
+};
+
+// Rounds an axis maximum up to 1, 2 or 5 times a power of ten
+const niceCeiling = (value: number) => {
+    if (value <= 0) return 1;
+    const step = 10 ** Math.floor(Math.log10(value));
+    return [1, 2, 5, 10].map(m => m * step).find(v => v >= value)!;
+};
 
 interface Props {
     project: Project;
@@ -11,27 +121,58 @@ interface Props {
     cloudProjectId?: string;
     currentUserId?: string;
     cloudProject?: { members: Record<string, any> } | null;
+    // Coding queries; omitted while the project is read-only
+    onSaveCodeQuery?: (query: CodeQuery) => void;
+    onDeleteCodeQuery?: (id: string) => void;
+    onCreateCodeFromQuery?: (name: string, spans: CodeQuerySpan[]) => void;
+    // Adjudication into the consensus layer; admins of cloud projects only
+    onSaveConsensus?: (selections: Selection[], regions: ConsensusSpan[]) => Promise<void>;
+    // Coding concordance hits from the words view; omitted while the project is read-only
+    codableCodes?: Code[];
+    onCodeSpans?: (codeId: string, spans: { transcriptId: string; start: number; end: number }[]) => void;
+    onAlert: (title: string, message: string) => void;
 }
 
-export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, cloudProjectId, currentUserId, cloudProject }) => {
-    const [viewMode, setViewMode] = useState<'chart' | 'table' | 'segments' | 'cooccurrence' | 'reliability'>('chart');
+export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, cloudProjectId, currentUserId, cloudProject, onSaveCodeQuery, onDeleteCodeQuery, onCreateCodeFromQuery, onSaveConsensus, codableCodes, onCodeSpans, onAlert }) => {
+    const [viewMode, setViewMode] = useState<'chart' | 'table' | 'segments' | 'cooccurrence' | 'query' | 'words' | 'speakers' | 'attributes' | 'matrix' | 'sets' | 'reliability'>('chart');
     const [selectedFamilyIds, setSelectedFamilyIds] = useState<string[]>([]);
+    const [selectedSpeakers, setSelectedSpeakers] = useState<string[]>([]); // Empty = All
+    const [attributeFilters, setAttributeFilters] = useState<Record<string, string[]>>({}); // Attribute id -> selected buckets, empty = All
+    const [crossTabAttributeId, setCrossTabAttributeId] = useState<string>('');
+
+    // Matrix State
+    const [matrixColumnsBy, setMatrixColumnsBy] = useState<string>(MATRIX_BY_DOCUMENT);
+    const [matrixCellMode, setMatrixCellMode] = useState<MatrixCellMode>('segments');
+    const [matrixRollUp, setMatrixRollUp] = useState(true);
+    const [collapsedMatrixRows, setCollapsedMatrixRows] = useState<string[]>([]);
+    const [matrixFocus, setMatrixFocus] = useState<{ codeId: string; columnKey: string } | null>(null);
+
+    // Transcript Sets State
+    const [trendAcrossGroup, setTrendAcrossGroup] = useState('');
+    const [trendPerGroup, setTrendPerGroup] = useState(''); // Empty = None
+    const [trendMeasure, setTrendMeasure] = useState<MatrixCellMode>('documents');
+    const [trendLayout, setTrendLayout] = useState<'combined' | 'byCode'>('combined');
 
     // Comparison State
     const [compareMode, setCompareMode] = useState(false);
     const [collaboratorData, setCollaboratorData] = useState<CollaboratorData[]>([]);
     const [loadingCollab, setLoadingCollab] = useState(false);
     const [selectedUsers, setSelectedUsers] = useState<string[]>([]); // Empty = All
+    const [includeSharedLayers, setIncludeSharedLayers] = useState(false); // Consensus and master layers as extra "users"
     const [cooccurrenceUser, setCooccurrenceUser] = useState<string>('me');
 
     // Reliability State
 
     const [reliabilityUserA, setReliabilityUserA] = useState<string>('me');
     const [reliabilityUserB, setReliabilityUserB] = useState<string>('');
+    const [reliabilityUnit, setReliabilityUnit] = useState<ReliabilityUnit>('character');
+    const [showAdjudication, setShowAdjudication] = useState(false);
     const [selectedTranscriptIds, setSelectedTranscriptIds] = useState<string[]>([]); // Empty = All
 
     const [codebookFilter, setCodebookFilter] = useState<'all' | 'master' | 'personal'>('master');
     const [showCalcInfo, setShowCalcInfo] = useState(false);
+    const [showExcelMenu, setShowExcelMenu] = useState(false);
+    const [exportingExcel, setExportingExcel] = useState(false);
 
     useEffect(() => {
         if (compareMode) {
@@ -49,10 +190,11 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
             // Fetch ALL collaborator data (don't exclude self, we want everyone for comparison)
             const data = await getAllCollaboratorData(cloudProjectId, '__FETCH_ALL__');
 
-            // Filter to only include actual current project members
+            // Filter to only include actual current project members, plus the shared layers
+            // (kept apart from the coders unless includeSharedLayers is on)
             const memberIds = cloudProject ? new Set(Object.keys(cloudProject.members)) : null;
             const filteredData = memberIds
-                ? data.filter(d => memberIds.has(d.userId))
+                ? data.filter(d => memberIds.has(d.userId) || isSharedLayer(d.userId))
                 : data;
 
             setCollaboratorData(filteredData);
@@ -63,6 +205,60 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
         }
     };
 
+    // Excel report: the current filters decide which codes are included; cloud projects
+    // can optionally add every collaborator's selections as extra coder layers.
+    const handleExcelExport = async (includeCollaborators: boolean) => {
+        setShowExcelMenu(false);
+        let coders: ReportCoder[] | undefined;
+        if (includeCollaborators && cloudProjectId) {
+            setExportingExcel(true);
+            try {
+                let data = collaboratorData;
+                if (data.length === 0) {
+                    const memberIds = cloudProject ? new Set(Object.keys(cloudProject.members)) : null;
+                    data = (await getAllCollaboratorData(cloudProjectId, '__FETCH_ALL__'))
+                        .filter(d => !memberIds || memberIds.has(d.userId) || isSharedLayer(d.userId));
+                }
+                coders = [
+                    { name: 'Me', selections: project.selections },
+                    ...data
+                        .filter(d => d.userId !== currentUserId && (includeSharedLayers || !isSharedLayer(d.userId)))
+                        .map(d => ({ name: d.displayName, selections: d.selections || [] }))
+                ];
+            } catch (err) {
+                console.error(err);
+                onAlert('Export Failed', "Collaborators' coding could not be loaded, so the report was not exported. Check your connection and try again.");
+                return;
+            } finally {
+                setExportingExcel(false);
+            }
+        }
+        exportCodedSegmentReport(project, { codes: filteredCodes, coders });
+    };
+
+    // Speakers: every selection is attributed to the speaker of the line it starts on
+    const projectSpeakers = useMemo(() => listProjectSpeakers(project.transcripts), [project.transcripts]);
+    const speakerOf = useMemo(() => createSpeakerLookup(project.transcripts), [project.transcripts]);
+    const speakerKey = (s: Selection) => speakerOf(s) ?? NO_SPEAKER;
+
+    // Document attributes: transcripts grouped into buckets per attribute
+    const attributeDimensions = useMemo(
+        () => (project.attributes || []).map(a => buildAttributeDimension(a, project.transcripts)),
+        [project.attributes, project.transcripts]
+    );
+    const transcriptById = useMemo(() => new Map(project.transcripts.map(t => [t.id, t])), [project.transcripts]);
+    const passesAttributeFilters = (transcript: Transcript | undefined) => attributeDimensions.every(d => {
+        const selected = attributeFilters[d.attribute.id];
+        return !selected || selected.length === 0 || selected.includes(d.bucketOf(transcript));
+    });
+    const crossTabDimension = attributeDimensions.find(d => d.attribute.id === crossTabAttributeId) || attributeDimensions[0];
+
+    // Orphaned selections are left out: their offsets point at text that has since changed
+    const passesSelectionFilters = (s: Selection) =>
+        !s.orphaned &&
+        (selectedSpeakers.length === 0 || selectedSpeakers.includes(speakerKey(s))) &&
+        passesAttributeFilters(transcriptById.get(s.transcriptId));
+
     // Unified User Resolution (fixes duplicates)
     const allResolvedUsers = useMemo(() => {
         if (!compareMode || !cloudProjectId) return [];
@@ -91,7 +287,9 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
             return false;
         };
 
-        const others = collaboratorData.filter(c => !isMe(c));
+        // The consensus and master layers are built from the coders' own work, so counting them
+        // as coders would inflate agreement; they join only when asked for
+        const others = collaboratorData.filter(c => !isMe(c) && (includeSharedLayers || !isSharedLayer(c.userId)));
 
         const myData: CollaboratorData = {
             userId: myId,
@@ -103,7 +301,16 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
         };
 
         return [myData, ...others];
-    }, [compareMode, cloudProjectId, collaboratorData, currentUserId, project.selections]);
+    }, [compareMode, cloudProjectId, collaboratorData, currentUserId, project.selections, includeSharedLayers]);
+
+    const hasSharedLayers = collaboratorData.some(c => isSharedLayer(c.userId));
+
+    // Coding query: coders to pick from (collaborators once Compare has loaded them)
+    const queryCoders = useMemo<QueryCoder[]>(() => allResolvedUsers.length > 0
+        ? allResolvedUsers.map(u => ({ id: u.userId, name: u.displayName, selections: u.selections || [] }))
+        : [{ id: 'me', name: 'Me', selections: project.selections }],
+        [allResolvedUsers, project.selections]);
+    const queryFilter = useCallback(passesSelectionFilters, [selectedSpeakers, speakerOf, attributeFilters, attributeDimensions]);
 
     const { chartData, filteredCodes, allSelections, userKeys } = useMemo(() => {
         const allCodes = project.codes;
@@ -132,7 +339,7 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
 
         // Prepare Data
         let data: any[] = [];
-        let selections: any[] = [];
+        let selections: CoderSelection[] = [];
         let users: string[] = [];
 
         if (compareMode && cloudProjectId) {
@@ -151,7 +358,7 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
             data = displayCodes.map(code => {
                 const row: any = { name: code.name, id: code.id, fill: code.color };
                 activeUsers.forEach(u => {
-                    const count = u.selections.filter(s => s.codeId === code.id).length;
+                    const count = u.selections.filter(s => s.codeId === code.id && passesSelectionFilters(s)).length;
                     row[u.displayName] = count;
                 });
                 return row;
@@ -162,12 +369,12 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
                 const userSelections = u.selections.map(s => ({ ...s, userName: u.displayName }));
                 selections.push(...userSelections);
             });
-            selections = selections.filter(s => displayCodes.some(c => c.id === s.codeId));
+            selections = selections.filter(s => displayCodes.some(c => c.id === s.codeId) && passesSelectionFilters(s));
 
         } else {
             // Standard Single View
             data = displayCodes.map(code => {
-                const totalCount = project.selections.filter(s => s.codeId === code.id).length;
+                const totalCount = project.selections.filter(s => s.codeId === code.id && passesSelectionFilters(s)).length;
                 return {
                     name: code.name,
                     count: totalCount,
@@ -178,11 +385,11 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
                 .filter(item => item.count > 0)
                 .sort((a, b) => b.count - a.count);
 
-            selections = project.selections.filter(s => displayCodes.some(c => c.id === s.codeId));
+            selections = project.selections.filter(s => displayCodes.some(c => c.id === s.codeId) && passesSelectionFilters(s));
         }
 
         return { chartData: data, filteredCodes: displayCodes, allSelections: selections, userKeys: users };
-    }, [project, selectedFamilyIds, compareMode, allResolvedUsers, selectedUsers, codebookFilter]);
+    }, [project, selectedFamilyIds, compareMode, allResolvedUsers, selectedUsers, codebookFilter, selectedSpeakers, speakerOf, attributeFilters, attributeDimensions]);
 
     const rootCodes = project.codes.filter(c => !c.parentId);
 
@@ -208,54 +415,130 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
         }
 
         // Use strictly the codes currently filtered/visible
-        // Sort them alphabetically for a cleaner matrix
-        const sortedCodes = [...filteredCodes].sort((a, b) => a.name.localeCompare(b.name));
-        const relevantCodeIds = new Set(sortedCodes.map(c => c.id));
-
-        // Filter selections to only those relevant to displayed codes
-        const relevantSelections = targetSelections.filter(s => relevantCodeIds.has(s.codeId));
-
-        const matrix: Record<string, Record<string, number>> = {};
-
-        // Initialize matrix
-        sortedCodes.forEach(a => {
-            matrix[a.id] = {};
-            sortedCodes.forEach(b => {
-                matrix[a.id][b.id] = 0;
+        return computeCooccurrence(filteredCodes, targetSelections.filter(passesSelectionFilters));
+    }, [filteredCodes, project.selections, compareMode, cooccurrenceUser, collaboratorData, currentUserId, selectedSpeakers, speakerOf, attributeFilters, attributeDimensions]);
+
+    // Code x speaker / code x attribute cross-tab over the currently filtered selections
+    const crossTab = useMemo(() => {
+        let columns: CrossTabColumn[] = [];
+        let keyOf: ((s: Selection) => string) | null = null;
+        if (viewMode === 'speakers') {
+            columns = [
+                ...projectSpeakers.map(name => ({ key: name, label: name, color: speakerColor(projectSpeakers, name) })),
+                { key: NO_SPEAKER, label: 'No speaker', muted: true }
+            ];
+            keyOf = speakerKey;
+        } else if (viewMode === 'attributes' && crossTabDimension) {
+            columns = crossTabDimension.buckets.map(bucket => {
+                const documents = project.transcripts.filter(t => crossTabDimension.bucketOf(t) === bucket).length;
+                return {
+                    key: bucket,
+                    label: attributeBucketLabel(bucket),
+                    note: `${documents} doc${documents === 1 ? '' : 's'}`,
+                    muted: bucket === MISSING_ATTRIBUTE_VALUE
+                };
             });
-        });
-
-        const byTranscript: Record<string, typeof targetSelections> = {};
-        relevantSelections.forEach(s => {
-            if (!byTranscript[s.transcriptId]) byTranscript[s.transcriptId] = [];
-            byTranscript[s.transcriptId].push(s);
-        });
+            keyOf = s => crossTabDimension.bucketOf(transcriptById.get(s.transcriptId));
+        }
 
+        const counts: Record<string, Record<string, number>> = {};
+        const used = new Set<string>();
         let maxCount = 0;
-
-        Object.values(byTranscript).forEach(sels => {
-            for (let i = 0; i < sels.length; i++) {
-                for (let j = i + 1; j < sels.length; j++) {
-                    const a = sels[i];
-                    const b = sels[j];
-                    if (a.codeId === b.codeId) continue;
-
-                    // Check for overlap: StartA < EndB && EndA > StartB
-                    const isOverlapping = (a.startIndex < b.endIndex && a.endIndex > b.startIndex);
-
-                    if (isOverlapping) {
-                        if (matrix[a.codeId] && matrix[b.codeId]) {
-                            matrix[a.codeId][b.codeId] = (matrix[a.codeId][b.codeId] || 0) + 1;
-                            matrix[b.codeId][a.codeId] = (matrix[b.codeId][a.codeId] || 0) + 1;
-
-                            maxCount = Math.max(maxCount, matrix[a.codeId][b.codeId]);
-                        }
-                    }
-                }
-            }
+        if (keyOf) {
+            allSelections.forEach((s: Selection) => {
+                const key = keyOf!(s);
+                used.add(key);
+                counts[s.codeId] = counts[s.codeId] || {};
+                counts[s.codeId][key] = (counts[s.codeId][key] || 0) + 1;
+                maxCount = Math.max(maxCount, counts[s.codeId][key]);
+            });
+        }
+        return { columns: columns.filter(c => used.has(c.key)), counts, maxCount };
+    }, [viewMode, allSelections, projectSpeakers, speakerOf, crossTabDimension, transcriptById, project.transcripts]);
+
+    // Code x document / attribute / transcript set matrix with optional parent roll-up
+    const setGroups = useMemo(() => groupTranscriptSets(project.transcriptSets || []), [project.transcriptSets]);
+    const matrixDimension = attributeDimensions.find(d => d.attribute.id === matrixColumnsBy);
+    const matrixSetGroup = setGroups.find(g => MATRIX_BY_SETS + g.group === matrixColumnsBy);
+    const matrixColumnsLabel = matrixDimension ? matrixDimension.attribute.name : matrixSetGroup ? matrixSetGroup.group : 'Document';
+    const transcriptLengths = useMemo(() => {
+        const lengths: Record<string, number> = {};
+        if (viewMode !== 'matrix' && viewMode !== 'sets') return lengths;
+        project.transcripts.forEach(t => { lengths[t.id] = getTranscriptLines(t.content).join('').length; });
+        return lengths;
+    }, [viewMode, project.transcripts]);
+
+    const codeMatrix = useMemo(() => {
+        if (viewMode !== 'matrix') return null;
+        const transcripts = project.transcripts.filter(passesAttributeFilters);
+        let columns: MatrixColumn[];
+        if (matrixDimension) {
+            columns = matrixDimension.buckets
+                .map(bucket => ({
+                    key: bucket,
+                    label: attributeBucketLabel(bucket),
+                    transcriptIds: transcripts.filter(t => matrixDimension.bucketOf(t) === bucket).map(t => t.id)
+                }))
+                .filter(col => col.transcriptIds.length > 0);
+        } else if (matrixSetGroup) {
+            columns = trendColumns(matrixSetGroup.sets, null, new Set(transcripts.map(t => t.id)))
+                .filter(col => col.transcriptIds.length > 0);
+        } else {
+            columns = transcripts.map(t => ({ key: t.id, label: t.name, transcriptIds: [t.id] }));
+        }
+        columns.push({ key: MATRIX_TOTAL, label: 'Total', transcriptIds: transcripts.map(t => t.id) });
+        return buildCodeMatrix(filteredCodes, allSelections, columns, transcriptLengths, matrixRollUp);
+    }, [viewMode, project.transcripts, matrixDimension, matrixSetGroup, filteredCodes, allSelections, transcriptLengths, matrixRollUp, attributeFilters, attributeDimensions]);
+
+    // Code prevalence across the sets of one group, optionally split by the sets of another
+    // (e.g. waves per participant). Parents include their sub-codes; top-level codes are
+    // plotted unless families are picked, then every code in them.
+    const setTrend = useMemo(() => {
+        if (viewMode !== 'sets') return null;
+        const across = setGroups.find(g => g.group === trendAcrossGroup) || setGroups[0];
+        if (!across) return null;
+        const per = setGroups.find(g => g.group === trendPerGroup && g.group !== across.group) || null;
+        const inScope = new Set(project.transcripts.filter(passesAttributeFilters).map(t => t.id));
+        const columns = trendColumns(across.sets, per?.sets || null, inScope);
+        const matrix = buildCodeMatrix(filteredCodes, allSelections, columns, transcriptLengths, true);
+        const columnByKey = new Map(columns.map(c => [c.key, c]));
+        const valueOf = (codeId: string, key: string) => trendValue(matrix.cells[codeId]?.[key], columnByKey.get(key)!, trendMeasure);
+        const codes = matrix.rows
+            .filter(r => selectedFamilyIds.length > 0 || r.depth === 0)
+            .map(r => r.code)
+            .filter(code => columns.some(col => (valueOf(code.id, col.key) || 0) > 0));
+        const yMax = niceCeiling(Math.max(0, ...codes.flatMap(code => columns.map(col => valueOf(code.id, col.key) || 0))));
+        return { across, per, columns, codes, valueOf, yMax: trendMeasure === 'segments' ? yMax : Math.min(100, yMax) };
+    }, [viewMode, setGroups, trendAcrossGroup, trendPerGroup, trendMeasure, project.transcripts, filteredCodes, allSelections, transcriptLengths, selectedFamilyIds, attributeFilters, attributeDimensions]);
+
+    // Rows below a collapsed parent are hidden; the parent keeps its rolled-up counts
+    const visibleMatrixRows = useMemo(() => {
+        if (!codeMatrix) return [];
+        const visible: typeof codeMatrix.rows = [];
+        let hiddenBelowDepth = Infinity;
+        codeMatrix.rows.forEach(row => {
+            if (row.depth > hiddenBelowDepth) return;
+            hiddenBelowDepth = collapsedMatrixRows.includes(row.code.id) ? row.depth : Infinity;
+            visible.push(row);
         });
-        return { matrix, codes: sortedCodes, maxCount };
-    }, [filteredCodes, project.selections, compareMode, cooccurrenceUser, collaboratorData, currentUserId]);
+        return visible;
+    }, [codeMatrix, collapsedMatrixRows]);
+
+    const matrixMaxValue = useMemo(() => {
+        if (!codeMatrix) return 0;
+        let max = 0;
+        codeMatrix.rows.forEach(row => codeMatrix.columns.forEach(col => {
+            if (col.key !== MATRIX_TOTAL) max = Math.max(max, matrixCellValue(codeMatrix.cells[row.code.id]?.[col.key], matrixCellMode));
+        }));
+        return max;
+    }, [codeMatrix, matrixCellMode]);
+
+    const formatMatrixValue = (value: number) => {
+        if (value === 0) return '-';
+        return matrixCellMode === 'coverage' ? `${value < 0.1 ? '<0.1' : value.toFixed(1)}%` : String(value);
+    };
+
+    const matrixFocusCell = codeMatrix && matrixFocus ? codeMatrix.cells[matrixFocus.codeId]?.[matrixFocus.columnKey] : undefined;
 
     // Helper: Calculate Jaccard for a specific set of selections (generic)
     const calculateJaccardScore = (selectionsA: any[], selectionsB: any[]) => {
@@ -326,7 +609,7 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
         }
 
         // Helper filter
-        const filterByTranscript = (s: any) => selectedTranscriptIds.length === 0 || selectedTranscriptIds.includes(s.transcriptId);
+        const filterByTranscript = (s: Selection) => !s.orphaned && (selectedTranscriptIds.length === 0 || selectedTranscriptIds.includes(s.transcriptId));
 
         // 1. User Matrix (Global Agreement across ALL codes)
         // We calculate weighted average or global intersection/union sum? 
@@ -415,7 +698,7 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
         const allSelectionsB = getUserSelections(reliabilityUserB);
 
         // Filter by Transcript if selected
-        const filterByTranscript = (s: any) => selectedTranscriptIds.length === 0 || selectedTranscriptIds.includes(s.transcriptId);
+        const filterByTranscript = (s: Selection) => !s.orphaned && (selectedTranscriptIds.length === 0 || selectedTranscriptIds.includes(s.transcriptId));
 
         // Calculate for ALL displayed codes
         const metrics = filteredCodes.map(code => {
@@ -443,6 +726,38 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
 
     }, [compareMode, viewMode, reliabilityUserA, reliabilityUserB, allResolvedUsers, filteredCodes, selectedTranscriptIds]);
 
+    // Cohen's / Fleiss' kappa and Krippendorff's alpha for the coders and documents in scope
+    const chanceCorrected = useMemo(() => {
+        if (!compareMode || viewMode !== 'reliability') return null;
+        const coders = (selectedUsers.length > 0 ? allResolvedUsers.filter(u => selectedUsers.includes(u.userId)) : allResolvedUsers)
+            .map(u => ({ id: u.userId, selections: u.selections || [] }));
+        if (coders.length < 2) return null;
+        const transcripts = selectedTranscriptIds.length === 0 ? project.transcripts : project.transcripts.filter(t => selectedTranscriptIds.includes(t.id));
+        return computeReliability(filteredCodes, coders, transcripts, reliabilityUnit);
+    }, [compareMode, viewMode, allResolvedUsers, selectedUsers, selectedTranscriptIds, project.transcripts, filteredCodes, reliabilityUnit]);
+
+    // Adjudication walks the two users picked for pairwise inspection. Only real coders can be
+    // adjudicated: the shared layers may be inspected when included, but not settled against.
+    const adjudicationCoders = useMemo(() => {
+        const a = allResolvedUsers.find(u => u.userId === reliabilityUserA);
+        const b = allResolvedUsers.find(u => u.userId === reliabilityUserB);
+        if (!a || !b || a.userId === b.userId || isSharedLayer(a.userId) || isSharedLayer(b.userId)) return null;
+        return [a, b].map(u => ({ id: u.userId, name: u.displayName, selections: u.selections || [] }));
+    }, [allResolvedUsers, reliabilityUserA, reliabilityUserB]);
+    const adjudicationTranscripts = useMemo(
+        () => selectedTranscriptIds.length === 0 ? project.transcripts : project.transcripts.filter(t => selectedTranscriptIds.includes(t.id)),
+        [project.transcripts, selectedTranscriptIds]
+    );
+
+    // Words view: documents chosen in the Documents filter that pass the attribute filters
+    const miningTranscripts = useMemo(
+        () => adjudicationTranscripts.filter(passesAttributeFilters),
+        [adjudicationTranscripts, attributeFilters, attributeDimensions]
+    );
+
+    const pairKappa = (a: string, b: string) =>
+        chanceCorrected?.pairs.find(p => (p.coderA === a && p.coderB === b) || (p.coderA === b && p.coderB === a));
+
     // Smart Sizing Logic
     const { cellClass, headerHeight, textSize } = useMemo(() => {
         const count = cooccurrenceMatrix.codes.length;
@@ -480,7 +795,7 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
                         )}
 
                         <div className="flex bg-[var(--bg-main)] rounded-lg p-1">
-                            {['chart', 'table', 'segments', 'cooccurrence'].map(mode => (
+                            {['chart', 'table', 'segments', 'cooccurrence', 'query', 'words', ...(projectSpeakers.length > 0 ? ['speakers'] : []), ...(attributeDimensions.length > 0 ? ['attributes'] : []), 'matrix', ...(setGroups.length > 0 ? ['sets'] : [])].map(mode => (
                                 <button
                                     key={mode}
                                     onClick={() => setViewMode(mode as any)}
@@ -505,6 +820,27 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
                             <Download size={16} />
                             <span>Export CSV</span>
                         </button>
+                        <div className="relative">
+                            <button
+                                onClick={() => cloudProjectId ? setShowExcelMenu(!showExcelMenu) : handleExcelExport(false)}
+                                disabled={exportingExcel}
+                                className="flex items-center space-x-2 px-4 py-2 bg-emerald-700 text-white rounded-lg hover:bg-emerald-800 text-sm font-bold transition-colors shadow-sm disabled:opacity-60"
+                                title="Multi-sheet coded-segment report"
+                            >
+                                {exportingExcel ? <RefreshCw size={16} className="animate-spin" /> : <FileSpreadsheet size={16} />}
+                                <span>Export Excel</span>
+                            </button>
+                            {showExcelMenu && (
+                                <div className="absolute right-0 mt-1 w-56 bg-[var(--bg-panel)] border border-[var(--border)] rounded-lg shadow-xl z-50 py-1 text-sm">
+                                    <button onClick={() => handleExcelExport(false)} className="w-full text-left px-3 py-2 hover:bg-[var(--bg-main)] text-[var(--text-main)]">
+                                        My coding only
+                                    </button>
+                                    <button onClick={() => handleExcelExport(true)} className="w-full text-left px-3 py-2 hover:bg-[var(--bg-main)] text-[var(--text-main)]">
+                                        Include all collaborators
+                                    </button>
+                                </div>
+                            )}
+                        </div>
                         <button onClick={onClose} className="p-2 hover:bg-[var(--bg-main)] rounded-full transition-colors">
                             <X size={24} className="text-[var(--text-muted)]" />
                         </button>
@@ -530,8 +866,8 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
                             </select>
                         </div>
 
-                        {/* Document Filter (Reliability Only) */}
-                        {viewMode === 'reliability' && (
+                        {/* Document Filter (Reliability, Query and Words) */}
+                        {(viewMode === 'reliability' || viewMode === 'query' || viewMode === 'words') && (
                             <div className="mb-6">
                                 <div className="flex items-center mb-2 text-[var(--text-muted)] font-bold text-sm uppercase tracking-wider">
                                     <Filter size={14} className="mr-2" /> Documents
@@ -615,8 +951,103 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
                             })}
                         </div>
 
+                        {/* Attribute Filters */}
+                        {attributeDimensions.length > 0 && (
+                            <div className="mb-6">
+                                <div className="flex items-center mb-2 text-[var(--text-muted)] font-bold text-sm uppercase tracking-wider">
+                                    <Table2 size={14} className="mr-2" /> Attributes
+                                </div>
+                                <div className="space-y-1">
+                                    {attributeDimensions.map(d => {
+                                        const selected = attributeFilters[d.attribute.id] || [];
+                                        return (
+                                            <details key={d.attribute.id} open={selected.length > 0} className="rounded border border-transparent hover:border-[var(--border)]">
+                                                <summary className="px-3 py-2 text-sm cursor-pointer text-[var(--text-main)] flex items-center justify-between">
+                                                    <span className="truncate">{d.attribute.name}</span>
+                                                    {selected.length > 0 && <span className="text-[10px] font-bold text-[var(--accent)]">{selected.length} selected</span>}
+                                                </summary>
+                                                <div className="pb-1 max-h-40 overflow-y-auto">
+                                                    {d.buckets.map(bucket => (
+                                                        <label key={bucket} className="flex items-center gap-2 pl-5 pr-3 py-1 hover:bg-[var(--bg-panel)] rounded cursor-pointer">
+                                                            <input
+                                                                type="checkbox"
+                                                                checked={selected.length === 0 || selected.includes(bucket)}
+                                                                onChange={(e) => {
+                                                                    const checked = e.target.checked;
+                                                                    setAttributeFilters(prev => {
+                                                                        const current = prev[d.attribute.id] || [];
+                                                                        const next = current.length === 0 ? [bucket]
+                                                                            : checked ? [...current, bucket]
+                                                                            : current.filter(b => b !== bucket);
+                                                                        return { ...prev, [d.attribute.id]: next };
+                                                                    });
+                                                                }}
+                                                                className="rounded border-gray-300 text-[var(--accent)] focus:ring-[var(--accent)]"
+                                                            />
+                                                            <span className={`text-sm truncate ${bucket === MISSING_ATTRIBUTE_VALUE ? 'italic text-[var(--text-muted)]' : 'text-[var(--text-main)]'}`}>
+                                                                {attributeBucketLabel(bucket)}
+                                                            </span>
+                                                        </label>
+                                                    ))}
+                                                </div>
+                                            </details>
+                                        );
+                                    })}
+                                </div>
+                                {Object.values(attributeFilters).some(v => v.length > 0) && (
+                                    <button onClick={() => setAttributeFilters({})} className="mt-1 px-3 text-xs text-[var(--accent)] hover:underline">
+                                        Clear attribute filters
+                                    </button>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Speaker Filters */}
+                        {projectSpeakers.length > 0 && (
+                            <div className="mb-6">
+                                <div className="flex items-center mb-2 text-[var(--text-muted)] font-bold text-sm uppercase tracking-wider">
+                                    <MessagesSquare size={14} className="mr-2" /> Speakers
+                                </div>
+                                <div className="space-y-1 max-h-48 overflow-y-auto">
+                                    {[...projectSpeakers, NO_SPEAKER].map(name => {
+                                        const isSelected = selectedSpeakers.includes(name);
+                                        return (
+                                            <label key={name} className="flex items-center gap-2 px-3 py-2 hover:bg-[var(--bg-panel)] rounded cursor-pointer transition-colors border border-transparent hover:border-[var(--border)]">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selectedSpeakers.length === 0 || isSelected}
+                                                    onChange={(e) => {
+                                                        const checked = e.target.checked;
+                                                        setSelectedSpeakers(prev => {
+                                                            if (prev.length === 0) return [name];
+                                                            if (checked) return [...prev, name];
+                                                            return prev.filter(n => n !== name);
+                                                        });
+                                                    }}
+                                                    className="rounded border-gray-300 text-[var(--accent)] focus:ring-[var(--accent)]"
+                                                />
+                                                {name === NO_SPEAKER ? (
+                                                    <span className="text-sm italic text-[var(--text-muted)]">No speaker</span>
+                                                ) : (
+                                                    <div className="flex items-center flex-1 min-w-0">
+                                                        <span className="w-2 h-2 rounded-sm mr-2 flex-shrink-0" style={{ backgroundColor: speakerColor(projectSpeakers, name) }}></span>
+                                                        <span className={`text-sm truncate ${isSelected ? 'text-[var(--text-main)] font-medium' : 'text-[var(--text-muted)]'}`}>{name}</span>
+                                                    </div>
+                                                )}
+                                            </label>
+                                        );
+                                    })}
+                                </div>
+                                {selectedSpeakers.length > 0 && (
+                                    <button onClick={() => setSelectedSpeakers([])} className="mt-1 px-3 text-xs text-[var(--accent)] hover:underline">
+                                        Show all speakers
+                                    </button>
+                                )}
+                            </div>
+                        )}
+
                         {/* User Filters (Compare Mode) */}
-                        {compareMode && allResolvedUsers.length > 1 && (
+                        {compareMode && (allResolvedUsers.length > 1 || hasSharedLayers) && (
                             <div>
                                 <div className="flex items-center mb-2 text-[var(--text-muted)] font-bold text-sm uppercase tracking-wider">
                                     <Users size={14} className="mr-2" /> Users
@@ -642,6 +1073,22 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
                                         </label>
                                     ))}
                                 </div>
+                                {hasSharedLayers && (
+                                    <label
+                                        className="flex items-center gap-2 px-3 py-2 mt-1 text-xs text-[var(--text-muted)] cursor-pointer"
+                                        title="The consensus and master layers are derived from the coders' own work, so they are left out of comparisons and agreement statistics unless included here"
+                                    >
+                                        <input
+                                            type="checkbox"
+                                            checked={includeSharedLayers}
+                                            onChange={(e) => {
+                                                setIncludeSharedLayers(e.target.checked);
+                                                setSelectedUsers(prev => prev.filter(id => !isSharedLayer(id)));
+                                            }}
+                                        />
+                                        Include shared layers (consensus, master)
+                                    </label>
+                                )}
                             </div>
                         )}
                     </div>
@@ -730,13 +1177,13 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
                                             </tr>
                                         </thead>
                                         <tbody>
-                                            {project.transcripts.map(t => {
+                                            {project.transcripts.filter(passesAttributeFilters).map(t => {
                                                 let docTotal = 0;
                                                 return (
                                                     <tr key={t.id} className="hover:bg-[var(--bg-main)] border-b border-[var(--border)] last:border-0">
                                                         <td className="p-3 border-r border-[var(--border)] font-medium text-[var(--text-main)] bg-[var(--bg-panel)] sticky left-0">{t.name}</td>
                                                         {filteredCodes.map(code => {
-                                                            const count = project.selections.filter(s => s.transcriptId === t.id && s.codeId === code.id).length;
+                                                            const count = project.selections.filter(s => s.transcriptId === t.id && s.codeId === code.id && passesSelectionFilters(s)).length;
                                                             docTotal += count;
                                                             return (
                                                                 <td key={code.id} className={`p-3 border-r border-[var(--border)] text-center transition-colors ${count > 0 ? 'font-bold text-[var(--accent)]' : 'text-[var(--text-muted)]'}`}>
@@ -760,6 +1207,7 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
                                             {compareMode && <th className="p-3 border-b border-[var(--border)] w-32 bg-[var(--bg-main)]">User</th>}
                                             <th className="p-3 border-b border-[var(--border)] w-48 bg-[var(--bg-main)]">Code</th>
                                             <th className="p-3 border-b border-[var(--border)] w-48 bg-[var(--bg-main)]">Document</th>
+                                            {projectSpeakers.length > 0 && <th className="p-3 border-b border-[var(--border)] w-32 bg-[var(--bg-main)]">Speaker</th>}
                                             <th className="p-3 border-b border-[var(--border)] bg-[var(--bg-main)]">Segment Text</th>
                                         </tr>
                                     </thead>
@@ -777,7 +1225,8 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
                                                         </div>
                                                     </td>
                                                     <td className="p-3 border-r border-[var(--border)] text-[var(--text-muted)] truncate max-w-xs">{transcript?.name}</td>
-                                                    <td className="p-3 text-[var(--text-main)] italic">"{sel.text}"</td>
+                                                    {projectSpeakers.length > 0 && <td className="p-3 border-r border-[var(--border)] text-[var(--text-muted)] truncate max-w-[8rem]">{speakerOf(sel) || '-'}</td>}
+                                                    <td className="p-3 text-[var(--text-main)] italic"><SegmentText selection={sel} transcript={transcript} /></td>
                                                 </tr>
                                             );
                                         })}
@@ -862,7 +1311,320 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
                                     </table>
                                 </div>
                             </div>
-                        ) : viewMode === 'reliability' ? (
+                        ) : viewMode === 'query' ? (
+                            <CodeQueryPanel
+                                project={project}
+                                coders={queryCoders}
+                                passesFilters={queryFilter}
+                                transcriptIds={selectedTranscriptIds}
+                                onSaveQuery={onSaveCodeQuery}
+                                onDeleteQuery={onDeleteCodeQuery}
+                                onCreateCode={onCreateCodeFromQuery}
+                            />
+                        ) : viewMode === 'words' ? (
+                            <TextMiningPanel
+                                transcripts={miningTranscripts}
+                                segments={allSelections}
+                                codes={codableCodes || project.codes}
+                                onCodeSpans={onCodeSpans}
+                            />
+                        ) : viewMode === 'speakers' || viewMode === 'attributes' ? (
+                            <div className="flex-1 overflow-hidden flex flex-col gap-3">
+                                {viewMode === 'attributes' && crossTabDimension && (
+                                    <div className="flex items-center gap-2 text-sm">
+                                        <Table2 size={16} className="text-[var(--accent)]" />
+                                        <span className="font-bold text-[var(--text-main)]">Codes by</span>
+                                        <select
+                                            value={crossTabDimension.attribute.id}
+                                            onChange={(e) => setCrossTabAttributeId(e.target.value)}
+                                            className="bg-[var(--bg-main)] border border-[var(--border)] text-[var(--text-main)] rounded px-3 py-1 text-sm outline-none focus:ring-2 focus:ring-[var(--accent)]"
+                                        >
+                                            {attributeDimensions.map(d => <option key={d.attribute.id} value={d.attribute.id}>{d.attribute.name}</option>)}
+                                        </select>
+                                    </div>
+                                )}
+                                <div className="flex-1 overflow-auto border border-[var(--border)] rounded-lg">
+                                    <table className="w-full border-collapse text-sm text-left">
+                                        <thead className="bg-[var(--bg-main)] text-[var(--text-main)] font-bold sticky top-0 shadow-sm z-10">
+                                            <tr>
+                                                <th className="p-3 border-b border-r border-[var(--border)] min-w-[200px] bg-[var(--bg-main)]">Code</th>
+                                                {crossTab.columns.map(col => (
+                                                    <th key={col.key} className="p-3 border-b border-[var(--border)] min-w-[100px] bg-[var(--bg-main)]">
+                                                        <div className="flex items-center space-x-1">
+                                                            {col.color && <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: col.color }}></span>}
+                                                            <span className={`truncate max-w-[120px] ${col.muted ? 'italic text-[var(--text-muted)]' : ''}`} title={col.label}>
+                                                                {col.label}
+                                                            </span>
+                                                        </div>
+                                                        {col.note && <div className="text-[10px] font-normal text-[var(--text-muted)]">{col.note}</div>}
+                                                    </th>
+                                                ))}
+                                                <th className="p-3 border-b border-[var(--border)] bg-[var(--bg-main)]">Total</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {filteredCodes.filter(code => crossTab.counts[code.id]).map(code => {
+                                                const row = crossTab.counts[code.id];
+                                                const total = Object.values(row).reduce((sum, n) => sum + n, 0);
+                                                return (
+                                                    <tr key={code.id} className="hover:bg-[var(--bg-main)] border-b border-[var(--border)] last:border-0">
+                                                        <td className="p-3 border-r border-[var(--border)] font-medium text-[var(--text-main)] bg-[var(--bg-panel)] sticky left-0">
+                                                            <div className="flex items-center space-x-1">
+                                                                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: code.color }}></span>
+                                                                <span className="truncate max-w-[200px]" title={code.name}>{code.name}</span>
+                                                            </div>
+                                                        </td>
+                                                        {crossTab.columns.map(col => {
+                                                            const count = row[col.key] || 0;
+                                                            const intensity = crossTab.maxCount > 0 ? count / crossTab.maxCount : 0;
+                                                            return (
+                                                                <td
+                                                                    key={col.key}
+                                                                    className={`p-3 border-r border-[var(--border)] text-center relative ${count > 0 ? 'font-bold' : 'text-[var(--text-muted)]'}`}
+                                                                    title={`${code.name} / ${col.label}: ${count} of ${total} (${total > 0 ? Math.round((count / total) * 100) : 0}%)`}
+                                                                >
+                                                                    <div className="absolute inset-0" style={{ backgroundColor: 'var(--accent)', opacity: count > 0 ? 0.08 + intensity * 0.4 : 0 }} />
+                                                                    <span className="relative">{count > 0 ? count : '-'}</span>
+                                                                </td>
+                                                            );
+                                                        })}
+                                                        <td className="p-3 font-bold text-[var(--text-main)] text-center bg-[var(--bg-panel)]">{total}</td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                    {crossTab.columns.length === 0 && (
+                                        <div className="p-6 text-center text-sm text-[var(--text-muted)]">No coded segments match the current filters.</div>
+                                    )}
+                                </div>
+                            </div>
+                        ) : viewMode === 'matrix' && codeMatrix ? (
+                            <div className="flex-1 overflow-hidden flex flex-col gap-3">
+                                <div className="flex items-center gap-3 text-sm flex-wrap">
+                                    <Grid3x3 size={16} className="text-[var(--accent)]" />
+                                    <span className="font-bold text-[var(--text-main)]">Codes by</span>
+                                    <select
+                                        value={matrixDimension ? matrixDimension.attribute.id : matrixSetGroup ? MATRIX_BY_SETS + matrixSetGroup.group : MATRIX_BY_DOCUMENT}
+                                        onChange={(e) => { setMatrixColumnsBy(e.target.value); setMatrixFocus(null); }}
+                                        className="bg-[var(--bg-main)] border border-[var(--border)] text-[var(--text-main)] rounded px-3 py-1 text-sm outline-none focus:ring-2 focus:ring-[var(--accent)]"
+                                    >
+                                        <option value={MATRIX_BY_DOCUMENT}>Document</option>
+                                        {attributeDimensions.length > 0 && (
+                                            <optgroup label="Attributes">
+                                                {attributeDimensions.map(d => <option key={d.attribute.id} value={d.attribute.id}>{d.attribute.name}</option>)}
+                                            </optgroup>
+                                        )}
+                                        {setGroups.length > 0 && (
+                                            <optgroup label="Transcript sets">
+                                                {setGroups.map(g => <option key={g.group} value={MATRIX_BY_SETS + g.group}>{g.group}</option>)}
+                                            </optgroup>
+                                        )}
+                                    </select>
+                                    <div className="flex bg-[var(--bg-main)] rounded-lg p-1">
+                                        {MATRIX_CELL_MODES.map(({ mode, label }) => (
+                                            <button
+                                                key={mode}
+                                                onClick={() => setMatrixCellMode(mode)}
+                                                className={`px-2.5 py-1 text-xs font-medium rounded-md transition-all ${matrixCellMode === mode ? 'bg-[var(--bg-panel)] shadow text-[var(--accent)]' : 'text-[var(--text-muted)] hover:text-[var(--text-main)]'}`}
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <label className="flex items-center gap-2 text-[var(--text-main)]" title="Parent codes also count the segments of their sub-codes">
+                                        <input type="checkbox" checked={matrixRollUp} onChange={(e) => setMatrixRollUp(e.target.checked)} />
+                                        Roll up sub-codes
+                                    </label>
+                                    <button
+                                        onClick={() => exportCodeMatrix(project, codeMatrix, matrixColumnsLabel)}
+                                        className="ml-auto flex items-center gap-2 px-3 py-1.5 text-xs font-bold rounded-md bg-emerald-700 text-white hover:bg-emerald-800"
+                                    >
+                                        <FileSpreadsheet size={14} /> Export matrix
+                                    </button>
+                                </div>
+                                <div className="flex-1 overflow-auto border border-[var(--border)] rounded-lg">
+                                    <table className="w-full border-collapse text-sm text-left">
+                                        <thead className="bg-[var(--bg-main)] text-[var(--text-main)] font-bold sticky top-0 shadow-sm z-10">
+                                            <tr>
+                                                <th className="p-3 border-b border-r border-[var(--border)] min-w-[220px] bg-[var(--bg-main)] sticky left-0">Code</th>
+                                                {codeMatrix.columns.map(col => (
+                                                    <th key={col.key} className="p-3 border-b border-[var(--border)] min-w-[100px] bg-[var(--bg-main)]">
+                                                        <span className="block truncate max-w-[140px]" title={col.label}>{col.label}</span>
+                                                        {col.key !== MATRIX_TOTAL && (matrixDimension || matrixSetGroup) && (
+                                                            <div className="text-[10px] font-normal text-[var(--text-muted)]">{col.transcriptIds.length} doc{col.transcriptIds.length === 1 ? '' : 's'}</div>
+                                                        )}
+                                                    </th>
+                                                ))}
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {visibleMatrixRows.map(({ code, depth, hasChildren }) => {
+                                                const collapsed = collapsedMatrixRows.includes(code.id);
+                                                return (
+                                                    <tr key={code.id} className="hover:bg-[var(--bg-main)] border-b border-[var(--border)] last:border-0">
+                                                        <td className="p-2 border-r border-[var(--border)] font-medium text-[var(--text-main)] bg-[var(--bg-panel)] sticky left-0">
+                                                            <div className="flex items-center gap-1" style={{ paddingLeft: depth * 16 }}>
+                                                                {hasChildren ? (
+                                                                    <button
+                                                                        onClick={() => setCollapsedMatrixRows(prev => collapsed ? prev.filter(id => id !== code.id) : [...prev, code.id])}
+                                                                        className="p-0.5 text-[var(--text-muted)] hover:text-[var(--text-main)] rounded"
+                                                                    >
+                                                                        {collapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                                                                    </button>
+                                                                ) : <span className="w-[18px]" />}
+                                                                <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: code.color }}></span>
+                                                                <span className="truncate max-w-[200px]" title={code.name}>{code.name}</span>
+                                                            </div>
+                                                        </td>
+                                                        {codeMatrix.columns.map(col => {
+                                                            const cell = codeMatrix.cells[code.id]?.[col.key];
+                                                            const value = matrixCellValue(cell, matrixCellMode);
+                                                            const isTotal = col.key === MATRIX_TOTAL;
+                                                            const intensity = !isTotal && matrixMaxValue > 0 ? value / matrixMaxValue : 0;
+                                                            const focused = matrixFocus?.codeId === code.id && matrixFocus.columnKey === col.key;
+                                                            return (
+                                                                <td
+                                                                    key={col.key}
+                                                                    onClick={() => cell && cell.segments > 0 && setMatrixFocus(focused ? null : { codeId: code.id, columnKey: col.key })}
+                                                                    className={`p-3 border-r border-[var(--border)] text-center relative ${value > 0 ? 'font-bold cursor-pointer' : 'text-[var(--text-muted)]'} ${isTotal ? 'bg-[var(--bg-panel)]' : ''} ${focused ? 'outline outline-2 outline-[var(--accent)] -outline-offset-2' : ''}`}
+                                                                    title={cell ? `${code.name} / ${col.label}: ${cell.segments} segment${cell.segments === 1 ? '' : 's'} in ${cell.documents} document${cell.documents === 1 ? '' : 's'}` : undefined}
+                                                                >
+                                                                    <div className="absolute inset-0" style={{ backgroundColor: 'var(--accent)', opacity: value > 0 && !isTotal ? 0.08 + intensity * 0.4 : 0 }} />
+                                                                    <span className="relative">{formatMatrixValue(value)}</span>
+                                                                </td>
+                                                            );
+                                                        })}
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                    {codeMatrix.rows.length === 0 && (
+                                        <div className="p-6 text-center text-sm text-[var(--text-muted)]">No codes match the current filters.</div>
+                                    )}
+                                </div>
+                                {matrixFocus && matrixFocusCell && (
+                                    <div className="max-h-56 flex flex-col border border-[var(--border)] rounded-lg overflow-hidden">
+                                        <div className="px-3 py-2 bg-[var(--bg-main)] border-b border-[var(--border)] flex items-center justify-between text-sm">
+                                            <span className="font-bold text-[var(--text-main)] truncate">
+                                                {project.codes.find(c => c.id === matrixFocus.codeId)?.name} · {codeMatrix.columns.find(c => c.key === matrixFocus.columnKey)?.label}
+                                                <span className="ml-2 font-normal text-[var(--text-muted)]">{matrixFocusCell.segments} segment{matrixFocusCell.segments === 1 ? '' : 's'}</span>
+                                            </span>
+                                            <button onClick={() => setMatrixFocus(null)} className="p-1 text-[var(--text-muted)] hover:text-[var(--text-main)] rounded"><X size={14} /></button>
+                                        </div>
+                                        <div className="overflow-y-auto divide-y divide-[var(--border)]">
+                                            {matrixFocusCell.selections.map((sel: CoderSelection, i) => {
+                                                const code = project.codes.find(c => c.id === sel.codeId);
+                                                return (
+                                                    <div key={`${sel.id}-${i}`} className="px-3 py-2 text-sm flex gap-3">
+                                                        <div className="w-48 flex-shrink-0 text-xs text-[var(--text-muted)] space-y-0.5">
+                                                            <div className="truncate">{transcriptById.get(sel.transcriptId)?.name}</div>
+                                                            <div className="flex items-center gap-1">
+                                                                <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: code?.color }}></span>
+                                                                <span className="truncate">{code?.name}</span>
+                                                            </div>
+                                                            {compareMode && sel.userName && <div className="font-bold truncate">{sel.userName}</div>}
+                                                        </div>
+                                                        <div className="text-[var(--text-main)] italic"><SegmentText selection={sel} transcript={transcriptById.get(sel.transcriptId)} /></div>
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        ) : viewMode === 'sets' && setTrend ? (() => {
+                            const { across, per, columns, codes, valueOf, yMax } = setTrend;
+                            const measure = TREND_MEASURES.find(m => m.mode === trendMeasure)!;
+                            const codeSeries: TrendSeries[] = codes.map(c => ({ key: c.id, name: c.name, color: c.color }));
+                            const perSeries: TrendSeries[] = (per?.sets || []).map((p, i) => ({ key: p.id, name: p.name, color: generateColor(i) }));
+                            const columnKey = (acrossId: string, perId?: string) => perId ? `${acrossId}|${perId}` : acrossId;
+                            // One point per set across; each series' value under its key
+                            const points = (seriesValue: (acrossId: string) => Record<string, number | null>) =>
+                                across.sets.map(a => ({ name: a.name, ...seriesValue(a.id) }));
+                            const codeValues = (perId?: string) => (acrossId: string) =>
+                                Object.fromEntries(codes.map(c => [c.id, valueOf(c.id, columnKey(acrossId, perId))]));
+                            const panels: { key: string; title?: string; data: Record<string, string | number | null>[]; series: TrendSeries[] }[] =
+                                trendLayout === 'byCode'
+                                    ? codes.map(c => ({
+                                        key: c.id,
+                                        title: c.name,
+                                        data: points(acrossId => per
+                                            ? Object.fromEntries(per.sets.map(p => [p.id, valueOf(c.id, columnKey(acrossId, p.id))]))
+                                            : { [c.id]: valueOf(c.id, acrossId) }),
+                                        series: per ? perSeries : codeSeries.filter(s => s.key === c.id),
+                                    }))
+                                    : per
+                                        ? per.sets.map(p => ({ key: p.id, title: p.name, data: points(codeValues(p.id)), series: codeSeries }))
+                                        : [{ key: 'all', data: points(codeValues()), series: codeSeries }];
+                            const legend = trendLayout === 'byCode' ? (per ? perSeries : []) : panels.length > 1 ? codeSeries : [];
+                            const selectClass = 'bg-[var(--bg-main)] border border-[var(--border)] text-[var(--text-main)] rounded px-3 py-1 text-sm outline-none focus:ring-2 focus:ring-[var(--accent)]';
+                            return (
+                                <div className="flex-1 overflow-hidden flex flex-col gap-3">
+                                    <div className="flex items-center gap-3 text-sm flex-wrap">
+                                        <Layers size={16} className="text-[var(--accent)]" />
+                                        <span className="font-bold text-[var(--text-main)]">Across</span>
+                                        <select value={across.group} onChange={(e) => setTrendAcrossGroup(e.target.value)} className={selectClass}>
+                                            {setGroups.map(g => <option key={g.group} value={g.group}>{g.group}</option>)}
+                                        </select>
+                                        <span className="font-bold text-[var(--text-main)]">per</span>
+                                        <select value={per?.group || ''} onChange={(e) => setTrendPerGroup(e.target.value)} className={selectClass}>
+                                            <option value="">All documents</option>
+                                            {setGroups.filter(g => g.group !== across.group).map(g => <option key={g.group} value={g.group}>{g.group}</option>)}
+                                        </select>
+                                        <div className="flex bg-[var(--bg-main)] rounded-lg p-1">
+                                            {TREND_MEASURES.map(({ mode, label }) => (
+                                                <button
+                                                    key={mode}
+                                                    onClick={() => setTrendMeasure(mode)}
+                                                    className={`px-2.5 py-1 text-xs font-medium rounded-md transition-all ${trendMeasure === mode ? 'bg-[var(--bg-panel)] shadow text-[var(--accent)]' : 'text-[var(--text-muted)] hover:text-[var(--text-main)]'}`}
+                                                >
+                                                    {label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <div className="flex bg-[var(--bg-main)] rounded-lg p-1">
+                                            {([['combined', per ? `Chart per ${per.group}` : 'One chart'], ['byCode', 'Chart per code']] as const).map(([layout, label]) => (
+                                                <button
+                                                    key={layout}
+                                                    onClick={() => setTrendLayout(layout)}
+                                                    className={`px-2.5 py-1 text-xs font-medium rounded-md transition-all ${trendLayout === layout ? 'bg-[var(--bg-panel)] shadow text-[var(--accent)]' : 'text-[var(--text-muted)] hover:text-[var(--text-main)]'}`}
+                                                >
+                                                    {label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-[var(--text-muted)]">
+                                        {!per && columns.map(col => (
+                                            <span key={col.key}>{col.label}: {col.transcriptIds.length} doc{col.transcriptIds.length === 1 ? '' : 's'}</span>
+                                        ))}
+                                        {legend.map(s => (
+                                            <span key={s.key} className="flex items-center gap-1.5 text-[var(--text-main)]">
+                                                <span className="w-3 h-0.5 rounded" style={{ backgroundColor: s.color }} /> {s.name}
+                                            </span>
+                                        ))}
+                                    </div>
+                                    {codes.length === 0 ? (
+                                        <div className="flex-1 flex items-center justify-center text-[var(--text-muted)] italic">No codings in the documents of these sets.</div>
+                                    ) : panels.length === 1 && !panels[0].title ? (
+                                        <div className="flex-1 min-h-[300px]">
+                                            <TrendChart data={panels[0].data} series={panels[0].series} yMax={yMax} unit={measure.unit} height={360} legend />
+                                        </div>
+                                    ) : (
+                                        <div className="flex-1 overflow-y-auto grid grid-cols-2 xl:grid-cols-3 gap-3 content-start">
+                                            {panels.map(panel => (
+                                                <div key={panel.key} className="border border-[var(--border)] rounded-lg p-2">
+                                                    <div className="px-1 pb-1 text-xs font-bold text-[var(--text-main)] truncate" title={panel.title}>{panel.title}</div>
+                                                    <TrendChart data={panel.data} series={panel.series} yMax={yMax} unit={measure.unit} height={180} />
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })() : viewMode === 'reliability' ? (
                             <div className="flex-1 overflow-auto border border-[var(--border)] rounded-lg p-6 bg-[var(--bg-main)] flex flex-col">
                                 {compareMode ? (
                                     <div className="flex flex-col h-full max-w-5xl mx-auto w-full space-y-6">
@@ -871,7 +1633,7 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
                                         <div className="bg-[var(--bg-panel)] p-6 rounded-xl border border-[var(--border)] shadow-sm">
                                             <h3 className="text-lg font-bold text-[var(--text-main)] mb-4 flex items-center">
                                                 <Users className="mr-2 text-[var(--accent)]" size={20} />
-                                                Global Reliability Matrix (All Codes)
+                                                Percent Agreement Matrix (All Codes)
                                             </h3>
                                             <div className="overflow-x-auto">
                                                 <table className="w-full text-sm border-collapse">
@@ -911,14 +1673,25 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
                                             </div>
                                         </div>
 
-                                        {/* 2. Code Breakdown */}
-                                        <div className="h-96">
-                                            <div className="bg-[var(--bg-panel)] p-6 rounded-xl border border-[var(--border)] shadow-sm flex flex-col h-full">
-                                                <div className="flex justify-between items-center mb-4">
-                                                    <h3 className="text-lg font-bold text-[var(--text-main)] flex items-center">
-                                                        <IconChart className="mr-2 text-[var(--accent)]" size={20} />
-                                                        Reliability by Code (Avg. Pairwise)
-                                                    </h3>
+                                        {/* 2. Chance-corrected Agreement */}
+                                        <div className="bg-[var(--bg-panel)] p-6 rounded-xl border border-[var(--border)] shadow-sm">
+                                            <div className="flex justify-between items-center mb-4 gap-3">
+                                                <h3 className="text-lg font-bold text-[var(--text-main)] flex items-center">
+                                                    <Grid3x3 className="mr-2 text-[var(--accent)]" size={20} />
+                                                    Chance-corrected Agreement
+                                                </h3>
+                                                <div className="flex items-center gap-3">
+                                                    <div className="flex bg-[var(--bg-main)] rounded-lg p-1">
+                                                        {(['character', 'line'] as ReliabilityUnit[]).map(unit => (
+                                                            <button
+                                                                key={unit}
+                                                                onClick={() => setReliabilityUnit(unit)}
+                                                                className={`px-3 py-1 text-xs font-medium rounded-md transition-all capitalize ${reliabilityUnit === unit ? 'bg-[var(--bg-panel)] shadow text-[var(--accent)]' : 'text-[var(--text-muted)] hover:text-[var(--text-main)]'}`}
+                                                            >
+                                                                {unit}s
+                                                            </button>
+                                                        ))}
+                                                    </div>
                                                     <button
                                                         onClick={() => setShowCalcInfo(true)}
                                                         className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 bg-blue-50 text-blue-600 rounded-full hover:bg-blue-100 transition-colors"
@@ -927,6 +1700,84 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
                                                         How is this calculated?
                                                     </button>
                                                 </div>
+                                            </div>
+
+                                            {!chanceCorrected ? (
+                                                <div className="text-center text-[var(--text-muted)] py-4 text-sm italic">Select at least two users to compare.</div>
+                                            ) : chanceCorrected.byCode.length === 0 ? (
+                                                <div className="text-center text-[var(--text-muted)] py-4 text-sm italic">None of the selected users has coded text with these codes.</div>
+                                            ) : (
+                                                <div className="space-y-4">
+                                                    <p className="text-xs text-[var(--text-muted)]">
+                                                        {chanceCorrected.coders} coders · {chanceCorrected.documents} document{chanceCorrected.documents === 1 ? '' : 's'} · {chanceCorrected.units.toLocaleString()} {reliabilityUnit}s per code · 95% bootstrap intervals in brackets
+                                                    </p>
+                                                    <div className="max-h-80 overflow-auto border border-[var(--border)] rounded-lg">
+                                                        <table className="w-full text-sm text-left">
+                                                            <thead className="sticky top-0 bg-[var(--bg-main)] z-10">
+                                                                <tr className="border-b border-[var(--border)]">
+                                                                    <th className="p-2">Code</th>
+                                                                    <th className="p-2 text-right">Coded {reliabilityUnit}s</th>
+                                                                    <th className="p-2 text-right">Fleiss' κ</th>
+                                                                    <th className="p-2 text-right">Krippendorff's α</th>
+                                                                </tr>
+                                                            </thead>
+                                                            <tbody>
+                                                                <tr className="border-b border-[var(--border)] bg-[var(--bg-main)]/50 font-bold">
+                                                                    <td className="p-2">All codes</td>
+                                                                    <td className="p-2"></td>
+                                                                    <td className="p-2 text-right"><EstimateCell estimate={chanceCorrected.overall.fleissKappa} /></td>
+                                                                    <td className="p-2 text-right"><EstimateCell estimate={chanceCorrected.overall.alpha} /></td>
+                                                                </tr>
+                                                                {chanceCorrected.byCode.map(stat => {
+                                                                    const code = filteredCodes.find(c => c.id === stat.codeId);
+                                                                    return (
+                                                                        <tr key={stat.codeId} className="border-b border-[var(--border)] last:border-0 hover:bg-[var(--bg-main)]">
+                                                                            <td className="p-2 font-medium">
+                                                                                <div className="flex items-center gap-2">
+                                                                                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: code?.color }}></span>
+                                                                                    <span className="truncate max-w-[200px]" title={code?.name}>{code?.name}</span>
+                                                                                </div>
+                                                                            </td>
+                                                                            <td className="p-2 text-right font-mono text-[var(--text-muted)]">{stat.coded.toLocaleString()}</td>
+                                                                            <td className="p-2 text-right"><EstimateCell estimate={stat.fleissKappa} /></td>
+                                                                            <td className="p-2 text-right"><EstimateCell estimate={stat.alpha} /></td>
+                                                                        </tr>
+                                                                    );
+                                                                })}
+                                                            </tbody>
+                                                        </table>
+                                                    </div>
+
+                                                    <div>
+                                                        <h4 className="text-xs font-bold text-[var(--text-muted)] uppercase mb-2">Cohen's κ by pair (all codes)</h4>
+                                                        <div className="overflow-x-auto">
+                                                            <table className="text-sm border-collapse">
+                                                                <tbody>
+                                                                    {chanceCorrected.pairs.map(pair => (
+                                                                        <tr key={`${pair.coderA}:${pair.coderB}`} className="border-b border-[var(--border)] last:border-0">
+                                                                            <td className="py-1.5 pr-6 text-[var(--text-main)]">
+                                                                                {allResolvedUsers.find(u => u.userId === pair.coderA)?.displayName} vs {allResolvedUsers.find(u => u.userId === pair.coderB)?.displayName}
+                                                                            </td>
+                                                                            <td className="py-1.5 text-right"><EstimateCell estimate={pair.overall} /></td>
+                                                                        </tr>
+                                                                    ))}
+                                                                </tbody>
+                                                            </table>
+                                                        </div>
+                                                    </div>
+                                                </div>
+                                            )}
+                                        </div>
+
+                                        {/* 3. Code Breakdown */}
+                                        <div className="h-96">
+                                            <div className="bg-[var(--bg-panel)] p-6 rounded-xl border border-[var(--border)] shadow-sm flex flex-col h-full">
+                                                <div className="flex justify-between items-center mb-4">
+                                                    <h3 className="text-lg font-bold text-[var(--text-main)] flex items-center">
+                                                        <IconChart className="mr-2 text-[var(--accent)]" size={20} />
+                                                        Percent Agreement by Code (Avg. Pairwise)
+                                                    </h3>
+                                                </div>
                                                 <div className="flex-1 overflow-auto">
                                                     <table className="w-full text-sm text-left">
                                                         <thead className="sticky top-0 bg-[var(--bg-panel)] z-10">
@@ -958,62 +1809,40 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
                                         </div>
 
                                         {/* Calculation Info Modal */}
-                                        {showCalcInfo && (
-                                            <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm p-6 animate-in fade-in duration-200">
-                                                <div className="bg-[var(--bg-panel)] p-8 rounded-2xl border border-[var(--border)] shadow-2xl max-w-lg w-full relative">
+                                        {showCalcInfo && <ReliabilityInfoPanel unit={reliabilityUnit} onClose={() => setShowCalcInfo(false)} />}
+
+                                        {showAdjudication && adjudicationCoders && onSaveConsensus && (
+                                            <AdjudicationPanel
+                                                codes={filteredCodes}
+                                                transcripts={adjudicationTranscripts}
+                                                coderA={adjudicationCoders[0]}
+                                                coderB={adjudicationCoders[1]}
+                                                onSave={onSaveConsensus}
+                                                onClose={() => setShowAdjudication(false)}
+                                            />
+                                        )}
+
+                                        {/* 4. Detailed Inspector */}
+                                        <div className="bg-[var(--bg-panel)] p-6 rounded-xl border border-[var(--border)] shadow-sm">
+                                            <div className="flex justify-between items-center mb-4">
+                                                <h3 className="text-lg font-bold text-[var(--text-main)] flex items-center">
+                                                    <Users className="mr-2 text-[var(--accent)]" size={20} />
+                                                    Detailed Pairwise Inspection
+                                                </h3>
+                                                {onSaveConsensus && (
                                                     <button
-                                                        onClick={() => setShowCalcInfo(false)}
-                                                        className="absolute top-4 right-4 p-2 hover:bg-[var(--bg-main)] rounded-full transition-colors text-[var(--text-muted)] hover:text-[var(--text-main)]"
+                                                        onClick={() => setShowAdjudication(true)}
+                                                        disabled={!adjudicationCoders}
+                                                        className="flex items-center gap-1.5 text-xs font-bold px-3 py-1.5 rounded-full bg-[var(--accent)] text-[var(--accent-text)] disabled:opacity-40 transition-opacity"
+                                                        title={adjudicationCoders
+                                                            ? 'Review each disagreement between the two users and build a consensus coding'
+                                                            : 'Pick two different users (not a shared layer) to adjudicate'}
                                                     >
-                                                        <X size={20} />
+                                                        <Gavel size={14} />
+                                                        Adjudicate
                                                     </button>
-
-                                                    <h4 className="font-bold mb-4 flex items-center text-lg text-[var(--text-main)]">
-                                                        <RefreshCw className="mr-2 text-[var(--accent)]" size={20} />
-                                                        Calculation Method
-                                                    </h4>
-
-                                                    <div className="text-[var(--text-main)] text-sm space-y-4">
-                                                        <p>
-                                                            Agreement (Jaccard Index) is calculated based on the <strong>positional overlap</strong> of highlight ranges.
-                                                        </p>
-                                                        <div className="bg-[var(--bg-main)] p-4 rounded-lg font-mono text-xs border border-[var(--border)] text-center">
-                                                            Agreement = (Length of Overlap) / (Total Combined Length)
-                                                        </div>
-
-                                                        <div className="bg-blue-50/50 p-4 rounded-lg border border-blue-100">
-                                                            <p className="font-bold text-xs uppercase tracking-wider text-blue-800 mb-2">Example Scenario:</p>
-                                                            <ul className="list-disc list-inside space-y-2 text-xs text-blue-900">
-                                                                <li>User A highlights <span className="font-mono bg-blue-100 px-1 rounded">Line 1 (half) + Line 2 (all)</span></li>
-                                                                <li>User B highlights <span className="font-mono bg-blue-100 px-1 rounded">Line 2 (all) + Line 3 (half)</span></li>
-                                                            </ul>
-                                                            <div className="mt-3 pt-3 border-t border-blue-200 text-xs text-blue-900">
-                                                                <div className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-1">
-                                                                    <span className="font-bold">Intersection:</span>
-                                                                    <span>Line 2 (all)</span>
-                                                                    <span className="font-bold">Union:</span>
-                                                                    <span>Half L1 + All L2 + Half L3</span>
-                                                                </div>
-                                                                <p className="mt-2 italic opacity-80">
-                                                                    Only the length of Line 2 counts as agreement. The non-overlapping parts reduce the score.
-                                                                </p>
-                                                            </div>
-                                                        </div>
-
-                                                        <p className="text-xs text-[var(--text-muted)] italic">
-                                                            Note: This calculates spatial overlap. It does not analyze text content semantically, but assuming static text, spatial overlap implies content agreement.
-                                                        </p>
-                                                    </div>
-                                                </div>
+                                                )}
                                             </div>
-                                        )}
-
-                                        {/* 3. Detailed Inspector */}
-                                        <div className="bg-[var(--bg-panel)] p-6 rounded-xl border border-[var(--border)] shadow-sm">
-                                            <h3 className="text-lg font-bold text-[var(--text-main)] mb-4 flex items-center">
-                                                <Users className="mr-2 text-[var(--accent)]" size={20} />
-                                                Detailed Pairwise Inspection
-                                            </h3>
 
                                             <div className="grid grid-cols-2 gap-4 mb-6">
                                                 <div>
@@ -1050,6 +1879,7 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
                                                             <tr>
                                                                 <th className="p-3 border-b border-[var(--border)]">Code</th>
                                                                 <th className="p-3 border-b border-[var(--border)] text-center">Agreement</th>
+                                                                <th className="p-3 border-b border-[var(--border)] text-center">Cohen's κ</th>
                                                                 <th className="p-3 border-b border-[var(--border)] text-right">Intersection</th>
                                                                 <th className="p-3 border-b border-[var(--border)] text-right">Union</th>
                                                             </tr>
@@ -1068,6 +1898,9 @@ export const AnalysisView: React.FC<Props> = ({ project, onClose, onExport, clou
                                                                             {metric.percentAgreement.toFixed(1)}%
                                                                         </div>
                                                                     </td>
+                                                                    <td className="p-3 border-r border-[var(--border)] text-center">
+                                                                        <EstimateCell estimate={pairKappa(reliabilityUserA, reliabilityUserB)?.byCode[metric.codeId]} />
+                                                                    </td>
                                                                     <td className="p-3 border-r border-[var(--border)] text-right font-mono text-[var(--text-muted)]">
                                                                         {metric.intersectionLength}
                                                                     </td>
@@ -0,0 +1,409 @@
+import React, { useRef, useState } from 'react';
+import { AttributeType, DocumentAttribute, Project } from '../types';
+import { Table2, Plus, Upload, Trash2, X, AlertTriangle } from 'lucide-react';
+import {
+    ATTRIBUTE_TYPE_LABELS,
+    AttributeImportPreview,
+    applyAttributeImport,
+    changeAttributeType,
+    createAttribute,
+    deleteAttribute,
+    normalizeAttributeValue,
+    previewAttributeImport,
+    readAttributeTable,
+    setAttributeValue
+} from '../utils/attributeUtils';
+import { TranscriptSetsSection } from './TranscriptSetsSection';
+
+interface Props {
+    project: Project;
+    onUpdateProject: (p: Project) => void;
+    readOnly?: boolean;
+    onAlert: (title: string, message: string) => void;
+    onConfirm: (title: string, message: string, callback: () => void) => void;
+}
+
+const cellKey = (transcriptId: string, attributeId: string) => `${transcriptId}:${attributeId}`;
+
+export const AttributesView: React.FC<Props> = ({ project, onUpdateProject, readOnly = false, onAlert, onConfirm }) => {
+    const attributes = project.attributes || [];
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [newAttribute, setNewAttribute] = useState<{ name: string; type: AttributeType } | null>(null);
+    const [editingAttributeId, setEditingAttributeId] = useState<string | null>(null);
+    const [importPreview, setImportPreview] = useState<{ fileName: string; preview: AttributeImportPreview } | null>(null);
+    const [overwrite, setOverwrite] = useState(true);
+    const gridRef = useRef<HTMLDivElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const editingAttribute = attributes.find(a => a.id === editingAttributeId) || null;
+
+    // ─── Cells ───
+
+    const commitCell = (transcriptId: string, attribute: DocumentAttribute, raw: string) => {
+        const key = cellKey(transcriptId, attribute.id);
+        setDrafts(prev => {
+            const next = { ...prev };
+            delete next[key];
+            return next;
+        });
+        const value = normalizeAttributeValue(attribute, raw);
+        if (value === null) {
+            onAlert('Invalid Value', `"${raw}" is not a valid ${ATTRIBUTE_TYPE_LABELS[attribute.type].toLowerCase()} value for "${attribute.name}".`);
+            return;
+        }
+        const transcript = project.transcripts.find(t => t.id === transcriptId);
+        if ((transcript?.attributes?.[attribute.id] || '') === value) return;
+        onUpdateProject(setAttributeValue(project, transcriptId, attribute.id, value));
+    };
+
+    // Enter moves down a row, like a spreadsheet
+    const focusCell = (row: number, col: number) => {
+        const cell = gridRef.current?.querySelector<HTMLElement>(`[data-cell="${row}:${col}"]`);
+        cell?.focus();
+    };
+
+    // ─── Schema ───
+
+    const addAttribute = () => {
+        if (!newAttribute) return;
+        const name = newAttribute.name.trim();
+        if (!name) return;
+        if (attributes.some(a => a.name.toLowerCase() === name.toLowerCase())) {
+            onAlert('Duplicate Attribute', `An attribute named "${name}" already exists.`);
+            return;
+        }
+        onUpdateProject({ ...project, attributes: [...attributes, createAttribute(name, newAttribute.type)] });
+        setNewAttribute(null);
+    };
+
+    const updateAttribute = (id: string, updates: Partial<DocumentAttribute>) => {
+        onUpdateProject({ ...project, attributes: attributes.map(a => a.id === id ? { ...a, ...updates } : a) });
+    };
+
+    const handleTypeChange = (attribute: DocumentAttribute, type: AttributeType) => {
+        const { project: converted, dropped } = changeAttributeType(project, attribute.id, type);
+        if (dropped === 0) {
+            onUpdateProject(converted);
+            return;
+        }
+        onConfirm(
+            'Change Attribute Type?',
+            `${dropped} value${dropped === 1 ? '' : 's'} of "${attribute.name}" can't be read as ${ATTRIBUTE_TYPE_LABELS[type].toLowerCase()} and will be cleared.`,
+            () => onUpdateProject(converted)
+        );
+    };
+
+    const handleDelete = (attribute: DocumentAttribute) => {
+        onConfirm(
+            'Delete Attribute?',
+            `Delete "${attribute.name}" and its values for every document?`,
+            () => {
+                setEditingAttributeId(null);
+                onUpdateProject(deleteAttribute(project, attribute.id));
+            }
+        );
+    };
+
+    // ─── Import ───
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const table = await readAttributeTable(file);
+            if (table.headers.length < 2) {
+                onAlert('Import Failed', 'The file needs a document name column and at least one attribute column.');
+                return;
+            }
+            setImportPreview({ fileName: file.name, preview: previewAttributeImport(project, table) });
+        } catch (err) {
+            console.error(err);
+            onAlert('Import Failed', 'Could not read the file. Use a CSV or Excel sheet with one row per document.');
+        }
+    };
+
+    const confirmImport = () => {
+        if (!importPreview) return;
+        onUpdateProject(applyAttributeImport(project, importPreview.preview, overwrite));
+        setImportPreview(null);
+    };
+
+    const renderCell = (attribute: DocumentAttribute, transcriptId: string, row: number, col: number) => {
+        const key = cellKey(transcriptId, attribute.id);
+        const stored = project.transcripts.find(t => t.id === transcriptId)?.attributes?.[attribute.id] || '';
+        const inputClass = 'w-full px-2 py-1.5 bg-transparent text-sm outline-none focus:bg-[var(--bg-main)] focus:ring-2 focus:ring-inset focus:ring-[var(--accent)] disabled:cursor-not-allowed';
+
+        if (attribute.type === 'categorical') {
+            return (
+                <select
+                    data-cell={`${row}:${col}`}
+                    value={stored}
+                    disabled={readOnly}
+                    onChange={e => commitCell(transcriptId, attribute, e.target.value)}
+                    className={inputClass}
+                >
+                    <option value=""></option>
+                    {(attribute.options || []).map(o => <option key={o} value={o}>{o}</option>)}
+                </select>
+            );
+        }
+
+        return (
+            <input
+                data-cell={`${row}:${col}`}
+                type={attribute.type === 'date' ? 'date' : 'text'}
+                inputMode={attribute.type === 'number' ? 'decimal' : undefined}
+                value={drafts[key] ?? stored}
+                disabled={readOnly}
+                onChange={e => setDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                onBlur={() => drafts[key] !== undefined && commitCell(transcriptId, attribute, drafts[key])}
+                onKeyDown={e => {
+                    if (e.key === 'Enter') {
+                        e.preventDefault();
+                        (e.target as HTMLInputElement).blur();
+                        focusCell(row + 1, col);
+                    } else if (e.key === 'Escape') {
+                        setDrafts(prev => ({ ...prev, [key]: stored }));
+                    }
+                }}
+                className={`${inputClass} ${attribute.type === 'number' ? 'text-right' : ''}`}
+            />
+        );
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-[var(--bg-main)] text-[var(--text-main)]">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)] bg-[var(--bg-panel)]">
+                <div>
+                    <h2 className="text-xl font-bold flex items-center">
+                        <Table2 className="mr-2 text-[var(--accent)]" /> Document Attributes
+                    </h2>
+                    <p className="text-xs text-[var(--text-muted)]">
+                        {attributes.length} attribute{attributes.length === 1 ? '' : 's'} · {project.transcripts.length} document{project.transcripts.length === 1 ? '' : 's'}
+                        {readOnly && ' · read-only'}
+                    </p>
+                </div>
+                {!readOnly && (
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-[var(--text-muted)] hover:text-[var(--text-main)] hover:bg-[var(--bg-main)] rounded-lg transition-colors border border-transparent hover:border-[var(--border)]"
+                            title="Import values from a CSV or Excel sheet with one row per document"
+                        >
+                            <Upload size={16} />
+                            <span>Import CSV/XLSX</span>
+                        </button>
+                        <input ref={fileInputRef} type="file" accept=".csv,.tsv,.xlsx,.xls" className="hidden" onChange={handleImportFile} />
+                        <button
+                            onClick={() => setNewAttribute({ name: '', type: 'categorical' })}
+                            className="flex items-center space-x-2 px-3 py-2 text-sm font-bold rounded-lg bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110"
+                        >
+                            <Plus size={16} />
+                            <span>Add Attribute</span>
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {newAttribute && (
+                <div className="flex items-center gap-2 px-6 py-3 border-b border-[var(--border)] bg-[var(--bg-panel)] text-sm">
+                    <input
+                        autoFocus
+                        value={newAttribute.name}
+                        onChange={e => setNewAttribute({ ...newAttribute, name: e.target.value })}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter') addAttribute();
+                            if (e.key === 'Escape') setNewAttribute(null);
+                        }}
+                        placeholder="Attribute name, e.g. Site"
+                        className="flex-1 max-w-xs px-3 py-1.5 bg-[var(--bg-main)] border border-[var(--border)] rounded outline-none focus:border-[var(--accent)]"
+                    />
+                    <select
+                        value={newAttribute.type}
+                        onChange={e => setNewAttribute({ ...newAttribute, type: e.target.value as AttributeType })}
+                        className="px-3 py-1.5 bg-[var(--bg-main)] border border-[var(--border)] rounded"
+                    >
+                        {(Object.keys(ATTRIBUTE_TYPE_LABELS) as AttributeType[]).map(t => <option key={t} value={t}>{ATTRIBUTE_TYPE_LABELS[t]}</option>)}
+                    </select>
+                    <button onClick={addAttribute} className="px-3 py-1.5 text-xs font-bold rounded bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110">Add</button>
+                    <button onClick={() => setNewAttribute(null)} className="px-3 py-1.5 text-xs font-bold rounded border border-[var(--border)] text-[var(--text-muted)] hover:text-[var(--text-main)]">Cancel</button>
+                </div>
+            )}
+
+            <div className="flex-1 overflow-auto p-6">
+                {attributes.length === 0 ? (
+                    <div className="max-w-lg mx-auto mt-16 text-center text-[var(--text-muted)] text-sm space-y-2">
+                        <Table2 size={40} className="mx-auto opacity-40" />
+                        <p>No attributes yet. Add attributes such as site, age band or role, or import them from a spreadsheet with one row per document.</p>
+                        <p>They can then be used to filter and compare codes in the Analysis dashboard.</p>
+                    </div>
+                ) : (
+                    <div ref={gridRef} className="inline-block min-w-full border border-[var(--border)] rounded-lg overflow-hidden bg-[var(--bg-panel)]">
+                        <table className="border-collapse text-sm text-left">
+                            <thead className="bg-[var(--bg-main)] text-[var(--text-main)] font-bold sticky top-0 shadow-sm z-10">
+                                <tr>
+                                    <th className="p-3 border-b border-r border-[var(--border)] min-w-[220px] bg-[var(--bg-main)] sticky left-0">Document</th>
+                                    {attributes.map(a => {
+                                        const filled = project.transcripts.filter(t => t.attributes?.[a.id]).length;
+                                        return (
+                                            <th key={a.id} className="p-0 border-b border-r border-[var(--border)] min-w-[160px] bg-[var(--bg-main)]">
+                                                <button
+                                                    onClick={() => !readOnly && setEditingAttributeId(a.id)}
+                                                    className="w-full text-left px-3 py-2 hover:bg-[var(--bg-panel)] transition-colors"
+                                                    title={readOnly ? undefined : 'Edit attribute'}
+                                                >
+                                                    <div className="truncate">{a.name}</div>
+                                                    <div className="text-[10px] font-normal text-[var(--text-muted)] uppercase tracking-wider">
+                                                        {ATTRIBUTE_TYPE_LABELS[a.type]} · {filled}/{project.transcripts.length}
+                                                    </div>
+                                                </button>
+                                            </th>
+                                        );
+                                    })}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {project.transcripts.map((t, row) => (
+                                    <tr key={t.id} className="border-b border-[var(--border)] last:border-0 hover:bg-[var(--bg-main)]/50">
+                                        <td className="px-3 py-1.5 border-r border-[var(--border)] font-medium bg-[var(--bg-panel)] sticky left-0 truncate max-w-[260px]" title={t.name}>{t.name}</td>
+                                        {attributes.map((a, col) => (
+                                            <td key={a.id} className="p-0 border-r border-[var(--border)]">
+                                                {renderCell(a, t.id, row, col)}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                <TranscriptSetsSection project={project} onUpdateProject={onUpdateProject} readOnly={readOnly} onAlert={onAlert} onConfirm={onConfirm} />
+            </div>
+
+            {/* Attribute Editor */}
+            {editingAttribute && (
+                <div className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={() => setEditingAttributeId(null)}>
+                    <div className="bg-[var(--bg-panel)] rounded-xl shadow-2xl w-full max-w-md border border-[var(--border)] overflow-hidden" onClick={e => e.stopPropagation()}>
+                        <div className="p-4 border-b border-[var(--border)] flex justify-between items-center bg-[var(--bg-main)]">
+                            <h3 className="font-bold text-lg">Edit Attribute</h3>
+                            <button onClick={() => setEditingAttributeId(null)} className="text-[var(--text-muted)] hover:text-[var(--text-main)] p-1 rounded"><X size={18} /></button>
+                        </div>
+                        <div className="p-4 space-y-4 text-sm">
+                            <div className="space-y-1">
+                                <label className="text-xs font-bold text-[var(--text-muted)] uppercase">Name</label>
+                                <input
+                                    key={editingAttribute.id}
+                                    defaultValue={editingAttribute.name}
+                                    onBlur={e => {
+                                        const name = e.target.value.trim();
+                                        if (name && name !== editingAttribute.name) updateAttribute(editingAttribute.id, { name });
+                                    }}
+                                    className="w-full px-3 py-2 bg-[var(--bg-main)] border border-[var(--border)] rounded outline-none focus:border-[var(--accent)]"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <label className="text-xs font-bold text-[var(--text-muted)] uppercase">Type</label>
+                                <select
+                                    value={editingAttribute.type}
+                                    onChange={e => handleTypeChange(editingAttribute, e.target.value as AttributeType)}
+                                    className="w-full px-3 py-2 bg-[var(--bg-main)] border border-[var(--border)] rounded"
+                                >
+                                    {(Object.keys(ATTRIBUTE_TYPE_LABELS) as AttributeType[]).map(t => <option key={t} value={t}>{ATTRIBUTE_TYPE_LABELS[t]}</option>)}
+                                </select>
+                            </div>
+                            {editingAttribute.type === 'categorical' && (
+                                <div className="space-y-1">
+                                    <label className="text-xs font-bold text-[var(--text-muted)] uppercase">Values (one per line)</label>
+                                    <textarea
+                                        key={`${editingAttribute.id}-options`}
+                                        defaultValue={(editingAttribute.options || []).join('\n')}
+                                        onBlur={e => {
+                                            const options = Array.from(new Set(e.target.value.split('\n').map(o => o.trim()).filter(Boolean)));
+                                            updateAttribute(editingAttribute.id, { options });
+                                        }}
+                                        rows={5}
+                                        className="w-full px-3 py-2 bg-[var(--bg-main)] border border-[var(--border)] rounded outline-none focus:border-[var(--accent)] resize-y"
+                                    />
+                                    <p className="text-xs text-[var(--text-muted)]">Documents keep their value if it is removed from this list.</p>
+                                </div>
+                            )}
+                        </div>
+                        <div className="p-4 border-t border-[var(--border)] bg-[var(--bg-main)] flex justify-between">
+                            <button onClick={() => handleDelete(editingAttribute)} className="flex items-center gap-1 px-3 py-1.5 text-xs font-bold rounded text-red-600 hover:bg-red-50">
+                                <Trash2 size={14} /> Delete
+                            </button>
+                            <button onClick={() => setEditingAttributeId(null)} className="px-3 py-1.5 text-xs font-bold rounded bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110">Done</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Import Preview */}
+            {importPreview && (() => {
+                const { preview } = importPreview;
+                return (
+                    <div className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={() => setImportPreview(null)}>
+                        <div className="bg-[var(--bg-panel)] rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col border border-[var(--border)] overflow-hidden" onClick={e => e.stopPropagation()}>
+                            <div className="p-4 border-b border-[var(--border)] flex justify-between items-center bg-[var(--bg-main)]">
+                                <div>
+                                    <h3 className="font-bold text-lg flex items-center gap-2">
+                                        <Upload size={18} className="text-[var(--text-muted)]" /> Import Attributes
+                                    </h3>
+                                    <p className="text-xs text-[var(--text-muted)]">
+                                        {importPreview.fileName} · keyed by "{preview.keyHeader}" · {preview.matches.length} matching document{preview.matches.length === 1 ? '' : 's'}
+                                    </p>
+                                </div>
+                                <button onClick={() => setImportPreview(null)} className="text-[var(--text-muted)] hover:text-[var(--text-main)] p-1 rounded"><X size={18} /></button>
+                            </div>
+                            <div className="flex-1 overflow-y-auto">
+                                {preview.columns.map(col => (
+                                    <div key={col.index} className="px-4 py-2 border-b border-[var(--border)] flex items-center gap-2 text-sm">
+                                        <span className="flex-1 truncate">{col.header}</span>
+                                        <span className="text-xs text-[var(--text-muted)]">{ATTRIBUTE_TYPE_LABELS[col.type]}</span>
+                                        {col.invalidCount > 0 && (
+                                            <span className="text-[10px] bg-amber-100 text-amber-800 px-1.5 py-0.5 rounded font-bold" title="These cells don't fit the attribute type and are skipped">
+                                                {col.invalidCount} invalid
+                                            </span>
+                                        )}
+                                        {col.existing ? (
+                                            <span className="text-[10px] bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded font-bold uppercase">Existing</span>
+                                        ) : (
+                                            <span className="text-[10px] bg-green-100 text-green-800 px-1.5 py-0.5 rounded font-bold uppercase">New</span>
+                                        )}
+                                    </div>
+                                ))}
+                                {preview.unmatched.length > 0 && (
+                                    <div className="px-4 py-3 text-xs text-amber-700 flex gap-2">
+                                        <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                                        <span>
+                                            No document matches {preview.unmatched.length} row{preview.unmatched.length === 1 ? '' : 's'}: {preview.unmatched.slice(0, 8).join(', ')}
+                                            {preview.unmatched.length > 8 ? '…' : ''}
+                                        </span>
+                                    </div>
+                                )}
+                            </div>
+                            <div className="p-4 border-t border-[var(--border)] bg-[var(--bg-main)] flex items-center justify-between gap-4">
+                                <label className="flex items-center gap-2 text-xs">
+                                    <input type="checkbox" checked={overwrite} onChange={e => setOverwrite(e.target.checked)} />
+                                    Overwrite values that are already set
+                                </label>
+                                <div className="flex gap-2">
+                                    <button onClick={() => setImportPreview(null)} className="px-3 py-1.5 text-xs font-bold rounded border border-[var(--border)] text-[var(--text-muted)] hover:text-[var(--text-main)]">Cancel</button>
+                                    <button
+                                        onClick={confirmImport}
+                                        disabled={preview.matches.length === 0 || preview.columns.length === 0}
+                                        className="px-3 py-1.5 text-xs font-bold rounded bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110 disabled:opacity-50"
+                                    >
+                                        Import Values
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                );
+            })()}
+        </div>
+    );
+};
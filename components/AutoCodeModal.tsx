@@ -0,0 +1,333 @@
+import React, { useMemo, useState } from 'react';
+import { RotateCw, Search, Wand2, X } from 'lucide-react';
+import { AutoCodeMode, AutoCodeQuery, AutoCodeScope, Code, Project, Selection } from '../types';
+import { AutoCodeHit, createAutoCodeSelections, describeAutoCodeQuery, findAutoCodeHits, transcriptsNotYetSearched } from '../utils/autoCode';
+import { getTranscriptLines } from '../utils/highlightUtils';
+import { listProjectSpeakers } from '../utils/speakerUtils';
+
+interface Props {
+  project: Project;
+  codes: Code[]; // Codes the user may code with
+  initialCodeId: string | null;
+  onApply: (codeId: string, selections: Selection[], query: AutoCodeQuery | null) => void;
+  onClose: () => void;
+}
+
+// Characters of context shown either side of a hit, collapsed and expanded
+const CONTEXT = 60;
+const EXPANDED_CONTEXT = 400;
+const MAX_ROWS = 500;
+
+const MODES: { value: AutoCodeMode; label: string }[] = [
+  { value: 'literal', label: 'Text' },
+  { value: 'wholeWord', label: 'Whole word' },
+  { value: 'regex', label: 'Regex' }
+];
+
+const SCOPES: { value: AutoCodeScope; label: string }[] = [
+  { value: 'match', label: 'Match only' },
+  { value: 'sentence', label: 'Sentence' },
+  { value: 'line', label: 'Line' },
+  { value: 'paragraph', label: 'Paragraph' }
+];
+
+export const AutoCodeModal: React.FC<Props> = ({ project, codes, initialCodeId, onApply, onClose }) => {
+  const textTranscripts = useMemo(() => project.transcripts.filter(t => !t.images), [project.transcripts]);
+  const speakerNames = useMemo(() => listProjectSpeakers(textTranscripts), [textTranscripts]);
+  const savedSearches = codes.filter(c => c.autoCodeQuery);
+
+  const [codeId, setCodeId] = useState(initialCodeId && codes.some(c => c.id === initialCodeId) ? initialCodeId : codes[0]?.id || '');
+  const [pattern, setPattern] = useState('');
+  const [mode, setMode] = useState<AutoCodeMode>('literal');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [scope, setScope] = useState<AutoCodeScope>('match');
+  const [speakers, setSpeakers] = useState<string[]>([]);
+  const [transcriptIds, setTranscriptIds] = useState<Set<string>>(() => new Set(textTranscripts.map(t => t.id)));
+  const [saveQuery, setSaveQuery] = useState(true);
+
+  const [hits, setHits] = useState<AutoCodeHit[] | null>(null);
+  const [searched, setSearched] = useState<{ codeId: string; query: AutoCodeQuery; transcriptIds: string[] } | null>(null);
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const texts = useMemo(() => new Map(textTranscripts.map(t => [t.id, getTranscriptLines(t.content).join('')])), [textTranscripts]);
+
+  const runSearch = (forCodeId: string, query: AutoCodeQuery, ids: Set<string>) => {
+    if (!query.pattern || !forCodeId) return;
+    try {
+      const found = textTranscripts
+        .filter(t => ids.has(t.id))
+        .flatMap(t => findAutoCodeHits(t, query, forCodeId, project.selections));
+      setHits(found);
+      setSearched({ codeId: forCodeId, query, transcriptIds: Array.from(ids) });
+      setChecked(new Set(found.filter(h => !h.alreadyCoded).map(h => h.id)));
+      setExpanded(new Set());
+      setError(null);
+    } catch (e) {
+      setHits(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const currentQuery = (): AutoCodeQuery => ({ pattern, mode, caseSensitive, scope, speakers: speakers.length ? speakers : undefined });
+
+  const loadSavedSearch = (code: Code) => {
+    const query = code.autoCodeQuery!;
+    const fresh = new Set(transcriptsNotYetSearched(query, textTranscripts).map(t => t.id));
+    setCodeId(code.id);
+    setPattern(query.pattern);
+    setMode(query.mode);
+    setCaseSensitive(query.caseSensitive);
+    setScope(query.scope);
+    setSpeakers(query.speakers || []);
+    setTranscriptIds(fresh);
+    runSearch(code.id, { ...query, transcriptIds: undefined, lastRunAt: undefined }, fresh);
+  };
+
+  const handleApply = () => {
+    if (!hits || !searched) return;
+    const chosen = hits.filter(h => checked.has(h.id) && !h.alreadyCoded);
+    const previous = codes.find(c => c.id === searched.codeId)?.autoCodeQuery;
+    const samePattern = previous && previous.pattern === searched.query.pattern && previous.mode === searched.query.mode;
+    const runOn = new Set([...(samePattern ? previous.transcriptIds || [] : []), ...searched.transcriptIds]);
+    onApply(
+      searched.codeId,
+      createAutoCodeSelections(chosen, searched.codeId, project.transcripts),
+      saveQuery ? { ...searched.query, transcriptIds: Array.from(runOn), lastRunAt: Date.now() } : null
+    );
+  };
+
+  const toggle = (set: Set<string>, id: string) => {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  };
+
+  const renderHit = (hit: AutoCodeHit) => {
+    const text = texts.get(hit.transcriptId) || '';
+    const context = expanded.has(hit.id) ? EXPANDED_CONTEXT : CONTEXT;
+    const parts: React.ReactNode[] = [];
+    let pos = hit.start;
+    hit.matches.forEach((m, i) => {
+      parts.push(text.slice(pos, m.start));
+      parts.push(<mark key={i} className="bg-amber-200 text-amber-950 rounded px-0.5">{text.slice(m.start, m.end)}</mark>);
+      pos = m.end;
+    });
+    parts.push(text.slice(pos, hit.end));
+    const before = Math.max(0, hit.start - context);
+    return (
+      <span className="cursor-pointer" onClick={() => setExpanded(toggle(expanded, hit.id))} title={expanded.has(hit.id) ? 'Show less context' : 'Show more context'}>
+        <span className="text-[var(--text-muted)]">{before > 0 && '…'}{text.slice(before, hit.start)}</span>
+        <span className="underline decoration-2" style={{ textDecorationColor: codes.find(c => c.id === searched?.codeId)?.color }}>{parts}</span>
+        <span className="text-[var(--text-muted)]">{text.slice(hit.end, hit.end + context)}{hit.end + context < text.length && '…'}</span>
+      </span>
+    );
+  };
+
+  const chosenCount = hits ? hits.filter(h => checked.has(h.id) && !h.alreadyCoded).length : 0;
+  const codedCount = hits ? hits.filter(h => h.alreadyCoded).length : 0;
+  const hitsByTranscript = textTranscripts
+    .map(t => ({ transcript: t, hits: (hits || []).filter(h => h.transcriptId === t.id) }))
+    .filter(g => g.hits.length > 0);
+  let rowsShown = 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div
+        className="bg-[var(--bg-panel)] border border-[var(--border)] rounded-xl shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200 text-[var(--text-main)]"
+        role="dialog"
+        aria-modal="true"
+      >
+        <div className="flex items-center gap-2 px-5 py-3 border-b border-[var(--border)]">
+          <Wand2 size={18} className="text-[var(--accent)]" />
+          <h3 className="font-bold flex-1">Auto-code</h3>
+          <button onClick={onClose} className="p-1 text-[var(--text-muted)] hover:text-[var(--text-main)]" title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Search form */}
+          <div className="w-80 flex-shrink-0 border-r border-[var(--border)] overflow-y-auto p-4 space-y-4 text-sm">
+            <div className="space-y-1">
+              <label className="text-xs font-bold text-[var(--text-muted)] uppercase">Find</label>
+              <input
+                autoFocus
+                value={pattern}
+                onChange={e => setPattern(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') runSearch(codeId, currentQuery(), transcriptIds); }}
+                placeholder={mode === 'regex' ? 'e.g. \\b(anxious|worried)\\b' : 'Word or phrase'}
+                className="w-full p-2 border border-[var(--border)] rounded bg-[var(--bg-main)] font-mono text-xs"
+              />
+              <div className="flex items-center gap-1">
+                {MODES.map(m => (
+                  <button
+                    key={m.value}
+                    onClick={() => setMode(m.value)}
+                    className={`flex-1 py-1 rounded text-xs ${mode === m.value ? 'bg-[var(--accent)] text-[var(--accent-text)]' : 'bg-[var(--bg-main)] text-[var(--text-muted)] hover:text-[var(--text-main)]'}`}
+                  >
+                    {m.label}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-xs text-[var(--text-muted)]">
+                <input type="checkbox" checked={caseSensitive} onChange={e => setCaseSensitive(e.target.checked)} /> Match case
+              </label>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-xs font-bold text-[var(--text-muted)] uppercase">Code each hit with</label>
+              <select value={codeId} onChange={e => setCodeId(e.target.value)} className="w-full p-2 border border-[var(--border)] rounded bg-[var(--bg-main)] text-xs">
+                {codes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+              <select value={scope} onChange={e => setScope(e.target.value as AutoCodeScope)} className="w-full p-2 border border-[var(--border)] rounded bg-[var(--bg-main)] text-xs">
+                {SCOPES.map(s => <option key={s.value} value={s.value}>Code the {s.label.toLowerCase()}</option>)}
+              </select>
+            </div>
+
+            {speakerNames.length > 0 && (
+              <div className="space-y-1">
+                <label className="text-xs font-bold text-[var(--text-muted)] uppercase">Speakers</label>
+                <div className="flex flex-wrap gap-1">
+                  {speakerNames.map(name => (
+                    <button
+                      key={name}
+                      onClick={() => setSpeakers(speakers.includes(name) ? speakers.filter(s => s !== name) : [...speakers, name])}
+                      className={`px-2 py-0.5 rounded-full text-xs border ${speakers.includes(name) ? 'bg-[var(--accent)] text-[var(--accent-text)] border-transparent' : 'border-[var(--border)] text-[var(--text-muted)]'}`}
+                    >
+                      {name}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-[10px] text-[var(--text-muted)]">{speakers.length ? 'Only lines by the chosen speakers are searched.' : 'All lines are searched.'}</p>
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <label className="text-xs font-bold text-[var(--text-muted)] uppercase">Documents</label>
+                <button
+                  onClick={() => setTranscriptIds(transcriptIds.size === textTranscripts.length ? new Set() : new Set(textTranscripts.map(t => t.id)))}
+                  className="text-[10px] text-[var(--accent)] hover:underline"
+                >
+                  {transcriptIds.size === textTranscripts.length ? 'None' : 'All'}
+                </button>
+              </div>
+              <div className="max-h-40 overflow-y-auto space-y-0.5">
+                {textTranscripts.map(t => (
+                  <label key={t.id} className="flex items-center gap-2 text-xs truncate">
+                    <input type="checkbox" checked={transcriptIds.has(t.id)} onChange={() => setTranscriptIds(toggle(transcriptIds, t.id))} />
+                    <span className="truncate">{t.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <button
+              onClick={() => runSearch(codeId, currentQuery(), transcriptIds)}
+              disabled={!pattern || !codeId || transcriptIds.size === 0}
+              className="w-full flex items-center justify-center gap-2 py-2 rounded bg-[var(--accent)] text-[var(--accent-text)] font-bold text-xs disabled:opacity-40"
+            >
+              <Search size={14} /> Find hits
+            </button>
+
+            {savedSearches.length > 0 && (
+              <div className="space-y-1 border-t border-[var(--border)] pt-3">
+                <label className="text-xs font-bold text-[var(--text-muted)] uppercase">Saved searches</label>
+                {savedSearches.map(code => {
+                  const fresh = transcriptsNotYetSearched(code.autoCodeQuery!, textTranscripts).length;
+                  return (
+                    <div key={code.id} className="flex items-center gap-2 text-xs">
+                      <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: code.color }} />
+                      <div className="flex-1 min-w-0">
+                        <div className="font-bold truncate">{code.name}</div>
+                        <div className="text-[var(--text-muted)] truncate font-mono" title={describeAutoCodeQuery(code.autoCodeQuery!)}>{describeAutoCodeQuery(code.autoCodeQuery!)}</div>
+                      </div>
+                      <button
+                        onClick={() => loadSavedSearch(code)}
+                        disabled={fresh === 0}
+                        className="flex items-center gap-1 px-2 py-0.5 rounded hover:bg-[var(--bg-main)] text-[var(--accent)] disabled:text-[var(--text-muted)] disabled:opacity-60"
+                        title={fresh ? 'Run again on documents it has not searched yet' : 'Already run on every document'}
+                      >
+                        <RotateCw size={12} /> {fresh ? `${fresh} new` : 'Up to date'}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Preview */}
+          <div className="flex-1 flex flex-col min-w-0">
+            {error && <div className="px-4 py-2 text-xs font-bold text-red-500 border-b border-[var(--border)]">{error}</div>}
+            {hits && (
+              <div className="flex items-center gap-3 px-4 py-2 border-b border-[var(--border)] text-xs text-[var(--text-muted)]">
+                <span className="flex-1">
+                  {hits.length} hit{hits.length === 1 ? '' : 's'} in {hitsByTranscript.length} document{hitsByTranscript.length === 1 ? '' : 's'}
+                  {codedCount > 0 && `, ${codedCount} already coded`}. Click a hit to see more context.
+                </span>
+                <button onClick={() => setChecked(new Set(hits.filter(h => !h.alreadyCoded).map(h => h.id)))} className="hover:text-[var(--text-main)]">Select all</button>
+                <button onClick={() => setChecked(new Set())} className="hover:text-[var(--text-main)]">Select none</button>
+              </div>
+            )}
+            <div className="flex-1 overflow-y-auto px-4 py-2 space-y-4">
+              {!hits && !error && (
+                <div className="h-full flex items-center justify-center text-sm text-[var(--text-muted)] italic">
+                  Search for a word, phrase or pattern to preview what would be coded.
+                </div>
+              )}
+              {hits && hits.length === 0 && <p className="text-sm text-[var(--text-muted)] italic">No hits.</p>}
+              {hitsByTranscript.map(({ transcript, hits: transcriptHits }) => {
+                if (rowsShown >= MAX_ROWS) return null;
+                const rows = transcriptHits.slice(0, MAX_ROWS - rowsShown);
+                rowsShown += rows.length;
+                return (
+                  <div key={transcript.id}>
+                    <h4 className="text-xs font-bold text-[var(--text-muted)] uppercase mb-1">{transcript.name} ({transcriptHits.length})</h4>
+                    <div className="divide-y divide-[var(--border)]">
+                      {rows.map(hit => (
+                        <label key={hit.id} className={`flex items-start gap-2 py-1.5 text-sm ${hit.alreadyCoded ? 'opacity-50' : ''}`}>
+                          <input
+                            type="checkbox"
+                            className="mt-1"
+                            disabled={hit.alreadyCoded}
+                            checked={!hit.alreadyCoded && checked.has(hit.id)}
+                            onChange={() => setChecked(toggle(checked, hit.id))}
+                          />
+                          <span className="flex-1 min-w-0 break-words" onClick={e => e.preventDefault()}>
+                            {renderHit(hit)}
+                            {hit.alreadyCoded && <span className="ml-2 text-[10px] font-bold uppercase">already coded</span>}
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+              {hits && hits.length > MAX_ROWS && (
+                <p className="text-xs text-[var(--text-muted)] italic">Showing the first {MAX_ROWS} hits; all selected hits will be coded.</p>
+              )}
+            </div>
+            <div className="flex items-center gap-3 px-4 py-3 border-t border-[var(--border)]">
+              <label className="flex items-center gap-2 text-xs text-[var(--text-muted)] flex-1">
+                <input type="checkbox" checked={saveQuery} onChange={e => setSaveQuery(e.target.checked)} />
+                Save this search on the code so it can be re-run on new documents
+              </label>
+              <button onClick={onClose} className="px-4 py-2 rounded text-xs font-bold text-[var(--text-muted)] hover:bg-[var(--bg-main)]">Cancel</button>
+              <button
+                onClick={handleApply}
+                disabled={!hits || (chosenCount === 0 && !saveQuery)}
+                className="px-4 py-2 rounded text-xs font-bold bg-[var(--accent)] text-[var(--accent-text)] disabled:opacity-40"
+              >
+                {chosenCount > 0 ? `Code ${chosenCount} hit${chosenCount === 1 ? '' : 's'}` : 'Save search'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
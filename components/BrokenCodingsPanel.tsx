@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Check, MousePointerClick, Trash2 } from 'lucide-react';
+import { Code } from '../types';
+import { BrokenSelection } from '../utils/textAnchors';
+
+interface Props {
+  items: BrokenSelection[];
+  codes: Code[];
+  transcriptText: string;
+  readOnly: boolean;
+  relocatingId: string | null;
+  onAccept: (items: BrokenSelection[]) => void;
+  onReselect: (selectionId: string | null) => void;
+  onDelete: (selectionId: string) => void;
+}
+
+// Characters of surrounding text shown either side of a proposed location
+const PREVIEW_CONTEXT = 40;
+
+export const BrokenCodingsPanel: React.FC<Props> = ({ items, codes, transcriptText, readOnly, relocatingId, onAccept, onReselect, onDelete }) => {
+  const [expanded, setExpanded] = useState(false);
+  const withProposal = items.filter(i => i.proposal);
+  const relocating = items.find(i => i.selection.id === relocatingId);
+
+  if (relocating) {
+    return (
+      <div className="flex items-center gap-2 px-4 py-1.5 bg-[var(--accent)] text-[var(--accent-text)] text-xs shrink-0">
+        <MousePointerClick size={14} className="flex-shrink-0" />
+        <span className="flex-1 truncate">
+          Select the text for <strong>{codes.find(c => c.id === relocating.selection.codeId)?.name || 'this coding'}</strong>: "{relocating.selection.anchor?.quote || relocating.selection.text}"
+        </span>
+        <button onClick={() => onReselect(null)} className="font-bold hover:underline">Cancel</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200 text-amber-900 text-xs shrink-0">
+      <div className="flex items-center gap-2 px-4 py-1.5">
+        <AlertTriangle size={14} className="flex-shrink-0" />
+        <span className="flex-1">
+          {items.length} coding{items.length === 1 ? ' no longer matches its' : 's no longer match their'} text, probably after an edit or restore.
+        </span>
+        {!readOnly && expanded && withProposal.length > 1 && (
+          <button onClick={() => onAccept(withProposal)} className="font-bold hover:underline">
+            Accept all {withProposal.length} suggestions
+          </button>
+        )}
+        <button onClick={() => setExpanded(!expanded)} className="font-bold hover:underline">
+          {expanded ? 'Hide' : 'Review'}
+        </button>
+      </div>
+      {expanded && (
+        <div className="max-h-64 overflow-y-auto border-t border-amber-200 divide-y divide-amber-100">
+          {items.map(item => {
+            const { selection, proposal } = item;
+            const code = codes.find(c => c.id === selection.codeId);
+            return (
+              <div key={selection.id} className="flex items-start gap-2 px-4 py-2">
+                <span className="w-2 h-2 mt-1 rounded-full flex-shrink-0" style={{ backgroundColor: code?.color }} />
+                <div className="flex-1 min-w-0 space-y-0.5">
+                  <div className="flex items-center gap-2">
+                    <span className="font-bold truncate">{code?.name || 'Unknown code'}</span>
+                    <span className="italic truncate opacity-80" title={selection.anchor?.quote || selection.text}>was "{selection.anchor?.quote || selection.text}"</span>
+                  </div>
+                  {proposal ? (
+                    <div className="truncate" title={transcriptText.slice(proposal.start, proposal.end)}>
+                      Suggested{proposal.score < 1 ? ` (${Math.round(proposal.score * 100)}% match)` : ''}: <span className="opacity-60">…{transcriptText.slice(Math.max(0, proposal.start - PREVIEW_CONTEXT), proposal.start)}</span>
+                      <mark className="bg-amber-200 text-amber-950 px-0.5 rounded">{transcriptText.slice(proposal.start, proposal.end)}</mark>
+                      <span className="opacity-60">{transcriptText.slice(proposal.end, proposal.end + PREVIEW_CONTEXT)}…</span>
+                    </div>
+                  ) : (
+                    <div className="opacity-80">No similar text found in this transcript.</div>
+                  )}
+                </div>
+                {!readOnly && (
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {proposal && (
+                      <button onClick={() => onAccept([item])} className="flex items-center gap-1 px-2 py-0.5 rounded font-bold hover:bg-amber-100" title="Move the coding to the suggested text">
+                        <Check size={12} /> Accept
+                      </button>
+                    )}
+                    <button onClick={() => onReselect(selection.id)} className="flex items-center gap-1 px-2 py-0.5 rounded hover:bg-amber-100" title="Select the text yourself">
+                      <MousePointerClick size={12} /> Re-select
+                    </button>
+                    <button onClick={() => onDelete(selection.id)} className="flex items-center gap-1 px-2 py-0.5 rounded text-red-600 hover:bg-red-100">
+                      <Trash2 size={12} /> Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { Bookmark, FileText, Tag, Trash2 } from 'lucide-react';
+import { Code, CodeQuery, CodeQueryOperator, Project, Selection } from '../types';
+import { CODE_QUERY_OPERATORS, CodeQuerySpan, describeCodeQuery, runCodeQuery } from '../utils/codeQuery';
+import { codebookOrder } from '../utils/keyboardCoding';
+
+export interface QueryCoder {
+  id: string;
+  name: string;
+  selections: Selection[];
+}
+
+interface Props {
+  project: Project;
+  coders: QueryCoder[];                           // First entry is the current user
+  passesFilters: (s: Selection) => boolean;       // Document, attribute and speaker filters
+  transcriptIds: string[];                        // Documents in scope; empty = all
+  onSaveQuery?: (query: CodeQuery) => void;
+  onDeleteQuery?: (id: string) => void;
+  onCreateCode?: (name: string, spans: CodeQuerySpan[]) => void;
+}
+
+// Coder choice that pools every coder's selections
+const ALL_CODERS = '__all__';
+
+const inputClass = 'bg-[var(--bg-main)] border border-[var(--border)] text-[var(--text-main)] text-sm rounded-md px-2 py-1.5 outline-none focus:ring-2 focus:ring-[var(--accent)]';
+
+export const CodeQueryPanel: React.FC<Props> = ({ project, coders, passesFilters, transcriptIds, onSaveQuery, onDeleteQuery, onCreateCode }) => {
+  const orderedCodes = useMemo(() => codebookOrder(project.codes), [project.codes]);
+  const [codeA, setCodeA] = useState(orderedCodes[0]?.id || '');
+  const [codeB, setCodeB] = useState(orderedCodes[1]?.id || orderedCodes[0]?.id || '');
+  const [operator, setOperator] = useState<CodeQueryOperator>('and');
+  const [lines, setLines] = useState(2);
+  const [coderId, setCoderId] = useState(coders[0]?.id || '');
+  const [saveName, setSaveName] = useState<string | null>(null);
+  const [codeName, setCodeName] = useState<string | null>(null);
+
+  const codeById = useMemo(() => new Map(project.codes.map(c => [c.id, c])), [project.codes]);
+  const depthOf = (code: Code): number => {
+    const parent = code.parentId ? codeById.get(code.parentId) : undefined;
+    return parent ? depthOf(parent) + 1 : 0;
+  };
+
+  const query = { codeA, operator, codeB, lines };
+  const coderSelections = useMemo(() => {
+    const chosen = coderId === ALL_CODERS ? coders : coders.filter(c => c.id === coderId);
+    return chosen.flatMap(c => c.selections).filter(passesFilters);
+  }, [coders, coderId, passesFilters]);
+
+  const spans = useMemo(() => {
+    if (!codeA || !codeB) return [];
+    const transcripts = transcriptIds.length === 0 ? project.transcripts : project.transcripts.filter(t => transcriptIds.includes(t.id));
+    return runCodeQuery(query, project.codes, coderSelections, transcripts);
+  }, [codeA, operator, codeB, lines, coderSelections, transcriptIds, project.transcripts, project.codes]);
+
+  const groups = project.transcripts
+    .map(transcript => ({ transcript, spans: spans.filter(s => s.transcriptId === transcript.id) }))
+    .filter(g => g.spans.length > 0);
+
+  const loadQuery = (saved: CodeQuery) => {
+    setCodeA(saved.codeA);
+    setOperator(saved.operator);
+    setCodeB(saved.codeB);
+    if (saved.lines !== undefined) setLines(saved.lines);
+  };
+
+  const codeSelect = (value: string, onChange: (id: string) => void) => (
+    <select value={value} onChange={e => onChange(e.target.value)} className={`${inputClass} max-w-[14rem]`}>
+      {orderedCodes.map(c => <option key={c.id} value={c.id}>{'  '.repeat(depthOf(c))}{c.name}</option>)}
+    </select>
+  );
+
+  if (project.codes.length === 0) {
+    return <div className="flex-1 flex items-center justify-center text-[var(--text-muted)] italic">Create some codes to query them.</div>;
+  }
+
+  const savedQueries = project.codeQueries || [];
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {savedQueries.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {savedQueries.map(saved => (
+            <span key={saved.id} className="group flex items-center gap-1.5 pl-2 pr-1 py-1 rounded-full border border-[var(--border)] bg-[var(--bg-main)] text-xs">
+              <button onClick={() => loadQuery(saved)} className="flex items-center gap-1.5 text-[var(--text-main)] hover:text-[var(--accent)]" title={describeCodeQuery(saved, project.codes)}>
+                <Bookmark size={12} className="text-[var(--accent)]" /> {saved.name}
+              </button>
+              {onDeleteQuery && (
+                <button onClick={() => onDeleteQuery(saved.id)} className="opacity-0 group-hover:opacity-100 text-[var(--text-muted)] hover:text-red-500" title="Delete saved query">
+                  <Trash2 size={12} />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        {codeSelect(codeA, setCodeA)}
+        <select value={operator} onChange={e => setOperator(e.target.value as CodeQueryOperator)} className={inputClass}>
+          {CODE_QUERY_OPERATORS.map(o => <option key={o.operator} value={o.operator}>{o.label}</option>)}
+        </select>
+        {operator === 'near' && (
+          <label className="flex items-center gap-1 text-sm text-[var(--text-muted)]">
+            N =
+            <input type="number" min={0} value={lines} onChange={e => setLines(Math.max(0, parseInt(e.target.value, 10) || 0))} className={`${inputClass} w-16`} />
+          </label>
+        )}
+        {codeSelect(codeB, setCodeB)}
+        <label className="flex items-center gap-2 ml-auto text-sm text-[var(--text-muted)]">
+          Coder
+          <select value={coderId} onChange={e => setCoderId(e.target.value)} className={inputClass}>
+            {coders.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            {coders.length > 1 && <option value={ALL_CODERS}>All coders</option>}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex items-center gap-3 mb-2 text-xs text-[var(--text-muted)]">
+        <span className="flex-1 font-bold">
+          {spans.length} passage{spans.length === 1 ? '' : 's'} in {groups.length} document{groups.length === 1 ? '' : 's'}
+          {operator === 'near' && ` · whole ${codeById.get(codeA)?.name || ''} passages`}
+        </span>
+        {onSaveQuery && (saveName === null ? (
+          <button onClick={() => setSaveName(describeCodeQuery(query, project.codes))} className="flex items-center gap-1 hover:text-[var(--text-main)]" title="Save this query">
+            <Bookmark size={12} /> Save query
+          </button>
+        ) : (
+          <form className="flex items-center gap-1" onSubmit={e => {
+            e.preventDefault();
+            if (saveName.trim()) onSaveQuery({ id: crypto.randomUUID(), name: saveName.trim(), ...query, createdAt: Date.now() });
+            setSaveName(null);
+          }}>
+            <input autoFocus value={saveName} onChange={e => setSaveName(e.target.value)} className="px-1.5 py-0.5 rounded border border-[var(--border)] bg-[var(--bg-panel)] text-[var(--text-main)] w-48" placeholder="Name" />
+            <button type="submit" className="font-bold text-[var(--accent)]">Save</button>
+            <button type="button" onClick={() => setSaveName(null)}>Cancel</button>
+          </form>
+        ))}
+        {onCreateCode && spans.length > 0 && (codeName === null ? (
+          <button onClick={() => setCodeName(describeCodeQuery(query, project.codes))} className="flex items-center gap-1 hover:text-[var(--text-main)]" title="Code these passages with a new code">
+            <Tag size={12} /> Save as code
+          </button>
+        ) : (
+          <form className="flex items-center gap-1" onSubmit={e => {
+            e.preventDefault();
+            if (codeName.trim()) onCreateCode(codeName.trim(), spans);
+            setCodeName(null);
+          }}>
+            <input autoFocus value={codeName} onChange={e => setCodeName(e.target.value)} className="px-1.5 py-0.5 rounded border border-[var(--border)] bg-[var(--bg-panel)] text-[var(--text-main)] w-48" placeholder="New code name" />
+            <button type="submit" className="font-bold text-[var(--accent)]">Create</button>
+            <button type="button" onClick={() => setCodeName(null)}>Cancel</button>
+          </form>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto border border-[var(--border)] rounded-lg">
+        {groups.length === 0 && (
+          <div className="p-6 text-center text-sm italic text-[var(--text-muted)]">No passages match this query.</div>
+        )}
+        {groups.map(({ transcript, spans: items }) => (
+          <div key={transcript.id}>
+            <div className="flex items-center gap-2 px-4 py-2 bg-[var(--bg-main)] text-xs font-bold text-[var(--text-muted)] sticky top-0">
+              <FileText size={12} />
+              <span className="flex-1 truncate">{transcript.name}</span>
+              <span>{items.length}</span>
+            </div>
+            {items.map(span => (
+              <div key={span.id} className="px-4 py-2 border-b border-[var(--border)]">
+                <div className="text-[10px] font-bold text-[var(--accent)]">
+                  {span.lineStart === span.lineEnd ? `Line ${span.lineStart}` : `Lines ${span.lineStart}–${span.lineEnd}`}
+                </div>
+                <div className="text-sm italic text-[var(--text-main)] whitespace-pre-wrap break-words">"{span.text}"</div>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,11 @@
 import React, { useState, useMemo } from 'react';
 import { Code, CodeHistoryEntry, CodebookChangeProposal } from '../types';
 import { ConfirmationModal, ModalType } from './ConfirmationModal';
-import { Plus, Trash2, Folder, Lock, User, Sparkles, Shield, Tag, History, AlertTriangle, GitPullRequest, Send, Edit2, GitMerge, X, Eye } from 'lucide-react';
+import { Plus, Trash2, Folder, Lock, User, Sparkles, Shield, Tag, History, AlertTriangle, GitPullRequest, Send, Edit2, GitMerge, X, Eye, Download, Upload, BookOpen } from 'lucide-react';
 import { getCodeHistory, logCodeHistory, submitProposal, sendNotification, saveSharedCode } from '../services/firestoreService';
+import { exportCodebookToQdc, parseQdcFile } from '../utils/refiQda';
+import { previewCodebookImport, applyCodebookImport, CodebookImportEntry } from '../utils/dataUtils';
+import { CodebookReportFormat } from '../utils/codebookReport';
 
 interface CodebookProps {
   codes: Code[];
@@ -16,6 +19,8 @@ interface CodebookProps {
   onSubmitProposal?: (proposal: CodebookChangeProposal) => void;
   hiddenCodeIds?: Set<string>;
   onToggleVisibility?: (id: string) => void;
+  onImportCodes?: (added: Code[], updated: Code[]) => void;
+  onPublishCodebook?: (format: CodebookReportFormat) => void;
 }
 
 export const Codebook: React.FC<CodebookProps> = ({
@@ -29,7 +34,9 @@ export const Codebook: React.FC<CodebookProps> = ({
   projectId,
   onSubmitProposal,
   hiddenCodeIds,
-  onToggleVisibility
+  onToggleVisibility,
+  onImportCodes,
+  onPublishCodebook
 }) => {
   const [selectedCodeId, setSelectedCodeId] = useState<string | null>(null);
   const [filterType, setFilterType] = useState<'master' | 'personal' | 'suggested'>('personal');
@@ -219,6 +226,54 @@ export const Codebook: React.FC<CodebookProps> = ({
     setProposalSubmitting(false);
   };
 
+  // Codebook exchange (.qdc). Imports land in the master codebook for cloud projects
+  // (admins only) and in the personal codebook for local ones.
+  const importTargetType: Code['type'] = projectId ? 'master' : 'personal';
+  const canImport = !!onImportCodes && (!projectId || isAdmin);
+  const [importPreview, setImportPreview] = useState<{ fileName: string; entries: CodebookImportEntry[] } | null>(null);
+  const [updateMatches, setUpdateMatches] = useState(false);
+  const [showPublishMenu, setShowPublishMenu] = useState(false);
+
+  const handleExportQdc = () => {
+    const tabCodes = codes.filter(c => (c.type || 'personal') === filterType);
+    if (tabCodes.length === 0) { openAlert('Nothing to Export', `The ${filterType} codebook is empty.`, 'info'); return; }
+    exportCodebookToQdc(tabCodes, `${filterType}_codebook`);
+  };
+
+  const handleImportQdc = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await parseQdcFile(file);
+      if (imported.length === 0) { openAlert('Import Failed', 'No codes found in this codebook file.', 'alert'); return; }
+      const targetCodes = codes.filter(c => (c.type || 'personal') === importTargetType);
+      setUpdateMatches(false);
+      setImportPreview({ fileName: file.name, entries: previewCodebookImport(targetCodes, imported) });
+    } catch (err) {
+      console.error(err);
+      openAlert('Import Failed', 'Failed to read codebook. Ensure it is a REFI-QDA .qdc file.', 'danger');
+    }
+  };
+
+  const confirmImport = () => {
+    if (!importPreview || !onImportCodes) return;
+    const targetCodes = codes.filter(c => (c.type || 'personal') === importTargetType);
+    const { added, updated } = applyCodebookImport(targetCodes, importPreview.entries, {
+      updateMatches,
+      type: importTargetType,
+      createdBy: currentUser?.uid,
+    });
+    setImportPreview(null);
+    if (added.length === 0 && updated.length === 0) {
+      openAlert('Nothing Imported', 'All codes in this file already exist in the codebook.', 'info');
+      return;
+    }
+    onImportCodes(added, updated);
+    setFilterType(importTargetType as 'master' | 'personal');
+    openAlert('Import Complete', `Added ${added.length} new code(s), updated ${updated.length} existing code(s).`, 'info');
+  };
+
   const handleSuggestNewCode = async () => {
     setFilterType('suggested');
     onCreateCode('suggested');
@@ -281,6 +336,59 @@ export const Codebook: React.FC<CodebookProps> = ({
         </div>
       )}
 
+      {/* Codebook Import Preview */}
+      {importPreview && (() => {
+        const newCount = importPreview.entries.filter(e => !e.match).length;
+        const changedCount = importPreview.entries.filter(e => e.match && e.changedFields.length > 0).length;
+        return (
+          <div className="absolute inset-0 z-50 bg-black/50 flex items-center justify-center p-8 backdrop-blur-sm" onClick={() => setImportPreview(null)}>
+            <div className="bg-[var(--bg-panel)] rounded-xl shadow-2xl w-full max-w-2xl max-h-full flex flex-col overflow-hidden border border-[var(--border)]" onClick={e => e.stopPropagation()}>
+              <div className="p-4 border-b border-[var(--border)] flex justify-between items-center bg-[var(--bg-main)]">
+                <div>
+                  <h3 className="font-bold text-lg flex items-center gap-2 text-[var(--text-main)]">
+                    <Upload size={18} className="text-[var(--text-muted)]" />
+                    Import Codebook
+                  </h3>
+                  <p className="text-xs text-[var(--text-muted)]">
+                    {importPreview.fileName} · {newCount} new · {importPreview.entries.length - newCount} matching the {importTargetType} codebook
+                  </p>
+                </div>
+                <button onClick={() => setImportPreview(null)} className="text-[var(--text-muted)] hover:text-[var(--text-main)] p-1 rounded"><X size={18} /></button>
+              </div>
+              <div className="flex-1 overflow-y-auto">
+                {importPreview.entries.map(({ code, depth, match, changedFields }) => (
+                  <div key={code.id} className="px-4 py-2 border-b border-[var(--border)] flex items-center gap-2 text-sm" style={{ paddingLeft: 16 + depth * 20 }}>
+                    <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: code.color }} />
+                    <span className="flex-1 truncate text-[var(--text-main)]" title={code.description}>{code.name}</span>
+                    {!match ? (
+                      <span className="text-[10px] bg-green-100 text-green-800 px-1.5 py-0.5 rounded font-bold uppercase">New</span>
+                    ) : changedFields.length > 0 ? (
+                      <span className="text-[10px] bg-amber-100 text-amber-800 px-1.5 py-0.5 rounded font-bold" title={`Differs in: ${changedFields.join(', ')}`}>
+                        MATCH · {changedFields.length} change{changedFields.length > 1 ? 's' : ''}
+                      </span>
+                    ) : (
+                      <span className="text-[10px] bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded font-bold uppercase">Match</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div className="p-4 border-t border-[var(--border)] bg-[var(--bg-main)] flex items-center justify-between gap-4">
+                <label className={`flex items-center gap-2 text-xs ${changedCount === 0 ? 'text-[var(--text-muted)] opacity-60' : 'text-[var(--text-main)]'}`}>
+                  <input type="checkbox" checked={updateMatches} disabled={changedCount === 0} onChange={e => setUpdateMatches(e.target.checked)} />
+                  Overwrite definitions of {changedCount} matching code{changedCount === 1 ? '' : 's'}
+                </label>
+                <div className="flex gap-2">
+                  <button onClick={() => setImportPreview(null)} className="px-3 py-1.5 text-xs font-bold rounded border border-[var(--border)] text-[var(--text-muted)] hover:text-[var(--text-main)]">Cancel</button>
+                  <button onClick={confirmImport} className="px-3 py-1.5 text-xs font-bold rounded bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110">
+                    Merge into Codebook
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+      })()}
+
       {/* Sidebar List */}
       <div className="w-1/3 border-r border-[var(--border)] flex flex-col">
         <div className="p-4 border-b bg-[var(--bg-main)] space-y-3">
@@ -290,6 +398,46 @@ export const Codebook: React.FC<CodebookProps> = ({
               <p className="text-xs text-[var(--text-muted)]">{codes.length} codes</p>
             </div>
             <div className="flex gap-1">
+              <button
+                onClick={handleExportQdc}
+                className="bg-[var(--bg-panel)] hover:bg-[var(--bg-main)] border border-[var(--border)] text-[var(--text-muted)] hover:text-[var(--text-main)] p-2 rounded shadow-sm transition-colors"
+                title="Export this codebook as REFI-QDA (.qdc)"
+              >
+                <Download size={16} />
+              </button>
+              {onPublishCodebook && (
+                <div className="relative">
+                  <button
+                    onClick={() => setShowPublishMenu(!showPublishMenu)}
+                    className="bg-[var(--bg-panel)] hover:bg-[var(--bg-main)] border border-[var(--border)] text-[var(--text-muted)] hover:text-[var(--text-main)] p-2 rounded shadow-sm transition-colors"
+                    title={projectId ? 'Publish master codebook' : 'Publish codebook'}
+                  >
+                    <BookOpen size={16} />
+                  </button>
+                  {showPublishMenu && (
+                    <div className="absolute right-0 mt-1 w-44 bg-[var(--bg-panel)] border border-[var(--border)] rounded-lg shadow-xl z-50 py-1 text-xs">
+                      {([['docx', 'Word document'], ['html', 'Standalone HTML'], ['print', 'Print / PDF']] as [CodebookReportFormat, string][]).map(([format, label]) => (
+                        <button
+                          key={format}
+                          onClick={() => { setShowPublishMenu(false); onPublishCodebook(format); }}
+                          className="w-full text-left px-3 py-2 hover:bg-[var(--bg-main)] text-[var(--text-main)]"
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+              {canImport && (
+                <label
+                  className="bg-[var(--bg-panel)] hover:bg-[var(--bg-main)] border border-[var(--border)] text-[var(--text-muted)] hover:text-[var(--text-main)] p-2 rounded shadow-sm transition-colors cursor-pointer"
+                  title={`Import REFI-QDA codebook (.qdc) into the ${importTargetType} codebook`}
+                >
+                  <Upload size={16} />
+                  <input type="file" className="hidden" accept=".qdc,.xml" onChange={handleImportQdc} />
+                </label>
+              )}
               {isAdmin && (
                 <button
                   onClick={() => onCreateCode('master')}
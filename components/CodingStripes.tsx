@@ -0,0 +1,107 @@
+import React, { RefObject, useEffect, useState } from 'react';
+import { Code, Selection } from '../types';
+
+interface Props {
+  contentRef: RefObject<HTMLDivElement>;
+  selections: Selection[]; // Highlighted selections of the transcript
+  columnCodes: Code[];     // One column per code, left to right
+  focusedSelectionId: string | null;
+  onFocusSelection: (selectionId: string) => void;
+}
+
+export const STRIPE_WIDTH = 8;
+export const STRIPE_GAP = 4;
+
+interface Bar {
+  selection: Selection;
+  column: number;
+  top: number;
+  height: number;
+}
+
+const spansOf = (root: HTMLElement, selectionId: string) =>
+  Array.from(root.querySelectorAll<HTMLElement>(`.coded-segment[data-selection-id="${selectionId}"]`));
+
+// Stripes are measured from the highlight spans, so they follow wrapping, font size and zoom.
+// The transcript DOM is written imperatively by the Editor, hence the observers.
+export const CodingStripes: React.FC<Props> = ({ contentRef, selections, columnCodes, focusedSelectionId, onFocusSelection }) => {
+  const [bars, setBars] = useState<Bar[]>([]);
+
+  useEffect(() => {
+    const root = contentRef.current;
+    if (!root) return;
+    let frame = 0;
+
+    const measure = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const origin = root.getBoundingClientRect().top;
+        const columns = new Map(columnCodes.map((c, i) => [c.id, i]));
+        const next: Bar[] = [];
+        selections.forEach(selection => {
+          const column = columns.get(selection.codeId);
+          const rects = spansOf(root, selection.id).flatMap(span => Array.from(span.getClientRects()));
+          if (column === undefined || rects.length === 0) return;
+          const top = Math.min(...rects.map(r => r.top)) - origin;
+          const bottom = Math.max(...rects.map(r => r.bottom)) - origin;
+          next.push({ selection, column, top, height: Math.max(4, bottom - top) });
+        });
+        setBars(next);
+      });
+    };
+
+    measure();
+    const mutations = new MutationObserver(measure);
+    mutations.observe(root, { childList: true, subtree: true, characterData: true });
+    const resizes = new ResizeObserver(measure);
+    resizes.observe(root);
+    return () => {
+      cancelAnimationFrame(frame);
+      mutations.disconnect();
+      resizes.disconnect();
+    };
+  }, [contentRef, selections, columnCodes]);
+
+  const setHover = (bar: Bar, hovered: boolean) => {
+    const root = contentRef.current;
+    if (!root) return;
+    const color = columnCodes[bar.column]?.color || '';
+    spansOf(root, bar.selection.id).forEach(span => {
+      span.classList.toggle('stripe-hover', hovered);
+      span.style.setProperty('--stripe-color', color);
+    });
+  };
+
+  return (
+    <div
+      className="absolute top-0 bottom-0 right-4 pointer-events-none"
+      style={{ width: columnCodes.length * (STRIPE_WIDTH + STRIPE_GAP) }}
+    >
+      {bars.map(bar => {
+        const code = columnCodes[bar.column];
+        const focused = bar.selection.id === focusedSelectionId;
+        return (
+          <div
+            key={bar.selection.id}
+            className="absolute rounded-full cursor-pointer pointer-events-auto opacity-80 hover:opacity-100 transition-opacity"
+            style={{
+              left: bar.column * (STRIPE_WIDTH + STRIPE_GAP),
+              top: bar.top,
+              width: STRIPE_WIDTH,
+              height: bar.height,
+              backgroundColor: code.color,
+              boxShadow: focused ? '0 0 0 2px var(--accent)' : undefined
+            }}
+            title={`${code.name}: "${bar.selection.text.length > 80 ? `${bar.selection.text.slice(0, 80)}…` : bar.selection.text}"`}
+            onMouseEnter={() => setHover(bar, true)}
+            onMouseLeave={() => setHover(bar, false)}
+            onClick={e => {
+              e.stopPropagation();
+              onFocusSelection(bar.selection.id);
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+};
@@ -1,9 +1,12 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { Users, Eye, UserPlus, X, Trash2, RefreshCw, Mail, ChevronDown, ChevronRight, Reply, Edit2, AtSign, MessageCircle, ArrowLeft, Send, FileText } from 'lucide-react';
+import { Users, Eye, UserPlus, X, Trash2, RefreshCw, Mail, ChevronDown, ChevronRight, Reply, Edit2, AtSign, MessageCircle, ArrowLeft, Send, FileText, GitMerge } from 'lucide-react';
 import { CloudProject, CollaboratorData, Code, Transcript, Selection, ChatMessage, DirectMessage } from '../types';
 import { ConfirmationModal, ModalType } from './ConfirmationModal';
+import { MergeCodingsModal } from './MergeCodingsModal';
 import {
     getAllCollaboratorData,
+    isSharedLayer,
+    MASTER_USER_ID,
     createInvitation,
     removeProjectMember,
     updateDirectMessage,
@@ -32,6 +35,8 @@ interface Props {
     onViewCollaborator: (userId: string, userName: string) => void;
     /** All DMs involving the current user (for unread badge) */
     allDirectMessages?: DirectMessage[];
+    /** The current user's own (possibly unsaved) selections, offered when merging into the master layer */
+    ownSelections?: Selection[];
 }
 
 export const CollaborationPanel: React.FC<Props> = ({
@@ -43,7 +48,8 @@ export const CollaborationPanel: React.FC<Props> = ({
     chatMessages = [],
     onSendMessage,
     onViewCollaborator,
-    allDirectMessages = []
+    allDirectMessages = [],
+    ownSelections
 }) => {
     const [activeTab, setActiveTab] = useState<'stats' | 'chat' | 'dm' | 'requests'>('stats');
     const [changeRequests, setChangeRequests] = useState<TranscriptChangeRequest[]>([]);
@@ -53,6 +59,7 @@ export const CollaborationPanel: React.FC<Props> = ({
     const [inviting, setInviting] = useState(false);
     const [showInvite, setShowInvite] = useState(false);
     const [expandedUser, setExpandedUser] = useState<string | null>(null);
+    const [showMerge, setShowMerge] = useState(false);
     const [newItem, setNewItem] = useState(''); // Chat input
 
     // Chat enhancements
@@ -712,9 +719,21 @@ export const CollaborationPanel: React.FC<Props> = ({
                         </div>
 
                         <div className="flex-1 overflow-y-auto p-4">
-                            <h3 className="text-xs font-bold uppercase text-[var(--text-muted)] tracking-wider mb-3">
-                                Collaborator Coding
-                            </h3>
+                            <div className="flex justify-between items-center mb-3">
+                                <h3 className="text-xs font-bold uppercase text-[var(--text-muted)] tracking-wider">
+                                    Collaborator Coding
+                                </h3>
+                                {isAdmin && (
+                                    <button
+                                        onClick={() => setShowMerge(true)}
+                                        disabled={loading}
+                                        className="text-xs flex items-center gap-1 text-[var(--accent)] hover:underline disabled:opacity-50"
+                                        title="Copy collaborators' codings into the shared master layer"
+                                    >
+                                        <GitMerge size={12} /> Merge into master
+                                    </button>
+                                )}
+                            </div>
                             {loading ? (
                                 <div className="flex items-center justify-center py-12">
                                     <div className="animate-pulse text-[var(--text-muted)] text-sm">Loading collaborator data...</div>
@@ -758,7 +777,7 @@ export const CollaborationPanel: React.FC<Props> = ({
                                                     <div className="flex items-center gap-2">
                                                         {collab.userId !== currentUserId && (
                                                             <>
-                                                                <button
+                                                                {!isSharedLayer(collab.userId) && <button
                                                                     onClick={(e) => {
                                                                         e.stopPropagation();
                                                                         openDm(collab.userId, collab.displayName);
@@ -772,7 +791,7 @@ export const CollaborationPanel: React.FC<Props> = ({
                                                                             {unreadFromUser}
                                                                         </span>
                                                                     )}
-                                                                </button>
+                                                                </button>}
                                                                 <button
                                                                     onClick={(e) => {
                                                                         e.stopPropagation();
@@ -1273,6 +1292,24 @@ export const CollaborationPanel: React.FC<Props> = ({
                 )}
             </div>
 
+            {showMerge && (
+                <MergeCodingsModal
+                    projectId={cloudProject.id}
+                    coders={[
+                        ...(ownSelections ? [{ userId: currentUserId, displayName: 'Me', selections: ownSelections }] : []),
+                        ...collaboratorData.filter(c => c.userId !== MASTER_USER_ID).map(c => ({ userId: c.userId, displayName: c.displayName, selections: c.selections || [] }))
+                    ]}
+                    codes={codes}
+                    transcripts={transcripts}
+                    onMerged={(added) => {
+                        setShowMerge(false);
+                        openAlert('Codings Merged', `Added ${added} coding${added === 1 ? '' : 's'} to the master layer. Use View on "Master coding" to see them.`);
+                        loadCollaboratorData();
+                    }}
+                    onClose={() => setShowMerge(false)}
+                />
+            )}
+
             <ConfirmationModal
                 isOpen={modalConfig.isOpen}
                 type={modalConfig.type}
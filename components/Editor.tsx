@@ -1,10 +1,21 @@
 import React, { useRef, useEffect, useCallback, memo, useState, useLayoutEffect } from 'react';
-import { Transcript, Code, Selection, AppSettings, StickyNote } from '../types';
-import { Trash2, MessageSquare, Sparkles, X, Save, Plus, CornerDownLeft, AlertTriangle, ArrowDown, ArrowUp, StickyNote as StickyNoteIcon } from 'lucide-react';
+import { Transcript, Code, Selection, AppSettings, StickyNote, TranscriptLineMeta, MediaRange, ImageRegion } from '../types';
+import { Trash2, MessageSquare, Sparkles, X, Save, Plus, CornerDownLeft, AlertTriangle, ArrowDown, ArrowUp, StickyNote as StickyNoteIcon, Play, Keyboard } from 'lucide-react';
 
 
 import { TranscriptNoteLayer, TranscriptNoteLayerHandle } from './TranscriptNoteLayer';
-import { restoreHighlights, stripHighlights } from '../utils/highlightUtils';
+import { MediaPlayer, MediaPlayerHandle } from './MediaPlayer';
+import { ImageDocumentView } from './ImageDocumentView';
+import { BrokenCodingsPanel } from './BrokenCodingsPanel';
+import { CodingStripes, STRIPE_GAP, STRIPE_WIDTH } from './CodingStripes';
+import { KeyboardShortcutsOverlay } from './KeyboardShortcutsOverlay';
+import { restoreHighlights, stripHighlights, getTranscriptLineMeta, getTranscriptLines, getParagraphStartLines } from '../utils/highlightUtils';
+import { clearLineTimes, findLineAtTime, hasLineTimes, lineStartTime, mediaRangeLabel, nextUnsyncedLine, setLineStartTime } from '../utils/mediaSync';
+import { lineMetaAttributes } from '../utils/transcriptParser';
+import { regionLabel } from '../utils/imageDocuments';
+import { findBrokenSelections, isTextSelection, relocateSelection } from '../utils/textAnchors';
+import { DEFAULT_KEYBOARD_CODING, KeyboardBindings, TextUnit, buildTextStructure, chordFromEvent, extendRange, findUncodedLine, resolveKeyboardBindings } from '../utils/keyboardCoding';
+import { listSpeakers, speakerColor } from '../utils/speakerUtils';
 
 interface EditorProps {
   activeTranscript: Transcript | null;
@@ -21,8 +32,11 @@ interface EditorProps {
   onSaveContent?: (newContent: string) => void;
   onCancelEdit?: () => void;
   onAutoSave?: (newContent: string) => void;
+  onUpdateLineTimes?: (newContent: string, isStamp?: boolean) => void; // Tap-to-sync; omitted when the user can't change content
+  onRepairSelections?: (selections: Selection[]) => void; // Moves broken codings to new offsets
 
   settings: AppSettings;
+  onUpdateSettings?: (settings: AppSettings) => void; // Saves hotkey bindings
   codes: Code[];
   selections?: Selection[];
 
@@ -40,11 +54,13 @@ interface EditorProps {
   onAlert: (title: string, message: string) => void;
   onConfirm: (title: string, message: string, onConfirm: () => void) => void;
   hiddenCodeIds?: Set<string>;
+  jumpTo?: { transcriptId: string; line: number; nonce: number } | null; // Search result to scroll to
 }
 
 interface EditableLine {
   id: string;
   content: string;
+  meta?: TranscriptLineMeta;
 }
 
 export const Editor = memo<EditorProps>(({
@@ -59,7 +75,10 @@ export const Editor = memo<EditorProps>(({
   onSaveContent,
   onCancelEdit,
   onAutoSave,
+  onUpdateLineTimes,
+  onRepairSelections,
   settings,
+  onUpdateSettings,
   codes,
   selections = [],
   stickyNotes = [],
@@ -76,7 +95,8 @@ export const Editor = memo<EditorProps>(({
   codebookFilter = 'all',
   onAlert,
   onConfirm,
-  hiddenCodeIds
+  hiddenCodeIds,
+  jumpTo
 }) => {
   // Viewing Mode Refs
 
@@ -117,6 +137,42 @@ export const Editor = memo<EditorProps>(({
   const [focusedCodeId, setFocusedCodeId] = useState<string | null>(null);
   const [focusedSelectionId, setFocusedSelectionId] = useState<string | null>(null);
 
+  // Media playback: mediaTime is null while no recording is attached
+  const mediaPlayerRef = useRef<MediaPlayerHandle>(null);
+  const mediaSelectionMadeRef = useRef(false);
+  const lastFollowedLineRef = useRef(-1);
+  const [mediaTime, setMediaTime] = useState<number | null>(null);
+  const [seekOnClick, setSeekOnClick] = useState(true);
+  const [followPlayback, setFollowPlayback] = useState(true);
+  const [syncLineIndex, setSyncLineIndex] = useState<number | null>(null);
+  const lineMetas = React.useMemo(
+    () => activeTranscript ? getTranscriptLineMeta(activeTranscript.content) : [],
+    [activeTranscript?.content]
+  );
+  const currentMediaLine = mediaTime === null ? -1 : findLineAtTime(lineMetas, mediaTime);
+  const syncLineText = React.useMemo(
+    () => syncLineIndex !== null && activeTranscript ? getTranscriptLines(activeTranscript.content)[syncLineIndex] : undefined,
+    [syncLineIndex, activeTranscript?.content]
+  );
+
+  // Keyboard coding: the caret is a text offset, since the transcript itself isn't editable
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [lastCodeId, setLastCodeId] = useState<string | null>(null);
+  const [keyboardLine, setKeyboardLine] = useState<number | null>(null);
+  const keyboardCaretRef = useRef(0);
+  const keyboardSettings = settings.keyboardCoding || DEFAULT_KEYBOARD_CODING;
+  const textStructure = React.useMemo(
+    () => activeTranscript && !activeTranscript.images
+      ? buildTextStructure(getTranscriptLines(activeTranscript.content), getParagraphStartLines(activeTranscript.content))
+      : null,
+    [activeTranscript?.content, activeTranscript?.images]
+  );
+
+  useEffect(() => {
+    setKeyboardLine(null);
+    keyboardCaretRef.current = 0;
+  }, [activeTranscript?.id]);
+
   interface SearchMatch {
     id: string; // lineIndex-matchIndex
     lineIndex: number;
@@ -148,6 +204,16 @@ export const Editor = memo<EditorProps>(({
     return codes.filter(c => (c.type || 'personal') === codebookFilter);
   }, [codes, codebookFilter]);
 
+  // Speaker turns are marked by a coloured bar at the start of each line, one rule per speaker
+  const speakerGutterCss = React.useMemo(() => {
+    if (!activeTranscript?.content.includes('data-speaker')) return '';
+    const speakers = listSpeakers(activeTranscript.content).map(s => s.name);
+    return speakers.map(name => {
+      const value = name.replace(/["\\]/g, '\\$&').replace(/\n/g, '\\a ');
+      return `.transcript-content .transcript-line[data-speaker="${value}"] { box-shadow: inset 3px 0 0 ${speakerColor(speakers, name)}; }`;
+    }).join('\n');
+  }, [activeTranscript?.content]);
+
   // Levenshtein Distance Helper
   const calculateLevenshtein = (a: string, b: string) => {
     const matrix = [];
@@ -312,13 +378,15 @@ export const Editor = memo<EditorProps>(({
       const lines = Array.from(div.querySelectorAll('.transcript-line'));
 
       if (lines.length > 0) {
-        setEditableLines(lines.map(l => {
+        const metas = getTranscriptLineMeta(div.innerHTML);
+        setEditableLines(lines.map((l, i) => {
           let content = l.textContent || '';
           // FIX: Remove gutter text artifacts if present (e.g. "{ New Code") which can occur if styles were missing or content was flattened
           content = content.replace(/^(\s*\{\s+[^{}]+\s*)+/g, '').trimStart();
           return {
             id: crypto.randomUUID(),
-            content
+            content,
+            meta: Object.keys(metas[i] || {}).length > 0 ? metas[i] : undefined
           };
         }));
       } else {
@@ -380,7 +448,7 @@ export const Editor = memo<EditorProps>(({
 
     // Reconstruct HTML
     return editableLines.map((line, i) =>
-      `<div class="transcript-line" data-line="${i + 1}">${escape(line.content)}</div>`
+      `<div class="transcript-line" data-line="${i + 1}"${line.meta ? lineMetaAttributes(line.meta) : ''}>${escape(line.content)}</div>`
     ).join('');
   }, [editableLines]);
 
@@ -432,7 +500,9 @@ export const Editor = memo<EditorProps>(({
 
       const newLines = [...editableLines];
       newLines[index].content = textBefore;
-      newLines.splice(index + 1, 0, { id: crypto.randomUUID(), content: textAfter });
+      // The split-off half stays with the same speaker; timestamps remain on the original line
+      const speaker = currentLine.meta?.speaker;
+      newLines.splice(index + 1, 0, { id: crypto.randomUUID(), content: textAfter, meta: speaker ? { speaker } : undefined });
       setEditableLines(newLines);
 
       // Focus next line after render
@@ -490,12 +560,28 @@ export const Editor = memo<EditorProps>(({
     }
   }, [settings.zebraStriping]);
 
+  // Codings whose text no longer sits at their offsets; they are listed for repair, not highlighted
+  const transcriptText = React.useMemo(
+    () => activeTranscript && !activeTranscript.images ? getTranscriptLines(activeTranscript.content).join('') : '',
+    [activeTranscript?.content, activeTranscript?.images]
+  );
+  const brokenSelections = React.useMemo(
+    () => transcriptText ? findBrokenSelections(transcriptText, selections.filter(s => s.transcriptId === activeTranscript?.id)) : [],
+    [transcriptText, selections, activeTranscript?.id]
+  );
+  const [relocatingSelectionId, setRelocatingSelectionId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRelocatingSelectionId(null);
+  }, [activeTranscript?.id, isEditing]);
+
   // --- Viewer Mode Effects ---
   useEffect(() => {
     if (!isEditing && contentRef.current && activeTranscript) {
       // Start with clean content, then re-apply highlights from selections
       let html = stripHighlights(activeTranscript.content);
-      const transcriptSelections = (selections || []).filter(s => s.transcriptId === activeTranscript.id);
+      const brokenIds = new Set(brokenSelections.map(b => b.selection.id));
+      const transcriptSelections = (selections || []).filter(s => s.transcriptId === activeTranscript.id && !brokenIds.has(s.id));
       if (transcriptSelections.length > 0) {
         html = restoreHighlights(html, transcriptSelections, visibleCodes);
       }
@@ -503,7 +589,129 @@ export const Editor = memo<EditorProps>(({
       updateGutterMarkers();
       applyZebraStriping(); // Re-apply striping immediately after content update
     }
-  }, [activeTranscript?.id, activeTranscript?.content, isEditing, selections, visibleCodes, settings.zebraStriping]);
+  }, [activeTranscript?.id, activeTranscript?.content, isEditing, selections, brokenSelections, visibleCodes, settings.zebraStriping]);
+
+  // Media: mark the line being played and, while syncing, the next line to stamp
+  useEffect(() => {
+    if (isEditing || !contentRef.current) return;
+    const lines = contentRef.current.querySelectorAll('.transcript-line');
+    lines.forEach((line, i) => {
+      line.classList.toggle('media-current-line', i === currentMediaLine);
+      line.classList.toggle('media-sync-line', i === syncLineIndex);
+    });
+    const followIndex = syncLineIndex ?? currentMediaLine;
+    if (followPlayback && followIndex >= 0 && followIndex !== lastFollowedLineRef.current) {
+      lines[followIndex]?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+    lastFollowedLineRef.current = followIndex;
+  }, [currentMediaLine, syncLineIndex, followPlayback, activeTranscript?.id, activeTranscript?.content, isEditing, selections, visibleCodes, settings.zebraStriping]);
+
+  useEffect(() => {
+    setSyncLineIndex(null);
+  }, [activeTranscript?.id, isEditing]);
+
+  const handleStamp = (seconds: number) => {
+    if (syncLineIndex === null || !activeTranscript || !onUpdateLineTimes) return;
+    onUpdateLineTimes(setLineStartTime(activeTranscript.content, syncLineIndex, seconds), true);
+    setSyncLineIndex(syncLineIndex + 1 < lineMetas.length ? syncLineIndex + 1 : null);
+  };
+
+  const handleClearLineTimes = () => {
+    if (!activeTranscript || !onUpdateLineTimes) return;
+    const content = activeTranscript.content;
+    onConfirm('Clear Timestamps', 'Remove the timestamps from every line of this transcript? Coding is not affected.', () => {
+      onUpdateLineTimes(clearLineTimes(content));
+    });
+  };
+
+  const isShownSelection = (s: Selection) =>
+    s.transcriptId === activeTranscript?.id && visibleCodes.some(c => c.id === s.codeId) && !hiddenCodeIds?.has(s.codeId);
+
+  const mediaSelections = React.useMemo(
+    () => selections.filter(s => s.media && isShownSelection(s)),
+    [selections, activeTranscript?.id, visibleCodes, hiddenCodeIds]
+  );
+
+  const regionSelections = React.useMemo(
+    () => selections.filter(s => s.region && isShownSelection(s)),
+    [selections, activeTranscript?.id, visibleCodes, hiddenCodeIds]
+  );
+
+  // Coding stripes: one margin column per code, in order of first appearance in the transcript
+  const codingDisplay = settings.codingDisplay || 'inline';
+  const showStripes = codingDisplay !== 'inline' && !activeTranscript?.images;
+
+  const stripeSelections = React.useMemo(() => {
+    if (!showStripes) return [];
+    const brokenIds = new Set(brokenSelections.map(b => b.selection.id));
+    return selections
+      .filter(s => isTextSelection(s) && isShownSelection(s) && !brokenIds.has(s.id))
+      .sort((a, b) => a.startIndex - b.startIndex);
+  }, [showStripes, selections, brokenSelections, activeTranscript?.id, visibleCodes, hiddenCodeIds]);
+
+  const stripeCodes = React.useMemo(() => {
+    const ids = Array.from(new Set(stripeSelections.map(s => s.codeId)));
+    return ids.map(id => codes.find(c => c.id === id)).filter((c): c is Code => !!c);
+  }, [stripeSelections, codes]);
+
+  const handleStripeFocus = useCallback((selectionId: string) => {
+    setFocusedCodeId(null);
+    setFocusedSelectionId(prev => prev === selectionId ? null : selectionId);
+  }, []);
+
+  // Media segments carry no offsets; their text is the range label so lists stay readable
+  const handleCreateMediaSelection = (range: MediaRange) => {
+    if (readOnly || !activeCode || !activeTranscript) return;
+    onSelectionCreate({
+      id: crypto.randomUUID(),
+      codeId: activeCode.id,
+      transcriptId: activeTranscript.id,
+      text: `[${mediaRangeLabel(range)}]`,
+      startIndex: 0,
+      endIndex: 0,
+      timestamp: Date.now(),
+      media: range
+    }, activeTranscript.content);
+  };
+
+  const handleCreateRegion = (region: ImageRegion) => {
+    if (readOnly || !activeCode || !activeTranscript) return;
+    onSelectionCreate({
+      id: crypto.randomUUID(),
+      codeId: activeCode.id,
+      transcriptId: activeTranscript.id,
+      text: `[${regionLabel(region, activeTranscript.images?.length)}]`,
+      startIndex: 0,
+      endIndex: 0,
+      timestamp: Date.now(),
+      region
+    }, activeTranscript.content);
+  };
+
+  const lineIndexOf = (el: Element | null): number => {
+    const line = el?.closest('.transcript-line');
+    if (!line || !contentRef.current) return -1;
+    return Array.from(contentRef.current.querySelectorAll('.transcript-line')).indexOf(line);
+  };
+
+  const seekToLine = (index: number): boolean => {
+    const start = index >= 0 ? lineStartTime(lineMetas, index) : null;
+    if (start === null) return false;
+    mediaPlayerRef.current?.seek(start);
+    return true;
+  };
+
+  // A plain click on a line seeks there, or picks the next line to stamp while syncing
+  const handleMediaLineClick = (target: HTMLElement): boolean => {
+    if (mediaSelectionMadeRef.current || target.closest('.gutter-marker, .coded-segment')) return false;
+    const index = lineIndexOf(target);
+    if (index < 0) return false;
+    if (syncLineIndex !== null) {
+      setSyncLineIndex(index);
+      return true;
+    }
+    return seekToLine(index);
+  };
 
 
 
@@ -803,12 +1011,11 @@ export const Editor = memo<EditorProps>(({
     });
   };
 
-  const handleMouseUp = useCallback(() => {
-    if (isEditing || readOnly || !activeCode || !activeTranscript || !contentRef.current) return;
+  // Codes the text selected in the transcript; used by mouse coding and the code hotkeys
+  const codeCurrentSelection = (code: Code) => {
     const selection = window.getSelection();
-    if (!selection || selection.isCollapsed) return;
-
-    if (!contentRef.current.contains(selection.anchorNode)) return;
+    if (readOnly || !activeTranscript || !contentRef.current) return;
+    if (!selection || selection.isCollapsed || !contentRef.current.contains(selection.anchorNode)) return;
 
     const range = selection.getRangeAt(0);
     const selectedText = range.toString();
@@ -816,13 +1023,15 @@ export const Editor = memo<EditorProps>(({
     try {
       const { start, end } = getGlobalOffsets(contentRef.current, range);
       const selId = crypto.randomUUID();
-      const success = highlightSafe(range, activeCode, selId);
+      const success = highlightSafe(range, code, selId);
 
       if (success) {
         selection.removeAllRanges();
+        setLastCodeId(code.id);
+        keyboardCaretRef.current = end;
         const newSelection: Selection = {
           id: selId,
-          codeId: activeCode.id,
+          codeId: code.id,
           transcriptId: activeTranscript.id,
           text: selectedText,
           startIndex: start,
@@ -841,15 +1050,185 @@ export const Editor = memo<EditorProps>(({
     } catch (e) {
       console.error(e);
     }
-  }, [activeCode, activeTranscript, onSelectionCreate, isEditing, readOnly]);
+  };
+
+  const handleMouseUp = useCallback(() => {
+    const selection = window.getSelection();
+    mediaSelectionMadeRef.current = !!selection && !selection.isCollapsed;
+    if (isEditing || readOnly || !activeTranscript || !contentRef.current) return;
+    if (!selection || selection.isCollapsed) return;
+
+    if (!contentRef.current.contains(selection.anchorNode)) return;
+
+    // Re-selecting the text of a broken coding moves it instead of creating a new one
+    const relocating = relocatingSelectionId && brokenSelections.find(b => b.selection.id === relocatingSelectionId);
+    if (relocating && onRepairSelections) {
+      const { start, end } = getGlobalOffsets(contentRef.current, selection.getRangeAt(0));
+      selection.removeAllRanges();
+      onRepairSelections([relocateSelection(relocating.selection, transcriptText, start, end)]);
+      setRelocatingSelectionId(null);
+      return;
+    }
+    if (activeCode) codeCurrentSelection(activeCode);
+  }, [activeCode, activeTranscript, onSelectionCreate, isEditing, readOnly, relocatingSelectionId, brokenSelections, transcriptText, onRepairSelections]);
+
+  // --- Keyboard Coding ---
+  const keyboardBindings: KeyboardBindings = React.useMemo(
+    () => resolveKeyboardBindings(visibleCodes, keyboardSettings),
+    [visibleCodes, keyboardSettings]
+  );
+
+  // Inverse of getGlobalOffsets: a DOM range over [start, end) of the transcript text
+  const rangeFromOffsets = (root: HTMLElement, start: number, end: number) => {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+      acceptNode: (node) => node.parentElement?.closest('.line-codes-gutter, .line-annotation-gutter')
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT
+    });
+    const range = document.createRange();
+    let pos = 0;
+    let startSet = false;
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const length = (node.textContent || '').length;
+      if (!startSet && start < pos + length) {
+        range.setStart(node, start - pos);
+        startSet = true;
+      }
+      if (startSet && end <= pos + length) {
+        range.setEnd(node, end - pos);
+        return range;
+      }
+      pos += length;
+    }
+    return null;
+  };
+
+  const lineOfOffset = (offset: number) => {
+    const starts = textStructure?.lineStarts || [];
+    let line = 0;
+    while (line + 1 < starts.length && starts[line + 1] <= offset) line++;
+    return line;
+  };
+
+  const scrollToLine = (line: number) => {
+    contentRef.current?.querySelectorAll('.transcript-line')[line]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  };
+
+  const extendSelectionBy = (unit: TextUnit) => {
+    const root = contentRef.current;
+    const selection = window.getSelection();
+    if (!root || !selection || !textStructure) return;
+    const current = !selection.isCollapsed && selection.rangeCount > 0 && root.contains(selection.anchorNode)
+      ? getGlobalOffsets(root, selection.getRangeAt(0))
+      : { start: keyboardCaretRef.current, end: keyboardCaretRef.current };
+    const { start, end } = extendRange(textStructure, current.start, current.end, unit);
+    const range = end > start ? rangeFromOffsets(root, start, end) : null;
+    if (!range) return;
+    selection.removeAllRanges();
+    selection.addRange(range);
+    keyboardCaretRef.current = start;
+    setKeyboardLine(lineOfOffset(end - 1));
+    scrollToLine(lineOfOffset(end - 1));
+  };
+
+  const moveToUncodedLine = (direction: 1 | -1) => {
+    if (!textStructure || !activeTranscript) return;
+    const coded = selections.filter(s => isTextSelection(s) && isShownSelection(s));
+    const from = keyboardLine ?? (direction === 1 ? -1 : textStructure.lineStarts.length);
+    const line = findUncodedLine(textStructure.lineStarts, textStructure.text.length, coded, from, direction);
+    if (line < 0) {
+      onAlert('No Uncoded Lines', `Every line ${direction === 1 ? 'after' : 'before'} this one has been coded.`);
+      return;
+    }
+    window.getSelection()?.removeAllRanges();
+    keyboardCaretRef.current = textStructure.lineStarts[line];
+    setKeyboardLine(line);
+    scrollToLine(line);
+  };
+
+  // Replaced on every render so the handler always sees the current selection state;
+  // the window listener below is added once and calls whichever handler is current
+  const keyboardCodingRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  keyboardCodingRef.current = (e: KeyboardEvent) => {
+    if (isEditing || !activeTranscript || activeTranscript.images || showShortcuts) return;
+    const target = e.target as HTMLElement | null;
+    if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+    if (document.querySelector('[role="dialog"][aria-modal="true"]')) return;
+    const chord = chordFromEvent(e);
+    if (!chord) return;
+
+    const action = keyboardBindings.actionByChord.get(chord);
+    const code = keyboardBindings.codeByChord.get(chord);
+    if (action === 'showShortcuts') {
+      e.preventDefault();
+      setShowShortcuts(true);
+      return;
+    }
+    if (!keyboardSettings.enabled || (!action && !code)) return;
+    e.preventDefault();
+
+    switch (action) {
+      case 'extendWord': extendSelectionBy('word'); break;
+      case 'extendSentence': extendSelectionBy('sentence'); break;
+      case 'extendLine': extendSelectionBy('line'); break;
+      case 'extendParagraph': extendSelectionBy('paragraph'); break;
+      case 'clearSelection': window.getSelection()?.removeAllRanges(); break;
+      case 'nextUncodedLine': moveToUncodedLine(1); break;
+      case 'previousUncodedLine': moveToUncodedLine(-1); break;
+      case 'applyLastCode': {
+        const last = visibleCodes.find(c => c.id === lastCodeId);
+        if (last) codeCurrentSelection(last);
+        break;
+      }
+      default:
+        if (code) codeCurrentSelection(code);
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => keyboardCodingRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Scroll to a search result and flash its line; the keyboard caret moves there too
+  useEffect(() => {
+    if (!jumpTo || isEditing || !contentRef.current || jumpTo.transcriptId !== activeTranscript?.id || !textStructure) return;
+    const line = contentRef.current.querySelectorAll('.transcript-line')[jumpTo.line];
+    if (!line) return;
+    line.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    line.classList.add('search-hit-line');
+    keyboardCaretRef.current = textStructure.lineStarts[jumpTo.line] ?? 0;
+    setKeyboardLine(jumpTo.line);
+    const timer = setTimeout(() => line.classList.remove('search-hit-line'), 2000);
+    return () => clearTimeout(timer);
+  }, [jumpTo, activeTranscript?.id, isEditing]);
+
+  // Mark the line the keyboard caret is on
+  useEffect(() => {
+    if (isEditing || !contentRef.current) return;
+    contentRef.current.querySelectorAll('.transcript-line').forEach((line, i) => {
+      line.classList.toggle('keyboard-line', i === keyboardLine);
+    });
+  }, [keyboardLine, activeTranscript?.id, activeTranscript?.content, isEditing, selections, visibleCodes, settings.zebraStriping]);
 
   const handleClick = (e: React.MouseEvent) => {
     if (isEditing) return;
+    const target = e.target as HTMLElement;
+
+    if (mediaTime !== null && seekOnClick) {
+      if (handleMediaLineClick(target)) return;
+      // Read-only viewers get no context menu, so a coded segment seeks directly
+      if (readOnly && target.closest('.coded-segment')) {
+        seekToLine(lineIndexOf(target));
+        return;
+      }
+    }
+
     // In read-only mode, don't show the context menu for coded segments
     if (readOnly) return;
 
     // If clicking outside a marker or code, clear focus
-    const target = e.target as HTMLElement;
     const isMarker = target.closest('.gutter-marker');
     const isCode = target.closest('.coded-segment');
 
@@ -1162,6 +1541,15 @@ export const Editor = memo<EditorProps>(({
       <div className="bg-[var(--bg-panel)] p-3 border-b border-[var(--border)] flex justify-between items-center shadow-sm z-10 shrink-0">
         <h2 className="font-bold text-[var(--text-main)]">{activeTranscript.name}</h2>
         <div className="flex items-center gap-4">
+          {!activeTranscript.images && (
+            <button
+              onClick={() => setShowShortcuts(true)}
+              className="p-1.5 rounded-full text-[var(--text-muted)] hover:text-[var(--text-main)] hover:bg-[var(--bg-main)] transition-colors"
+              title="Keyboard coding shortcuts (?)"
+            >
+              <Keyboard size={16} />
+            </button>
+          )}
           <button
             onClick={() => noteLayerRef.current?.addNote()}
             className="flex items-center gap-2 px-3 py-1.5 text-xs font-bold bg-amber-100 text-amber-900 rounded-full hover:bg-amber-200 transition-colors"
@@ -1178,58 +1566,130 @@ export const Editor = memo<EditorProps>(({
         </div>
       </div>
 
-      <div
-        key="viewer-content"
-        className="flex-1 overflow-y-auto relative print:overflow-visible p-8"
-        onMouseUp={handleMouseUp}
-        onClick={handleClick}
-        onContextMenu={handleContextMenuEvent}
-      >
-        {/* Filter Banner */}
-        {(focusedCodeId || focusedSelectionId) && (
-          <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20 bg-slate-800 text-white px-3 py-1 rounded-full text-xs shadow-lg animate-in fade-in slide-in-from-top-2 flex items-center gap-2">
-            {focusedCodeId ? (
-              <span>Filtering by: <strong>{codes.find(c => c.id === focusedCodeId)?.name}</strong></span>
-            ) : (
-              <span>Instance Selected</span>
+      {showShortcuts && (
+        <KeyboardShortcutsOverlay
+          settings={keyboardSettings}
+          codes={visibleCodes}
+          canEdit={!!onUpdateSettings}
+          onChange={keyboardCoding => onUpdateSettings?.({ ...settings, keyboardCoding })}
+          onClose={() => setShowShortcuts(false)}
+        />
+      )}
+
+      {brokenSelections.length > 0 && (
+        <BrokenCodingsPanel
+          items={brokenSelections}
+          codes={codes}
+          transcriptText={transcriptText}
+          readOnly={readOnly || !onRepairSelections}
+          relocatingId={relocatingSelectionId}
+          onAccept={items => onRepairSelections?.(items.map(i => relocateSelection(i.selection, transcriptText, i.proposal!.start, i.proposal!.end)))}
+          onReselect={setRelocatingSelectionId}
+          onDelete={id => onSelectionDelete(id, activeTranscript.content)}
+        />
+      )}
+
+      {activeTranscript.images ? (
+        <ImageDocumentView
+          transcript={activeTranscript}
+          regionSelections={regionSelections}
+          codes={codes}
+          activeCode={activeCode}
+          readOnly={readOnly}
+          onCreateRegion={handleCreateRegion}
+          onDeleteSelection={id => onSelectionDelete(id, activeTranscript.content)}
+        />
+      ) : (
+        <>
+          <div
+            key="viewer-content"
+            className="flex-1 overflow-y-auto relative print:overflow-visible p-8"
+            onMouseUp={handleMouseUp}
+            onClick={handleClick}
+            onContextMenu={handleContextMenuEvent}
+          >
+            {/* Filter Banner */}
+            {(focusedCodeId || focusedSelectionId) && (
+              <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20 bg-slate-800 text-white px-3 py-1 rounded-full text-xs shadow-lg animate-in fade-in slide-in-from-top-2 flex items-center gap-2">
+                {focusedCodeId ? (
+                  <span>Filtering by: <strong>{codes.find(c => c.id === focusedCodeId)?.name}</strong></span>
+                ) : (
+                  <span>Instance Selected</span>
+                )}
+                <button onClick={() => { setFocusedCodeId(null); setFocusedSelectionId(null); }} className="hover:text-red-300"><X size={12} /></button>
+              </div>
             )}
-            <button onClick={() => { setFocusedCodeId(null); setFocusedSelectionId(null); }} className="hover:text-red-300"><X size={12} /></button>
+
+            <div
+              className="transcript-content-wrapper mx-auto relative"
+              style={{ maxWidth: '850px' }}
+              ref={wrapperRef}
+            >
+              {/* Transcript content - managed imperatively via innerHTML, NO React children allowed */}
+              <div
+                ref={contentRef}
+                onDoubleClick={handleTranscriptDoubleClick}
+                className={`transcript-content outline-none bg-[var(--bg-paper)] text-[var(--text-main)] shadow-xl min-h-[11in] ${codingDisplay === 'stripes' ? 'stripes-only' : ''}`}
+                style={{
+                  padding: `3rem calc(3rem + ${showStripes ? stripeCodes.length * (STRIPE_WIDTH + STRIPE_GAP) : 0}px) 3rem 13rem`,
+                  cursor: activeCode ? 'cell' : 'text'
+                }}
+              />
+
+              {showStripes && (
+                <CodingStripes
+                  contentRef={contentRef}
+                  selections={stripeSelections}
+                  columnCodes={stripeCodes}
+                  focusedSelectionId={focusedSelectionId}
+                  onFocusSelection={handleStripeFocus}
+                />
+              )}
+
+              {/* Sticky Notes Layer */}
+              {projectId && (
+                <TranscriptNoteLayer
+                  notes={stickyNotes}
+                  projectId={projectId || ''}
+                  currentUser={{ uid: currentUserId || '', displayName: currentUserId || 'User' }}
+                  activeTranscriptId={activeTranscript?.id}
+                  codebookFilter={codebookFilter}
+                  showTeamNotes={showTeamNotes}
+                  ref={noteLayerRef}
+                  containerRef={contentRef}
+                  readOnly={readOnly}
+                  onConfirm={onConfirm}
+                />
+              )}
+            </div>
           </div>
-        )}
-
-        <div
-          className="transcript-content-wrapper mx-auto relative"
-          style={{ maxWidth: '850px' }}
-          ref={wrapperRef}
-        >
-          {/* Transcript content - managed imperatively via innerHTML, NO React children allowed */}
-          <div
-            ref={contentRef}
-            onDoubleClick={handleTranscriptDoubleClick}
-            className="transcript-content outline-none bg-[var(--bg-paper)] text-[var(--text-main)] shadow-xl min-h-[11in]"
-            style={{
-              padding: '3rem 3rem 3rem 13rem',
-              cursor: activeCode ? 'cell' : 'text'
-            }}
-          />
 
-          {/* Sticky Notes Layer */}
-          {projectId && (
-            <TranscriptNoteLayer
-              notes={stickyNotes}
-              projectId={projectId || ''}
-              currentUser={{ uid: currentUserId || '', displayName: currentUserId || 'User' }}
-              activeTranscriptId={activeTranscript?.id}
-              codebookFilter={codebookFilter}
-              showTeamNotes={showTeamNotes}
-              ref={noteLayerRef}
-              containerRef={contentRef}
-              readOnly={readOnly}
-              onConfirm={onConfirm}
-            />
-          )}
-        </div>
-      </div>
+          <MediaPlayer
+            ref={mediaPlayerRef}
+            transcriptId={activeTranscript.id}
+            hasLineTimes={hasLineTimes(lineMetas)}
+            canSync={!!onUpdateLineTimes && !readOnly}
+            syncLineIndex={syncLineIndex}
+            syncLineText={syncLineText}
+            seekOnClick={seekOnClick}
+            followPlayback={followPlayback}
+            onToggleSeekOnClick={() => setSeekOnClick(!seekOnClick)}
+            onToggleFollowPlayback={() => setFollowPlayback(!followPlayback)}
+            onStartSync={() => setSyncLineIndex(nextUnsyncedLine(lineMetas, currentMediaLine))}
+            onStopSync={() => setSyncLineIndex(null)}
+            onStamp={handleStamp}
+            onClearTimes={handleClearLineTimes}
+            onTimeUpdate={setMediaTime}
+            onAlert={onAlert}
+            mediaSelections={mediaSelections}
+            codes={codes}
+            activeCode={activeCode}
+            canCode={!readOnly}
+            onCreateMediaSelection={handleCreateMediaSelection}
+            onDeleteSelection={id => onSelectionDelete(id, activeTranscript.content)}
+          />
+        </>
+      )}
 
       {/* Context Menu for Coded Segments */}
       {
@@ -1268,6 +1728,18 @@ export const Editor = memo<EditorProps>(({
                     <MessageSquare size={14} />
                     {selections.find(s => s.id === contextMenu.id)?.annotation ? 'Edit Annotation' : 'Annotate'}
                   </button>
+                  {mediaTime !== null && (
+                    <button
+                      onClick={() => {
+                        const span = contentRef.current?.querySelector(`span[data-selection-id="${contextMenu.id}"]`) || null;
+                        if (!seekToLine(lineIndexOf(span))) onAlert('No Timestamp', 'This part of the transcript has no timestamp yet. Use Tap to sync to add them.');
+                        setContextMenu(null);
+                      }}
+                      className="flex items-center gap-2 px-3 py-2 text-[var(--text-main)] hover:bg-[var(--bg-main)] rounded text-sm w-full text-left"
+                    >
+                      <Play size={14} /> Play from here
+                    </button>
+                  )}
                   <button onClick={removeHighlight} className="flex items-center gap-2 px-3 py-2 text-red-600 hover:bg-red-50 rounded text-sm w-full text-left">
                     <Trash2 size={14} /> Remove Highlight
                   </button>
@@ -1383,6 +1855,7 @@ export const Editor = memo<EditorProps>(({
       }
 
 
+      {speakerGutterCss && <style>{speakerGutterCss}</style>}
       <style>{`
         .transcript-line {
             display: block;
@@ -1515,6 +1988,32 @@ export const Editor = memo<EditorProps>(({
             line-height: 1;
         }
 
+        .transcript-line.media-current-line {
+            background-color: color-mix(in srgb, var(--accent) 14%, transparent) !important;
+        }
+
+        .transcript-line.search-hit-line {
+            background-color: color-mix(in srgb, #fbbf24 35%, transparent) !important;
+            transition: background-color 0.3s;
+        }
+
+        /* A bar of its own beside the speaker colour, which is drawn as a box-shadow */
+        .transcript-line.keyboard-line::after {
+            content: '';
+            position: absolute;
+            top: 0;
+            bottom: 0;
+            left: 3px;
+            width: 3px;
+            background-color: var(--accent);
+            pointer-events: none;
+        }
+
+        .transcript-line.media-sync-line {
+            outline: 2px dashed var(--accent);
+            outline-offset: -2px;
+        }
+
         /* Themed Zebra — use nth-of-type so paragraph-break divs are not counted */
         /* Themed Zebra — use class based selector to avoid n-th-of-type issues with interleaved divs */
         .zebra-active .transcript-line.zebra-row-odd {
@@ -1550,6 +2049,17 @@ export const Editor = memo<EditorProps>(({
              border-bottom-style: solid !important;
         }
 
+        /* Coding stripes: "stripes only" hides inline highlights except the one being pointed at */
+        .stripes-only .coded-segment:not(.focused-segment):not(.stripe-hover) {
+            background-color: transparent !important;
+            text-decoration-color: transparent !important;
+        }
+
+        .coded-segment.stripe-hover {
+            background-color: color-mix(in srgb, var(--stripe-color) 35%, transparent) !important;
+            text-decoration-color: var(--stripe-color) !important;
+        }
+
         @media print {
             .h-full { height: auto; overflow: visible; }
             .bg-slate-200 { background: white; }
@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { Project } from '../types';
+import { LayoutPanelLeft, FileSpreadsheet, FileText, Eye, EyeOff } from 'lucide-react';
+import {
+    FrameworkExportFormat,
+    buildFrameworkMatrix,
+    exportFrameworkMatrix,
+    getFrameworkSummary,
+    getFrameworkThemes,
+    setFrameworkSummary
+} from '../utils/frameworkMatrix';
+import { RegionThumbnail } from './RegionThumbnail';
+
+interface Props {
+    project: Project;
+    onUpdateProject: (p: Project) => void;
+    readOnly?: boolean;
+    onAlert: (title: string, message: string) => void;
+}
+
+const cellKey = (transcriptId: string, themeId: string) => `${transcriptId}:${themeId}`;
+
+export const FrameworkView: React.FC<Props> = ({ project, onUpdateProject, readOnly = false, onAlert }) => {
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [hiddenThemeIds, setHiddenThemeIds] = useState<string[]>([]);
+    const [showSegments, setShowSegments] = useState(true);
+
+    const allThemes = useMemo(() => getFrameworkThemes(project.codes), [project.codes]);
+    const themes = allThemes.filter(t => !hiddenThemeIds.includes(t.id));
+    const matrix = useMemo(() => buildFrameworkMatrix(project, themes), [project, hiddenThemeIds, allThemes]);
+    const summaryCount = Object.values(project.frameworkSummaries || {}).reduce((sum, row) => sum + Object.keys(row).length, 0);
+
+    const toggleTheme = (id: string) => {
+        setHiddenThemeIds(prev => prev.includes(id) ? prev.filter(t => t !== id) : [...prev, id]);
+    };
+
+    const commitSummary = (transcriptId: string, themeId: string) => {
+        const key = cellKey(transcriptId, themeId);
+        const text = drafts[key];
+        setDrafts(prev => {
+            const next = { ...prev };
+            delete next[key];
+            return next;
+        });
+        if (text === undefined || text === getFrameworkSummary(project, transcriptId, themeId)) return;
+        onUpdateProject(setFrameworkSummary(project, transcriptId, themeId, text));
+    };
+
+    const handleExport = (format: FrameworkExportFormat) => {
+        exportFrameworkMatrix(project, matrix, format)
+            .catch(err => onAlert('Export Failed', err instanceof Error ? err.message : String(err)));
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-[var(--bg-main)] text-[var(--text-main)]">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)] bg-[var(--bg-panel)]">
+                <div>
+                    <h2 className="text-xl font-bold flex items-center">
+                        <LayoutPanelLeft className="mr-2 text-[var(--accent)]" /> Framework Matrix
+                    </h2>
+                    <p className="text-xs text-[var(--text-muted)]">
+                        {matrix.cases.length} case{matrix.cases.length === 1 ? '' : 's'} · {themes.length} theme{themes.length === 1 ? '' : 's'} · {summaryCount} summar{summaryCount === 1 ? 'y' : 'ies'}
+                        {readOnly && ' · read-only'}
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => setShowSegments(!showSegments)}
+                        className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-[var(--text-muted)] hover:text-[var(--text-main)] hover:bg-[var(--bg-main)] rounded-lg transition-colors border border-transparent hover:border-[var(--border)]"
+                    >
+                        {showSegments ? <EyeOff size={16} /> : <Eye size={16} />}
+                        <span>{showSegments ? 'Hide' : 'Show'} segments</span>
+                    </button>
+                    <button
+                        onClick={() => handleExport('xlsx')}
+                        disabled={themes.length === 0}
+                        className="flex items-center space-x-2 px-3 py-2 text-sm font-bold rounded-lg bg-emerald-700 text-white hover:bg-emerald-800 disabled:opacity-50"
+                    >
+                        <FileSpreadsheet size={16} />
+                        <span>Export XLSX</span>
+                    </button>
+                    <button
+                        onClick={() => handleExport('docx')}
+                        disabled={themes.length === 0}
+                        className="flex items-center space-x-2 px-3 py-2 text-sm font-bold rounded-lg bg-blue-700 text-white hover:bg-blue-800 disabled:opacity-50"
+                    >
+                        <FileText size={16} />
+                        <span>Export DOCX</span>
+                    </button>
+                </div>
+            </div>
+
+            {allThemes.length > 0 && (
+                <div className="flex items-center gap-2 px-6 py-2 border-b border-[var(--border)] bg-[var(--bg-panel)] text-xs overflow-x-auto">
+                    <span className="font-bold uppercase text-[var(--text-muted)] flex-shrink-0">Themes</span>
+                    {allThemes.map(t => {
+                        const hidden = hiddenThemeIds.includes(t.id);
+                        return (
+                            <button
+                                key={t.id}
+                                onClick={() => toggleTheme(t.id)}
+                                className={`flex items-center gap-1.5 px-2 py-1 rounded-full border flex-shrink-0 transition-colors ${hidden ? 'border-[var(--border)] text-[var(--text-muted)] opacity-60' : 'border-[var(--accent)] text-[var(--text-main)]'}`}
+                            >
+                                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: t.color }}></span>
+                                {t.name}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            <div className="flex-1 overflow-auto p-6">
+                {allThemes.length === 0 || matrix.cases.length === 0 ? (
+                    <div className="max-w-lg mx-auto mt-16 text-center text-[var(--text-muted)] text-sm space-y-2">
+                        <LayoutPanelLeft size={40} className="mx-auto opacity-40" />
+                        <p>The framework matrix charts each document (case) against each top-level code (theme).</p>
+                        <p>Add documents and codes, then summarise what each case says about each theme.</p>
+                    </div>
+                ) : (
+                    <div className="inline-block min-w-full border border-[var(--border)] rounded-lg overflow-hidden bg-[var(--bg-panel)]">
+                        <table className="border-collapse text-sm text-left">
+                            <thead className="bg-[var(--bg-main)] text-[var(--text-main)] font-bold sticky top-0 shadow-sm z-10">
+                                <tr>
+                                    <th className="p-3 border-b border-r border-[var(--border)] min-w-[180px] bg-[var(--bg-main)] sticky left-0">Case</th>
+                                    {themes.map(t => (
+                                        <th key={t.id} className="p-3 border-b border-r border-[var(--border)] min-w-[280px] max-w-[360px] bg-[var(--bg-main)]">
+                                            <div className="flex items-center gap-2">
+                                                <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: t.color }}></span>
+                                                <span className="truncate" title={t.name}>{t.name}</span>
+                                            </div>
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {matrix.cases.map(c => (
+                                    <tr key={c.id} className="border-b border-[var(--border)] last:border-0 align-top">
+                                        <td className="p-3 border-r border-[var(--border)] font-medium bg-[var(--bg-panel)] sticky left-0 max-w-[220px]" title={c.name}>
+                                            <div className="truncate">{c.name}</div>
+                                        </td>
+                                        {themes.map(t => {
+                                            const key = cellKey(c.id, t.id);
+                                            const segments = matrix.cells[c.id]?.[t.id] || [];
+                                            return (
+                                                <td key={t.id} className="p-2 border-r border-[var(--border)] max-w-[360px]">
+                                                    <textarea
+                                                        value={drafts[key] ?? getFrameworkSummary(project, c.id, t.id)}
+                                                        disabled={readOnly}
+                                                        onChange={e => setDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                                                        onBlur={() => commitSummary(c.id, t.id)}
+                                                        placeholder={readOnly ? '' : 'Summary…'}
+                                                        rows={3}
+                                                        className="w-full px-2 py-1.5 bg-[var(--bg-main)] border border-transparent hover:border-[var(--border)] focus:border-[var(--accent)] rounded outline-none resize-y text-sm disabled:opacity-80"
+                                                    />
+                                                    {showSegments && segments.length > 0 && (
+                                                        <div className="mt-1 max-h-40 overflow-y-auto space-y-1">
+                                                            {segments.map(s => {
+                                                                const page = s.region && c.images?.[s.region.page];
+                                                                return (
+                                                                    <div
+                                                                        key={s.id}
+                                                                        className="text-xs italic text-[var(--text-muted)] pl-2 border-l-2"
+                                                                        style={{ borderColor: project.codes.find(code => code.id === s.codeId)?.color }}
+                                                                        title={project.codes.find(code => code.id === s.codeId)?.name}
+                                                                    >
+                                                                        {page ? <RegionThumbnail image={page} region={s.region!} maxWidth={200} /> : `"${s.text}"`}
+                                                                    </div>
+                                                                );
+                                                            })}
+                                                        </div>
+                                                    )}
+                                                    {!showSegments && segments.length > 0 && (
+                                                        <div className="mt-1 text-[10px] text-[var(--text-muted)]">{segments.length} segment{segments.length === 1 ? '' : 's'}</div>
+                                                    )}
+                                                </td>
+                                            );
+                                        })}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,207 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Bookmark, FileText, HelpCircle, MessageSquare, StickyNote, Tag, Trash2 } from 'lucide-react';
+import { Code, Project, SavedQuery } from '../types';
+import { MAX_SEARCH_RESULTS, SearchResult, SearchSource, searchProject } from '../utils/searchQuery';
+
+interface Props {
+  project: Project;
+  query: string;
+  codes: Code[];     // Codes the user may code results with
+  canCode: boolean;
+  activeCodeId: string | null;
+  onPickQuery: (query: string) => void;
+  onSaveQuery: (name: string) => void;
+  onDeleteQuery: (id: string) => void;
+  onJump: (result: SearchResult) => void;
+  onCode: (codeId: string, results: SearchResult[]) => void;
+}
+
+// Characters of a long line or memo shown either side of its first match
+const SNIPPET_CONTEXT = 80;
+
+const SOURCE_LABELS: Record<Exclude<SearchSource, 'line'>, { label: string; icon: React.ReactNode }> = {
+  annotation: { label: 'Annotations', icon: <MessageSquare size={12} /> },
+  transcriptMemo: { label: 'Document memos', icon: <StickyNote size={12} /> },
+  projectMemo: { label: 'Project memo', icon: <StickyNote size={12} /> },
+  codeName: { label: 'Codes', icon: <Tag size={12} /> },
+  codeMemo: { label: 'Code memos', icon: <Tag size={12} /> }
+};
+
+const Snippet: React.FC<{ result: SearchResult }> = ({ result }) => {
+  const { text, spans } = result;
+  const from = spans.length && spans[0][0] > SNIPPET_CONTEXT ? spans[0][0] - SNIPPET_CONTEXT : 0;
+  const to = Math.min(text.length, (spans.length ? spans[spans.length - 1][1] : 0) + SNIPPET_CONTEXT * 2);
+  const parts: React.ReactNode[] = [];
+  let pos = from;
+  spans.filter(([s, e]) => s >= from && e <= to).forEach(([s, e], i) => {
+    parts.push(text.slice(pos, s));
+    parts.push(<mark key={i} className="bg-amber-200 text-amber-950 rounded px-0.5">{text.slice(s, e)}</mark>);
+    pos = e;
+  });
+  parts.push(text.slice(pos, to));
+  return <>{from > 0 && '…'}{parts}{to < text.length && '…'}</>;
+};
+
+export const GlobalSearchPanel: React.FC<Props> = ({ project, query, codes, canCode, activeCodeId, onPickQuery, onSaveQuery, onDeleteQuery, onJump, onCode }) => {
+  const [debounced, setDebounced] = useState(query);
+  const [showHelp, setShowHelp] = useState(false);
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const [codeId, setCodeId] = useState(activeCodeId || codes[0]?.id || '');
+  const [saveName, setSaveName] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(query), 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => setChecked(new Set()), [debounced]);
+
+  const { results, error } = useMemo(() => {
+    if (!debounced.trim()) return { results: [] as SearchResult[], error: null };
+    try {
+      return { results: searchProject(project, debounced), error: null };
+    } catch (e) {
+      return { results: [] as SearchResult[], error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [debounced, project]);
+
+  const lineGroups = project.transcripts
+    .map(t => ({ transcript: t, results: results.filter(r => r.source === 'line' && r.transcriptId === t.id) }))
+    .filter(g => g.results.length > 0);
+  const otherGroups = (Object.keys(SOURCE_LABELS) as Exclude<SearchSource, 'line'>[])
+    .map(source => ({ source, results: results.filter(r => r.source === source) }))
+    .filter(g => g.results.length > 0);
+  const chosen = results.filter(r => checked.has(r.id));
+
+  const toggle = (ids: string[], on: boolean) => {
+    const next = new Set(checked);
+    ids.forEach(id => (on ? next.add(id) : next.delete(id)));
+    setChecked(next);
+  };
+
+  const savedQueries = project.savedQueries || [];
+
+  return (
+    <div className="absolute top-full left-0 mt-1 w-[40rem] max-w-[90vw] bg-[var(--bg-panel)] border border-[var(--border)] rounded-md shadow-xl max-h-[70vh] flex flex-col z-50 text-[var(--text-main)]">
+      <div className="flex items-center gap-2 p-2 bg-[var(--bg-main)] text-xs text-[var(--text-muted)] border-b border-[var(--border)]">
+        <span className="flex-1 font-bold">
+          {!query.trim() ? 'Saved searches' : error ? <span className="text-red-500">{error}</span> : `${results.length >= MAX_SEARCH_RESULTS ? `First ${MAX_SEARCH_RESULTS}` : results.length} result${results.length === 1 ? '' : 's'}`}
+        </span>
+        {query.trim() && !error && (
+          saveName === null ? (
+            <button onClick={() => setSaveName(query)} className="flex items-center gap-1 hover:text-[var(--text-main)]" title="Save this search">
+              <Bookmark size={12} /> Save
+            </button>
+          ) : (
+            <form className="flex items-center gap-1" onSubmit={e => { e.preventDefault(); if (saveName.trim()) onSaveQuery(saveName.trim()); setSaveName(null); }}>
+              <input autoFocus value={saveName} onChange={e => setSaveName(e.target.value)} className="px-1.5 py-0.5 rounded border border-[var(--border)] bg-[var(--bg-panel)] text-[var(--text-main)] w-40" placeholder="Name" />
+              <button type="submit" className="font-bold text-[var(--accent)]">Save</button>
+              <button type="button" onClick={() => setSaveName(null)}>Cancel</button>
+            </form>
+          )
+        )}
+        <button onClick={() => setShowHelp(!showHelp)} className={`flex items-center gap-1 hover:text-[var(--text-main)] ${showHelp ? 'text-[var(--accent)]' : ''}`} title="Search syntax">
+          <HelpCircle size={12} /> Syntax
+        </button>
+      </div>
+
+      {showHelp && (
+        <div className="p-3 text-xs text-[var(--text-muted)] border-b border-[var(--border)] grid grid-cols-2 gap-x-4 gap-y-1 font-mono">
+          <span>stress anxiety</span><span className="font-sans">both words (same as AND)</span>
+          <span>stress OR anxiety</span><span className="font-sans">either word</span>
+          <span>stress NOT work, -work</span><span className="font-sans">without the word</span>
+          <span>"line manager"</span><span className="font-sans">exact phrase</span>
+          <span>anxi*, wor?ied</span><span className="font-sans">wildcards: any letters / one letter</span>
+          <span>support NEAR/5 family</span><span className="font-sans">within 5 words of each other</span>
+          <span>coded:"Work stress"</span><span className="font-sans">text coded with a code or its sub-codes</span>
+          <span>(a OR b) AND c</span><span className="font-sans">brackets group</span>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        {!query.trim() && (savedQueries.length === 0 ? (
+          <div className="p-3 text-sm text-[var(--text-muted)]">No saved searches yet. Run a search and click Save to keep it.</div>
+        ) : savedQueries.map(saved => (
+          <div key={saved.id} className="flex items-center gap-2 px-3 py-2 border-b border-[var(--border)] hover:bg-[var(--bg-main)] cursor-pointer group" onClick={() => onPickQuery(saved.query)}>
+            <Bookmark size={12} className="text-[var(--accent)] flex-shrink-0" />
+            <span className="text-sm font-bold truncate">{saved.name}</span>
+            <span className="flex-1 text-xs font-mono text-[var(--text-muted)] truncate">{saved.query}</span>
+            <button onClick={e => { e.stopPropagation(); onDeleteQuery(saved.id); }} className="opacity-0 group-hover:opacity-100 text-[var(--text-muted)] hover:text-red-500" title="Delete saved search">
+              <Trash2 size={12} />
+            </button>
+          </div>
+        )))}
+
+        {query.trim() && !error && results.length === 0 && debounced === query && (
+          <div className="p-3 text-sm text-[var(--text-muted)]">No matches found.</div>
+        )}
+
+        {lineGroups.map(({ transcript, results: lines }) => (
+          <div key={transcript.id}>
+            <div className="flex items-center gap-2 px-3 py-1.5 bg-[var(--bg-main)] text-xs font-bold text-[var(--text-muted)] sticky top-0">
+              {canCode && (
+                <input
+                  type="checkbox"
+                  checked={lines.every(r => checked.has(r.id))}
+                  onChange={e => toggle(lines.map(r => r.id), e.target.checked)}
+                  title="Select every result in this document"
+                />
+              )}
+              <FileText size={12} />
+              <span className="flex-1 truncate">{transcript.name}</span>
+              <span>{lines.length}</span>
+            </div>
+            {lines.map(result => (
+              <div key={result.id} className="flex items-start gap-2 px-3 py-2 border-b border-[var(--border)] hover:bg-[var(--bg-main)]">
+                {canCode && <input type="checkbox" className="mt-1" checked={checked.has(result.id)} onChange={e => toggle([result.id], e.target.checked)} />}
+                <div className="flex-1 min-w-0 cursor-pointer" onClick={() => onJump(result)}>
+                  <div className="text-[10px] font-bold text-[var(--accent)]">Line {result.line! + 1}</div>
+                  <div className="text-sm text-[var(--text-muted)] break-words"><Snippet result={result} /></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        ))}
+
+        {otherGroups.map(({ source, results: items }) => (
+          <div key={source}>
+            <div className="flex items-center gap-2 px-3 py-1.5 bg-[var(--bg-main)] text-xs font-bold text-[var(--text-muted)] sticky top-0">
+              {SOURCE_LABELS[source].icon}
+              <span className="flex-1">{SOURCE_LABELS[source].label}</span>
+              <span>{items.length}</span>
+            </div>
+            {items.map(result => {
+              const transcript = result.transcriptId ? project.transcripts.find(t => t.id === result.transcriptId) : undefined;
+              const code = result.codeId ? project.codes.find(c => c.id === result.codeId) : undefined;
+              return (
+                <div key={result.id} className="px-3 py-2 border-b border-[var(--border)] hover:bg-[var(--bg-main)] cursor-pointer" onClick={() => onJump(result)}>
+                  <div className="flex items-center gap-1.5 text-[10px] font-bold text-[var(--accent)]">
+                    {code && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: code.color }} />}
+                    {[transcript?.name, result.line !== undefined ? `Line ${result.line + 1}` : null, source !== 'codeName' ? code?.name : null].filter(Boolean).join(' · ')}
+                  </div>
+                  <div className="text-sm text-[var(--text-muted)] break-words"><Snippet result={result} /></div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      {canCode && chosen.length > 0 && (
+        <div className="flex items-center gap-2 p-2 border-t border-[var(--border)] text-xs">
+          <span className="font-bold">{chosen.length} line{chosen.length === 1 ? '' : 's'} selected</span>
+          <select value={codeId} onChange={e => setCodeId(e.target.value)} className="flex-1 p-1 rounded border border-[var(--border)] bg-[var(--bg-main)]">
+            {codes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          <button
+            onClick={() => { onCode(codeId, chosen); setChecked(new Set()); }}
+            disabled={!codeId}
+            className="px-3 py-1 rounded font-bold bg-[var(--accent)] text-[var(--accent-text)] disabled:opacity-40"
+          >
+            Code lines
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useRef, useState } from 'react';
+import { Trash2, X, ZoomIn, ZoomOut } from 'lucide-react';
+import { Code, ImageRegion, Selection, Transcript } from '../types';
+import { normaliseRegion, regionLabel } from '../utils/imageDocuments';
+
+interface Props {
+  transcript: Transcript;
+  regionSelections: Selection[];
+  codes: Code[];
+  activeCode: Code | null;
+  readOnly: boolean;
+  onCreateRegion: (region: ImageRegion) => void;
+  onDeleteSelection: (selectionId: string) => void;
+}
+
+const ZOOM_LEVELS = [50, 75, 100, 150, 200];
+const PAGE_WIDTH = 850;
+// Boxes smaller than this (fraction of the page) are treated as clicks
+const MIN_REGION_SIZE = 0.01;
+
+interface Drag {
+  page: number;
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+}
+
+export const ImageDocumentView: React.FC<Props> = ({ transcript, regionSelections, codes, activeCode, readOnly, onCreateRegion, onDeleteSelection }) => {
+  const [zoom, setZoom] = useState(100);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const pageRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const pages = transcript.images || [];
+
+  const pointOnPage = (page: number, clientX: number, clientY: number) => {
+    const rect = pageRefs.current[page]!.getBoundingClientRect();
+    return { x: (clientX - rect.left) / rect.width, y: (clientY - rect.top) / rect.height };
+  };
+
+  // Smallest region under the point, so nested boxes stay reachable
+  const regionAt = (page: number, x: number, y: number) => regionSelections
+    .filter(s => s.region!.page === page && x >= s.region!.x && x <= s.region!.x + s.region!.width && y >= s.region!.y && y <= s.region!.y + s.region!.height)
+    .sort((a, b) => a.region!.width * a.region!.height - b.region!.width * b.region!.height)[0];
+
+  const handleMouseDown = (page: number, e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    const start = pointOnPage(page, e.clientX, e.clientY);
+    setDrag({ page, startX: start.x, startY: start.y, x: start.x, y: start.y });
+
+    const handleMove = (ev: MouseEvent) => {
+      const p = pointOnPage(page, ev.clientX, ev.clientY);
+      setDrag(prev => prev && { ...prev, x: p.x, y: p.y });
+    };
+    const handleUp = (ev: MouseEvent) => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      setDrag(null);
+      const end = pointOnPage(page, ev.clientX, ev.clientY);
+      const region = normaliseRegion(page, start.x, start.y, end.x, end.y);
+      if (region.width < MIN_REGION_SIZE && region.height < MIN_REGION_SIZE) {
+        setSelectedId(regionAt(page, start.x, start.y)?.id || null);
+        return;
+      }
+      if (readOnly || !activeCode || region.width < MIN_REGION_SIZE || region.height < MIN_REGION_SIZE) return;
+      onCreateRegion(region);
+      setSelectedId(null);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const box = (region: ImageRegion) => ({
+    left: `${region.x * 100}%`,
+    top: `${region.y * 100}%`,
+    width: `${region.width * 100}%`,
+    height: `${region.height * 100}%`
+  });
+
+  const selected = regionSelections.find(s => s.id === selectedId);
+  const selectedCode = selected && codes.find(c => c.id === selected.codeId);
+  const canDraw = !readOnly && !!activeCode;
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex items-center gap-2 px-4 py-1.5 border-b border-[var(--border)] bg-[var(--bg-panel)] text-xs text-[var(--text-muted)] shrink-0">
+        <span className="flex-1">
+          {readOnly ? 'Image document' : canDraw ? 'Drag a box over the image to code it.' : 'Choose a code in the sidebar, then drag a box over the image.'}
+          {' '}{regionSelections.length} region{regionSelections.length === 1 ? '' : 's'} coded.
+        </span>
+        <button onClick={() => setZoom(ZOOM_LEVELS[Math.max(0, ZOOM_LEVELS.indexOf(zoom) - 1)])} disabled={zoom === ZOOM_LEVELS[0]} className="p-1 rounded hover:bg-[var(--bg-main)] disabled:opacity-40" title="Zoom out">
+          <ZoomOut size={14} />
+        </button>
+        <span className="w-10 text-center font-mono">{zoom}%</span>
+        <button onClick={() => setZoom(ZOOM_LEVELS[Math.min(ZOOM_LEVELS.length - 1, ZOOM_LEVELS.indexOf(zoom) + 1)])} disabled={zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]} className="p-1 rounded hover:bg-[var(--bg-main)] disabled:opacity-40" title="Zoom in">
+          <ZoomIn size={14} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-8 space-y-6">
+        {pages.map((image, page) => {
+          const pendingRegion = drag && drag.page === page ? normaliseRegion(page, drag.startX, drag.startY, drag.x, drag.y) : null;
+          return (
+            <div
+              key={page}
+              ref={el => { pageRefs.current[page] = el; }}
+              onMouseDown={e => handleMouseDown(page, e)}
+              className="relative mx-auto shadow-xl select-none bg-white"
+              style={{ width: (PAGE_WIDTH * zoom) / 100, cursor: canDraw ? 'crosshair' : 'default' }}
+            >
+              <img src={image.dataUrl} alt={pages.length > 1 ? `${transcript.name}, page ${page + 1}` : transcript.name} className="block w-full h-auto pointer-events-none" draggable={false} />
+              {regionSelections.filter(s => s.region!.page === page).map(s => {
+                const code = codes.find(c => c.id === s.codeId);
+                const color = code?.color || '#9ca3af';
+                const isSelected = s.id === selectedId;
+                return (
+                  <div
+                    key={s.id}
+                    className="absolute pointer-events-none"
+                    style={{
+                      ...box(s.region!),
+                      border: `2px solid ${color}`,
+                      backgroundColor: `color-mix(in srgb, ${color} ${isSelected ? 30 : 12}%, transparent)`,
+                      boxShadow: isSelected ? `0 0 0 2px var(--accent)` : undefined
+                    }}
+                  >
+                    <span className="absolute -top-5 left-0 px-1.5 py-0.5 rounded text-[10px] font-bold text-white whitespace-nowrap" style={{ backgroundColor: color }}>
+                      {code?.name || 'Unknown code'}
+                    </span>
+                  </div>
+                );
+              })}
+              {pendingRegion && canDraw && (
+                <div className="absolute border-2 border-dashed pointer-events-none" style={{ ...box(pendingRegion), borderColor: activeCode!.color }} />
+              )}
+              {pages.length > 1 && (
+                <span className="absolute bottom-2 right-2 px-2 py-0.5 rounded bg-black/60 text-white text-[10px]">Page {page + 1} of {pages.length}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {selected && (
+        <div className="flex items-center gap-2 px-4 py-2 border-t border-[var(--border)] bg-[var(--bg-panel)] text-xs shrink-0">
+          <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: selectedCode?.color }} />
+          <span className="font-bold text-[var(--text-main)] truncate">{selectedCode?.name || 'Unknown code'}</span>
+          <span className="text-[var(--text-muted)]">{regionLabel(selected.region!, pages.length)}</span>
+          {selected.annotation && <span className="italic text-[var(--text-muted)] truncate">{selected.annotation}</span>}
+          <div className="flex-1" />
+          {!readOnly && (
+            <button
+              onClick={() => { onDeleteSelection(selected.id); setSelectedId(null); }}
+              className="flex items-center gap-1 px-2 py-0.5 rounded text-red-500 hover:bg-red-500/10"
+            >
+              <Trash2 size={12} /> Remove
+            </button>
+          )}
+          <button onClick={() => setSelectedId(null)} className="p-0.5 text-[var(--text-muted)] hover:text-[var(--text-main)]" title="Close">
+            <X size={12} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
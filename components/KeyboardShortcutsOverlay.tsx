@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { Keyboard, X } from 'lucide-react';
+import { Code, KeyboardCodingSettings } from '../types';
+import { BindingTarget, KEYBOARD_ACTIONS, RESERVED_CHORDS, assignChord, chordFromEvent, codebookOrder, resolveKeyboardBindings } from '../utils/keyboardCoding';
+
+interface Props {
+  settings: KeyboardCodingSettings;
+  codes: Code[];
+  canEdit: boolean; // Bindings are app settings; false when there is nowhere to save them
+  onChange: (settings: KeyboardCodingSettings) => void;
+  onClose: () => void;
+}
+
+const targetKey = (target: BindingTarget) => ('action' in target ? `action:${target.action}` : `code:${target.codeId}`);
+
+const ChordBadge: React.FC<{ chord?: string }> = ({ chord }) => chord ? (
+  <span className="inline-flex gap-0.5">
+    {chord.split('+').map((part, i) => (
+      <kbd key={i} className="px-1.5 py-0.5 rounded border border-[var(--border)] bg-[var(--bg-main)] font-mono text-[10px] text-[var(--text-main)] shadow-sm">{part}</kbd>
+    ))}
+  </span>
+) : <span className="text-[10px] italic text-[var(--text-muted)]">none</span>;
+
+export const KeyboardShortcutsOverlay: React.FC<Props> = ({ settings, codes, canEdit, onChange, onClose }) => {
+  const [capturing, setCapturing] = useState<BindingTarget | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+  const bindings = resolveKeyboardBindings(codes, settings);
+
+  // While waiting for a chord, swallow every key so the Editor's hotkeys don't fire
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!capturing) {
+        if (e.key === 'Escape') {
+          e.stopImmediatePropagation();
+          onClose();
+        }
+        return;
+      }
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.key === 'Escape') {
+        setCapturing(null);
+        return;
+      }
+      const chord = e.key === 'Backspace' || e.key === 'Delete' ? '' : chordFromEvent(e);
+      if (chord === null) return;
+      if (RESERVED_CHORDS.has(chord)) {
+        setWarning(`${chord} is already used by the app.`);
+        return;
+      }
+      onChange(assignChord(codes, settings, capturing, chord));
+      setCapturing(null);
+      setWarning(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturing, codes, settings, onChange, onClose]);
+
+  const row = (target: BindingTarget, label: React.ReactNode, chord?: string) => {
+    const isCapturing = !!capturing && targetKey(capturing) === targetKey(target);
+    return (
+      <div key={targetKey(target)} className="flex items-center justify-between gap-3 py-1">
+        <span className="text-sm text-[var(--text-main)] truncate">{label}</span>
+        {canEdit ? (
+          <button
+            onClick={() => { setCapturing(isCapturing ? null : target); setWarning(null); }}
+            className={`flex-shrink-0 px-1.5 py-0.5 rounded ${isCapturing ? 'ring-2 ring-[var(--accent)]' : 'hover:bg-[var(--bg-main)]'}`}
+            title="Click, then press the new keys"
+          >
+            {isCapturing ? <span className="text-[10px] font-bold text-[var(--accent)]">Press keys…</span> : <ChordBadge chord={chord} />}
+          </button>
+        ) : <ChordBadge chord={chord} />}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-[var(--bg-panel)] border border-[var(--border)] rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200"
+        role="dialog"
+        aria-modal="true"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-5 py-3 border-b border-[var(--border)]">
+          <Keyboard size={18} className="text-[var(--accent)]" />
+          <h3 className="font-bold text-[var(--text-main)] flex-1">Keyboard Coding</h3>
+          {canEdit && (
+            <label className="flex items-center gap-2 text-xs text-[var(--text-muted)] cursor-pointer">
+              <input type="checkbox" checked={settings.enabled} onChange={e => onChange({ ...settings, enabled: e.target.checked })} />
+              Hotkeys on
+            </label>
+          )}
+          <button onClick={onClose} className="p-1 text-[var(--text-muted)] hover:text-[var(--text-main)]" title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="px-5 py-2 text-xs text-[var(--text-muted)] border-b border-[var(--border)]">
+          Select text with the mouse or the selection keys, then press a code's key to code it.
+          {canEdit && ' Click a key to change it; Backspace removes it, Esc cancels.'}
+          {warning && <span className="ml-1 font-bold text-red-500">{warning}</span>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto grid grid-cols-2 gap-6 px-5 py-3">
+          <div>
+            <h4 className="text-xs font-bold text-[var(--text-muted)] uppercase mb-1">Navigation & Selection</h4>
+            {KEYBOARD_ACTIONS.map(({ action, label }) => row({ action }, label, bindings.chordOfAction.get(action)))}
+          </div>
+          <div>
+            <h4 className="text-xs font-bold text-[var(--text-muted)] uppercase mb-1">Codes</h4>
+            {codes.length === 0 && <p className="text-sm italic text-[var(--text-muted)]">No codes yet.</p>}
+            {codebookOrder(codes).map(code => row(
+              { codeId: code.id },
+              <span className="flex items-center gap-2 min-w-0">
+                <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: code.color }} />
+                <span className="truncate">{code.name}</span>
+              </span>,
+              bindings.chordOfCode.get(code.id)
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,378 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { Film, Play, Pause, RotateCcw, Trash2, Timer, MousePointerClick, Crosshair, Eraser, X } from 'lucide-react';
+import { Code, MediaRange, Selection } from '../types';
+import { deleteTranscriptMedia, isMediaFile, loadTranscriptMedia, saveTranscriptMedia } from '../utils/mediaStore';
+import { computeWaveformPeaks, formatTimecode, mediaRangeLabel } from '../utils/mediaSync';
+import { WaveformStrip } from './WaveformStrip';
+
+export interface MediaPlayerHandle {
+  seek: (seconds: number) => void;
+}
+
+interface Props {
+  transcriptId: string;
+  hasLineTimes: boolean;
+  canSync: boolean; // Tap-to-sync writes timestamps into the transcript
+  syncLineIndex: number | null;
+  syncLineText?: string;
+  seekOnClick: boolean;
+  followPlayback: boolean;
+  onToggleSeekOnClick: () => void;
+  onToggleFollowPlayback: () => void;
+  onStartSync: () => void;
+  onStopSync: () => void;
+  onStamp: (seconds: number) => void;
+  onClearTimes: () => void;
+  onTimeUpdate: (seconds: number | null) => void; // null while no media is attached
+  onAlert: (title: string, message: string) => void;
+
+  // Coding time ranges of the recording itself
+  mediaSelections: Selection[];
+  codes: Code[];
+  activeCode: Code | null;
+  canCode: boolean;
+  onCreateMediaSelection: (range: MediaRange) => void;
+  onDeleteSelection: (selectionId: string) => void;
+}
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+const SKIP_BACK_SECONDS = 5;
+const WAVEFORM_BUCKETS = 2000;
+
+// Decoding is slow for long recordings, so peaks are kept for the session
+const peakCache = new Map<string, number[] | null>();
+
+export const MediaPlayer = forwardRef<MediaPlayerHandle, Props>(({
+  transcriptId,
+  hasLineTimes,
+  canSync,
+  syncLineIndex,
+  syncLineText,
+  seekOnClick,
+  followPlayback,
+  onToggleSeekOnClick,
+  onToggleFollowPlayback,
+  onStartSync,
+  onStopSync,
+  onStamp,
+  onClearTimes,
+  onTimeUpdate,
+  onAlert,
+  mediaSelections,
+  codes,
+  activeCode,
+  canCode,
+  onCreateMediaSelection,
+  onDeleteSelection
+}, ref) => {
+  const mediaRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [media, setMedia] = useState<{ url: string; name: string; isVideo: boolean; blob: Blob } | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [time, setTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [rate, setRate] = useState(1);
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+  const [pendingRange, setPendingRange] = useState<MediaRange | null>(null);
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null);
+  const playUntilRef = useRef<number | null>(null);
+
+  useImperativeHandle(ref, () => ({
+    seek: (seconds: number) => {
+      const el = mediaRef.current;
+      if (!el) return;
+      el.currentTime = seconds;
+      setTime(seconds);
+      onTimeUpdate(seconds);
+    }
+  }), [onTimeUpdate]);
+
+  // Load whatever is attached to this transcript; object URLs are released on switch
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    setMedia(null);
+    setPlaying(false);
+    setTime(0);
+    setPendingRange(null);
+    setSelectedRegionId(null);
+    onTimeUpdate(null);
+    loadTranscriptMedia(transcriptId)
+      .then(stored => {
+        if (cancelled || !stored) return;
+        url = URL.createObjectURL(stored.blob);
+        setMedia({ url, name: stored.name, isVideo: stored.type.startsWith('video/'), blob: stored.blob });
+      })
+      .catch(err => console.error('[MediaPlayer] Failed to load media:', err));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [transcriptId]);
+
+  useEffect(() => {
+    if (mediaRef.current) mediaRef.current.playbackRate = rate;
+  }, [rate, media]);
+
+  useEffect(() => {
+    if (!media) return;
+    const cacheKey = `${transcriptId}:${media.name}:${media.blob.size}`;
+    if (peakCache.has(cacheKey)) {
+      setPeaks(peakCache.get(cacheKey)!);
+      return;
+    }
+    let cancelled = false;
+    setPeaks(null);
+    computeWaveformPeaks(media.blob, WAVEFORM_BUCKETS).then(result => {
+      peakCache.set(cacheKey, result);
+      if (!cancelled) setPeaks(result);
+    });
+    return () => { cancelled = true; };
+  }, [media, transcriptId]);
+
+  const seek = (seconds: number) => {
+    playUntilRef.current = null;
+    if (mediaRef.current) mediaRef.current.currentTime = seconds;
+  };
+
+  // Plays a range once, pausing at its end
+  const playRange = (range: MediaRange) => {
+    const el = mediaRef.current;
+    if (!el) return;
+    el.currentTime = range.start;
+    playUntilRef.current = range.end;
+    el.play().catch(console.error);
+  };
+
+  const stamp = () => {
+    if (syncLineIndex === null || !mediaRef.current) return;
+    onStamp(mediaRef.current.currentTime);
+  };
+
+  const togglePlay = () => {
+    const el = mediaRef.current;
+    if (!el) return;
+    if (el.paused) el.play().catch(console.error);
+    else el.pause();
+  };
+
+  // Alt+T stamps the next line while syncing, Alt+K toggles playback
+  useEffect(() => {
+    if (!media) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!e.altKey) return;
+      if (e.code === 'KeyT' && syncLineIndex !== null) {
+        e.preventDefault();
+        stamp();
+      } else if (e.code === 'KeyK') {
+        e.preventDefault();
+        togglePlay();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [media, syncLineIndex, onStamp]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!isMediaFile(file)) {
+      onAlert('Unsupported File', `"${file.name}" is not an audio or video file.`);
+      return;
+    }
+    try {
+      await saveTranscriptMedia(transcriptId, file);
+      if (media) URL.revokeObjectURL(media.url);
+      setMedia({ url: URL.createObjectURL(file), name: file.name, isVideo: file.type.startsWith('video/'), blob: file });
+    } catch (err) {
+      console.error(err);
+      onAlert('Attach Failed', 'The media file could not be stored in this browser.');
+    }
+  };
+
+  const detach = async () => {
+    mediaRef.current?.pause();
+    await deleteTranscriptMedia(transcriptId).catch(console.error);
+    if (media) URL.revokeObjectURL(media.url);
+    setMedia(null);
+    onStopSync();
+    onTimeUpdate(null);
+  };
+
+  const buttonClass = (active: boolean) =>
+    `flex items-center gap-1 px-2 py-1 text-xs font-medium rounded transition-colors ${active ? 'bg-[var(--accent)] text-[var(--accent-text)]' : 'text-[var(--text-muted)] hover:text-[var(--text-main)] hover:bg-[var(--bg-main)]'}`;
+
+  const regions = mediaSelections.map(s => {
+    const code = codes.find(c => c.id === s.codeId);
+    return { id: s.id, start: s.media!.start, end: s.media!.end, color: code?.color || '#9ca3af', label: `${code?.name || 'Unknown code'} · ${mediaRangeLabel(s.media!)}` };
+  });
+  const selectedSelection = mediaSelections.find(s => s.id === selectedRegionId);
+  const selectedCode = selectedSelection && codes.find(c => c.id === selectedSelection.codeId);
+
+  const codePendingRange = () => {
+    if (!pendingRange || !activeCode) return;
+    onCreateMediaSelection(pendingRange);
+    setPendingRange(null);
+  };
+
+  const fileInput = <input ref={fileInputRef} type="file" accept="audio/*,video/*" className="hidden" onChange={handleFile} />;
+
+  if (!media) {
+    return (
+      <div className="border-t border-[var(--border)] bg-[var(--bg-panel)] px-4 py-2 flex items-center gap-3 text-xs text-[var(--text-muted)] shrink-0">
+        <Film size={14} />
+        <span>{hasLineTimes ? 'This transcript has timestamps.' : 'No recording attached.'}</span>
+        <button onClick={() => fileInputRef.current?.click()} className="font-bold text-[var(--accent)] hover:underline">
+          Attach audio/video…
+        </button>
+        {fileInput}
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-t border-[var(--border)] bg-[var(--bg-panel)] shrink-0 flex items-stretch">
+      <video
+        ref={mediaRef}
+        src={media.url}
+        className={media.isVideo ? 'h-36 max-w-[16rem] bg-black' : 'hidden'}
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onLoadedMetadata={e => {
+          setDuration(e.currentTarget.duration || 0);
+          onTimeUpdate(e.currentTarget.currentTime);
+        }}
+        onTimeUpdate={e => {
+          const el = e.currentTarget;
+          if (playUntilRef.current !== null && el.currentTime >= playUntilRef.current) {
+            playUntilRef.current = null;
+            el.pause();
+          }
+          setTime(el.currentTime);
+          onTimeUpdate(el.currentTime);
+        }}
+      />
+      <div className="flex-1 min-w-0 px-4 py-2 flex flex-col justify-center gap-2">
+        <div className="flex items-center gap-2">
+          <button onClick={togglePlay} className="p-1.5 rounded-full bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110" title="Play/Pause (Alt+K)">
+            {playing ? <Pause size={14} /> : <Play size={14} />}
+          </button>
+          <button
+            onClick={() => { if (mediaRef.current) mediaRef.current.currentTime = Math.max(0, mediaRef.current.currentTime - SKIP_BACK_SECONDS); }}
+            className="p-1 text-[var(--text-muted)] hover:text-[var(--text-main)]"
+            title={`Back ${SKIP_BACK_SECONDS} seconds`}
+          >
+            <RotateCcw size={14} />
+          </button>
+          <span className="text-xs font-mono text-[var(--text-muted)] w-24">{formatTimecode(time)} / {formatTimecode(duration)}</span>
+          <input
+            type="range"
+            min={0}
+            max={duration || 0}
+            step={0.1}
+            value={time}
+            onChange={e => { if (mediaRef.current) mediaRef.current.currentTime = parseFloat(e.target.value); }}
+            className="flex-1 min-w-0 h-1 accent-[var(--accent)]"
+          />
+          <select
+            value={rate}
+            onChange={e => setRate(parseFloat(e.target.value))}
+            className="text-xs bg-[var(--bg-main)] border border-[var(--border)] rounded px-1 py-0.5 text-[var(--text-main)]"
+            title="Playback speed"
+          >
+            {PLAYBACK_RATES.map(r => <option key={r} value={r}>{r}×</option>)}
+          </select>
+        </div>
+
+        <div className="flex items-center gap-1 flex-wrap">
+          <span className="text-xs text-[var(--text-muted)] truncate max-w-[12rem] mr-2" title={media.name}>{media.name}</span>
+          <button onClick={onToggleSeekOnClick} className={buttonClass(seekOnClick)} title="Clicking a line or coded segment jumps the recording to it">
+            <MousePointerClick size={12} /> Click to seek
+          </button>
+          <button onClick={onToggleFollowPlayback} className={buttonClass(followPlayback)} title="Keep the current line in view">
+            <Crosshair size={12} /> Follow
+          </button>
+          {canSync && (
+            <button onClick={syncLineIndex === null ? onStartSync : onStopSync} className={buttonClass(syncLineIndex !== null)} title="Stamp each line as it is spoken">
+              <Timer size={12} /> Tap to sync
+            </button>
+          )}
+          {canSync && hasLineTimes && syncLineIndex === null && (
+            <button onClick={onClearTimes} className={buttonClass(false)} title="Remove all line timestamps">
+              <Eraser size={12} /> Clear times
+            </button>
+          )}
+          <div className="flex-1" />
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass(false)}>Replace…</button>
+          <button onClick={detach} className="p-1 text-[var(--text-muted)] hover:text-red-500 rounded" title="Detach recording">
+            <Trash2 size={12} />
+          </button>
+          {fileInput}
+        </div>
+
+        <WaveformStrip
+          peaks={peaks}
+          duration={duration}
+          time={time}
+          regions={regions}
+          selectedRegionId={selectedRegionId}
+          pendingRange={pendingRange}
+          onSeek={seconds => { setSelectedRegionId(null); setPendingRange(null); seek(seconds); }}
+          onSelectRange={(start, end) => { setSelectedRegionId(null); setPendingRange({ start, end }); seek(start); }}
+          onRegionClick={id => { setPendingRange(null); setSelectedRegionId(id); }}
+        />
+
+        {pendingRange && (
+          <div className="flex items-center gap-2 text-xs bg-[var(--bg-main)] border border-[var(--border)] rounded px-2 py-1">
+            <span className="font-mono font-bold text-[var(--text-main)] flex-shrink-0">{mediaRangeLabel(pendingRange)}</span>
+            <button onClick={() => playRange(pendingRange)} className={buttonClass(false)}><Play size={12} /> Play</button>
+            <div className="flex-1" />
+            {canCode && (activeCode ? (
+              <button onClick={codePendingRange} className="flex items-center gap-1.5 px-2 py-0.5 font-bold rounded bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: activeCode.color }} />
+                Code with {activeCode.name}
+              </button>
+            ) : (
+              <span className="italic text-[var(--text-muted)]">Choose a code in the sidebar to code this range</span>
+            ))}
+            <button onClick={() => setPendingRange(null)} className="p-0.5 text-[var(--text-muted)] hover:text-[var(--text-main)]" title="Clear range">
+              <X size={12} />
+            </button>
+          </div>
+        )}
+
+        {selectedSelection && (
+          <div className="flex items-center gap-2 text-xs bg-[var(--bg-main)] border border-[var(--border)] rounded px-2 py-1">
+            <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: selectedCode?.color }} />
+            <span className="font-bold text-[var(--text-main)] truncate">{selectedCode?.name || 'Unknown code'}</span>
+            <span className="font-mono text-[var(--text-muted)] flex-shrink-0">{mediaRangeLabel(selectedSelection.media!)}</span>
+            <button onClick={() => playRange(selectedSelection.media!)} className={buttonClass(false)}><Play size={12} /> Play</button>
+            <div className="flex-1" />
+            {canCode && (
+              <button
+                onClick={() => { onDeleteSelection(selectedSelection.id); setSelectedRegionId(null); }}
+                className="flex items-center gap-1 px-2 py-0.5 rounded text-red-500 hover:bg-red-500/10"
+              >
+                <Trash2 size={12} /> Remove
+              </button>
+            )}
+            <button onClick={() => setSelectedRegionId(null)} className="p-0.5 text-[var(--text-muted)] hover:text-[var(--text-main)]" title="Close">
+              <X size={12} />
+            </button>
+          </div>
+        )}
+
+        {syncLineIndex !== null && (
+          <div className="flex items-center gap-2 text-xs bg-[var(--bg-main)] border border-[var(--border)] rounded px-2 py-1">
+            <span className="font-bold text-[var(--text-main)] flex-shrink-0">Line {syncLineIndex + 1}</span>
+            <span className="italic text-[var(--text-muted)] truncate flex-1">{syncLineText || ''}</span>
+            <button onClick={stamp} className="px-2 py-0.5 font-bold rounded bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110 flex-shrink-0" title="Alt+T">
+              Stamp {formatTimecode(time)}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
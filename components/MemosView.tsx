@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Project, Transcript, CollaboratorData } from '../types';
 import { Book, FileText, Users, Download, ChevronDown, ChevronRight, User } from 'lucide-react';
 import { exportMemos } from '../utils/dataUtils';
-import { getAllCollaboratorData } from '../services/firestoreService';
+import { getAllCollaboratorData, isSharedLayer } from '../services/firestoreService';
 
 interface Props {
     project: Project;
@@ -32,7 +32,7 @@ export const MemosView: React.FC<Props> = ({ project, onUpdateProject, cloudProj
         setLoadingCollab(true);
         try {
             const data = await getAllCollaboratorData(cloudProjectId, currentUserId); // Exclude self
-            setCollaboratorData(data);
+            setCollaboratorData(data.filter(c => !isSharedLayer(c.userId))); // Consensus and master layers carry no memos
         } catch (err) {
             console.error("Failed to load collaborator memos:", err);
         } finally {
@@ -0,0 +1,169 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitMerge, RefreshCw, X } from 'lucide-react';
+import { Code, Selection, Transcript, UserProjectData } from '../types';
+import { getUserProjectData, MASTER_USER_ID, saveUserProjectData } from '../services/firestoreService';
+import { planMerge } from '../utils/mergeCodings';
+import { codebookOrder } from '../utils/keyboardCoding';
+
+export interface MergeCoder {
+  userId: string;
+  displayName: string;
+  selections: Selection[];
+}
+
+interface Props {
+  projectId: string;
+  coders: MergeCoder[];
+  codes: Code[];
+  transcripts: Transcript[];
+  onMerged: (added: number) => void;
+  onClose: () => void;
+}
+
+// Checkbox list where nothing ticked means "all"
+const PickList: React.FC<{
+  title: string;
+  allLabel: string;
+  items: { id: string; label: React.ReactNode }[];
+  picked: string[];
+  onChange: (picked: string[]) => void;
+}> = ({ title, allLabel, items, picked, onChange }) => (
+  <div className="flex flex-col min-h-0">
+    <h4 className="text-xs font-bold text-[var(--text-muted)] uppercase mb-1">{title}</h4>
+    <div className="flex-1 overflow-y-auto border border-[var(--border)] rounded-lg p-1 max-h-56">
+      <label className="flex items-center gap-2 px-2 py-1 rounded hover:bg-[var(--bg-main)] cursor-pointer text-sm">
+        <input type="checkbox" checked={picked.length === 0} onChange={() => onChange([])} />
+        <span className={picked.length === 0 ? 'font-bold text-[var(--text-main)]' : 'text-[var(--text-muted)]'}>{allLabel}</span>
+      </label>
+      {items.map(item => (
+        <label key={item.id} className="flex items-center gap-2 px-2 py-1 rounded hover:bg-[var(--bg-main)] cursor-pointer text-sm text-[var(--text-main)]">
+          <input
+            type="checkbox"
+            checked={picked.includes(item.id)}
+            onChange={e => onChange(e.target.checked ? [...picked, item.id] : picked.filter(id => id !== item.id))}
+          />
+          <span className="truncate min-w-0">{item.label}</span>
+        </label>
+      ))}
+    </div>
+  </div>
+);
+
+export const MergeCodingsModal: React.FC<Props> = ({ projectId, coders, codes, transcripts, onMerged, onClose }) => {
+  const [master, setMaster] = useState<UserProjectData | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [coderIds, setCoderIds] = useState<string[]>([]);
+  const [transcriptIds, setTranscriptIds] = useState<string[]>([]);
+  const [codeIds, setCodeIds] = useState<string[]>([]);
+  const [merging, setMerging] = useState(false);
+
+  useEffect(() => {
+    getUserProjectData(projectId, MASTER_USER_ID)
+      .then(setMaster)
+      .catch(() => setLoadError('The master layer could not be loaded. Check your connection and try again.'));
+  }, [projectId]);
+
+  const plan = useMemo(() => master && coderIds.length > 0
+    ? planMerge(
+      master.selections || [],
+      coders.filter(c => coderIds.includes(c.userId)).map(c => ({ userId: c.userId, selections: c.selections })),
+      { transcriptIds, codeIds }
+    )
+    : null,
+    [master, coders, coderIds, transcriptIds, codeIds]);
+
+  const handleMerge = async () => {
+    if (!master || !plan || plan.added.length === 0) return;
+    setMerging(true);
+    try {
+      await saveUserProjectData(projectId, MASTER_USER_ID, { ...master, selections: plan.selections });
+      onMerged(plan.added.length);
+    } catch (err) {
+      console.error('[MergeCodingsModal] Merge failed:', err);
+      setLoadError('The merge could not be saved. Only project admins can write the master layer.');
+      setMerging(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-[var(--bg-panel)] border border-[var(--border)] rounded-xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200"
+        role="dialog"
+        aria-modal="true"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-5 py-3 border-b border-[var(--border)]">
+          <GitMerge size={18} className="text-[var(--accent)]" />
+          <h3 className="font-bold text-[var(--text-main)] flex-1">Merge into Master Coding</h3>
+          <button onClick={onClose} className="p-1 text-[var(--text-muted)] hover:text-[var(--text-main)]" title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="px-5 py-2 text-xs text-[var(--text-muted)] border-b border-[var(--border)]">
+          Copies the chosen coders' codings into the shared master layer. Codings the layer already has (same code, same span) are skipped, and each copy records who made it.
+          {master && ` The master layer has ${(master.selections || []).length} coding${(master.selections || []).length === 1 ? '' : 's'}.`}
+        </div>
+
+        <div className="flex-1 grid grid-cols-3 gap-4 px-5 py-4 min-h-0 overflow-hidden">
+          <div className="flex flex-col min-h-0">
+            <h4 className="text-xs font-bold text-[var(--text-muted)] uppercase mb-1">Coders</h4>
+            <div className="flex-1 overflow-y-auto border border-[var(--border)] rounded-lg p-1 max-h-56">
+              {coders.length === 0 && <p className="p-2 text-sm italic text-[var(--text-muted)]">No coding to merge yet.</p>}
+              {coders.map(coder => (
+                <label key={coder.userId} className="flex items-center gap-2 px-2 py-1 rounded hover:bg-[var(--bg-main)] cursor-pointer text-sm text-[var(--text-main)]">
+                  <input
+                    type="checkbox"
+                    checked={coderIds.includes(coder.userId)}
+                    onChange={e => setCoderIds(e.target.checked ? [...coderIds, coder.userId] : coderIds.filter(id => id !== coder.userId))}
+                  />
+                  <span className="flex-1 truncate">{coder.displayName}</span>
+                  <span className="text-xs text-[var(--text-muted)]">{coder.selections.length}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <PickList
+            title="Documents"
+            allLabel="All documents"
+            items={transcripts.map(t => ({ id: t.id, label: t.name }))}
+            picked={transcriptIds}
+            onChange={setTranscriptIds}
+          />
+          <PickList
+            title="Codes"
+            allLabel="All codes"
+            items={codebookOrder(codes).map(c => ({
+              id: c.id,
+              label: <span className="flex items-center gap-2"><span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: c.color }} />{c.name}</span>
+            }))}
+            picked={codeIds}
+            onChange={setCodeIds}
+          />
+        </div>
+
+        <div className="flex items-center gap-3 px-5 py-3 border-t border-[var(--border)] text-sm">
+          <span className="flex-1 text-xs text-[var(--text-muted)]">
+            {loadError ? <span className="text-red-500 font-bold">{loadError}</span>
+              : !master ? 'Loading the master layer…'
+              : !plan ? 'Choose at least one coder.'
+              : <>
+                <span className="font-bold text-[var(--text-main)]">{plan.added.length} new coding{plan.added.length === 1 ? '' : 's'}</span>
+                {plan.duplicates > 0 && ` · ${plan.duplicates} duplicate${plan.duplicates === 1 ? '' : 's'} skipped`}
+                {Object.keys(plan.addedByUser).length > 1 && ` (${coders.filter(c => plan.addedByUser[c.userId]).map(c => `${c.displayName}: ${plan.addedByUser[c.userId]}`).join(', ')})`}
+              </>}
+          </span>
+          <button onClick={onClose} className="px-3 py-1.5 rounded text-[var(--text-muted)] hover:text-[var(--text-main)]">Cancel</button>
+          <button
+            onClick={handleMerge}
+            disabled={merging || !plan || plan.added.length === 0}
+            className="flex items-center gap-2 px-4 py-1.5 rounded font-bold bg-[var(--accent)] text-[var(--accent-text)] disabled:opacity-40"
+          >
+            {merging && <RefreshCw size={14} className="animate-spin" />} Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
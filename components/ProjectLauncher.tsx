@@ -12,9 +12,10 @@ import {
   deleteCloudProject,
   saveUserProfile,
 } from '../services/firestoreService';
+import { importQdpx } from '../utils/refiQda';
 
 interface Props {
-  onOpenProject: (project: Project) => void;
+  onOpenProject: (project: Project, warnings?: string[]) => void; // Warnings list what an import left out
   onCreateProject: () => void;
   onOpenCloudProject: (cloudProject: CloudProject) => void;
 }
@@ -124,6 +125,17 @@ export const ProjectLauncher: React.FC<Props> = ({ onOpenProject, onCreateProjec
   };
 
   const processFile = async (file: File) => {
+    if (file.name.toLowerCase().endsWith('.qdpx')) {
+      try {
+        const { project: imported, warnings } = await importQdpx(file);
+        addToRecents(imported.name);
+        onOpenProject(imported, warnings);
+      } catch (err) {
+        console.error(err);
+        openAlert("Import Error", "Could not read this REFI-QDA project (.qdpx).", 'alert');
+      }
+      return;
+    }
     try {
       const text = await file.text();
       const data = JSON.parse(text);
@@ -253,7 +265,7 @@ export const ProjectLauncher: React.FC<Props> = ({ onOpenProject, onCreateProjec
         type="file"
         ref={fileInputRef}
         onChange={handleFileSelect}
-        accept=".qlab,.json"
+        accept=".qlab,.json,.qdpx"
         style={{ display: 'none' }}
       />
 
@@ -355,8 +367,8 @@ export const ProjectLauncher: React.FC<Props> = ({ onOpenProject, onCreateProjec
                     <HardDrive className="w-5 h-5 text-slate-300" />
                   </div>
                   <div className="text-left">
-                    <span className="block font-bold text-sm text-slate-200">Open .qlab File</span>
-                    <span className="text-xs text-slate-400">Load from disk</span>
+                    <span className="block font-bold text-sm text-slate-200">Open Project File</span>
+                    <span className="text-xs text-slate-400">.qlab or REFI-QDA .qdpx</span>
                   </div>
                 </button>
               </div>
@@ -0,0 +1,31 @@
+import React from 'react';
+import { ImageRegion, TranscriptImage } from '../types';
+
+interface Props {
+  image: TranscriptImage;
+  region: ImageRegion;
+  maxWidth?: number;
+  maxHeight?: number;
+  borderColor?: string;
+}
+
+// Crops with CSS background positioning, so no canvas work is needed for lists of segments
+export const RegionThumbnail: React.FC<Props> = ({ image, region, maxWidth = 160, maxHeight = 100, borderColor }) => {
+  const regionWidth = Math.max(1, region.width * image.width);
+  const regionHeight = Math.max(1, region.height * image.height);
+  const scale = Math.min(maxWidth / regionWidth, maxHeight / regionHeight, 2);
+
+  return (
+    <span
+      className="inline-block rounded border align-middle bg-no-repeat"
+      style={{
+        width: regionWidth * scale,
+        height: regionHeight * scale,
+        borderColor: borderColor || 'var(--border)',
+        backgroundImage: `url(${image.dataUrl})`,
+        backgroundSize: `${image.width * scale}px ${image.height * scale}px`,
+        backgroundPosition: `${-region.x * image.width * scale}px ${-region.y * image.height * scale}px`
+      }}
+    />
+  );
+};
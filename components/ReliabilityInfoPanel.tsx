@@ -0,0 +1,89 @@
+import React from 'react';
+import { Info, X } from 'lucide-react';
+import { ReliabilityUnit } from '../utils/reliability';
+
+interface Props {
+  unit: ReliabilityUnit;
+  onClose: () => void;
+}
+
+const Formula: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <div className="bg-[var(--bg-main)] p-3 rounded-lg font-mono text-xs border border-[var(--border)] text-center">{children}</div>
+);
+
+export const ReliabilityInfoPanel: React.FC<Props> = ({ unit, onClose }) => (
+  <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm p-6 animate-in fade-in duration-200" onClick={onClose}>
+    <div
+      className="bg-[var(--bg-panel)] rounded-2xl border border-[var(--border)] shadow-2xl max-w-2xl w-full max-h-full flex flex-col overflow-hidden"
+      role="dialog"
+      aria-modal="true"
+      onClick={e => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-2 px-6 py-4 border-b border-[var(--border)]">
+        <Info className="text-[var(--accent)]" size={20} />
+        <h4 className="font-bold text-lg text-[var(--text-main)] flex-1">How Reliability is Calculated</h4>
+        <button onClick={onClose} className="p-2 hover:bg-[var(--bg-main)] rounded-full transition-colors text-[var(--text-muted)] hover:text-[var(--text-main)]">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto px-6 py-4 text-sm text-[var(--text-main)] space-y-5">
+        <section className="space-y-2">
+          <h5 className="font-bold">Units</h5>
+          <p>
+            Each document is cut into {unit === 'character' ? <strong>characters</strong> : <strong>lines</strong>}.
+            For every code, each coder either applied the code to a unit or did not
+            {unit === 'line' && ' (a line counts as coded when any part of it is coded)'}.
+            Only documents that at least one of the compared coders has coded in are counted, so documents nobody has reached yet don't add agreement on "not coded".
+            "All codes" pools every unit–code pair into one set of ratings.
+          </p>
+        </section>
+
+        <section className="space-y-2">
+          <h5 className="font-bold">Percent agreement (Jaccard)</h5>
+          <p>The overlap of two coders' highlights divided by their combined extent. It ignores the uncoded text and is not corrected for chance.</p>
+          <Formula>Agreement = (Length of Overlap) / (Total Combined Length)</Formula>
+        </section>
+
+        <section className="space-y-2">
+          <h5 className="font-bold">Cohen's kappa (κ) — pairs of coders</h5>
+          <p>Compares the share of units two coders agree on (both coded, or both left uncoded) with the agreement expected if each coded at random at their own rate.</p>
+          <Formula>κ = (p<sub>o</sub> − p<sub>e</sub>) / (1 − p<sub>e</sub>)</Formula>
+        </section>
+
+        <section className="space-y-2">
+          <h5 className="font-bold">Fleiss' kappa — all coders</h5>
+          <p>Extends kappa to any number of coders: p<sub>o</sub> is the average share of agreeing coder pairs per unit, and p<sub>e</sub> comes from how often the code was applied overall.</p>
+        </section>
+
+        <section className="space-y-2">
+          <h5 className="font-bold">Krippendorff's alpha (α) — all coders</h5>
+          <p>Compares observed disagreement between coders with the disagreement expected by chance, with a small-sample correction. The most common threshold in methods reviews is α ≥ 0.800, with 0.667 as the lowest acceptable for tentative conclusions.</p>
+          <Formula>α = 1 − D<sub>o</sub> / D<sub>e</sub></Formula>
+        </section>
+
+        <section className="space-y-2">
+          <h5 className="font-bold">Confidence intervals</h5>
+          <p>
+            The ranges in brackets are 95% bootstrap intervals from 1,000 resamples.
+            Neighbouring {unit === 'character' ? 'characters' : 'lines'} are rated alike, so rather than single units the resamples draw whole runs:
+            stretches where every coder's rating stays the same, such as one coded passage or the gap between two.
+            Runs that follow each other are not fully independent either, so treat the intervals as a lower bound on the uncertainty.
+          </p>
+        </section>
+
+        <section className="space-y-2">
+          <h5 className="font-bold">Reading the colours</h5>
+          <div className="flex flex-wrap gap-2 text-xs font-bold">
+            <span className="px-2 py-1 rounded bg-green-100 text-green-800">≥ 0.80 good</span>
+            <span className="px-2 py-1 rounded bg-yellow-100 text-yellow-800">≥ 0.67 tentative</span>
+            <span className="px-2 py-1 rounded bg-red-50 text-red-800">below 0.67 poor</span>
+          </div>
+          <p className="text-xs text-[var(--text-muted)] italic">
+            A dash means the statistic is undefined, for example when every unit got the same rating from everyone. None of these measures look at the text itself: they assume the coders saw the same version of each document.
+          </p>
+        </section>
+      </div>
+    </div>
+  </div>
+);
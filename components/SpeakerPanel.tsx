@@ -0,0 +1,189 @@
+import React, { useMemo, useState } from 'react';
+import { AppSettings, SpeakerDetectionSettings, SpeakerPatternPreset, Transcript } from '../types';
+import { MessagesSquare, X, Wand2, Trash2, GitMerge } from 'lucide-react';
+import {
+  DEFAULT_SPEAKER_DETECTION,
+  SPEAKER_PATTERN_PRESETS,
+  SpeakerLabelEdit,
+  detectSpeakers,
+  listSpeakers,
+  renameSpeaker,
+  speakerColor,
+  validateSpeakerPattern
+} from '../utils/speakerUtils';
+import { stripHighlights } from '../utils/highlightUtils';
+
+interface Props {
+  transcript: Transcript;
+  settings: AppSettings;
+  onUpdateSettings: (s: AppSettings) => void;
+  canEdit: boolean;
+  // Rewriting "Name:" labels shifts text offsets, so it's only offered where every
+  // affected selection can be shifted along with it (local projects).
+  canRewriteLabels: boolean;
+  onApply: (content: string, edits: SpeakerLabelEdit[]) => void;
+  onClose: () => void;
+}
+
+export const SpeakerPanel: React.FC<Props> = ({ transcript, settings, onUpdateSettings, canEdit, canRewriteLabels, onApply, onClose }) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [rewriteLabels, setRewriteLabels] = useState(canRewriteLabels);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const speakers = useMemo(() => listSpeakers(transcript.content), [transcript.content]);
+  const speakerNames = speakers.map(s => s.name);
+  const detection: SpeakerDetectionSettings = settings.speakerDetection || DEFAULT_SPEAKER_DETECTION;
+  const customError = detection.customPattern ? validateSpeakerPattern(detection.customPattern) : null;
+
+  const updateDetection = (updates: Partial<SpeakerDetectionSettings>) => {
+    onUpdateSettings({ ...settings, speakerDetection: { ...detection, ...updates } });
+  };
+
+  const togglePreset = (preset: SpeakerPatternPreset) => {
+    updateDetection({
+      presets: detection.presets.includes(preset)
+        ? detection.presets.filter(p => p !== preset)
+        : [...detection.presets, preset]
+    });
+  };
+
+  const applyRename = (from: string, to: string) => {
+    const target = to.trim();
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[from];
+      return next;
+    });
+    if (target === from) return;
+    const { content, edits } = renameSpeaker(transcript.content, from, target, rewriteLabels && canRewriteLabels && !!target);
+    onApply(content, edits);
+    setMessage(!target
+      ? `Removed "${from}" from ${transcript.name}.`
+      : speakerNames.includes(target) ? `Merged "${from}" into "${target}".` : `Renamed "${from}" to "${target}".`);
+  };
+
+  const runDetection = () => {
+    const before = speakers.reduce((sum, s) => sum + s.lineCount, 0);
+    const content = detectSpeakers(stripHighlights(transcript.content), { ...detection, enabled: true });
+    const after = listSpeakers(content);
+    const added = after.reduce((sum, s) => sum + s.lineCount, 0) - before;
+    if (added > 0) {
+      onApply(content, []);
+      setMessage(`Assigned speakers to ${added} line${added === 1 ? '' : 's'}.`);
+    } else {
+      setMessage('No new speaker turns found. Lines that already have a speaker are left as they are.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-[var(--bg-panel)] rounded-xl shadow-2xl w-full max-w-xl max-h-[85vh] flex flex-col overflow-hidden border border-[var(--border)] text-[var(--text-main)]" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-[var(--border)] flex justify-between items-center bg-[var(--bg-main)]">
+          <div>
+            <h3 className="font-bold text-lg flex items-center gap-2">
+              <MessagesSquare size={18} className="text-[var(--text-muted)]" />
+              Speakers
+            </h3>
+            <p className="text-xs text-[var(--text-muted)] truncate">{transcript.name} · {speakers.length} speaker{speakers.length === 1 ? '' : 's'}</p>
+          </div>
+          <button onClick={onClose} className="text-[var(--text-muted)] hover:text-[var(--text-main)] p-1 rounded"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {speakers.length === 0 ? (
+            <div className="p-6 text-sm text-[var(--text-muted)] text-center">
+              No speakers in this transcript yet. Run detection below to find labelled turns.
+            </div>
+          ) : speakers.map(({ name, lineCount }) => (
+            <div key={name} className="px-4 py-2 border-b border-[var(--border)] flex items-center gap-2 text-sm">
+              <div className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: speakerColor(speakerNames, name) }} />
+              <input
+                value={drafts[name] ?? name}
+                disabled={!canEdit}
+                onChange={e => setDrafts(prev => ({ ...prev, [name]: e.target.value }))}
+                onBlur={() => drafts[name] !== undefined && applyRename(name, drafts[name])}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+                  if (e.key === 'Escape') setDrafts(prev => ({ ...prev, [name]: name }));
+                }}
+                className="flex-1 min-w-0 bg-transparent border border-transparent hover:border-[var(--border)] focus:border-[var(--accent)] rounded px-2 py-1 outline-none disabled:opacity-70"
+                title={canEdit ? 'Rename. Use an existing name to merge.' : undefined}
+              />
+              <span className="text-xs text-[var(--text-muted)] w-16 text-right">{lineCount} line{lineCount === 1 ? '' : 's'}</span>
+              {canEdit && speakers.length > 1 && (
+                <div className="relative flex items-center" title="Merge into another speaker">
+                  <GitMerge size={14} className="absolute left-1.5 text-[var(--text-muted)] pointer-events-none" />
+                  <select
+                    value=""
+                    onChange={e => e.target.value && applyRename(name, e.target.value)}
+                    className="pl-6 pr-1 py-1 text-xs bg-[var(--bg-main)] border border-[var(--border)] rounded w-24"
+                  >
+                    <option value="">Merge…</option>
+                    {speakerNames.filter(n => n !== name).map(n => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                </div>
+              )}
+              {canEdit && (
+                <button
+                  onClick={() => applyRename(name, '')}
+                  className="p-1 text-[var(--text-muted)] hover:text-red-500 rounded"
+                  title="Clear this speaker from its lines (text is kept)"
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-[var(--border)] bg-[var(--bg-main)] space-y-3 text-xs">
+          {message && <div className="px-3 py-2 rounded bg-[var(--bg-panel)] border border-[var(--border)]">{message}</div>}
+
+          {canEdit ? (
+            <label className={`flex items-center gap-2 ${canRewriteLabels ? '' : 'text-[var(--text-muted)] opacity-60'}`}>
+              <input type="checkbox" checked={rewriteLabels && canRewriteLabels} disabled={!canRewriteLabels} onChange={e => setRewriteLabels(e.target.checked)} />
+              Also rewrite speaker labels in the text when renaming
+              {!canRewriteLabels && <span>(not available in shared projects)</span>}
+            </label>
+          ) : (
+            <p className="text-[var(--text-muted)]">Only project admins can change speakers in a shared transcript.</p>
+          )}
+
+          <div className="pt-3 border-t border-[var(--border)] space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-bold uppercase text-[var(--text-muted)]">Detection patterns</span>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={detection.enabled} onChange={e => updateDetection({ enabled: e.target.checked })} />
+                Detect on import
+              </label>
+            </div>
+            {(Object.keys(SPEAKER_PATTERN_PRESETS) as SpeakerPatternPreset[]).map(preset => (
+              <label key={preset} className="flex items-center gap-2">
+                <input type="checkbox" checked={detection.presets.includes(preset)} onChange={() => togglePreset(preset)} />
+                <span>{SPEAKER_PATTERN_PRESETS[preset].label}</span>
+                <span className="font-mono text-[var(--text-muted)] truncate">{SPEAKER_PATTERN_PRESETS[preset].example}</span>
+              </label>
+            ))}
+            <div>
+              <input
+                value={detection.customPattern || ''}
+                onChange={e => updateDetection({ customPattern: e.target.value })}
+                placeholder="Custom regex, e.g. ^(P\d+)\s*-\s"
+                className={`w-full font-mono px-2 py-1.5 bg-[var(--bg-panel)] border rounded outline-none ${customError ? 'border-red-400' : 'border-[var(--border)] focus:border-[var(--accent)]'}`}
+              />
+              {customError && <p className="text-red-500 mt-1">{customError}</p>}
+            </div>
+            {canEdit && (
+              <button
+                onClick={runDetection}
+                className="w-full flex items-center justify-center gap-2 px-3 py-1.5 font-bold rounded bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110"
+              >
+                <Wand2 size={14} /> Detect speakers in this transcript
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,297 @@
+import React, { useMemo, useState } from 'react';
+import { Cloud, FileText, List, Tag, X } from 'lucide-react';
+import { Code, Selection, Transcript } from '../types';
+import { buildMiningUnits, countTerms, NgramSize, TermOccurrence, TermStat } from '../utils/textMining';
+import { CodeRange, mergeRanges } from '../utils/codeQuery';
+import { getTranscriptLines } from '../utils/highlightUtils';
+import { isUsableTextSelection } from '../utils/textAnchors';
+import { codebookOrder } from '../utils/keyboardCoding';
+
+interface Props {
+  transcripts: Transcript[];                      // Documents in scope
+  segments: Selection[];                          // Filtered codings, mined in "Coded segments" mode
+  codes: Code[];                                  // Codes the user may apply
+  onCodeSpans?: (codeId: string, spans: { transcriptId: string; start: number; end: number }[]) => void;
+}
+
+type MiningSource = 'documents' | 'segments';
+type CodeScope = 'keyword' | 'line';
+
+// Characters of context either side of a keyword
+const CONTEXT = 60;
+const TABLE_LIMIT = 500;
+const CLOUD_LIMIT = 80;
+
+const inputClass = 'bg-[var(--bg-main)] border border-[var(--border)] text-[var(--text-main)] text-sm rounded-md px-2 py-1.5 outline-none focus:ring-2 focus:ring-[var(--accent)]';
+
+const occurrenceId = (o: TermOccurrence) => `${o.transcriptId}:${o.start}`;
+
+const Toggle: React.FC<{ options: { value: string; label: React.ReactNode }[]; value: string; onChange: (value: string) => void }> = ({ options, value, onChange }) => (
+  <div className="flex bg-[var(--bg-main)] rounded-lg p-0.5">
+    {options.map(o => (
+      <button
+        key={o.value}
+        onClick={() => onChange(o.value)}
+        className={`flex items-center gap-1 px-2.5 py-1 text-xs font-medium rounded-md transition-all ${value === o.value ? 'bg-[var(--bg-panel)] shadow text-[var(--accent)]' : 'text-[var(--text-muted)] hover:text-[var(--text-main)]'}`}
+      >
+        {o.label}
+      </button>
+    ))}
+  </div>
+);
+
+export const TextMiningPanel: React.FC<Props> = ({ transcripts, segments, codes, onCodeSpans }) => {
+  const [source, setSource] = useState<MiningSource>('documents');
+  const [ngram, setNgram] = useState<NgramSize>(1);
+  const [removeStopWords, setRemoveStopWords] = useState(true);
+  const [stemWords, setStemWords] = useState(false);
+  const [minLength, setMinLength] = useState(3);
+  const [extraStopWords, setExtraStopWords] = useState('');
+  const [display, setDisplay] = useState<'table' | 'cloud'>('table');
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const [checked, setChecked] = useState<string[]>([]);
+  const orderedCodes = useMemo(() => codebookOrder(codes), [codes]);
+  const [codeId, setCodeId] = useState('');
+  const [scope, setScope] = useState<CodeScope>('keyword');
+
+  const codedRanges = useMemo(() => {
+    if (source !== 'segments') return undefined;
+    const byTranscript = new Map<string, CodeRange[]>();
+    segments.filter(isUsableTextSelection).forEach(s => {
+      byTranscript.set(s.transcriptId, [...(byTranscript.get(s.transcriptId) || []), [s.startIndex, s.endIndex]]);
+    });
+    byTranscript.forEach((ranges, id) => byTranscript.set(id, mergeRanges(ranges)));
+    return byTranscript;
+  }, [source, segments]);
+
+  const units = useMemo(() => buildMiningUnits(transcripts, codedRanges), [transcripts, codedRanges]);
+  const documentCount = useMemo(() => new Set(units.map(u => u.transcriptId)).size, [units]);
+
+  const terms = useMemo(() => countTerms(units, {
+    ngram,
+    removeStopWords,
+    extraStopWords: extraStopWords.split(/[\s,]+/).filter(Boolean),
+    stem: stemWords,
+    minLength,
+  }), [units, ngram, removeStopWords, extraStopWords, stemWords, minLength]);
+
+  // Lines and their start offsets per document, for concordance context
+  const linesByTranscript = useMemo(() => new Map(transcripts.map(t => {
+    const lines = getTranscriptLines(t.content);
+    const starts: number[] = [];
+    lines.reduce((offset, line) => {
+      starts.push(offset);
+      return offset + line.length;
+    }, 0);
+    return [t.id, { name: t.name, lines, starts }];
+  })), [transcripts]);
+
+  const activeTerm = activeKey ? terms.find(t => t.key === activeKey) : undefined;
+
+  const openTerm = (term: TermStat) => {
+    setActiveKey(term.key);
+    setChecked(term.occurrences.map(occurrenceId));
+  };
+
+  const concordance = (activeTerm?.occurrences || []).map(o => {
+    const doc = linesByTranscript.get(o.transcriptId)!;
+    const text = doc.lines[o.line];
+    const lineStart = doc.starts[o.line];
+    const from = o.start - lineStart;
+    const to = o.end - lineStart;
+    return {
+      occurrence: o,
+      id: occurrenceId(o),
+      document: doc.name,
+      left: (from > CONTEXT ? '…' : '') + text.slice(Math.max(0, from - CONTEXT), from),
+      keyword: text.slice(from, to),
+      right: text.slice(to, to + CONTEXT) + (text.length - to > CONTEXT ? '…' : ''),
+      line: { start: lineStart + (text.length - text.trimStart().length), end: lineStart + text.trimEnd().length },
+    };
+  });
+
+  const handleCode = () => {
+    if (!onCodeSpans || !codeId) return;
+    const spans = concordance
+      .filter(row => checked.includes(row.id))
+      .map(row => scope === 'keyword'
+        ? { transcriptId: row.occurrence.transcriptId, start: row.occurrence.start, end: row.occurrence.end }
+        : { transcriptId: row.occurrence.transcriptId, ...row.line });
+    // Several hits on one line give the same line span
+    const unique = spans.filter((span, i) => spans.findIndex(o => o.transcriptId === span.transcriptId && o.start === span.start && o.end === span.end) === i);
+    onCodeSpans(codeId, unique);
+  };
+
+  const codeById = useMemo(() => new Map(codes.map(c => [c.id, c])), [codes]);
+  const depthOf = (code: Code): number => {
+    const parent = code.parentId ? codeById.get(code.parentId) : undefined;
+    return parent ? depthOf(parent) + 1 : 0;
+  };
+
+  const cloudTerms = terms.slice(0, CLOUD_LIMIT);
+  const cloudSize = (count: number) => {
+    const low = Math.log(cloudTerms[cloudTerms.length - 1]?.count || 1);
+    const high = Math.log(cloudTerms[0]?.count || 1);
+    return 12 + 28 * (high > low ? (Math.log(count) - low) / (high - low) : 1);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex flex-wrap items-center gap-3 mb-3 text-sm text-[var(--text-muted)]">
+        <Toggle
+          options={[{ value: 'documents', label: 'Documents' }, { value: 'segments', label: 'Coded segments' }]}
+          value={source}
+          onChange={v => setSource(v as MiningSource)}
+        />
+        <Toggle
+          options={[{ value: '1', label: 'Words' }, { value: '2', label: '2-grams' }, { value: '3', label: '3-grams' }]}
+          value={String(ngram)}
+          onChange={v => setNgram(Number(v) as NgramSize)}
+        />
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input type="checkbox" checked={removeStopWords} onChange={e => setRemoveStopWords(e.target.checked)} /> Remove stop words
+        </label>
+        <label className="flex items-center gap-1.5 cursor-pointer" title="Group word forms (work, works, working) under one stem">
+          <input type="checkbox" checked={stemWords} onChange={e => setStemWords(e.target.checked)} /> Stemming
+        </label>
+        <label className="flex items-center gap-1.5">
+          Min length
+          <input type="number" min={1} value={minLength} onChange={e => setMinLength(Math.max(1, parseInt(e.target.value, 10) || 1))} className={`${inputClass} w-14`} />
+        </label>
+        <input
+          value={extraStopWords}
+          onChange={e => setExtraStopWords(e.target.value)}
+          placeholder="More stop words…"
+          className={`${inputClass} flex-1 min-w-[10rem]`}
+          title="Extra words to ignore, separated by spaces or commas"
+        />
+        <Toggle
+          options={[{ value: 'table', label: <><List size={12} /> Table</> }, { value: 'cloud', label: <><Cloud size={12} /> Cloud</> }]}
+          value={display}
+          onChange={v => setDisplay(v as 'table' | 'cloud')}
+        />
+      </div>
+
+      <div className="flex-1 flex gap-4 min-h-0">
+        <div className="flex-1 flex flex-col min-w-0 border border-[var(--border)] rounded-lg overflow-hidden">
+          <div className="px-4 py-2 bg-[var(--bg-main)] text-xs font-bold text-[var(--text-muted)] border-b border-[var(--border)]">
+            {terms.length} term{terms.length === 1 ? '' : 's'} in {documentCount} document{documentCount === 1 ? '' : 's'}
+            {display === 'table' && terms.length > TABLE_LIMIT && ` · top ${TABLE_LIMIT} shown`}
+            {display === 'cloud' && terms.length > CLOUD_LIMIT && ` · top ${CLOUD_LIMIT} shown`}
+          </div>
+          {terms.length === 0 ? (
+            <div className="p-6 text-center text-sm italic text-[var(--text-muted)]">
+              {source === 'segments' ? 'No coded text in the selected documents.' : 'No words to count in the selected documents.'}
+            </div>
+          ) : display === 'table' ? (
+            <div className="flex-1 overflow-y-auto">
+              <table className="w-full border-collapse text-sm text-left">
+                <thead className="bg-[var(--bg-panel)] text-[var(--text-muted)] text-xs sticky top-0 shadow-sm">
+                  <tr>
+                    <th className="px-4 py-2 w-12">#</th>
+                    <th className="px-4 py-2">Term</th>
+                    <th className="px-4 py-2 text-right w-24">Count</th>
+                    <th className="px-4 py-2 text-right w-28">Documents</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {terms.slice(0, TABLE_LIMIT).map((term, i) => (
+                    <tr
+                      key={term.key}
+                      onClick={() => openTerm(term)}
+                      className={`border-b border-[var(--border)] last:border-0 cursor-pointer ${term.key === activeKey ? 'bg-[var(--accent)]/10' : 'hover:bg-[var(--bg-main)]'}`}
+                    >
+                      <td className="px-4 py-1.5 text-xs text-[var(--text-muted)]">{i + 1}</td>
+                      <td className="px-4 py-1.5 font-medium text-[var(--text-main)]">
+                        {term.label}
+                        {stemWords && term.key !== term.label && <span className="ml-2 text-xs font-mono text-[var(--text-muted)]">{term.key}*</span>}
+                      </td>
+                      <td className="px-4 py-1.5 text-right font-mono">{term.count}</td>
+                      <td className="px-4 py-1.5 text-right font-mono text-[var(--text-muted)]">{term.documents}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="flex-1 overflow-y-auto p-6 flex flex-wrap items-center justify-center content-center gap-x-4 gap-y-2">
+              {[...cloudTerms].sort((a, b) => a.label.localeCompare(b.label)).map(term => (
+                <button
+                  key={term.key}
+                  onClick={() => openTerm(term)}
+                  className={`leading-tight font-bold transition-colors ${term.key === activeKey ? 'text-[var(--accent)] underline' : 'text-[var(--text-main)] hover:text-[var(--accent)]'}`}
+                  style={{ fontSize: cloudSize(term.count), opacity: 0.55 + 0.45 * (cloudSize(term.count) - 12) / 28 }}
+                  title={`${term.count} occurrence${term.count === 1 ? '' : 's'} in ${term.documents} document${term.documents === 1 ? '' : 's'}`}
+                >
+                  {term.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {activeTerm && (
+          <div className="w-1/2 flex flex-col min-w-0 border border-[var(--border)] rounded-lg overflow-hidden">
+            <div className="flex items-center gap-2 px-4 py-2 bg-[var(--bg-main)] border-b border-[var(--border)] text-xs">
+              <input
+                type="checkbox"
+                checked={checked.length === concordance.length}
+                onChange={e => setChecked(e.target.checked ? concordance.map(row => row.id) : [])}
+                title="Select all"
+              />
+              <span className="flex-1 font-bold text-[var(--text-main)] truncate">
+                “{activeTerm.label}” · {activeTerm.count} occurrence{activeTerm.count === 1 ? '' : 's'}
+              </span>
+              <button onClick={() => setActiveKey(null)} className="text-[var(--text-muted)] hover:text-[var(--text-main)]" title="Close concordance">
+                <X size={14} />
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto font-mono text-xs">
+              {concordance.map(row => (
+                <label key={row.id} className="flex items-start gap-2 px-3 py-1.5 border-b border-[var(--border)] last:border-0 hover:bg-[var(--bg-main)] cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mt-0.5"
+                    checked={checked.includes(row.id)}
+                    onChange={e => setChecked(e.target.checked ? [...checked, row.id] : checked.filter(id => id !== row.id))}
+                  />
+                  <span className="flex-1 min-w-0">
+                    <span className="flex items-center gap-1 font-sans text-[10px] text-[var(--text-muted)]">
+                      <FileText size={10} /> <span className="truncate">{row.document}</span> · line {row.occurrence.line + 1}
+                    </span>
+                    <span className="grid grid-cols-[1fr_auto_1fr] gap-1 text-[var(--text-main)]">
+                      <span className="truncate text-right" dir="rtl"><bdi>{row.left}</bdi></span>
+                      <span className="font-bold text-[var(--accent)] whitespace-nowrap">{row.keyword}</span>
+                      <span className="truncate">{row.right}</span>
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            {onCodeSpans && (
+              <div className="flex items-center gap-2 px-3 py-2 border-t border-[var(--border)] text-xs">
+                <select value={codeId} onChange={e => setCodeId(e.target.value)} className={`${inputClass} flex-1 min-w-0`}>
+                  <option value="">Choose a code…</option>
+                  {orderedCodes.map(c => <option key={c.id} value={c.id}>{'  '.repeat(depthOf(c))}{c.name}</option>)}
+                </select>
+                <Toggle
+                  options={[{ value: 'keyword', label: 'Keyword' }, { value: 'line', label: 'Line' }]}
+                  value={scope}
+                  onChange={v => setScope(v as CodeScope)}
+                />
+                <button
+                  onClick={handleCode}
+                  disabled={!codeId || checked.length === 0}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded font-bold bg-[var(--accent)] text-[var(--accent-text)] disabled:opacity-40"
+                  title="Code the ticked occurrences"
+                >
+                  <Tag size={12} /> Code {checked.length}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, Layers, Plus, Trash2 } from 'lucide-react';
+import { Project, TranscriptSet } from '../types';
+import { buildAttributeDimension } from '../utils/attributeUtils';
+import { createTranscriptSet, groupTranscriptSets, moveTranscriptSet, setsFromAttribute, toggleSetMember } from '../utils/transcriptSets';
+
+interface Props {
+  project: Project;
+  onUpdateProject: (p: Project) => void;
+  readOnly?: boolean;
+  onAlert: (title: string, message: string) => void;
+  onConfirm: (title: string, message: string, callback: () => void) => void;
+}
+
+const headerInputClass = 'w-full bg-transparent outline-none rounded px-1 focus:bg-[var(--bg-panel)] focus:ring-2 focus:ring-[var(--accent)]';
+
+export const TranscriptSetsSection: React.FC<Props> = ({ project, onUpdateProject, readOnly = false, onAlert, onConfirm }) => {
+  const sets = project.transcriptSets || [];
+  const groups = groupTranscriptSets(sets);
+  const [newSet, setNewSet] = useState<{ name: string; group: string } | null>(null);
+
+  const updateSets = (transcriptSets: TranscriptSet[]) => onUpdateProject({ ...project, transcriptSets });
+
+  const addSet = () => {
+    if (!newSet) return;
+    const name = newSet.name.trim();
+    const group = newSet.group.trim() || 'Sets';
+    if (!name) return;
+    if (sets.some(s => s.group === group && s.name.toLowerCase() === name.toLowerCase())) {
+      onAlert('Duplicate Set', `"${group}" already has a set named "${name}".`);
+      return;
+    }
+    updateSets([...sets, createTranscriptSet(name, group)]);
+    setNewSet({ name: '', group });
+  };
+
+  const addFromAttribute = (attributeId: string) => {
+    const attribute = project.attributes?.find(a => a.id === attributeId);
+    if (!attribute) return;
+    if (sets.some(s => s.group === attribute.name)) {
+      onAlert('Duplicate Group', `There are already sets in a group named "${attribute.name}".`);
+      return;
+    }
+    const created = setsFromAttribute(buildAttributeDimension(attribute, project.transcripts), project);
+    if (created.length === 0) {
+      onAlert('No Values', `No document has a value for "${attribute.name}" yet.`);
+      return;
+    }
+    updateSets([...sets, ...created]);
+  };
+
+  const renameSet = (set: TranscriptSet, name: string) => {
+    if (name && name !== set.name) updateSets(sets.map(s => s.id === set.id ? { ...s, name } : s));
+  };
+
+  const renameGroup = (group: string, name: string) => {
+    if (!name || name === group) return;
+    if (sets.some(s => s.group === name)) {
+      onAlert('Duplicate Group', `There is already a group named "${name}".`);
+      return;
+    }
+    updateSets(sets.map(s => s.group === group ? { ...s, group: name } : s));
+  };
+
+  const handleDelete = (set: TranscriptSet) => {
+    onConfirm('Delete Set?', `Delete the set "${set.name}"? Its documents are not affected.`, () => updateSets(sets.filter(s => s.id !== set.id)));
+  };
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <div>
+          <h3 className="font-bold flex items-center"><Layers size={18} className="mr-2 text-[var(--accent)]" /> Transcript Sets</h3>
+          <p className="text-xs text-[var(--text-muted)]">
+            Group documents into sets, such as interview waves or participants, to compare codes across them in the Analysis dashboard. Sets in a group are kept in order.
+          </p>
+        </div>
+        {!readOnly && (
+          <div className="flex gap-2 flex-shrink-0">
+            {(project.attributes || []).length > 0 && (
+              <select
+                value=""
+                onChange={e => addFromAttribute(e.target.value)}
+                className="px-3 py-2 text-sm bg-[var(--bg-panel)] border border-[var(--border)] rounded-lg text-[var(--text-muted)]"
+                title="Create one set per value of an attribute"
+              >
+                <option value="">Sets from attribute…</option>
+                {project.attributes!.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            )}
+            <button
+              onClick={() => setNewSet({ name: '', group: groups[0]?.group || 'Wave' })}
+              className="flex items-center space-x-2 px-3 py-2 text-sm font-bold rounded-lg bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110"
+            >
+              <Plus size={16} />
+              <span>Add Set</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {newSet && (
+        <div className="flex items-center gap-2 mb-3 text-sm">
+          <input
+            autoFocus
+            value={newSet.name}
+            onChange={e => setNewSet({ ...newSet, name: e.target.value })}
+            onKeyDown={e => {
+              if (e.key === 'Enter') addSet();
+              if (e.key === 'Escape') setNewSet(null);
+            }}
+            placeholder="Set name, e.g. Wave 1"
+            className="flex-1 max-w-xs px-3 py-1.5 bg-[var(--bg-panel)] border border-[var(--border)] rounded outline-none focus:border-[var(--accent)]"
+          />
+          <input
+            value={newSet.group}
+            onChange={e => setNewSet({ ...newSet, group: e.target.value })}
+            onKeyDown={e => e.key === 'Enter' && addSet()}
+            list="transcript-set-groups"
+            placeholder="Group, e.g. Wave"
+            className="w-48 px-3 py-1.5 bg-[var(--bg-panel)] border border-[var(--border)] rounded outline-none focus:border-[var(--accent)]"
+          />
+          <datalist id="transcript-set-groups">
+            {groups.map(g => <option key={g.group} value={g.group} />)}
+          </datalist>
+          <button onClick={addSet} className="px-3 py-1.5 text-xs font-bold rounded bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110">Add</button>
+          <button onClick={() => setNewSet(null)} className="px-3 py-1.5 text-xs font-bold rounded border border-[var(--border)] text-[var(--text-muted)] hover:text-[var(--text-main)]">Done</button>
+        </div>
+      )}
+
+      {sets.length === 0 ? (
+        <p className="text-sm italic text-[var(--text-muted)]">No sets yet.</p>
+      ) : (
+        <div className="inline-block min-w-full border border-[var(--border)] rounded-lg overflow-hidden bg-[var(--bg-panel)]">
+          <table className="border-collapse text-sm text-left">
+            <thead className="bg-[var(--bg-main)] text-[var(--text-main)] font-bold">
+              <tr>
+                <th rowSpan={2} className="p-3 border-b border-r border-[var(--border)] min-w-[220px] sticky left-0 bg-[var(--bg-main)]">Document</th>
+                {groups.map(g => (
+                  <th key={g.group} colSpan={g.sets.length} className="px-2 py-1.5 border-b border-r border-[var(--border)] text-center text-xs uppercase tracking-wider text-[var(--text-muted)]">
+                    {readOnly ? g.group : (
+                      <input key={g.group} defaultValue={g.group} onBlur={e => renameGroup(g.group, e.target.value.trim())} className={`${headerInputClass} text-center uppercase`} title="Rename group" />
+                    )}
+                  </th>
+                ))}
+              </tr>
+              <tr>
+                {groups.flatMap(g => g.sets.map((set, i) => (
+                  <th key={set.id} className="px-2 py-1.5 border-b border-r border-[var(--border)] min-w-[120px] align-top">
+                    {readOnly ? <div className="truncate">{set.name}</div> : (
+                      <input key={set.name} defaultValue={set.name} onBlur={e => renameSet(set, e.target.value.trim())} className={headerInputClass} title="Rename set" />
+                    )}
+                    <div className="flex items-center gap-1 text-[10px] font-normal text-[var(--text-muted)]">
+                      <span className="flex-1">{set.transcriptIds.filter(id => project.transcripts.some(t => t.id === id)).length} docs</span>
+                      {!readOnly && (
+                        <>
+                          <button onClick={() => onUpdateProject(moveTranscriptSet(project, set.id, -1))} disabled={i === 0} className="hover:text-[var(--text-main)] disabled:opacity-30" title="Move earlier">
+                            <ChevronLeft size={12} />
+                          </button>
+                          <button onClick={() => onUpdateProject(moveTranscriptSet(project, set.id, 1))} disabled={i === g.sets.length - 1} className="hover:text-[var(--text-main)] disabled:opacity-30" title="Move later">
+                            <ChevronRight size={12} />
+                          </button>
+                          <button onClick={() => handleDelete(set)} className="hover:text-red-500" title="Delete set">
+                            <Trash2 size={12} />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </th>
+                )))}
+              </tr>
+            </thead>
+            <tbody>
+              {project.transcripts.map(t => (
+                <tr key={t.id} className="border-b border-[var(--border)] last:border-0 hover:bg-[var(--bg-main)]/50">
+                  <td className="px-3 py-1.5 border-r border-[var(--border)] font-medium bg-[var(--bg-panel)] sticky left-0 truncate max-w-[260px]" title={t.name}>{t.name}</td>
+                  {groups.flatMap(g => g.sets.map(set => (
+                    <td key={set.id} className="px-2 py-1.5 border-r border-[var(--border)] text-center">
+                      <input
+                        type="checkbox"
+                        checked={set.transcriptIds.includes(t.id)}
+                        disabled={readOnly}
+                        onChange={() => onUpdateProject(toggleSetMember(project, set.id, t.id))}
+                        aria-label={`${t.name} in ${set.name}`}
+                      />
+                    </td>
+                  )))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
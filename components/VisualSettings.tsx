@@ -1,12 +1,18 @@
 import React from 'react';
-import { AppSettings, AppTheme } from '../types';
-import { Type, AlignJustify, Eye, Palette, Layout } from 'lucide-react';
+import { AppSettings, AppTheme, CodingDisplay } from '../types';
+import { Type, AlignJustify, Eye, Palette, Layout, Highlighter } from 'lucide-react';
 
 interface Props {
   settings: AppSettings;
   onUpdate: (s: AppSettings) => void;
 }
 
+const CODING_DISPLAYS: { value: CodingDisplay; label: string }[] = [
+  { value: 'inline', label: 'Inline' },
+  { value: 'stripes', label: 'Stripes' },
+  { value: 'both', label: 'Both' }
+];
+
 export const VisualSettings: React.FC<Props> = ({ settings, onUpdate }) => {
   return (
     <div className="absolute top-16 right-4 z-40 bg-[var(--bg-panel)] p-4 rounded-xl shadow-xl border border-[var(--border)] w-72 animate-in fade-in slide-in-from-top-2 text-[var(--text-main)]">
@@ -101,6 +107,23 @@ export const VisualSettings: React.FC<Props> = ({ settings, onUpdate }) => {
               onChange={(e) => onUpdate({ ...settings, zebraStriping: e.target.checked })}
             />
           </label>
+
+          <div className="space-y-2">
+            <span className="text-sm font-medium text-[var(--text-main)] flex items-center gap-2">
+              <Highlighter size={14} /> Show Codings As
+            </span>
+            <div className="grid grid-cols-3 gap-1 p-1 rounded bg-[var(--bg-main)]">
+              {CODING_DISPLAYS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => onUpdate({ ...settings, codingDisplay: value })}
+                  className={`py-1 rounded text-xs font-medium ${(settings.codingDisplay || 'inline') === value ? 'bg-[var(--accent)] text-[var(--accent-text)]' : 'text-[var(--text-muted)] hover:text-[var(--text-main)]'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
         </div>
       </div>
     </div>
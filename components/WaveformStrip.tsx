@@ -0,0 +1,151 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+export interface WaveformRegion {
+  id: string;
+  start: number;
+  end: number;
+  color: string;
+  label: string;
+}
+
+interface Props {
+  peaks: number[] | null; // null while decoding or when the file has no audio track
+  duration: number;
+  time: number;
+  regions: WaveformRegion[];
+  selectedRegionId: string | null;
+  pendingRange: { start: number; end: number } | null;
+  onSeek: (seconds: number) => void;
+  onSelectRange: (start: number, end: number) => void;
+  onRegionClick: (id: string) => void;
+}
+
+// Drags shorter than this are treated as clicks
+const DRAG_THRESHOLD_PX = 4;
+// Regions stack in lanes above the waveform when they overlap
+const LANE_HEIGHT = 5;
+
+const assignLanes = (regions: WaveformRegion[]) => {
+  const laneEnds: number[] = [];
+  return [...regions].sort((a, b) => a.start - b.start).map(region => {
+    let lane = laneEnds.findIndex(end => end <= region.start);
+    if (lane < 0) lane = laneEnds.length;
+    laneEnds[lane] = region.end;
+    return { region, lane };
+  });
+};
+
+export const WaveformStrip: React.FC<Props> = ({ peaks, duration, time, regions, selectedRegionId, pendingRange, onSeek, onSelectRange, onRegionClick }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [drag, setDrag] = useState<{ startX: number; currentX: number } | null>(null);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setWidth(el.clientWidth));
+    observer.observe(el);
+    setWidth(el.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  // Mirror-image bars, one per pixel column
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !width) return;
+    const ratio = window.devicePixelRatio || 1;
+    const height = canvas.clientHeight;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.scale(ratio, ratio);
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = getComputedStyle(canvas).color;
+    const mid = height / 2;
+    if (!peaks || peaks.length === 0) {
+      ctx.fillRect(0, mid, width, 1);
+      return;
+    }
+    for (let x = 0; x < width; x++) {
+      const peak = peaks[Math.floor((x / width) * peaks.length)] || 0;
+      const h = Math.max(1, peak * (height - 2));
+      ctx.fillRect(x, mid - h / 2, 1, h);
+    }
+  }, [peaks, width]);
+
+  const timeAt = (clientX: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return ratio * duration;
+  };
+
+  const percent = (seconds: number) => `${duration > 0 ? (seconds / duration) * 100 : 0}%`;
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || !duration) return;
+    e.preventDefault();
+    setDrag({ startX: e.clientX, currentX: e.clientX });
+
+    const handleMove = (ev: MouseEvent) => setDrag(prev => prev && { ...prev, currentX: ev.clientX });
+    const handleUp = (ev: MouseEvent) => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      setDrag(null);
+      if (Math.abs(ev.clientX - e.clientX) < DRAG_THRESHOLD_PX) {
+        const regionId = (e.target as HTMLElement).closest<HTMLElement>('[data-region-id]')?.dataset.regionId;
+        if (regionId) onRegionClick(regionId);
+        else onSeek(timeAt(ev.clientX));
+        return;
+      }
+      const a = timeAt(e.clientX);
+      const b = timeAt(ev.clientX);
+      onSelectRange(Math.min(a, b), Math.max(a, b));
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const dragRange = drag && Math.abs(drag.currentX - drag.startX) >= DRAG_THRESHOLD_PX
+    ? { start: Math.min(timeAt(drag.startX), timeAt(drag.currentX)), end: Math.max(timeAt(drag.startX), timeAt(drag.currentX)) }
+    : null;
+  const shownRange = dragRange || pendingRange;
+  const lanes = assignLanes(regions);
+  const laneCount = lanes.reduce((max, l) => Math.max(max, l.lane + 1), 0);
+
+  return (
+    <div
+      ref={containerRef}
+      onMouseDown={handleMouseDown}
+      className="relative w-full rounded bg-[var(--bg-main)] border border-[var(--border)] cursor-crosshair select-none overflow-hidden"
+      style={{ height: 48 + laneCount * LANE_HEIGHT }}
+      title="Click to seek, drag to select a range"
+    >
+      {lanes.map(({ region, lane }) => (
+        <div
+          key={region.id}
+          data-region-id={region.id}
+          className={`absolute cursor-pointer ${region.id === selectedRegionId ? 'ring-2 ring-[var(--accent)]' : ''}`}
+          style={{ left: percent(region.start), width: percent(region.end - region.start), top: lane * LANE_HEIGHT, height: LANE_HEIGHT - 1, backgroundColor: region.color }}
+          title={region.label}
+        />
+      ))}
+      {lanes.map(({ region }) => (
+        <div
+          key={`${region.id}-shade`}
+          className="absolute bottom-0 pointer-events-none"
+          style={{ left: percent(region.start), width: percent(region.end - region.start), top: laneCount * LANE_HEIGHT, backgroundColor: region.color, opacity: region.id === selectedRegionId ? 0.3 : 0.12 }}
+        />
+      ))}
+      <canvas ref={canvasRef} className="absolute left-0 right-0 bottom-0 w-full text-[var(--text-muted)] pointer-events-none" style={{ height: 48 }} />
+      {shownRange && (
+        <div
+          className="absolute bottom-0 border-x-2 border-[var(--accent)] pointer-events-none"
+          style={{ left: percent(shownRange.start), width: percent(shownRange.end - shownRange.start), top: laneCount * LANE_HEIGHT, backgroundColor: 'color-mix(in srgb, var(--accent) 25%, transparent)' }}
+        />
+      )}
+      <div className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none" style={{ left: percent(time) }} />
+    </div>
+  );
+};
@@ -37,7 +37,9 @@ import {
     CodebookChangeProposal,
     AppNotification,
     DocumentSnapshot,
-    VersionControlEvent
+    VersionControlEvent,
+    DocumentAttribute,
+    TranscriptSet
 } from '../types';
 import { createTextPatch, applyTextPatch } from '../utils/diffUtils';
 import { compressTranscriptContent, hydrateTranscriptContent } from '../utils/transcriptOptimizer';
@@ -190,6 +192,48 @@ export async function updateTranscript(
 }
 
 
+// ─── Document Attributes ───
+// The attribute schema is stored on the project document; each transcript document
+// carries its own values map, replaced as a whole so cleared values are removed.
+
+export async function saveAttributeSchema(
+    projectId: string,
+    attributes: DocumentAttribute[]
+): Promise<void> {
+    // Strip undefined fields (e.g. options on non-categorical attributes)
+    const cleanAttributes = attributes.map(a => {
+        const clean: Record<string, any> = {};
+        for (const [key, value] of Object.entries(a)) {
+            if (value !== undefined) clean[key] = value;
+        }
+        return clean;
+    });
+    await updateCloudProject(projectId, { attributes: cleanAttributes as DocumentAttribute[] });
+}
+
+export async function saveTranscriptAttributes(
+    projectId: string,
+    transcriptId: string,
+    values: Record<string, string>
+): Promise<void> {
+    await updateDoc(
+        doc(db, 'projects', projectId, 'transcripts', transcriptId),
+        { attributes: values }
+    );
+}
+
+
+// ─── Transcript Sets ───
+// Stored whole on the project document, like the attribute schema.
+
+export async function saveTranscriptSets(
+    projectId: string,
+    transcriptSets: TranscriptSet[]
+): Promise<void> {
+    await updateCloudProject(projectId, { transcriptSets });
+}
+
+
 // ─── Codes (Shared Codebook) ───
 
 export async function saveCodes(projectId: string, codes: Code[]): Promise<void> {
@@ -251,6 +295,19 @@ export function subscribeToCodes(
 
 // ─── User Project Data (Per-user selections, memos) ───
 
+// Layer holding the adjudicated coding; written by admins, read like any collaborator's
+export const CONSENSUS_USER_ID = 'consensus';
+// Layer admins merge collaborators' coding into
+export const MASTER_USER_ID = 'master';
+
+const SHARED_LAYER_NAMES: Record<string, string> = {
+    [CONSENSUS_USER_ID]: 'Consensus',
+    [MASTER_USER_ID]: 'Master coding',
+};
+
+/** True for the admin-written layers, which sit beside the members' own userdata. */
+export const isSharedLayer = (userId: string) => Object.hasOwn(SHARED_LAYER_NAMES, userId);
+
 export async function saveUserProjectData(
     projectId: string,
     userId: string,
@@ -300,7 +357,7 @@ export async function getAllCollaboratorData(
                 const member = project.members[d.id];
                 return {
                     userId: d.id,
-                    displayName: member?.displayName || 'Unknown',
+                    displayName: member?.displayName || SHARED_LAYER_NAMES[d.id] || 'Unknown',
                     email: member?.email || '',
                     ...data,
                 };
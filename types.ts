@@ -13,6 +13,21 @@ export interface Code {
   suggestedBy?: string; // ID of user who suggested it
   reason?: string; // Reason for suggestion (if type is suggested)
   status?: 'draft' | 'proposed'; // Draft = private to user, Proposed = shared with admins
+  autoCodeQuery?: AutoCodeQuery; // Last auto-code search run for this code, kept for re-running
+}
+
+export type AutoCodeMode = 'literal' | 'wholeWord' | 'regex';
+// How much text around each hit is coded
+export type AutoCodeScope = 'match' | 'sentence' | 'line' | 'paragraph';
+
+export interface AutoCodeQuery {
+  pattern: string;
+  mode: AutoCodeMode;
+  caseSensitive: boolean;
+  scope: AutoCodeScope;
+  speakers?: string[];      // Only lines by these speakers; all lines when empty
+  transcriptIds?: string[]; // Documents it has been run on, so new imports can be picked out
+  lastRunAt?: number;
 }
 
 export interface Selection {
@@ -24,6 +39,40 @@ export interface Selection {
   endIndex: number;
   timestamp: number;
   annotation?: string;  // Selection-level annotation/note
+  media?: MediaRange;   // Set for segments of the attached recording; the offsets are then 0
+  region?: ImageRegion; // Set for areas of an image document; the offsets are then 0
+  anchor?: SelectionAnchor; // Quote with surrounding context, used to re-find the text after edits
+  orphaned?: boolean;       // Could not be re-anchored after an edit; awaiting review, not highlighted
+  createdBy?: string;       // Coder the selection came from, set when merged into the master layer
+}
+
+// Text-quote anchor: the coded text plus up to 32 characters either side
+export interface SelectionAnchor {
+  quote: string;
+  prefix: string;
+  suffix: string;
+}
+
+// Time range (seconds) in a transcript's attached audio/video
+export interface MediaRange {
+  start: number;
+  end: number;
+}
+
+// Rectangle on one page of an image document, as fractions (0-1) of the page size
+export interface ImageRegion {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One page of an image document (photo or scanned page), kept inline as a JPEG/PNG data URL
+export interface TranscriptImage {
+  dataUrl: string;
+  width: number;
+  height: number;
 }
 
 export interface Transcript {
@@ -32,8 +81,41 @@ export interface Transcript {
   content: string;
   dateAdded: number;
   memo?: string;
+  attributes?: Record<string, string>; // Values keyed by DocumentAttribute id
+  images?: TranscriptImage[]; // Set for image documents; content is then empty
 }
 
+// Per-line metadata carried on `.transcript-line` divs as data-speaker / data-start / data-end
+// (times in seconds). Set by the subtitle and speaker-labelled importers.
+export interface TranscriptLineMeta {
+  speaker?: string;
+  start?: number;
+  end?: number;
+}
+
+export type AttributeType = 'text' | 'number' | 'date' | 'categorical';
+
+// Project-level document attribute (case classification such as site, age band or role).
+// Values are stored as strings on each transcript: numbers in plain form, dates as YYYY-MM-DD.
+export interface DocumentAttribute {
+  id: string;
+  name: string;
+  type: AttributeType;
+  options?: string[]; // Allowed values for categorical attributes
+}
+
+// A named group of transcripts, e.g. one interview wave or one participant's interviews.
+// Sets sharing a group form one dimension ("Wave": Wave 1, Wave 2, ...) in list order.
+export interface TranscriptSet {
+  id: string;
+  name: string;
+  group: string;
+  transcriptIds: string[];
+}
+
+// Framework-method charting summaries: transcript (case) id -> theme (top-level code) id -> text
+export type FrameworkSummaries = Record<string, Record<string, string>>;
+
 // ─── Local Project (backward-compatible) ───
 export interface Project {
   id: string;
@@ -44,11 +126,38 @@ export interface Project {
   transcripts: Transcript[];
   selections: Selection[];
   projectMemo?: string;
+  attributes?: DocumentAttribute[];
+  transcriptSets?: TranscriptSet[];
+  frameworkSummaries?: FrameworkSummaries;
+  savedQueries?: SavedQuery[];
+  codeQueries?: CodeQuery[];
   // Cloud linking
   isCloud?: boolean;
   cloudProjectId?: string;
 }
 
+// A global-search query kept for re-running (see utils/searchQuery for the syntax)
+export interface SavedQuery {
+  id: string;
+  name: string;
+  query: string;
+  createdAt: number;
+}
+
+// Coding query operators: A overlaps B, A or B, A without B, A within N lines of B
+export type CodeQueryOperator = 'and' | 'or' | 'not' | 'near';
+
+// A coding query kept for re-running in the analysis view (see utils/codeQuery)
+export interface CodeQuery {
+  id: string;
+  name: string;
+  codeA: string;
+  operator: CodeQueryOperator;
+  codeB: string;
+  lines?: number; // Distance for 'near'
+  createdAt: number;
+}
+
 export type AppTheme = 'default' | 'hobbit' | 'dark' | 'bluedark' | 'corporate';
 
 export interface AppSettings {
@@ -59,6 +168,34 @@ export interface AppSettings {
   charSpacing: number;
   theme: AppTheme;
   sidebarWidth?: number;
+  speakerDetection?: SpeakerDetectionSettings;
+  codingDisplay?: CodingDisplay; // Defaults to 'inline'
+  keyboardCoding?: KeyboardCodingSettings;
+}
+
+// How codings are drawn in the Editor: highlights in the text, coloured stripes in the margin, or both
+export type CodingDisplay = 'inline' | 'stripes' | 'both';
+
+export type KeyboardAction =
+  | 'extendWord' | 'extendSentence' | 'extendLine' | 'extendParagraph' | 'clearSelection'
+  | 'applyLastCode' | 'nextUncodedLine' | 'previousUncodedLine' | 'showShortcuts';
+
+// Hotkeys for coding in the Editor. Chords look like "Alt+Shift+K"; an empty string unbinds.
+// Codes without a binding of their own get the free digits 1–9 in codebook order.
+export interface KeyboardCodingSettings {
+  enabled: boolean;
+  codeKeys: Record<string, string>; // code id → chord
+  actionKeys: Partial<Record<KeyboardAction, string>>;
+}
+
+export type SpeakerPatternPreset = 'name-colon' | 'bracket';
+
+// How speaker turns are recognised in imported text: built-in label formats plus an
+// optional user regex whose first capture group is the speaker name.
+export interface SpeakerDetectionSettings {
+  enabled: boolean;
+  presets: SpeakerPatternPreset[];
+  customPattern?: string;
 }
 
 // ─── Cloud / Collaboration Types ───
@@ -82,6 +219,8 @@ export interface CloudProject {
   projectMemo: string;
   members: Record<string, ProjectMember>;
   memberEmails: string[];  // For Firestore query / security rules
+  attributes?: DocumentAttribute[];
+  transcriptSets?: TranscriptSet[];
 }
 
 export interface CloudTranscript {
@@ -90,6 +229,8 @@ export interface CloudTranscript {
   content: string;
   dateAdded: number;
   uploadedBy: string;
+  attributes?: Record<string, string>;
+  images?: TranscriptImage[];
 }
 
 export interface UserProjectData {
@@ -97,6 +238,9 @@ export interface UserProjectData {
   transcriptMemos: Record<string, string>;
   personalMemo: string;
   personalCodes?: Code[];
+  frameworkSummaries?: FrameworkSummaries;
+  savedQueries?: SavedQuery[];
+  codeQueries?: CodeQuery[];
 }
 
 export interface CollaboratorData {
@@ -0,0 +1,103 @@
+import { Code, Selection, Transcript } from '../types';
+import { CodeRange, mergeRanges } from './codeQuery';
+import { createAutoCodeSelections } from './autoCode';
+import { isTextSelection, isUsableTextSelection } from './textAnchors';
+
+// --- Adjudication ---
+// Compares two coders code by code. Each code's coding is flattened to merged ranges per
+// transcript; every stretch covered by either coder is one unit of review. Stretches both
+// coders marked identically go straight into the consensus, the rest are disagreements for
+// an admin to settle.
+
+export type AdjudicationDecision = 'a' | 'b' | 'both' | 'neither';
+
+export interface ConsensusSpan {
+  transcriptId: string;
+  codeId: string;
+  start: number;
+  end: number;
+}
+
+export interface Disagreement {
+  id: string;           // transcriptId:codeId:start
+  transcriptId: string;
+  codeId: string;
+  start: number;        // Extent of both codings together
+  end: number;
+  a: CodeRange[];       // Each coder's ranges inside it (either may be empty)
+  b: CodeRange[];
+}
+
+export interface AdjudicationSet {
+  agreed: ConsensusSpan[];
+  disagreements: Disagreement[];
+}
+
+const sameRanges = (a: CodeRange[], b: CodeRange[]) =>
+  a.length === b.length && a.every(([s, e], i) => s === b[i][0] && e === b[i][1]);
+
+/** Disagreements in document, then codebook, then text order. */
+export const findDisagreements = (
+  codes: Code[],
+  transcripts: Transcript[],
+  selectionsA: Selection[],
+  selectionsB: Selection[]
+): AdjudicationSet => {
+  const agreed: ConsensusSpan[] = [];
+  const disagreements: Disagreement[] = [];
+
+  transcripts.forEach(transcript => {
+    const ownA = selectionsA.filter(s => s.transcriptId === transcript.id && isUsableTextSelection(s));
+    const ownB = selectionsB.filter(s => s.transcriptId === transcript.id && isUsableTextSelection(s));
+    codes.forEach(code => {
+      const rangesOf = (sels: Selection[]) => mergeRanges(sels.filter(s => s.codeId === code.id).map(s => [s.startIndex, s.endIndex] as CodeRange));
+      const a = rangesOf(ownA);
+      const b = rangesOf(ownB);
+      mergeRanges([...a, ...b]).forEach(([start, end]) => {
+        const inside = (ranges: CodeRange[]) => ranges.filter(([s, e]) => s >= start && e <= end);
+        const aIn = inside(a);
+        const bIn = inside(b);
+        if (sameRanges(aIn, bIn)) {
+          aIn.forEach(([s, e]) => agreed.push({ transcriptId: transcript.id, codeId: code.id, start: s, end: e }));
+          return;
+        }
+        disagreements.push({ id: `${transcript.id}:${code.id}:${start}`, transcriptId: transcript.id, codeId: code.id, start, end, a: aIn, b: bIn });
+      });
+    });
+  });
+  return { agreed, disagreements };
+};
+
+/** Consensus spans from the agreed stretches plus every decided disagreement; undecided ones are left out. */
+export const resolveConsensus = (set: AdjudicationSet, decisions: Record<string, AdjudicationDecision>): ConsensusSpan[] => {
+  const spans = [...set.agreed];
+  set.disagreements.forEach(d => {
+    const decision = decisions[d.id];
+    const ranges = decision === 'a' ? d.a
+      : decision === 'b' ? d.b
+      : decision === 'both' ? mergeRanges([...d.a, ...d.b])
+      : [];
+    ranges.forEach(([start, end]) => spans.push({ transcriptId: d.transcriptId, codeId: d.codeId, start, end }));
+  });
+  return spans;
+};
+
+/** The stretches a save settles: every agreed span plus each decided disagreement. Undecided ones stay as they were. */
+export const settledRegions = (set: AdjudicationSet, decisions: Record<string, AdjudicationDecision>): ConsensusSpan[] => [
+  ...set.agreed,
+  ...set.disagreements
+    .filter(d => decisions[d.id])
+    .map(d => ({ transcriptId: d.transcriptId, codeId: d.codeId, start: d.start, end: d.end })),
+];
+
+/** Existing consensus codings a save keeps: any that don't overlap a settled region of their code. */
+export const keepUnsettled = (existing: Selection[], regions: ConsensusSpan[]): Selection[] =>
+  existing.filter(s => !isTextSelection(s) || !regions.some(r =>
+    r.transcriptId === s.transcriptId && r.codeId === s.codeId && r.start < s.endIndex && r.end > s.startIndex));
+
+/** Consensus spans as codings, one batch per code so each is anchored like a hand-made one. */
+export const createConsensusSelections = (spans: ConsensusSpan[], transcripts: Transcript[]): Selection[] => {
+  const byCode = new Map<string, ConsensusSpan[]>();
+  spans.forEach(span => byCode.set(span.codeId, [...(byCode.get(span.codeId) || []), span]));
+  return Array.from(byCode.entries()).flatMap(([codeId, codeSpans]) => createAutoCodeSelections(codeSpans, codeId, transcripts));
+};
@@ -0,0 +1,216 @@
+import { Code, Selection, Transcript } from '../types';
+import { getTranscriptLines, getTranscriptLineMeta } from './highlightUtils';
+import { findLineAtTime } from './mediaSync';
+
+// --- Co-occurrence ---
+// Two selections co-occur when they belong to different codes and overlap in the same
+// transcript. Shared by the AnalysisView matrix and the Excel report so both agree.
+// Orphaned selections are skipped everywhere below: their offsets point at changed text.
+export interface CooccurrenceResult {
+  matrix: Record<string, Record<string, number>>;
+  codes: Code[];
+  maxCount: number;
+}
+
+export const computeCooccurrence = (codes: Code[], selections: Selection[]): CooccurrenceResult => {
+  // Sort alphabetically for a cleaner matrix
+  const sortedCodes = [...codes].sort((a, b) => a.name.localeCompare(b.name));
+  const relevantCodeIds = new Set(sortedCodes.map(c => c.id));
+  const relevantSelections = selections.filter(s => relevantCodeIds.has(s.codeId) && !s.orphaned);
+
+  const matrix: Record<string, Record<string, number>> = {};
+  sortedCodes.forEach(a => {
+    matrix[a.id] = {};
+    sortedCodes.forEach(b => {
+      matrix[a.id][b.id] = 0;
+    });
+  });
+
+  const byTranscript: Record<string, Selection[]> = {};
+  relevantSelections.forEach(s => {
+    if (!byTranscript[s.transcriptId]) byTranscript[s.transcriptId] = [];
+    byTranscript[s.transcriptId].push(s);
+  });
+
+  let maxCount = 0;
+  Object.values(byTranscript).forEach(sels => {
+    for (let i = 0; i < sels.length; i++) {
+      for (let j = i + 1; j < sels.length; j++) {
+        const a = sels[i];
+        const b = sels[j];
+        if (a.codeId === b.codeId) continue;
+
+        // Check for overlap: StartA < EndB && EndA > StartB
+        if (a.startIndex < b.endIndex && a.endIndex > b.startIndex) {
+          matrix[a.codeId][b.codeId] += 1;
+          matrix[b.codeId][a.codeId] += 1;
+          maxCount = Math.max(maxCount, matrix[a.codeId][b.codeId]);
+        }
+      }
+    }
+  });
+
+  return { matrix, codes: sortedCodes, maxCount };
+};
+
+// --- Line Lookup ---
+// Selection offsets index the concatenated line texts, so a line number is found by
+// walking the cumulative line lengths. Returns 1-based line numbers.
+export const createLineLocator = (lines: string[]) => {
+  const ends: number[] = [];
+  let total = 0;
+  lines.forEach(line => {
+    total += line.length;
+    ends.push(total);
+  });
+
+  return (offset: number, isEnd = false): number => {
+    // An end offset sitting exactly on a boundary belongs to the earlier line
+    const target = isEnd ? Math.max(0, offset - 1) : offset;
+    let lo = 0;
+    let hi = ends.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (target < ends[mid]) hi = mid;
+      else lo = mid + 1;
+    }
+    return Math.max(1, lo + 1);
+  };
+};
+
+// --- Speakers ---
+// A selection is attributed to the speaker of the line it starts on (for media segments, the
+// line playing at their start). Line lookups are built lazily per transcript, so only
+// transcripts that are actually queried get parsed.
+export const createSpeakerLookup = (transcripts: Transcript[]) => {
+  const locators = new Map<string, (selection: Selection) => string | undefined>();
+
+  const locatorFor = (transcriptId: string) => {
+    let locate = locators.get(transcriptId);
+    if (!locate) {
+      const transcript = transcripts.find(t => t.id === transcriptId);
+      if (!transcript || !transcript.content.includes('data-speaker')) {
+        locate = () => undefined;
+      } else {
+        const meta = getTranscriptLineMeta(transcript.content);
+        const locateLine = createLineLocator(getTranscriptLines(transcript.content));
+        locate = (s: Selection) => meta[s.media ? findLineAtTime(meta, s.media.start) : locateLine(s.startIndex) - 1]?.speaker;
+      }
+      locators.set(transcriptId, locate);
+    }
+    return locate;
+  };
+
+  return (selection: Selection): string | undefined => locatorFor(selection.transcriptId)(selection);
+};
+
+// --- Code Matrix ---
+// Codes (rows) against groups of transcripts (columns). With roll-up a parent row also
+// counts the selections of all its sub-codes. Cells keep their selections so the view
+// can list the underlying segments.
+export type MatrixCellMode = 'segments' | 'documents' | 'coverage';
+
+export interface MatrixColumn {
+  key: string;
+  label: string;
+  transcriptIds: string[];
+}
+
+export interface MatrixRow {
+  code: Code;
+  depth: number;
+  hasChildren: boolean;
+}
+
+export interface MatrixCell {
+  selections: Selection[];
+  segments: number;
+  documents: number;
+  codedChars: number;
+  totalChars: number;
+}
+
+export interface CodeMatrix {
+  rows: MatrixRow[];
+  columns: MatrixColumn[];
+  cells: Record<string, Record<string, MatrixCell>>;
+}
+
+/** Number of characters covered by the selections, counting overlaps once. */
+export const countCodedCharacters = (selections: Selection[]): number => {
+  const byTranscript: Record<string, { start: number; end: number }[]> = {};
+  selections.forEach(s => {
+    (byTranscript[s.transcriptId] = byTranscript[s.transcriptId] || []).push({ start: Number(s.startIndex), end: Number(s.endIndex) });
+  });
+  let total = 0;
+  Object.values(byTranscript).forEach(ranges => {
+    ranges.sort((a, b) => a.start - b.start);
+    let currentStart = -1;
+    let currentEnd = -1;
+    ranges.forEach(r => {
+      if (r.start > currentEnd) {
+        total += currentEnd - currentStart;
+        currentStart = r.start;
+        currentEnd = r.end;
+      } else {
+        currentEnd = Math.max(currentEnd, r.end);
+      }
+    });
+    total += currentEnd - currentStart;
+  });
+  return total;
+};
+
+export const buildCodeMatrix = (
+  codes: Code[],
+  selections: Selection[],
+  columns: MatrixColumn[],
+  transcriptLengths: Record<string, number>,
+  rollUp: boolean
+): CodeMatrix => {
+  const codeIds = new Set(codes.map(c => c.id));
+  const childrenOf = (id?: string) => codes
+    .filter(c => id ? c.parentId === id : (!c.parentId || !codeIds.has(c.parentId)))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  // Depth-first rows, each with the code ids it aggregates
+  const rows: MatrixRow[] = [];
+  const aggregated: Record<string, Set<string>> = {};
+  const visit = (code: Code, depth: number, ancestors: string[]) => {
+    if (aggregated[code.id]) return;
+    aggregated[code.id] = new Set([code.id]);
+    if (rollUp) ancestors.forEach(a => aggregated[a].add(code.id));
+    const children = childrenOf(code.id);
+    rows.push({ code, depth, hasChildren: children.length > 0 });
+    children.forEach(child => visit(child, depth + 1, [...ancestors, code.id]));
+  };
+  childrenOf().forEach(root => visit(root, 0, []));
+
+  const cells: CodeMatrix['cells'] = {};
+  rows.forEach(({ code }) => {
+    const rowIds = aggregated[code.id];
+    const rowSelections = selections.filter(s => rowIds.has(s.codeId) && !s.orphaned);
+    cells[code.id] = {};
+    columns.forEach(col => {
+      const inColumn = new Set(col.transcriptIds);
+      const cellSelections = rowSelections.filter(s => inColumn.has(s.transcriptId));
+      cells[code.id][col.key] = {
+        selections: cellSelections,
+        segments: cellSelections.length,
+        documents: new Set(cellSelections.map(s => s.transcriptId)).size,
+        codedChars: countCodedCharacters(cellSelections),
+        totalChars: col.transcriptIds.reduce((sum, id) => sum + (transcriptLengths[id] || 0), 0),
+      };
+    });
+  });
+
+  return { rows, columns, cells };
+};
+
+/** Cell value for a display mode; coverage is a percentage (0-100). */
+export const matrixCellValue = (cell: MatrixCell | undefined, mode: MatrixCellMode): number => {
+  if (!cell) return 0;
+  if (mode === 'documents') return cell.documents;
+  if (mode === 'coverage') return cell.totalChars > 0 ? (cell.codedChars / cell.totalChars) * 100 : 0;
+  return cell.segments;
+};
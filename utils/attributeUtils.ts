@@ -0,0 +1,341 @@
+import * as XLSX from 'xlsx';
+import { AttributeType, DocumentAttribute, Project, Transcript } from '../types';
+import { generateId } from './dataUtils';
+
+// ─── Document Attributes ───
+// A project-level schema of typed attributes with one value per transcript. Values are
+// kept as normalised strings (numbers in plain form, dates as YYYY-MM-DD, categorical
+// values spelled like their option) so they compare and group predictably.
+
+export const ATTRIBUTE_TYPE_LABELS: Record<AttributeType, string> = {
+    text: 'Text',
+    number: 'Number',
+    date: 'Date',
+    categorical: 'Categorical',
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Reads a date as YYYY-MM-DD from ISO text, d/m/yyyy (month first only when the day
+ * position can't be a month), an Excel serial number or anything Date.parse accepts.
+ */
+export function normalizeDate(raw: string): string | null {
+    const value = raw.trim();
+    if (!value) return null;
+
+    let match = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:$|[T\s])/.exec(value);
+    if (match) return toIsoDate(+match[1], +match[2], +match[3]);
+
+    match = /^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/.exec(value);
+    if (match) {
+        const [a, b] = [+match[1], +match[2]];
+        return b > 12 ? toIsoDate(+match[3], a, b) : toIsoDate(+match[3], b, a);
+    }
+
+    if (/^\d{5}(\.\d+)?$/.test(value)) {
+        const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(parseFloat(value)) * 86400000);
+        return toIsoDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+    }
+
+    if (!/[a-z]/i.test(value)) return null;
+    const parsed = Date.parse(value);
+    if (isNaN(parsed)) return null;
+    const date = new Date(parsed);
+    return toIsoDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+}
+
+const NUMBER_PATTERN = /^[-+]?(\d+([.,]\d+)?|[.,]\d+)$/;
+
+/**
+ * Normalises a raw value for an attribute. Returns '' for empty input and null when the
+ * value doesn't fit the type. Unknown categorical values are returned as typed so the
+ * caller can add them as options.
+ */
+export function normalizeAttributeValue(attribute: DocumentAttribute, raw: string | number | undefined | null): string | null {
+    const value = raw === undefined || raw === null ? '' : String(raw).trim();
+    if (!value) return '';
+
+    switch (attribute.type) {
+        case 'number': {
+            const compact = value.replace(/\s/g, '');
+            if (!NUMBER_PATTERN.test(compact)) return null;
+            return String(parseFloat(compact.replace(',', '.')));
+        }
+        case 'date':
+            return normalizeDate(value);
+        case 'categorical':
+            return attribute.options?.find(o => o.toLowerCase() === value.toLowerCase()) ?? value;
+        default:
+            return value;
+    }
+}
+
+/** Guesses an attribute type from sample values (used for imported columns). */
+export function inferAttributeType(values: string[]): AttributeType {
+    const filled = values.map(v => v.trim()).filter(Boolean);
+    if (filled.length === 0) return 'text';
+    if (filled.every(v => NUMBER_PATTERN.test(v.replace(/\s/g, '')))) return 'number';
+    if (filled.every(v => /[-/.\sa-z]/i.test(v) && normalizeDate(v))) return 'date';
+    const distinct = new Set(filled.map(v => v.toLowerCase())).size;
+    if (distinct <= 12 && distinct < filled.length) return 'categorical';
+    return 'text';
+}
+
+/** Adds any values not yet listed to a categorical attribute's options. */
+export function withCategoricalOptions(attribute: DocumentAttribute, values: string[]): DocumentAttribute {
+    if (attribute.type !== 'categorical') return attribute;
+    const options = [...(attribute.options || [])];
+    values.forEach(v => {
+        if (v && !options.some(o => o.toLowerCase() === v.toLowerCase())) options.push(v);
+    });
+    return options.length === (attribute.options || []).length ? attribute : { ...attribute, options };
+}
+
+export function createAttribute(name: string, type: AttributeType): DocumentAttribute {
+    return type === 'categorical' ? { id: generateId(), name, type, options: [] } : { id: generateId(), name, type };
+}
+
+/**
+ * Changes an attribute's type, converting every transcript's value. Values that don't
+ * fit the new type are dropped; `dropped` reports how many.
+ */
+export function changeAttributeType(project: Project, attributeId: string, type: AttributeType): { project: Project; dropped: number } {
+    const attribute = project.attributes?.find(a => a.id === attributeId);
+    if (!attribute || attribute.type === type) return { project, dropped: 0 };
+
+    let updated: DocumentAttribute = { id: attribute.id, name: attribute.name, type, ...(type === 'categorical' ? { options: [] } : {}) };
+    let dropped = 0;
+    const converted: Record<string, string | null> = {};
+    project.transcripts.forEach(t => {
+        const current = t.attributes?.[attributeId];
+        if (current === undefined || current === '') return;
+        const value = normalizeAttributeValue(updated, current);
+        converted[t.id] = value;
+        if (value === null) dropped++;
+    });
+    updated = withCategoricalOptions(updated, Object.values(converted).filter((v): v is string => !!v));
+
+    return {
+        dropped,
+        project: {
+            ...project,
+            attributes: project.attributes!.map(a => a.id === attributeId ? updated : a),
+            transcripts: project.transcripts.map(t => {
+                if (!(t.id in converted)) return t;
+                const attributes = { ...t.attributes };
+                const value = converted[t.id];
+                if (value) attributes[attributeId] = value;
+                else delete attributes[attributeId];
+                return { ...t, attributes };
+            }),
+        },
+    };
+}
+
+/** Removes an attribute from the schema and every transcript. */
+export function deleteAttribute(project: Project, attributeId: string): Project {
+    return {
+        ...project,
+        attributes: (project.attributes || []).filter(a => a.id !== attributeId),
+        transcripts: project.transcripts.map(t => {
+            if (!t.attributes || !(attributeId in t.attributes)) return t;
+            const attributes = { ...t.attributes };
+            delete attributes[attributeId];
+            return { ...t, attributes };
+        }),
+    };
+}
+
+/** Sets one transcript's value (already normalised; '' clears it). */
+export function setAttributeValue(project: Project, transcriptId: string, attributeId: string, value: string): Project {
+    const attribute = project.attributes?.find(a => a.id === attributeId);
+    return {
+        ...project,
+        attributes: attribute && value ? project.attributes!.map(a => a.id === attributeId ? withCategoricalOptions(a, [value]) : a) : project.attributes,
+        transcripts: project.transcripts.map(t => {
+            if (t.id !== transcriptId || (t.attributes?.[attributeId] || '') === value) return t;
+            const attributes = { ...t.attributes };
+            if (value) attributes[attributeId] = value;
+            else delete attributes[attributeId];
+            return { ...t, attributes };
+        }),
+    };
+}
+
+// ─── CSV / XLSX Import ───
+// One row per document, keyed by transcript name in a "Document"/"Transcript"/"Name"
+// column (or the first column). Every other column becomes an attribute, matched to
+// existing attributes by name.
+
+export interface AttributeTable {
+    headers: string[];
+    rows: string[][];
+}
+
+export async function readAttributeTable(file: File): Promise<AttributeTable> {
+    const isSpreadsheet = /\.(xlsx|xls)$/i.test(file.name);
+    const workbook = isSpreadsheet
+        ? XLSX.read(await file.arrayBuffer(), { cellDates: true })
+        : XLSX.read(await file.text(), { type: 'string', raw: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const data = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false, dateNF: 'yyyy-mm-dd', defval: '' }) as unknown[][];
+    const [headerRow = [], ...rows] = data;
+    return {
+        headers: headerRow.map(h => String(h ?? '').trim()),
+        rows: rows
+            .map(r => r.map(c => String(c ?? '').trim()))
+            .filter(r => r.some(Boolean)),
+    };
+}
+
+export interface AttributeImportColumn {
+    header: string;
+    index: number;
+    type: AttributeType;
+    existing?: DocumentAttribute;
+    invalidCount: number;
+}
+
+export interface AttributeImportPreview {
+    keyHeader: string;
+    columns: AttributeImportColumn[];
+    matches: { transcript: Transcript; row: string[] }[];
+    unmatched: string[];
+}
+
+const KEY_HEADERS = ['document', 'transcript', 'name', 'file', 'filename', 'case'];
+
+const documentKey = (name: string) => name.trim().toLowerCase().replace(/\.(txt|docx|pdf|srt|vtt|md|csv)$/, '');
+
+export function previewAttributeImport(project: Project, table: AttributeTable): AttributeImportPreview {
+    const keyIndex = Math.max(0, table.headers.findIndex(h => KEY_HEADERS.includes(h.toLowerCase().replace(/[^a-z]/g, ''))));
+    const transcriptsByKey = new Map(project.transcripts.map(t => [documentKey(t.name), t]));
+
+    const matches: AttributeImportPreview['matches'] = [];
+    const unmatched: string[] = [];
+    table.rows.forEach(row => {
+        const name = row[keyIndex] || '';
+        const transcript = transcriptsByKey.get(documentKey(name));
+        if (transcript) matches.push({ transcript, row });
+        else if (name) unmatched.push(name);
+    });
+
+    const columns = table.headers
+        .map((header, index) => ({ header, index }))
+        .filter(({ header, index }) => index !== keyIndex && header)
+        .map(({ header, index }) => {
+            const values = matches.map(m => m.row[index] || '');
+            const existing = project.attributes?.find(a => a.name.toLowerCase() === header.toLowerCase());
+            const type = existing?.type || inferAttributeType(values);
+            const probe: DocumentAttribute = existing || { id: '', name: header, type };
+            return {
+                header,
+                index,
+                type,
+                existing,
+                invalidCount: values.filter(v => normalizeAttributeValue(probe, v) === null).length,
+            };
+        });
+
+    return { keyHeader: table.headers[keyIndex] || 'Document', columns, matches, unmatched };
+}
+
+/**
+ * Applies an import preview: creates attributes for new columns and writes the values.
+ * Empty and invalid cells are skipped; existing values are only replaced with `overwrite`.
+ */
+export function applyAttributeImport(project: Project, preview: AttributeImportPreview, overwrite: boolean): Project {
+    let attributes = [...(project.attributes || [])];
+    const columnAttributes = preview.columns.map(col => {
+        if (col.existing) return col.existing;
+        const created = createAttribute(col.header, col.type);
+        attributes.push(created);
+        return created;
+    });
+
+    const updates = new Map<string, Record<string, string>>();
+    preview.matches.forEach(({ transcript, row }) => {
+        const values = { ...(updates.get(transcript.id) || transcript.attributes) };
+        preview.columns.forEach((col, i) => {
+            const attribute = columnAttributes[i];
+            const value = normalizeAttributeValue(attribute, row[col.index]);
+            if (!value) return;
+            if (!overwrite && values[attribute.id]) return;
+            values[attribute.id] = value;
+        });
+        updates.set(transcript.id, values);
+    });
+
+    attributes = attributes.map(a => withCategoricalOptions(a, Array.from(updates.values()).map(v => v[a.id]).filter(Boolean)));
+
+    return {
+        ...project,
+        attributes,
+        transcripts: project.transcripts.map(t => updates.has(t.id) ? { ...t, attributes: updates.get(t.id) } : t),
+    };
+}
+
+// ─── Analysis Dimensions ───
+// Groups transcripts by an attribute for filtering and cross-tabs. Text and categorical
+// values group as-is, dates by year (by month when they all share a year) and numbers by
+// value, or in five equal-width ranges when there are many distinct values.
+
+export const MISSING_ATTRIBUTE_VALUE = '__missing__';
+
+export interface AttributeDimension {
+    attribute: DocumentAttribute;
+    buckets: string[];
+    bucketOf: (transcript: Transcript | undefined) => string;
+}
+
+const formatNumber = (n: number) => String(Math.round(n * 100) / 100);
+
+export function buildAttributeDimension(attribute: DocumentAttribute, transcripts: Transcript[]): AttributeDimension {
+    const values = transcripts.map(t => t.attributes?.[attribute.id] || '').filter(Boolean);
+    let bucketOfValue: (value: string) => string = v => v;
+    let buckets: string[];
+
+    if (attribute.type === 'number') {
+        const numbers = values.map(Number).filter(n => !isNaN(n));
+        const distinct = Array.from(new Set(numbers)).sort((a, b) => a - b);
+        if (distinct.length > 8) {
+            const min = distinct[0];
+            const width = (distinct[distinct.length - 1] - min) / 5;
+            const ranges = Array.from({ length: 5 }, (_, i) => `${formatNumber(min + i * width)}–${formatNumber(min + (i + 1) * width)}`);
+            bucketOfValue = v => ranges[Math.min(4, Math.floor((Number(v) - min) / width))];
+            buckets = ranges;
+        } else {
+            buckets = distinct.map(String);
+        }
+    } else if (attribute.type === 'date') {
+        const years = new Set(values.map(v => v.slice(0, 4)));
+        const length = years.size === 1 ? 7 : 4;
+        bucketOfValue = v => v.slice(0, length);
+        buckets = Array.from(new Set(values.map(bucketOfValue))).sort();
+    } else if (attribute.type === 'categorical') {
+        const used = new Set(values);
+        buckets = [...(attribute.options || []).filter(o => used.has(o)), ...Array.from(used).filter(v => !attribute.options?.includes(v))];
+    } else {
+        buckets = Array.from(new Set(values)).sort((a, b) => a.localeCompare(b));
+    }
+
+    if (values.length < transcripts.length) buckets = [...buckets, MISSING_ATTRIBUTE_VALUE];
+
+    return {
+        attribute,
+        buckets,
+        bucketOf: transcript => {
+            const value = transcript?.attributes?.[attribute.id];
+            return value ? bucketOfValue(value) : MISSING_ATTRIBUTE_VALUE;
+        },
+    };
+}
+
+export const attributeBucketLabel = (bucket: string) => bucket === MISSING_ATTRIBUTE_VALUE ? '(not set)' : bucket;
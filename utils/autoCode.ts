@@ -0,0 +1,127 @@
+import { AutoCodeQuery, Selection, Transcript } from '../types';
+import { getParagraphStartLines, getTranscriptLineMeta, getTranscriptLines } from './highlightUtils';
+import { buildTextStructure, extendRange, TextStructure } from './keyboardCoding';
+import { createTextAnchor, isUsableTextSelection } from './textAnchors';
+
+// ─── Auto-coding ───
+// Finds every occurrence of a search in a set of transcripts and turns the hits (optionally
+// grown to their sentence, line or paragraph) into codings. Matching is done line by line:
+// lines are stored without separators, so a pattern must never run from one line into the
+// next, and the speaker filter works per line anyway.
+
+export interface AutoCodeHit {
+    id: string;           // transcriptId:start:end
+    transcriptId: string;
+    start: number;        // Span to code, in transcript-text offsets
+    end: number;
+    matches: { start: number; end: number }[]; // The matched text inside the span
+    alreadyCoded: boolean; // An existing coding with the same code already covers the span
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Compiles the search, throwing an Error with a readable message for a bad regex. */
+export function compileAutoCodeQuery(query: AutoCodeQuery): RegExp {
+    const flags = query.caseSensitive ? 'gu' : 'giu';
+    if (query.mode === 'literal') return new RegExp(escapeRegExp(query.pattern), flags);
+    if (query.mode === 'wholeWord') return new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(query.pattern)}(?![\\p{L}\\p{N}_])`, flags);
+    try {
+        return new RegExp(query.pattern, query.caseSensitive ? 'g' : 'gi');
+    } catch (e) {
+        throw new Error(`Invalid regular expression: ${e instanceof Error ? e.message : String(e)}`);
+    }
+}
+
+const growToScope = (structure: TextStructure, start: number, end: number, query: AutoCodeQuery) => {
+    if (query.scope === 'match') return { start, end };
+    const first = extendRange(structure, start, start, query.scope);
+    const last = extendRange(structure, end - 1, end - 1, query.scope);
+    return { start: Math.min(first.start, start), end: Math.max(last.end, end) };
+};
+
+/**
+ * Searches one transcript. Hits whose spans coincide (several matches in one sentence, say)
+ * are merged into one. Image documents have no text and never match.
+ */
+export function findAutoCodeHits(transcript: Transcript, query: AutoCodeQuery, codeId: string, selections: Selection[]): AutoCodeHit[] {
+    if (transcript.images || !query.pattern) return [];
+    const regex = compileAutoCodeQuery(query);
+    const lines = getTranscriptLines(transcript.content);
+    const metas = getTranscriptLineMeta(transcript.content);
+    const structure = buildTextStructure(lines, getParagraphStartLines(transcript.content));
+    const speakers = new Set(query.speakers || []);
+    const existing = selections.filter(s => s.transcriptId === transcript.id && s.codeId === codeId && isUsableTextSelection(s));
+
+    const hits = new Map<string, AutoCodeHit>();
+    lines.forEach((line, i) => {
+        if (speakers.size > 0 && !speakers.has(metas[i]?.speaker || '')) return;
+        const offset = structure.lineStarts[i];
+        regex.lastIndex = 0;
+        for (let m = regex.exec(line); m; m = regex.exec(line)) {
+            if (m[0].length === 0) {
+                regex.lastIndex++; // Zero-width match; step past it
+                continue;
+            }
+            const match = { start: offset + m.index, end: offset + m.index + m[0].length };
+            const { start, end } = growToScope(structure, match.start, match.end, query);
+            const id = `${transcript.id}:${start}:${end}`;
+            const hit = hits.get(id);
+            if (hit) {
+                hit.matches.push(match);
+                continue;
+            }
+            hits.set(id, {
+                id,
+                transcriptId: transcript.id,
+                start,
+                end,
+                matches: [match],
+                alreadyCoded: existing.some(s => s.startIndex <= start && s.endIndex >= end),
+            });
+        }
+    });
+    return Array.from(hits.values());
+}
+
+/** New codings for the chosen hits (or any transcript spans), anchored like hand-made ones. */
+export function createAutoCodeSelections(hits: Pick<AutoCodeHit, 'transcriptId' | 'start' | 'end'>[], codeId: string, transcripts: Transcript[]): Selection[] {
+    const texts = new Map<string, string>();
+    const textOf = (transcriptId: string) => {
+        if (!texts.has(transcriptId)) {
+            const transcript = transcripts.find(t => t.id === transcriptId);
+            texts.set(transcriptId, transcript ? getTranscriptLines(transcript.content).join('') : '');
+        }
+        return texts.get(transcriptId)!;
+    };
+    const now = Date.now();
+    return hits.map(hit => {
+        const text = textOf(hit.transcriptId);
+        return {
+            id: crypto.randomUUID(),
+            codeId,
+            transcriptId: hit.transcriptId,
+            text: text.slice(hit.start, hit.end),
+            startIndex: hit.start,
+            endIndex: hit.end,
+            timestamp: now,
+            anchor: createTextAnchor(text, hit.start, hit.end),
+        };
+    });
+}
+
+/** Text transcripts the saved search hasn't been run on yet. */
+export function transcriptsNotYetSearched(query: AutoCodeQuery, transcripts: Transcript[]): Transcript[] {
+    const searched = new Set(query.transcriptIds || []);
+    return transcripts.filter(t => !t.images && !searched.has(t.id));
+}
+
+export const describeAutoCodeQuery = (query: AutoCodeQuery): string => {
+    const pattern = query.mode === 'regex' ? `/${query.pattern}/` : `"${query.pattern}"`;
+    const details = [
+        query.mode === 'wholeWord' ? 'whole word' : null,
+        query.caseSensitive ? 'match case' : null,
+        query.scope !== 'match' ? `code ${query.scope}` : null,
+        query.speakers?.length ? `speakers: ${query.speakers.join(', ')}` : null,
+    ].filter(Boolean);
+    return details.length ? `${pattern} (${details.join(', ')})` : pattern;
+};
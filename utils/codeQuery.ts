@@ -0,0 +1,150 @@
+import { Code, CodeQuery, CodeQueryOperator, Selection, Transcript } from '../types';
+import { getTranscriptLines } from './highlightUtils';
+import { createLineLocator } from './analysisUtils';
+import { isUsableTextSelection } from './textAnchors';
+
+// --- Coding Queries ---
+// Retrieves the passages behind the co-occurrence counts: each code is flattened to the
+// merged character ranges it covers per transcript (sub-codes included, as with the
+// search's coded: filter), and the two range lists are combined with set operators.
+
+export type CodeRange = [number, number];
+
+export interface CodeQuerySpan {
+  id: string;           // transcriptId:start:end
+  transcriptId: string;
+  start: number;        // Transcript-text offsets
+  end: number;
+  text: string;
+  lineStart: number;    // 1-based
+  lineEnd: number;
+}
+
+export const CODE_QUERY_OPERATORS: { operator: CodeQueryOperator; label: string }[] = [
+  { operator: 'and', label: 'overlaps' },
+  { operator: 'or', label: 'or' },
+  { operator: 'not', label: 'without' },
+  { operator: 'near', label: 'within N lines of' },
+];
+
+// Sorted, non-overlapping ranges; touching ranges are joined
+export const mergeRanges = (ranges: CodeRange[]): CodeRange[] => {
+  const sorted = ranges.filter(([s, e]) => e > s).map(([s, e]): CodeRange => [s, e]).sort((a, b) => a[0] - b[0]);
+  const merged: CodeRange[] = [];
+  sorted.forEach(([s, e]) => {
+    const last = merged[merged.length - 1];
+    if (last && s <= last[1]) last[1] = Math.max(last[1], e);
+    else merged.push([s, e]);
+  });
+  return merged;
+};
+
+// Both inputs must be merged
+export const intersectRanges = (a: CodeRange[], b: CodeRange[]): CodeRange[] => {
+  const result: CodeRange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const start = Math.max(a[i][0], b[j][0]);
+    const end = Math.min(a[i][1], b[j][1]);
+    if (end > start) result.push([start, end]);
+    if (a[i][1] < b[j][1]) i++;
+    else j++;
+  }
+  return result;
+};
+
+// Parts of a not covered by b; both inputs must be merged
+export const subtractRanges = (a: CodeRange[], b: CodeRange[]): CodeRange[] => {
+  const result: CodeRange[] = [];
+  a.forEach(([start, end]) => {
+    let pos = start;
+    b.forEach(([bs, be]) => {
+      if (be <= pos || bs >= end) return;
+      if (bs > pos) result.push([pos, bs]);
+      pos = Math.max(pos, be);
+    });
+    if (pos < end) result.push([pos, end]);
+  });
+  return result;
+};
+
+// Whole ranges of a lying within `lines` lines of some range of b (overlap counts as 0 lines)
+export const rangesNear = (a: CodeRange[], b: CodeRange[], lines: number, lineOf: (offset: number, isEnd?: boolean) => number): CodeRange[] => {
+  const bLines = b.map(([s, e]) => [lineOf(s), lineOf(e, true)]);
+  return a.filter(([s, e]) => {
+    const first = lineOf(s) - lines;
+    const last = lineOf(e, true) + lines;
+    return bLines.some(([bs, be]) => bs <= last && be >= first);
+  });
+};
+
+// A code and all of its descendants
+const codeFamily = (codeId: string, codes: Code[]): Set<string> => {
+  const ids = new Set([codeId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    codes.forEach(c => {
+      if (c.parentId && ids.has(c.parentId) && !ids.has(c.id)) {
+        ids.add(c.id);
+        grew = true;
+      }
+    });
+  }
+  return ids;
+};
+
+/**
+ * Runs a query over the given selections (already narrowed to the wanted coder, documents
+ * and attributes). Media, image and orphaned codings have no text range and are ignored.
+ */
+export const runCodeQuery = (
+  query: Pick<CodeQuery, 'codeA' | 'operator' | 'codeB' | 'lines'>,
+  codes: Code[],
+  selections: Selection[],
+  transcripts: Transcript[]
+): CodeQuerySpan[] => {
+  const familyA = codeFamily(query.codeA, codes);
+  const familyB = codeFamily(query.codeB, codes);
+  const textSelections = selections.filter(isUsableTextSelection);
+
+  const spans: CodeQuerySpan[] = [];
+  transcripts.forEach(transcript => {
+    const own = textSelections.filter(s => s.transcriptId === transcript.id);
+    const rangesOf = (family: Set<string>) => mergeRanges(own.filter(s => family.has(s.codeId)).map(s => [s.startIndex, s.endIndex] as CodeRange));
+    const a = rangesOf(familyA);
+    const b = rangesOf(familyB);
+    if (a.length === 0 && (query.operator !== 'or' || b.length === 0)) return;
+
+    const lines = getTranscriptLines(transcript.content);
+    const lineOf = createLineLocator(lines);
+    const ranges = query.operator === 'and' ? intersectRanges(a, b)
+      : query.operator === 'or' ? mergeRanges([...a, ...b])
+      : query.operator === 'not' ? subtractRanges(a, b)
+      : rangesNear(a, b, Math.max(0, query.lines ?? 0), lineOf);
+
+    const text = lines.join('');
+    ranges.forEach(([start, end]) => {
+      if (!text.slice(start, end).trim()) return;
+      spans.push({
+        id: `${transcript.id}:${start}:${end}`,
+        transcriptId: transcript.id,
+        start,
+        end,
+        text: text.slice(start, end),
+        lineStart: lineOf(start),
+        lineEnd: lineOf(end, true),
+      });
+    });
+  });
+  return spans;
+};
+
+export const describeCodeQuery = (query: Pick<CodeQuery, 'codeA' | 'operator' | 'codeB' | 'lines'>, codes: Code[]): string => {
+  const name = (id: string) => codes.find(c => c.id === id)?.name || 'Deleted code';
+  const op = query.operator === 'near'
+    ? `within ${query.lines ?? 0} line${query.lines === 1 ? '' : 's'} of`
+    : CODE_QUERY_OPERATORS.find(o => o.operator === query.operator)?.label;
+  return `${name(query.codeA)} ${op} ${name(query.codeB)}`;
+};
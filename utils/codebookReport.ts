@@ -0,0 +1,261 @@
+import { Project, Code, Selection } from '../types';
+import { saveBlob } from './dataUtils';
+import { escapeHtml } from './transcriptParser';
+import { tintColor } from './colorUtils';
+import { buildDocx, paragraph, run, textParagraph, table } from './docxWriter';
+import { isTextSelection } from './textAnchors';
+
+// ─── Codebook Report ───
+// Publishes a codebook as a methods appendix. The parentId hierarchy becomes numbered
+// sections (1, 1.1, 1.1.1 ...) with definitions, memo, usage counts and a few exemplar
+// quotes. One outline feeds the three outputs (DOCX, standalone HTML, print layout).
+
+export type CodebookReportFormat = 'docx' | 'html' | 'print';
+
+const MAX_EXEMPLARS = 3;
+const EXEMPLAR_MAX_LENGTH = 320;
+const EXEMPLAR_IDEAL_LENGTH = 160;
+
+export interface CodebookReportEntry {
+    code: Code;
+    number: string;
+    depth: number;
+    segmentCount: number;
+    documentCount: number;
+    exemplars: { text: string; transcriptName: string }[];
+}
+
+const truncate = (text: string, max: number) =>
+    text.length > max ? `${text.slice(0, max).replace(/\s+\S*$/, '')}…` : text;
+
+/**
+ * Picks exemplar quotes: one per transcript first so quotes show breadth, preferring
+ * segments close to a readable length over fragments or whole pages. Media and region
+ * segments are left out: their text is only a time range or size label.
+ */
+const pickExemplars = (selections: Selection[], transcriptName: (id: string) => string) => {
+    const candidates = selections
+        .filter(s => isTextSelection(s) && (s.text || '').trim().length > 0)
+        .sort((a, b) =>
+            Math.abs(a.text.trim().length - EXEMPLAR_IDEAL_LENGTH) - Math.abs(b.text.trim().length - EXEMPLAR_IDEAL_LENGTH));
+
+    const picked: Selection[] = [];
+    const usedTranscripts = new Set<string>();
+    candidates.forEach(s => {
+        if (picked.length < MAX_EXEMPLARS && !usedTranscripts.has(s.transcriptId)) {
+            picked.push(s);
+            usedTranscripts.add(s.transcriptId);
+        }
+    });
+    candidates.forEach(s => {
+        if (picked.length < MAX_EXEMPLARS && !picked.includes(s)) picked.push(s);
+    });
+
+    return picked.map(s => ({
+        text: truncate(s.text.trim().replace(/\s+/g, ' '), EXEMPLAR_MAX_LENGTH),
+        transcriptName: transcriptName(s.transcriptId),
+    }));
+};
+
+export const buildCodebookOutline = (codes: Code[], project: Project): CodebookReportEntry[] => {
+    const codeIds = new Set(codes.map(c => c.id));
+    const transcriptName = (id: string) => project.transcripts.find(t => t.id === id)?.name || 'Unknown Transcript';
+    const entries: CodebookReportEntry[] = [];
+    const visited = new Set<string>();
+
+    const walk = (code: Code, number: string, depth: number) => {
+        if (visited.has(code.id)) return;
+        visited.add(code.id);
+        const selections = project.selections.filter(s => s.codeId === code.id && !s.orphaned);
+        entries.push({
+            code,
+            number,
+            depth,
+            segmentCount: selections.length,
+            documentCount: new Set(selections.map(s => s.transcriptId)).size,
+            exemplars: pickExemplars(selections, transcriptName),
+        });
+        codes
+            .filter(c => c.parentId === code.id)
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .forEach((child, i) => walk(child, `${number}.${i + 1}`, depth + 1));
+    };
+
+    codes
+        .filter(c => !c.parentId || !codeIds.has(c.parentId))
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .forEach((root, i) => walk(root, String(i + 1), 0));
+
+    return entries;
+};
+
+const DEFINITION_FIELDS: { field: keyof Code; label: string }[] = [
+    { field: 'description', label: 'Description' },
+    { field: 'inclusionCriteria', label: 'Inclusion criteria' },
+    { field: 'exclusionCriteria', label: 'Exclusion criteria' },
+    { field: 'examples', label: 'Examples' },
+    { field: 'memo', label: 'Memo' },
+];
+
+const definitionValue = (code: Code, field: keyof Code): string => {
+    const value = code[field];
+    return typeof value === 'string' ? value.trim() : '';
+};
+
+// ─── DOCX ───
+
+export const buildCodebookDocx = (project: Project, codes: Code[]): Promise<Blob> => {
+    const entries = buildCodebookOutline(codes, project);
+    const parts: string[] = [];
+
+    parts.push(textParagraph(`${project.name} — Codebook`, { style: 'Title' }));
+    parts.push(textParagraph(
+        `${entries.length} codes | ${project.transcripts.length} documents | Generated ${new Date().toLocaleDateString()}`,
+        { style: 'Subtitle', spacingAfter: 240 }
+    ));
+
+    // Overview table
+    const header = ['#', 'Code', 'Segments', 'Documents'].map(h => ({ content: textParagraph(h, {}, { bold: true }), shading: '#F2F2F2' }));
+    parts.push(table([
+        header,
+        ...entries.map(e => [
+            { content: textParagraph(e.number), width: 900 },
+            {
+                content: paragraph(
+                    run('   ', { shading: e.code.color }) +
+                    run(`  ${'  '.repeat(e.depth)}${e.code.name}`)
+                )
+            },
+            { content: textParagraph(String(e.segmentCount), { align: 'right' }), width: 1200 },
+            { content: textParagraph(String(e.documentCount), { align: 'right' }), width: 1200 },
+        ]),
+    ], { headerRow: true }));
+
+    entries.forEach(e => {
+        const style = e.depth === 0 ? 'Heading1' : e.depth === 1 ? 'Heading2' : 'Heading3';
+        parts.push(paragraph(
+            run(`${e.number}  `) + run(e.code.name) + run('  ●', { color: e.code.color }),
+            { style }
+        ));
+        parts.push(textParagraph(
+            `${e.segmentCount} segment(s) across ${e.documentCount} document(s)`,
+            {},
+            { italic: true, color: '#666666', size: 9 }
+        ));
+
+        DEFINITION_FIELDS.forEach(({ field, label }) => {
+            const value = definitionValue(e.code, field);
+            if (!value) return;
+            parts.push(paragraph(run(`${label}: `, { bold: true }) + run(value)));
+        });
+
+        if (e.exemplars.length > 0) {
+            parts.push(textParagraph('Exemplar quotes', { keepNext: true }, { bold: true }));
+            e.exemplars.forEach(q => {
+                parts.push(paragraph(
+                    run(`“${q.text}”`) + run(`  — ${q.transcriptName}`, { color: '#808080', size: 9 }),
+                    { style: 'Quote' }
+                ));
+            });
+        }
+    });
+
+    return buildDocx({ body: parts.join('') });
+};
+
+// ─── HTML / Print ───
+
+export const buildCodebookHtml = (project: Project, codes: Code[]): string => {
+    const entries = buildCodebookOutline(codes, project);
+    const title = `${escapeHtml(project.name)} — Codebook`;
+
+    const toc = entries.map(e =>
+        `<tr><td>${e.number}</td><td style="padding-left:${8 + e.depth * 16}px"><span class="swatch" style="background:${escapeHtml(e.code.color)}"></span><a href="#code-${e.number}">${escapeHtml(e.code.name)}</a></td>` +
+        `<td class="num">${e.segmentCount}</td><td class="num">${e.documentCount}</td></tr>`
+    ).join('');
+
+    const sections = entries.map(e => {
+        const level = Math.min(e.depth + 2, 4);
+        const fields = DEFINITION_FIELDS
+            .map(({ field, label }) => ({ label, value: definitionValue(e.code, field) }))
+            .filter(f => f.value)
+            .map(f => `<dt>${f.label}</dt><dd>${escapeHtml(f.value).replace(/\n/g, '<br>')}</dd>`)
+            .join('');
+        const quotes = e.exemplars.map(q =>
+            `<blockquote>“${escapeHtml(q.text)}”<cite>${escapeHtml(q.transcriptName)}</cite></blockquote>`
+        ).join('');
+        return `<section id="code-${e.number}" style="border-left-color:${escapeHtml(e.code.color)};background:${tintColor(e.code.color, 0.94)}">` +
+            `<h${level}><span class="number">${e.number}</span>${escapeHtml(e.code.name)}</h${level}>` +
+            `<p class="usage">${e.segmentCount} segment(s) across ${e.documentCount} document(s)</p>` +
+            (fields ? `<dl>${fields}</dl>` : '') +
+            (quotes ? `<h5>Exemplar quotes</h5>${quotes}` : '') +
+            `</section>`;
+    }).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+    body { font-family: Georgia, 'Times New Roman', serif; line-height: 1.55; color: #222; max-width: 820px; margin: 40px auto; padding: 0 24px; }
+    h1 { font-size: 2em; margin-bottom: 4px; }
+    .meta { color: #666; font-size: 0.9em; margin-bottom: 32px; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 40px; font-size: 0.9em; }
+    th, td { border-bottom: 1px solid #ddd; padding: 6px 8px; text-align: left; }
+    th { background: #f4f4f4; }
+    td.num { text-align: right; width: 90px; }
+    td a { color: inherit; text-decoration: none; }
+    .swatch { display: inline-block; width: 10px; height: 10px; border-radius: 50%; margin-right: 8px; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    section { border-left: 4px solid #ccc; padding: 8px 16px 4px; margin: 0 0 20px; page-break-inside: avoid; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    section h2, section h3, section h4 { margin: 8px 0 2px; }
+    .number { color: #888; margin-right: 10px; font-weight: normal; }
+    .usage { color: #666; font-style: italic; font-size: 0.85em; margin-top: 0; }
+    dt { font-weight: bold; font-size: 0.85em; text-transform: uppercase; letter-spacing: 0.04em; color: #555; margin-top: 8px; }
+    dd { margin: 2px 0 0; }
+    h5 { font-size: 0.85em; text-transform: uppercase; letter-spacing: 0.04em; color: #555; margin: 12px 0 4px; }
+    blockquote { margin: 6px 0 10px 12px; font-style: italic; }
+    cite { display: block; font-style: normal; font-size: 0.8em; color: #888; margin-top: 2px; }
+    @page { margin: 2cm; }
+    @media print {
+        body { margin: 0; max-width: none; }
+        table { page-break-after: always; }
+    }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<div class="meta">${entries.length} codes | ${project.transcripts.length} documents | Generated ${new Date().toLocaleDateString()}</div>
+<table><thead><tr><th>#</th><th>Code</th><th class="num">Segments</th><th class="num">Documents</th></tr></thead><tbody>${toc}</tbody></table>
+${sections}
+</body>
+</html>`;
+};
+
+export const exportCodebookReport = async (
+    project: Project,
+    codes: Code[],
+    format: CodebookReportFormat,
+    onError?: (msg: string) => void
+) => {
+    const baseName = `${project.name.replace(/\s+/g, '_')}_Codebook`;
+
+    if (format === 'docx') {
+        saveBlob(await buildCodebookDocx(project, codes), `${baseName}.docx`);
+        return;
+    }
+
+    const html = buildCodebookHtml(project, codes);
+    if (format === 'html') {
+        saveBlob(new Blob([html], { type: 'text/html;charset=utf-8;' }), `${baseName}.html`);
+        return;
+    }
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+        onError?.('Please allow popups to print.');
+        return;
+    }
+    printWindow.document.write(html.replace('</body>', '<script>window.onload = () => window.print();</script></body>'));
+    printWindow.document.close();
+};
@@ -38,4 +38,17 @@ export const getContrastText = (hexColor: string): string => {
   const b = parseInt(hexColor.substr(5, 2), 16);
   const yiq = ((r * 299) + (g * 587) + (b * 114)) / 1000;
   return (yiq >= 128) ? '#000000' : '#ffffff';
-};
\ No newline at end of file
+};
+// Mix a color towards white (amount 0 = unchanged, 1 = white).
+// Used where a code color sits behind text, e.g. shading in exported documents.
+export const tintColor = (hexColor: string, amount: number): string => {
+  const num = parseInt(hexColor.replace("#", ""), 16);
+  if (isNaN(num)) return hexColor;
+  const mix = (v: number) => Math.round(v + (255 - v) * amount);
+
+  const r = mix((num >> 16) & 0xFF);
+  const g = mix((num >> 8) & 0xFF);
+  const b = mix(num & 0xFF);
+
+  return "#" + ((1 << 24) | (r << 16) | (g << 8) | b).toString(16).slice(1);
+};
@@ -10,7 +10,7 @@ export const generateId = (): string => {
 };
 
 // --- Helper: Save Blob with Name ---
-const saveBlob = (blob: Blob, defaultName: string) => {
+export const saveBlob = (blob: Blob, defaultName: string) => {
   const filename = prompt("Save file as:", defaultName);
   if (!filename) return; // User cancelled
 
@@ -80,7 +80,7 @@ export const printTranscript = (transcript: Transcript, project: Project, onErro
         <body>
             <h1>${transcript.name}</h1>
             <div class="meta">Project: ${project.name} | Date: ${new Date().toLocaleDateString()}</div>
-            <div class="content">${transcript.content}</div>
+            <div class="content">${transcript.content}${(transcript.images || []).map(page => `<img src="${page.dataUrl}" style="max-width:100%; display:block; margin-bottom:20px;">`).join('')}</div>
             <div class="legend"><h3>Code Legend</h3>${codesHtml}</div>
             <script>
                 document.querySelectorAll('.transcript-line').forEach(l => {
@@ -417,4 +417,89 @@ export const mergeCodesInProject = (project: Project, sourceCodeId: string, targ
     selections: updatedSelections,
     codes: updatedCodes
   };
-};
\ No newline at end of file
+};
+// --- Codebook Import Preview & Merge ---
+// Used by the Codebook view to show which imported codes are new and which already
+// exist before anything is written. Codes match on their full path (parent > child),
+// falling back to a unique name match so re-parented codes are still recognised.
+
+const DEFINITION_FIELDS: (keyof Code)[] = ['color', 'description', 'inclusionCriteria', 'exclusionCriteria', 'examples'];
+
+export interface CodebookImportEntry {
+  code: Code;
+  depth: number;
+  match?: Code;
+  changedFields: (keyof Code)[];
+}
+
+const buildPathLookup = (codes: Code[]) => {
+  const byId = new Map(codes.map(c => [c.id, c]));
+  return (code: Code): string => {
+    const parts: string[] = [];
+    const seen = new Set<string>();
+    let current: Code | undefined = code;
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      parts.unshift(current.name.trim().toLowerCase());
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return parts.join(' > ');
+  };
+};
+
+export const previewCodebookImport = (existing: Code[], imported: Code[]): CodebookImportEntry[] => {
+  const existingPath = buildPathLookup(existing);
+  const importedPath = buildPathLookup(imported);
+  const byPath = new Map(existing.map(c => [existingPath(c), c]));
+  const byName = new Map<string, Code[]>();
+  existing.forEach(c => {
+    const key = c.name.trim().toLowerCase();
+    byName.set(key, [...(byName.get(key) || []), c]);
+  });
+
+  const path = new Map(imported.map(c => [c.id, importedPath(c)]));
+  return imported.map(code => {
+    const sameName = byName.get(code.name.trim().toLowerCase()) || [];
+    const match = byPath.get(path.get(code.id)!) || (sameName.length === 1 ? sameName[0] : undefined);
+    const changedFields = match
+      ? DEFINITION_FIELDS.filter(f => (code[f] || '') !== '' && (code[f] || '') !== (match[f] || ''))
+      : [];
+    return { code, depth: path.get(code.id)!.split(' > ').length - 1, match, changedFields };
+  });
+};
+
+/**
+ * Turns a preview into concrete changes: new codes get ids and parents resolved against
+ * the existing codebook, matched codes optionally take the imported definitions.
+ */
+export const applyCodebookImport = (
+  existing: Code[],
+  entries: CodebookImportEntry[],
+  options: { updateMatches: boolean; type?: Code['type']; createdBy?: string }
+): { added: Code[]; updated: Code[] } => {
+  const existingIds = new Set(existing.map(c => c.id));
+  const idMap = new Map<string, string>();
+  entries.forEach(({ code, match }) => {
+    idMap.set(code.id, match ? match.id : (existingIds.has(code.id) ? generateId() : code.id));
+  });
+
+  const added: Code[] = [];
+  const updated: Code[] = [];
+  entries.forEach(({ code, match, changedFields }) => {
+    if (match) {
+      if (!options.updateMatches || changedFields.length === 0) return;
+      const updates: Partial<Code> = {};
+      changedFields.forEach(f => { (updates as Record<string, unknown>)[f] = code[f]; });
+      updated.push({ ...match, ...updates });
+      return;
+    }
+    added.push({
+      ...code,
+      id: idMap.get(code.id)!,
+      parentId: code.parentId ? idMap.get(code.parentId) : undefined,
+      type: options.type,
+      createdBy: options.createdBy,
+    });
+  });
+  return { added, updated };
+};
@@ -0,0 +1,235 @@
+import JSZip from 'jszip';
+import { escapeXml } from './refiQda';
+
+// ─── Minimal DOCX Writer ───
+// Just enough WordprocessingML for our reports: styled paragraphs, shaded runs,
+// comments, inline pictures and simple tables. Builders return XML strings that are concatenated
+// into the document body and packed with JSZip.
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const WP_NS = 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing';
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const PIC_NS = 'http://schemas.openxmlformats.org/drawingml/2006/picture';
+
+export interface RunOptions {
+    bold?: boolean;
+    italic?: boolean;
+    /** Text color, '#RRGGBB'. */
+    color?: string;
+    /** Background shading, '#RRGGBB'. */
+    shading?: string;
+    /** Font size in points. */
+    size?: number;
+    font?: string;
+    style?: string;
+}
+
+export interface ParagraphOptions {
+    style?: 'Title' | 'Subtitle' | 'Heading1' | 'Heading2' | 'Heading3' | 'Quote';
+    align?: 'left' | 'center' | 'right' | 'both';
+    /** Indents in twentieths of a point. */
+    indentLeft?: number;
+    hanging?: number;
+    spacingAfter?: number;
+    pageBreakBefore?: boolean;
+    keepNext?: boolean;
+}
+
+const hexValue = (color: string) => color.replace('#', '').toUpperCase();
+
+export const run = (text: string, opts: RunOptions = {}): string => {
+    const props = [
+        opts.style ? `<w:rStyle w:val="${opts.style}"/>` : '',
+        opts.font ? `<w:rFonts w:ascii="${opts.font}" w:hAnsi="${opts.font}" w:cs="${opts.font}"/>` : '',
+        opts.bold ? '<w:b/>' : '',
+        opts.italic ? '<w:i/>' : '',
+        opts.color ? `<w:color w:val="${hexValue(opts.color)}"/>` : '',
+        opts.size ? `<w:sz w:val="${Math.round(opts.size * 2)}"/>` : '',
+        opts.shading ? `<w:shd w:val="clear" w:color="auto" w:fill="${hexValue(opts.shading)}"/>` : '',
+    ].join('');
+
+    // Tabs and line breaks are elements of their own inside a run
+    const content = text.split(/(\t|\n)/).map(part => {
+        if (part === '\t') return '<w:tab/>';
+        if (part === '\n') return '<w:br/>';
+        return part ? `<w:t xml:space="preserve">${escapeXml(part)}</w:t>` : '';
+    }).join('');
+
+    return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${content}</w:r>`;
+};
+
+export const paragraph = (content: string, opts: ParagraphOptions = {}): string => {
+    const props = [
+        opts.style ? `<w:pStyle w:val="${opts.style}"/>` : '',
+        opts.keepNext ? '<w:keepNext/>' : '',
+        opts.pageBreakBefore ? '<w:pageBreakBefore/>' : '',
+        opts.spacingAfter !== undefined ? `<w:spacing w:after="${opts.spacingAfter}"/>` : '',
+        opts.indentLeft !== undefined || opts.hanging !== undefined
+            ? `<w:ind w:left="${opts.indentLeft || 0}"${opts.hanging ? ` w:hanging="${opts.hanging}"` : ''}/>`
+            : '',
+        opts.align ? `<w:jc w:val="${opts.align}"/>` : '',
+    ].join('');
+    return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+};
+
+/** Shorthand for a paragraph holding a single run of text. */
+export const textParagraph = (text: string, opts: ParagraphOptions = {}, runOpts: RunOptions = {}) =>
+    paragraph(run(text, runOpts), opts);
+
+export const pageBreak = () => '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+
+export interface TableCell {
+    content: string;
+    shading?: string;
+    /** Width in twentieths of a point. */
+    width?: number;
+}
+
+/** A bordered table. Cell content must already be paragraph XML (Word requires at least one). */
+export const table = (rows: TableCell[][], opts: { headerRow?: boolean } = {}): string => {
+    const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/>`;
+    const rowsXml = rows.map((cells, i) => {
+        const trPr = i === 0 && opts.headerRow ? '<w:trPr><w:tblHeader/></w:trPr>' : '';
+        return `<w:tr>${trPr}${cells.map(cell =>
+            `<w:tc><w:tcPr>${cell.width ? `<w:tcW w:w="${cell.width}" w:type="dxa"/>` : ''}` +
+            (cell.shading ? `<w:shd w:val="clear" w:color="auto" w:fill="${hexValue(cell.shading)}"/>` : '') +
+            `</w:tcPr>${cell.content || '<w:p/>'}</w:tc>`
+        ).join('')}</w:tr>`;
+    }).join('');
+    return `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>` +
+        ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('') +
+        `</w:tblBorders><w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr>${rowsXml}</w:tbl>`;
+};
+
+// ─── Comments ───
+// Comments anchor to a range with commentRangeStart/End markers placed between runs
+// (they may span paragraphs) followed by a run holding the commentReference.
+
+export const createCommentStore = (defaultAuthor = 'QualCode Vibed') => {
+    const comments: string[] = [];
+    const date = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+    return {
+        /** Registers a comment and returns its id. Each entry in `lines` becomes a paragraph. */
+        add(lines: { text: string; bold?: boolean }[], author = defaultAuthor): number {
+            const id = comments.length;
+            const initials = author.split(/\s+/).map(w => w[0] || '').join('').slice(0, 3).toUpperCase();
+            comments.push(
+                `<w:comment w:id="${id}" w:author="${escapeXml(author)}" w:date="${date}" w:initials="${escapeXml(initials)}">` +
+                lines.map(l => paragraph(run(l.text, { bold: l.bold }))).join('') +
+                `</w:comment>`
+            );
+            return id;
+        },
+        start: (id: number) => `<w:commentRangeStart w:id="${id}"/>`,
+        end: (id: number) => `<w:commentRangeEnd w:id="${id}"/><w:r><w:rPr><w:rStyle w:val="CommentReference"/></w:rPr><w:commentReference w:id="${id}"/></w:r>`,
+        get count() { return comments.length; },
+        xml: () => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:comments xmlns:w="${W_NS}">${comments.join('')}</w:comments>`,
+    };
+};
+
+export type CommentStore = ReturnType<typeof createCommentStore>;
+
+// ─── Images ───
+// PNGs are packed under word/media and drawn inline with DrawingML. Sizes are given in
+// CSS pixels (96 dpi); Word measures in EMUs.
+
+const EMU_PER_PIXEL = 9525;
+
+export const createImageStore = () => {
+    const images: { file: string; rId: string; base64: string }[] = [];
+
+    return {
+        /** Registers a PNG data URL and returns a run that draws it at the given size. */
+        add(dataUrl: string, width: number, height: number): string {
+            const n = images.length + 1;
+            const image = { file: `image${n}.png`, rId: `rIdImage${n}`, base64: dataUrl.replace(/^data:image\/png;base64,/, '') };
+            images.push(image);
+            const cx = Math.round(width * EMU_PER_PIXEL);
+            const cy = Math.round(height * EMU_PER_PIXEL);
+            return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">` +
+                `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${n}" name="Picture ${n}"/>` +
+                `<a:graphic xmlns:a="${A_NS}"><a:graphicData uri="${PIC_NS}"><pic:pic xmlns:pic="${PIC_NS}">` +
+                `<pic:nvPicPr><pic:cNvPr id="${n}" name="${image.file}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+                `<pic:blipFill><a:blip r:embed="${image.rId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+                `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+                `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+        },
+        get count() { return images.length; },
+        relationships: () => images.map(i => `<Relationship Id="${i.rId}" Type="${R_NS}/image" Target="media/${i.file}"/>`).join(''),
+        files: () => images.map(i => ({ path: `word/media/${i.file}`, base64: i.base64 })),
+    };
+};
+
+export type ImageStore = ReturnType<typeof createImageStore>;
+
+// ─── Packaging ───
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="48"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:rPr><w:color w:val="666666"/><w:sz w:val="20"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="32"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="26"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="200" w:after="60"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:color w:val="444444"/><w:sz w:val="22"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:left="567" w:right="567"/></w:pPr><w:rPr><w:i/><w:color w:val="404040"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="CommentReference"><w:name w:val="annotation reference"/><w:rPr><w:sz w:val="16"/></w:rPr></w:style>
+</w:styles>`;
+
+export interface DocxContent {
+    body: string;
+    comments?: CommentStore;
+    images?: ImageStore;
+    landscape?: boolean;
+}
+
+export const buildDocx = async ({ body, comments, images, landscape }: DocxContent): Promise<Blob> => {
+    const hasComments = !!comments && comments.count > 0;
+    const hasImages = !!images && images.count > 0;
+    const zip = new JSZip();
+
+    zip.file('[Content_Types].xml',
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+        `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+        `<Default Extension="xml" ContentType="application/xml"/>` +
+        (hasImages ? `<Default Extension="png" ContentType="image/png"/>` : '') +
+        `<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>` +
+        `<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>` +
+        (hasComments ? `<Override PartName="/word/comments.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml"/>` : '') +
+        `</Types>`);
+
+    zip.file('_rels/.rels',
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+        `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${R_NS}/officeDocument" Target="word/document.xml"/>` +
+        `</Relationships>`);
+
+    zip.file('word/_rels/document.xml.rels',
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+        `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${R_NS}/styles" Target="styles.xml"/>` +
+        (hasComments ? `<Relationship Id="rId2" Type="${R_NS}/comments" Target="comments.xml"/>` : '') +
+        (hasImages ? images!.relationships() : '') +
+        `</Relationships>`);
+
+    zip.file('word/styles.xml', STYLES_XML);
+    if (hasComments) zip.file('word/comments.xml', comments!.xml());
+    if (hasImages) images!.files().forEach(f => zip.file(f.path, f.base64, { base64: true }));
+
+    // A4 with 2cm margins
+    const [w, h] = landscape ? [16838, 11906] : [11906, 16838];
+    const sectPr = `<w:sectPr><w:pgSz w:w="${w}" w:h="${h}"${landscape ? ' w:orient="landscape"' : ''}/>` +
+        `<w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/></w:sectPr>`;
+    zip.file('word/document.xml',
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+        `<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}" xmlns:wp="${WP_NS}"><w:body>${body}${sectPr}</w:body></w:document>`);
+
+    return zip.generateAsync({
+        type: 'blob',
+        mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    });
+};
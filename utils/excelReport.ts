@@ -0,0 +1,203 @@
+import * as XLSX from 'xlsx';
+import { Project, Code, ImageRegion, Selection } from '../types';
+import { saveBlob } from './dataUtils';
+import { getTranscriptLines } from './highlightUtils';
+import { computeCooccurrence, createLineLocator, CodeMatrix, MatrixCellMode, matrixCellValue } from './analysisUtils';
+
+// --- Coded-Segment Report (.xlsx) ---
+// One workbook for PIs: a codebook sheet, a code x transcript frequency sheet, a
+// co-occurrence sheet and one segment sheet per code. Each "coder" is a layer of
+// selections; local projects have a single layer, cloud projects may add collaborators.
+// SheetJS cannot embed pictures, so image regions are given by page and position only;
+// the Word exports carry them as thumbnails.
+
+export interface ReportCoder {
+  name: string;
+  selections: Selection[];
+}
+
+export interface CodedSegmentReportOptions {
+  /** Codes to report on (defaults to all project codes). */
+  codes?: Code[];
+  /** Selection layers. Defaults to the project's own selections labelled "Me". */
+  coders?: ReportCoder[];
+}
+
+const MAX_SHEET_NAME = 31;
+
+/** Excel sheet names: max 31 chars, no []:*?/\ and unique within the workbook. */
+const createSheetNamer = () => {
+  const used = new Set<string>();
+  return (raw: string): string => {
+    const base = (raw.replace(/[[\]:*?/\\]/g, ' ').trim() || 'Sheet').slice(0, MAX_SHEET_NAME);
+    let name = base;
+    let n = 2;
+    while (used.has(name.toLowerCase())) {
+      const suffix = ` (${n++})`;
+      name = base.slice(0, MAX_SHEET_NAME - suffix.length) + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  };
+};
+
+const getCodePath = (code: Code, codes: Code[]): string => {
+  const parts = [code.name];
+  const seen = new Set([code.id]);
+  let parent = codes.find(c => c.id === code.parentId);
+  while (parent && !seen.has(parent.id)) {
+    seen.add(parent.id);
+    parts.unshift(parent.name);
+    parent = codes.find(c => c.id === parent!.parentId);
+  }
+  return parts.join(' > ');
+};
+
+export const buildCodedSegmentWorkbook = (project: Project, options: CodedSegmentReportOptions = {}): XLSX.WorkBook => {
+  const codes = options.codes || project.codes;
+  // Orphaned selections are left out: their offsets and line numbers point at changed text
+  const coders = (options.coders || [{ name: 'Me', selections: project.selections }])
+    .map(coder => ({ ...coder, selections: coder.selections.filter(s => !s.orphaned) }));
+  const showCoder = coders.length > 1;
+  const codeIds = new Set(codes.map(c => c.id));
+  const sheetName = createSheetNamer();
+  const wb = XLSX.utils.book_new();
+
+  const locators = new Map(project.transcripts.map(t => [t.id, createLineLocator(getTranscriptLines(t.content))]));
+  const transcriptName = (id: string) => project.transcripts.find(t => t.id === id)?.name || 'Unknown Transcript';
+
+  const rows = coders.flatMap(coder =>
+    coder.selections
+      .filter(s => codeIds.has(s.codeId))
+      .map(s => ({ coder: coder.name, selection: s }))
+  );
+
+  // 1. Codebook
+  const codebookRows = codes.map(c => ({
+    'Code': c.name,
+    'Path': getCodePath(c, project.codes),
+    'Parent': project.codes.find(p => p.id === c.parentId)?.name || '',
+    'Type': c.type || 'personal',
+    'Color': c.color,
+    'Description': c.description || '',
+    'Inclusion Criteria': c.inclusionCriteria || '',
+    'Exclusion Criteria': c.exclusionCriteria || '',
+    'Examples': c.examples || '',
+    'Memo': c.memo || '',
+    'Segments': rows.filter(r => r.selection.codeId === c.id).length,
+  }));
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(codebookRows), sheetName('Codebook'));
+
+  // 2. Frequency (code x transcript), one row per coder when several are included.
+  //    Duplicate transcript names get a suffix so their columns don't collapse.
+  const columnNames = new Map<string, string>();
+  project.transcripts.forEach(t => {
+    let label = t.name;
+    for (let n = 2; [...columnNames.values()].includes(label); n++) label = `${t.name} (${n})`;
+    columnNames.set(t.id, label);
+  });
+  const frequencyRows: Record<string, string | number>[] = [];
+  codes.forEach(code => {
+    coders.forEach(coder => {
+      const row: Record<string, string | number> = { 'Code': getCodePath(code, project.codes) };
+      if (showCoder) row['Coder'] = coder.name;
+      let total = 0;
+      project.transcripts.forEach(t => {
+        const count = coder.selections.filter(s => s.codeId === code.id && s.transcriptId === t.id).length;
+        row[columnNames.get(t.id)!] = count;
+        total += count;
+      });
+      row['Total'] = total;
+      frequencyRows.push(row);
+    });
+  });
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(frequencyRows), sheetName('Frequency'));
+
+  // 3. Co-occurrence, one block per coder
+  const cooccurrenceAoa: (string | number)[][] = [];
+  coders.forEach((coder, i) => {
+    const { matrix, codes: sorted } = computeCooccurrence(codes, coder.selections);
+    if (i > 0) cooccurrenceAoa.push([]);
+    if (showCoder) cooccurrenceAoa.push([`Coder: ${coder.name}`]);
+    cooccurrenceAoa.push(['', ...sorted.map(c => c.name)]);
+    sorted.forEach(rowCode => {
+      cooccurrenceAoa.push([rowCode.name, ...sorted.map(colCode => rowCode.id === colCode.id ? '' : matrix[rowCode.id][colCode.id])]);
+    });
+  });
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(cooccurrenceAoa), sheetName('Co-occurrence'));
+
+  // 4. One sheet per code with its segments
+  const hasRegions = rows.some(r => r.selection.region);
+  const regionBox = ({ page, x, y, width, height }: ImageRegion) =>
+    `Page ${page + 1}: x ${Math.round(x * 100)}–${Math.round((x + width) * 100)}%, y ${Math.round(y * 100)}–${Math.round((y + height) * 100)}%`;
+  codes.forEach(code => {
+    const segmentRows = rows
+      .filter(r => r.selection.codeId === code.id)
+      .sort((a, b) =>
+        transcriptName(a.selection.transcriptId).localeCompare(transcriptName(b.selection.transcriptId)) ||
+        a.selection.startIndex - b.selection.startIndex)
+      .map(({ coder, selection: s }) => {
+        const locate = locators.get(s.transcriptId);
+        return {
+          'Transcript': transcriptName(s.transcriptId),
+          'Start Line': locate && !s.media && !s.region ? locate(s.startIndex) : '',
+          'End Line': locate && !s.media && !s.region ? locate(s.endIndex, true) : '',
+          'Coded Text': s.text || '',
+          ...(hasRegions ? { 'Region': s.region ? regionBox(s.region) : '' } : {}),
+          'Annotation': s.annotation || '',
+          'Coder': coder,
+          'Coded At': s.timestamp ? new Date(s.timestamp).toLocaleString() : '',
+        };
+      });
+    const sheet = segmentRows.length > 0
+      ? XLSX.utils.json_to_sheet(segmentRows)
+      : XLSX.utils.aoa_to_sheet([['No segments coded with this code.']]);
+    XLSX.utils.book_append_sheet(wb, sheet, sheetName(code.name));
+  });
+
+  return wb;
+};
+
+export const exportCodedSegmentReport = (project: Project, options: CodedSegmentReportOptions = {}) => {
+  const wb = buildCodedSegmentWorkbook(project, options);
+  const data = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+  const blob = new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  saveBlob(blob, `${project.name.replace(/\s+/g, '_')}_Coded_Segments.xlsx`);
+};
+
+// --- Code Matrix (.xlsx) ---
+// The AnalysisView matrix as shown: one sheet per cell mode, code names indented by
+// their depth in the hierarchy.
+
+const MATRIX_SHEETS: { mode: MatrixCellMode; name: string }[] = [
+  { mode: 'segments', name: 'Segments' },
+  { mode: 'documents', name: 'Documents' },
+  { mode: 'coverage', name: 'Coverage (%)' },
+];
+
+export const buildCodeMatrixWorkbook = (matrix: CodeMatrix, columnTitle: string): XLSX.WorkBook => {
+  const wb = XLSX.utils.book_new();
+  MATRIX_SHEETS.forEach(({ mode, name }) => {
+    const rows: (string | number)[][] = [[`Code / ${columnTitle}`, ...matrix.columns.map(c => c.label)]];
+    matrix.rows.forEach(({ code, depth }) => {
+      rows.push([
+        `${'  '.repeat(depth)}${code.name}`,
+        ...matrix.columns.map(col => {
+          const value = matrixCellValue(matrix.cells[code.id]?.[col.key], mode);
+          return mode === 'coverage' ? Math.round(value * 100) / 100 : value;
+        }),
+      ]);
+    });
+    const sheet = XLSX.utils.aoa_to_sheet(rows);
+    sheet['!cols'] = [{ wch: 40 }, ...matrix.columns.map(() => ({ wch: 14 }))];
+    XLSX.utils.book_append_sheet(wb, sheet, name);
+  });
+  return wb;
+};
+
+export const exportCodeMatrix = (project: Project, matrix: CodeMatrix, columnTitle: string) => {
+  const wb = buildCodeMatrixWorkbook(matrix, columnTitle);
+  const data = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+  const blob = new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  saveBlob(blob, `${project.name.replace(/\s+/g, '_')}_Code_Matrix.xlsx`);
+};
@@ -0,0 +1,172 @@
+import * as XLSX from 'xlsx';
+import { Code, Project, Selection, Transcript } from '../types';
+import { saveBlob } from './dataUtils';
+import { buildDocx, createImageStore, paragraph, run, textParagraph, table } from './docxWriter';
+import { cropRegion } from './imageDocuments';
+
+// ─── Framework Matrix ───
+// Charting matrix for the framework method: cases (transcripts) as rows, themes (top-level
+// codes) as columns. A cell holds the segments coded with the theme or any of its sub-codes,
+// plus the analyst's summary from Project.frameworkSummaries.
+
+export type FrameworkExportFormat = 'xlsx' | 'docx';
+
+export interface FrameworkMatrix {
+    themes: Code[];
+    cases: Transcript[];
+    /** transcriptId -> themeId -> selections, in text order */
+    cells: Record<string, Record<string, Selection[]>>;
+}
+
+// Excel rejects cells longer than this
+const MAX_XLSX_CELL = 32000;
+
+export const getFrameworkThemes = (codes: Code[]): Code[] => {
+    const codeIds = new Set(codes.map(c => c.id));
+    return codes
+        .filter(c => !c.parentId || !codeIds.has(c.parentId))
+        .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/** Maps every code id to the id of its top-level ancestor. */
+const mapCodesToThemes = (codes: Code[]): Map<string, string> => {
+    const byId = new Map(codes.map(c => [c.id, c]));
+    const themeOf = new Map<string, string>();
+    codes.forEach(code => {
+        let current = code;
+        const seen = new Set<string>();
+        while (current.parentId && byId.has(current.parentId) && !seen.has(current.parentId)) {
+            seen.add(current.id);
+            current = byId.get(current.parentId)!;
+        }
+        themeOf.set(code.id, current.id);
+    });
+    return themeOf;
+};
+
+export const buildFrameworkMatrix = (project: Project, themes: Code[] = getFrameworkThemes(project.codes)): FrameworkMatrix => {
+    const themeOf = mapCodesToThemes(project.codes);
+    const themeIds = new Set(themes.map(t => t.id));
+    const cells: FrameworkMatrix['cells'] = {};
+    project.transcripts.forEach(t => { cells[t.id] = {}; });
+
+    // Orphaned selections are left out until relocated, as their offsets are stale
+    project.selections
+        .filter(s => !s.orphaned)
+        .sort((a, b) => a.startIndex - b.startIndex)
+        .forEach(s => {
+            const themeId = themeOf.get(s.codeId);
+            if (!themeId || !themeIds.has(themeId) || !cells[s.transcriptId]) return;
+            (cells[s.transcriptId][themeId] = cells[s.transcriptId][themeId] || []).push(s);
+        });
+
+    return { themes, cases: project.transcripts, cells };
+};
+
+export const getFrameworkSummary = (project: Project, transcriptId: string, themeId: string): string =>
+    project.frameworkSummaries?.[transcriptId]?.[themeId] || '';
+
+/** Returns the project with one summary set; blank text removes the entry. */
+export const setFrameworkSummary = (project: Project, transcriptId: string, themeId: string, text: string): Project => {
+    const summaries = { ...(project.frameworkSummaries || {}) };
+    const row = { ...(summaries[transcriptId] || {}) };
+    if (text.trim()) {
+        row[themeId] = text;
+    } else {
+        delete row[themeId];
+    }
+    if (Object.keys(row).length > 0) {
+        summaries[transcriptId] = row;
+    } else {
+        delete summaries[transcriptId];
+    }
+    return { ...project, frameworkSummaries: summaries };
+};
+
+// ─── XLSX ───
+// "Summaries" is the chart itself; "Segments" lists the evidence behind each cell.
+
+const clip = (text: string) => text.length > MAX_XLSX_CELL ? `${text.slice(0, MAX_XLSX_CELL)}…` : text;
+
+export const buildFrameworkWorkbook = (project: Project, matrix: FrameworkMatrix): XLSX.WorkBook => {
+    const wb = XLSX.utils.book_new();
+    const codeName = (id: string) => project.codes.find(c => c.id === id)?.name || 'Unknown Code';
+
+    const summaryRows = [
+        ['Case', ...matrix.themes.map(t => t.name)],
+        ...matrix.cases.map(c => [c.name, ...matrix.themes.map(t => clip(getFrameworkSummary(project, c.id, t.id)))]),
+    ];
+    const summarySheet = XLSX.utils.aoa_to_sheet(summaryRows);
+    summarySheet['!cols'] = [{ wch: 30 }, ...matrix.themes.map(() => ({ wch: 50 }))];
+    XLSX.utils.book_append_sheet(wb, summarySheet, 'Summaries');
+
+    const segmentRows = [
+        ['Case', ...matrix.themes.map(t => t.name)],
+        ...matrix.cases.map(c => [
+            c.name,
+            ...matrix.themes.map(t => clip((matrix.cells[c.id]?.[t.id] || [])
+                .map(s => s.codeId === t.id ? `"${s.text}"` : `[${codeName(s.codeId)}] "${s.text}"`)
+                .join('\n\n'))),
+        ]),
+    ];
+    const segmentSheet = XLSX.utils.aoa_to_sheet(segmentRows);
+    segmentSheet['!cols'] = [{ wch: 30 }, ...matrix.themes.map(() => ({ wch: 60 }))];
+    XLSX.utils.book_append_sheet(wb, segmentSheet, 'Segments');
+
+    return wb;
+};
+
+// ─── DOCX ───
+// One landscape table: each cell carries the summary followed by its quotes in small print.
+// Image regions appear as thumbnails in place of a quote.
+
+const THUMBNAIL_SIZE = 160;
+
+export const buildFrameworkDocx = async (project: Project, matrix: FrameworkMatrix): Promise<Blob> => {
+    const images = createImageStore();
+    const regionRuns = new Map<string, string>();
+    for (const s of Object.values(matrix.cells).flatMap(row => Object.values(row).flat())) {
+        const page = s.region && project.transcripts.find(t => t.id === s.transcriptId)?.images?.[s.region.page];
+        if (!page || regionRuns.has(s.id)) continue;
+        const thumb = await cropRegion(page, s.region!, THUMBNAIL_SIZE);
+        regionRuns.set(s.id, images.add(thumb.dataUrl, thumb.width, thumb.height));
+    }
+
+    const parts: string[] = [];
+    parts.push(textParagraph(`${project.name} — Framework Matrix`, { style: 'Title' }));
+    parts.push(textParagraph(
+        `${matrix.cases.length} cases | ${matrix.themes.length} themes | Generated ${new Date().toLocaleDateString()}`,
+        { style: 'Subtitle', spacingAfter: 240 }
+    ));
+
+    const header = [
+        { content: textParagraph('Case', {}, { bold: true }), shading: '#F2F2F2' },
+        ...matrix.themes.map(t => ({
+            content: paragraph(run('■ ', { color: t.color }) + run(t.name, { bold: true })),
+            shading: '#F2F2F2',
+        })),
+    ];
+    const rows = matrix.cases.map(c => [
+        { content: textParagraph(c.name, {}, { bold: true }), width: 2000 },
+        ...matrix.themes.map(t => {
+            const summary = getFrameworkSummary(project, c.id, t.id);
+            const quotes = (matrix.cells[c.id]?.[t.id] || []).map(s => regionRuns.has(s.id)
+                ? paragraph(regionRuns.get(s.id)!, { spacingAfter: 60 })
+                : textParagraph(`“${s.text.trim()}”`, { spacingAfter: 60 }, { italic: true, color: '#666666', size: 8 }));
+            return { content: (summary ? textParagraph(summary, { spacingAfter: 120 }) : '') + quotes.join('') };
+        }),
+    ]);
+    parts.push(table([header, ...rows], { headerRow: true }));
+
+    return buildDocx({ body: parts.join(''), images, landscape: true });
+};
+
+export const exportFrameworkMatrix = async (project: Project, matrix: FrameworkMatrix, format: FrameworkExportFormat) => {
+    const baseName = `${project.name.replace(/\s+/g, '_')}_Framework_Matrix`;
+    if (format === 'docx') {
+        saveBlob(await buildFrameworkDocx(project, matrix), `${baseName}.docx`);
+        return;
+    }
+    const data = XLSX.write(buildFrameworkWorkbook(project, matrix), { bookType: 'xlsx', type: 'array' });
+    saveBlob(new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), `${baseName}.xlsx`);
+};
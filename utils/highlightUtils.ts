@@ -1,4 +1,4 @@
-import { Selection, Code } from '../types';
+import { Selection, Code, TranscriptLineMeta } from '../types';
 
 export const stripHighlights = (html: string): string => {
   if (!html) return '';
@@ -50,7 +50,7 @@ export const restoreHighlights = (contentHtml: string, selections: Selection[],
 
   selections.forEach(sel => {
     const code = codes.find(c => c.id === sel.codeId);
-    if (!code) return;
+    if (!code || sel.media || sel.region || sel.orphaned) return;
 
     const range = document.createRange();
     let charCount = 0;
@@ -148,4 +148,56 @@ export const restoreHighlights = (contentHtml: string, selections: Selection[],
   });
 
   return tempDiv.innerHTML;
-};
\ No newline at end of file
+};
+/**
+ * Returns the plain text of each `.transcript-line` in the given content, with highlights
+ * and gutter artifacts removed. Selection offsets index into the concatenation of these lines.
+ */
+export const getTranscriptLines = (html: string): string[] => {
+  const doc = new DOMParser().parseFromString(stripHighlights(html), 'text/html');
+  const lines = doc.querySelectorAll('.transcript-line');
+  if (lines.length === 0) return [doc.body.textContent || ''];
+  return Array.from(lines).map(l => l.textContent || '');
+};
+
+/**
+ * Returns the indices of the lines that start a paragraph: the first line, any line after a
+ * `.transcript-paragraph-break` spacer, and any line where the speaker changes.
+ */
+export const getParagraphStartLines = (html: string): number[] => {
+  const doc = new DOMParser().parseFromString(html || '', 'text/html');
+  const starts: number[] = [];
+  let line = 0;
+  let afterBreak = true;
+  let speaker: string | null = null;
+  doc.querySelectorAll('.transcript-line, .transcript-paragraph-break').forEach(el => {
+    if (el.classList.contains('transcript-paragraph-break')) {
+      afterBreak = true;
+      return;
+    }
+    const lineSpeaker = el.getAttribute('data-speaker');
+    if (afterBreak || (lineSpeaker && lineSpeaker !== speaker)) starts.push(line);
+    afterBreak = false;
+    speaker = lineSpeaker;
+    line++;
+  });
+  return starts;
+};
+
+/**
+ * Returns the metadata of each `.transcript-line` (speaker, start/end seconds), index-aligned
+ * with getTranscriptLines. Lines without metadata yield an empty object.
+ */
+export const getTranscriptLineMeta = (html: string): TranscriptLineMeta[] => {
+  const doc = new DOMParser().parseFromString(html || '', 'text/html');
+  return Array.from(doc.querySelectorAll('.transcript-line')).map(l => {
+    const meta: TranscriptLineMeta = {};
+    const speaker = l.getAttribute('data-speaker');
+    const start = parseFloat(l.getAttribute('data-start') || '');
+    const end = parseFloat(l.getAttribute('data-end') || '');
+    if (speaker) meta.speaker = speaker;
+    if (!isNaN(start)) meta.start = start;
+    if (!isNaN(end)) meta.end = end;
+    return meta;
+  });
+};
@@ -0,0 +1,96 @@
+import { ImageRegion, TranscriptImage } from '../types';
+
+// ─── Image Documents ───
+// Photos and scanned pages are stored inline on the transcript as data URLs so that .qlab
+// files and cloud projects stay self-contained. Pages are scaled down on import to keep
+// projects (and Firestore documents) a manageable size.
+
+const MAX_PAGE_DIMENSION = 2000;
+const JPEG_QUALITY = 0.85;
+
+// Firestore rejects documents over 1 MiB; leave room for the other transcript fields
+export const CLOUD_IMAGE_LIMIT = 950_000;
+
+export const IMAGE_DOCUMENT_EXTENSIONS = ['png', 'jpg', 'jpeg'];
+
+export const isImageDocumentFile = (fileName: string): boolean =>
+    IMAGE_DOCUMENT_EXTENSIONS.includes(fileName.split('.').pop()?.toLowerCase() || '');
+
+/** Approximate stored size of an image document, in characters of data URL. */
+export const imageDocumentSize = (images: TranscriptImage[]): number =>
+    images.reduce((sum, page) => sum + page.dataUrl.length, 0);
+
+/** Encodes a canvas as a page. PNG sources stay PNG (screenshots, line art); others become JPEG. */
+export const canvasToPage = (canvas: HTMLCanvasElement, keepPng = false): TranscriptImage => ({
+    dataUrl: keepPng ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', JPEG_QUALITY),
+    width: canvas.width,
+    height: canvas.height,
+});
+
+/** Returns a canvas of the given size, shrunk proportionally to fit MAX_PAGE_DIMENSION. */
+export const createPageCanvas = (width: number, height: number): HTMLCanvasElement => {
+    const scale = Math.min(1, MAX_PAGE_DIMENSION / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    return canvas;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('The image could not be read.'));
+    img.src = src;
+});
+
+/** Reads an image into a page, with the pixel size of the original (the page may be scaled down). */
+export async function readImagePage(blob: Blob): Promise<{ page: TranscriptImage; sourceWidth: number; sourceHeight: number }> {
+    const url = URL.createObjectURL(blob);
+    try {
+        const img = await loadImage(url);
+        const canvas = createPageCanvas(img.naturalWidth, img.naturalHeight);
+        const ctx = canvas.getContext('2d')!;
+        // JPEG has no transparency; flatten onto white
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        return { page: canvasToPage(canvas, blob.type === 'image/png'), sourceWidth: img.naturalWidth, sourceHeight: img.naturalHeight };
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+export async function parseImageFile(file: File): Promise<TranscriptImage[]> {
+    return [(await readImagePage(file)).page];
+}
+
+// ─── Regions ───
+
+/** Clamps a region to its page and normalises negative sizes from right-to-left drags. */
+export function normaliseRegion(page: number, x1: number, y1: number, x2: number, y2: number): ImageRegion {
+    const clamp = (v: number) => Math.min(1, Math.max(0, v));
+    const left = clamp(Math.min(x1, x2));
+    const top = clamp(Math.min(y1, y2));
+    return { page, x: left, y: top, width: clamp(Math.max(x1, x2)) - left, height: clamp(Math.max(y1, y2)) - top };
+}
+
+/** "Region, page 2 (40% × 25%)", also used as the text of region segments. */
+export function regionLabel(region: ImageRegion, pageCount = 1): string {
+    const size = `${Math.round(region.width * 100)}% × ${Math.round(region.height * 100)}%`;
+    return pageCount > 1 ? `Region, page ${region.page + 1} (${size})` : `Region (${size})`;
+}
+
+/** Crops a region to a PNG data URL no larger than `maxSize` on its longest side (for exports). */
+export async function cropRegion(page: TranscriptImage, region: ImageRegion, maxSize = 240): Promise<{ dataUrl: string; width: number; height: number }> {
+    const img = await loadImage(page.dataUrl);
+    const sx = region.x * img.naturalWidth;
+    const sy = region.y * img.naturalHeight;
+    const sw = Math.max(1, region.width * img.naturalWidth);
+    const sh = Math.max(1, region.height * img.naturalHeight);
+    const scale = Math.min(1, maxSize / Math.max(sw, sh));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(sw * scale));
+    canvas.height = Math.max(1, Math.round(sh * scale));
+    canvas.getContext('2d')!.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+    return { dataUrl: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height };
+}
@@ -0,0 +1,221 @@
+import { Code, KeyboardAction, KeyboardCodingSettings } from '../types';
+
+// ─── Key Chords ───
+// A chord is written as modifiers plus a key, e.g. "Alt+Shift+K" or "1". Letters and digits
+// are read from the physical key so Alt/Option combinations don't turn into accented
+// characters; for other printable keys Shift is already part of the character ("?").
+// Cmd on macOS counts as Ctrl, like the app's other shortcuts.
+
+const MODIFIER_KEYS = new Set(['Control', 'Alt', 'AltGraph', 'Shift', 'Meta', 'CapsLock', 'Fn']);
+
+// Chords the app or the browser already uses
+export const RESERVED_CHORDS = new Set(['Ctrl+Z', 'Ctrl+Shift+Z', 'Ctrl+Y', 'Ctrl+S', 'Ctrl+C', 'Ctrl+V', 'Ctrl+X', 'Ctrl+A', 'Tab', 'Shift+Tab']);
+
+export function chordFromEvent(e: KeyboardEvent): string | null {
+    if (MODIFIER_KEYS.has(e.key)) return null;
+    const physical = /^(Key[A-Z]|Digit[0-9])$/.test(e.code);
+    const key = physical ? e.code.slice(-1) : e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+    const parts: string[] = [];
+    if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+    if (e.altKey) parts.push('Alt');
+    if (e.shiftKey && (physical || key.length > 1)) parts.push('Shift');
+    parts.push(key);
+    return parts.join('+');
+}
+
+// ─── Bindings ───
+
+export const KEYBOARD_ACTIONS: { action: KeyboardAction; label: string; defaultChord: string }[] = [
+    { action: 'extendWord', label: 'Select / extend by word', defaultChord: 'W' },
+    { action: 'extendSentence', label: 'Select / extend by sentence', defaultChord: 'S' },
+    { action: 'extendLine', label: 'Select / extend by line', defaultChord: 'L' },
+    { action: 'extendParagraph', label: 'Select / extend by paragraph', defaultChord: 'P' },
+    { action: 'clearSelection', label: 'Clear selection', defaultChord: 'Escape' },
+    { action: 'applyLastCode', label: 'Apply last code', defaultChord: '.' },
+    { action: 'nextUncodedLine', label: 'Next uncoded line', defaultChord: 'N' },
+    { action: 'previousUncodedLine', label: 'Previous uncoded line', defaultChord: 'Shift+N' },
+    { action: 'showShortcuts', label: 'Show this cheat sheet', defaultChord: '?' },
+];
+
+const DIGIT_CHORDS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+export const DEFAULT_KEYBOARD_CODING: KeyboardCodingSettings = { enabled: true, codeKeys: {}, actionKeys: {} };
+
+/** Codes in the order the codebook lists them: depth first, names in natural order. */
+export function codebookOrder(codes: Code[]): Code[] {
+    const ids = new Set(codes.map(c => c.id));
+    const parentOf = (c: Code) => (c.parentId && ids.has(c.parentId) ? c.parentId : undefined);
+    const byName = (a: Code, b: Code) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+    const walk = (parentId: string | undefined): Code[] => codes
+        .filter(c => parentOf(c) === parentId)
+        .sort(byName)
+        .flatMap(c => [c, ...walk(c.id)]);
+    return walk(undefined);
+}
+
+export interface KeyboardBindings {
+    actionByChord: Map<string, KeyboardAction>;
+    codeByChord: Map<string, Code>;
+    chordOfAction: Map<KeyboardAction, string>;
+    chordOfCode: Map<string, string>;
+}
+
+/**
+ * Works out every chord in effect. Explicit bindings win; an empty string means "no chord".
+ * Codes the user hasn't bound get the digits 1–9 that are still free, in codebook order.
+ */
+export function resolveKeyboardBindings(codes: Code[], settings: KeyboardCodingSettings = DEFAULT_KEYBOARD_CODING): KeyboardBindings {
+    const bindings: KeyboardBindings = { actionByChord: new Map(), codeByChord: new Map(), chordOfAction: new Map(), chordOfCode: new Map() };
+
+    KEYBOARD_ACTIONS.forEach(({ action, defaultChord }) => {
+        const chord = settings.actionKeys[action] ?? defaultChord;
+        if (!chord || bindings.actionByChord.has(chord)) return;
+        bindings.actionByChord.set(chord, action);
+        bindings.chordOfAction.set(action, chord);
+    });
+
+    const ordered = codebookOrder(codes);
+    const isFree = (chord: string) => !bindings.actionByChord.has(chord) && !bindings.codeByChord.has(chord);
+    ordered.forEach(code => {
+        const chord = settings.codeKeys[code.id];
+        if (!chord || !isFree(chord)) return;
+        bindings.codeByChord.set(chord, code);
+        bindings.chordOfCode.set(code.id, chord);
+    });
+
+    const freeDigits = DIGIT_CHORDS.filter(isFree);
+    ordered
+        .filter(code => settings.codeKeys[code.id] === undefined)
+        .slice(0, freeDigits.length)
+        .forEach((code, i) => {
+            bindings.codeByChord.set(freeDigits[i], code);
+            bindings.chordOfCode.set(code.id, freeDigits[i]);
+        });
+
+    return bindings;
+}
+
+export type BindingTarget = { action: KeyboardAction } | { codeId: string };
+
+/**
+ * Binds `chord` to an action or code (or unbinds it when `chord` is empty). The current
+ * bindings are written out in full first, so giving away a digit doesn't reshuffle the
+ * defaults of every other code; whatever held the chord before loses it.
+ */
+export function assignChord(codes: Code[], settings: KeyboardCodingSettings, target: BindingTarget, chord: string): KeyboardCodingSettings {
+    const current = resolveKeyboardBindings(codes, settings);
+    const actionKeys: KeyboardCodingSettings['actionKeys'] = {};
+    const codeKeys: KeyboardCodingSettings['codeKeys'] = { ...settings.codeKeys };
+    KEYBOARD_ACTIONS.forEach(({ action }) => {
+        const held = current.chordOfAction.get(action) || '';
+        actionKeys[action] = held === chord ? '' : held;
+    });
+    codes.forEach(code => {
+        const held = current.chordOfCode.get(code.id) || '';
+        codeKeys[code.id] = held === chord ? '' : held;
+    });
+
+    if ('action' in target) actionKeys[target.action] = chord;
+    else codeKeys[target.codeId] = chord;
+    return { ...settings, actionKeys, codeKeys };
+}
+
+// ─── Keyboard Selection ───
+// Selections are grown in transcript-text offsets (the same offsets Selection uses) and
+// mapped back to the DOM by the Editor. Lines are concatenated without separators, so line
+// starts always end a word or sentence.
+
+export type TextUnit = 'word' | 'sentence' | 'line' | 'paragraph';
+
+export interface TextStructure {
+    text: string;
+    lineStarts: number[];      // Offset of each line
+    paragraphStarts: number[]; // Offset of each paragraph
+}
+
+const WORD_CHAR = /[\p{L}\p{N}_'’-]/u;
+const SENTENCE_END = /[.!?…]+["'”’)\]]*\s+/g;
+
+export function buildTextStructure(lines: string[], paragraphStartLines: number[]): TextStructure {
+    const lineStarts: number[] = [];
+    let offset = 0;
+    lines.forEach(line => {
+        lineStarts.push(offset);
+        offset += line.length;
+    });
+    return {
+        text: lines.join(''),
+        lineStarts,
+        paragraphStarts: paragraphStartLines.map(i => lineStarts[i]).filter(o => o !== undefined),
+    };
+}
+
+const sentenceStarts = ({ text, lineStarts }: TextStructure): number[] => {
+    const starts = new Set(lineStarts);
+    for (const match of text.matchAll(SENTENCE_END)) starts.add(match.index! + match[0].length);
+    return Array.from(starts).sort((a, b) => a - b);
+};
+
+const trimEnd = (text: string, start: number, end: number) => {
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    return end;
+};
+
+const trimStart = (text: string, start: number, end: number) => {
+    while (start < end && /\s/.test(text[start])) start++;
+    return start;
+};
+
+const extendWord = ({ text, lineStarts }: TextStructure, start: number, end: number) => {
+    const lineStart = new Set(lineStarts);
+    const isWord = (i: number) => i >= 0 && i < text.length && WORD_CHAR.test(text[i]);
+    let e = end;
+    while (e < text.length && !isWord(e)) e++;
+    if (start === end) {
+        // Collapsed: the word under the caret, or the next one
+        let s = e;
+        while (isWord(s - 1) && !lineStart.has(s)) s--;
+        start = s;
+    }
+    do e++; while (isWord(e) && !lineStart.has(e));
+    return { start, end: Math.min(e, text.length) };
+};
+
+/**
+ * Grows [start, end) by one unit. A collapsed range first selects the whole unit around it;
+ * otherwise the end moves to the end of the next unit. Whitespace at the edges is left out.
+ */
+export function extendRange(structure: TextStructure, start: number, end: number, unit: TextUnit): { start: number; end: number } {
+    const { text } = structure;
+    if (text.length === 0) return { start, end };
+    start = Math.max(0, Math.min(start, text.length));
+    end = Math.max(start, Math.min(end, text.length));
+    if (unit === 'word') return extendWord(structure, start, end);
+
+    const starts = unit === 'sentence' ? sentenceStarts(structure) : unit === 'line' ? structure.lineStarts : structure.paragraphStarts;
+    const bounds = [...starts.filter(b => b > 0 && b < text.length), text.length];
+    if (start === end) {
+        const unitStart = [0, ...starts].filter(b => b <= start).pop() || 0;
+        const unitEnd = bounds.find(b => b > start) || text.length;
+        return { start: trimStart(text, unitStart, unitEnd), end: trimEnd(text, unitStart, unitEnd) };
+    }
+    for (const bound of bounds) {
+        const trimmed = trimEnd(text, start, bound);
+        if (trimmed > end) return { start, end: trimmed };
+    }
+    return { start, end };
+}
+
+/** Index of the first line after (or before) `fromLine` that has no coding, or -1. */
+export function findUncodedLine(lineStarts: number[], textLength: number, coded: { startIndex: number; endIndex: number }[], fromLine: number, direction: 1 | -1): number {
+    const isCoded = (line: number) => {
+        const lineStart = lineStarts[line];
+        const lineEnd = line + 1 < lineStarts.length ? lineStarts[line + 1] : textLength;
+        if (lineEnd === lineStart) return true; // Nothing to code on an empty line
+        return coded.some(s => s.startIndex < lineEnd && s.endIndex > lineStart);
+    };
+    for (let line = fromLine + direction; line >= 0 && line < lineStarts.length; line += direction) {
+        if (!isCoded(line)) return line;
+    }
+    return -1;
+}
@@ -0,0 +1,63 @@
+// ─── Transcript Media Store ───
+// Audio/video files attached to transcripts stay on this machine: they are far too large
+// for the project JSON or Firestore, so they live in IndexedDB keyed by transcript id.
+// Cloud projects therefore need the file attached once per computer.
+
+const DB_NAME = 'qualcode-media';
+const STORE_NAME = 'media';
+const DB_VERSION = 1;
+
+export interface StoredMedia {
+    transcriptId: string;
+    name: string;
+    type: string;
+    blob: Blob;
+    attachedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                    request.result.createObjectStore(STORE_NAME, { keyPath: 'transcriptId' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const isMediaFile = (file: File) => /^(audio|video)\//.test(file.type);
+
+export const saveTranscriptMedia = async (transcriptId: string, file: File): Promise<StoredMedia> => {
+    const media: StoredMedia = { transcriptId, name: file.name, type: file.type, blob: file, attachedAt: Date.now() };
+    await runRequest('readwrite', store => store.put(media));
+    return media;
+};
+
+export const loadTranscriptMedia = async (transcriptId: string): Promise<StoredMedia | null> => {
+    const media = await runRequest<StoredMedia | undefined>('readonly', store => store.get(transcriptId));
+    return media || null;
+};
+
+export const deleteTranscriptMedia = async (transcriptId: string): Promise<void> => {
+    await runRequest('readwrite', store => store.delete(transcriptId));
+};
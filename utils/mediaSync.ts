@@ -0,0 +1,115 @@
+import { MediaRange, TranscriptLineMeta } from '../types';
+import { stripHighlights } from './highlightUtils';
+
+// ─── Media Sync ───
+// A line's position in the recording is its data-start (seconds), set by the subtitle
+// importers or by tapping along during playback. Lines without one inherit the time of
+// the nearest earlier timed line.
+
+export function formatTimecode(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = String(total % 60).padStart(2, '0');
+    return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/** "0:12–0:31", also used as the text of media segments. */
+export function mediaRangeLabel(range: MediaRange): string {
+    return `${formatTimecode(range.start)}–${formatTimecode(range.end)}`;
+}
+
+export function hasLineTimes(metas: TranscriptLineMeta[]): boolean {
+    return metas.some(m => m.start !== undefined);
+}
+
+/** Index of the line playing at `time`: the last line starting at or before it, or -1. */
+export function findLineAtTime(metas: TranscriptLineMeta[], time: number): number {
+    let found = -1;
+    let latestStart = -Infinity;
+    metas.forEach((meta, i) => {
+        if (meta.start !== undefined && meta.start <= time && meta.start >= latestStart) {
+            found = i;
+            latestStart = meta.start;
+        }
+    });
+    return found;
+}
+
+/** Playback position for a line, falling back to the nearest earlier timed line. */
+export function lineStartTime(metas: TranscriptLineMeta[], index: number): number | null {
+    for (let i = Math.min(index, metas.length - 1); i >= 0; i--) {
+        if (metas[i]?.start !== undefined) return metas[i].start!;
+    }
+    return null;
+}
+
+/** First line after `index` without a timestamp, or the line after `index`. */
+export function nextUnsyncedLine(metas: TranscriptLineMeta[], index: number): number {
+    const next = metas.findIndex((m, i) => i > index && m.start === undefined);
+    return next >= 0 ? next : Math.min(index + 1, metas.length - 1);
+}
+
+const updateLines = (html: string, update: (lines: Element[]) => void): string => {
+    const doc = new DOMParser().parseFromString(stripHighlights(html), 'text/html');
+    update(Array.from(doc.querySelectorAll('.transcript-line')));
+    return doc.body.innerHTML;
+};
+
+/**
+ * Sets the start time of one line (tap-to-sync). An end time that would now precede the
+ * start is dropped, and the previous line's end is moved up to meet this start.
+ */
+export function setLineStartTime(html: string, index: number, seconds: number): string {
+    const value = String(Math.round(seconds * 100) / 100);
+    return updateLines(html, lines => {
+        const line = lines[index];
+        if (!line) return;
+        line.setAttribute('data-start', value);
+        const end = parseFloat(line.getAttribute('data-end') || '');
+        if (!isNaN(end) && end < seconds) line.removeAttribute('data-end');
+
+        const previous = lines[index - 1];
+        const previousEnd = parseFloat(previous?.getAttribute('data-end') || '');
+        if (previous && !isNaN(previousEnd) && previousEnd > seconds) previous.setAttribute('data-end', value);
+    });
+}
+
+export function clearLineTimes(html: string): string {
+    return updateLines(html, lines => lines.forEach(line => {
+        line.removeAttribute('data-start');
+        line.removeAttribute('data-end');
+    }));
+}
+
+// ─── Waveform ───
+// Peaks for the waveform strip. Decoding at a low sample rate keeps memory reasonable for
+// long interviews; the strip only needs a few thousand buckets anyway.
+
+const WAVEFORM_SAMPLE_RATE = 8000;
+
+/** Normalised (0-1) peak amplitude per bucket, or null when the file has no decodable audio. */
+export async function computeWaveformPeaks(blob: Blob, bucketCount: number): Promise<number[] | null> {
+    try {
+        const context = new OfflineAudioContext(1, 1, WAVEFORM_SAMPLE_RATE);
+        const audio = await context.decodeAudioData(await blob.arrayBuffer());
+        const data = audio.getChannelData(0);
+        const size = Math.max(1, Math.floor(data.length / bucketCount));
+        const peaks: number[] = [];
+        let max = 0;
+        for (let b = 0; b < bucketCount && b * size < data.length; b++) {
+            let peak = 0;
+            const end = Math.min(data.length, (b + 1) * size);
+            for (let i = b * size; i < end; i++) {
+                const v = Math.abs(data[i]);
+                if (v > peak) peak = v;
+            }
+            peaks.push(peak);
+            if (peak > max) max = peak;
+        }
+        return max > 0 ? peaks.map(p => p / max) : peaks;
+    } catch (err) {
+        console.warn('[mediaSync] Could not decode audio for the waveform:', err);
+        return null;
+    }
+}
@@ -0,0 +1,59 @@
+import { Selection } from '../types';
+
+// --- Merging into the Master Layer ---
+// Admins copy collaborators' selections into the shared master layer. A selection is a
+// duplicate when the layer (or an earlier source in the same merge) already has the same code
+// on exactly the same span, so re-running a merge never doubles anything up. Every copy keeps
+// the coder it came from in createdBy.
+
+export interface MergeSource {
+  userId: string;
+  selections: Selection[];
+}
+
+export interface MergeFilter {
+  transcriptIds: string[]; // Empty = all documents
+  codeIds: string[];       // Empty = all codes
+}
+
+export interface MergePlan {
+  selections: Selection[]; // The whole master layer after the merge
+  added: Selection[];
+  duplicates: number;
+  addedByUser: Record<string, number>;
+}
+
+// Same code on the same text span, recording time or image area
+export const selectionKey = (s: Selection): string => {
+  const place = s.media ? `media:${s.media.start}-${s.media.end}`
+    : s.region ? `region:${s.region.page}:${s.region.x},${s.region.y},${s.region.width},${s.region.height}`
+    : `text:${s.startIndex}-${s.endIndex}`;
+  return `${s.transcriptId}|${s.codeId}|${place}`;
+};
+
+export const planMerge = (master: Selection[], sources: MergeSource[], filter: MergeFilter): MergePlan => {
+  const seen = new Set(master.map(selectionKey));
+  const added: Selection[] = [];
+  const addedByUser: Record<string, number> = {};
+  let duplicates = 0;
+
+  sources.forEach(source => {
+    source.selections
+      .filter(s => !s.orphaned &&
+        (filter.transcriptIds.length === 0 || filter.transcriptIds.includes(s.transcriptId)) &&
+        (filter.codeIds.length === 0 || filter.codeIds.includes(s.codeId)))
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach(s => {
+        const key = selectionKey(s);
+        if (seen.has(key)) {
+          duplicates++;
+          return;
+        }
+        seen.add(key);
+        added.push({ ...s, id: crypto.randomUUID(), createdBy: s.createdBy || source.userId });
+        addedByUser[source.userId] = (addedByUser[source.userId] || 0) + 1;
+      });
+  });
+
+  return { selections: [...master, ...added], added, duplicates, addedByUser };
+};
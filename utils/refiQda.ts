@@ -0,0 +1,549 @@
+import JSZip from 'jszip';
+import { Project, Code, Transcript, Selection } from '../types';
+import { generateId, saveBlob } from './dataUtils';
+import { getTranscriptLines } from './highlightUtils';
+import { escapeHtml } from './transcriptParser';
+import { isUsableTextSelection } from './textAnchors';
+import { normaliseRegion, readImagePage, regionLabel } from './imageDocuments';
+
+// ─── REFI-QDA Project Exchange (.qdpx) ───
+// A .qdpx file is a zip holding `project.qde` (XML, namespace urn:QDA-XML:project:1.0)
+// plus a `sources/` folder with one plain-text file per document. Image documents become
+// one PictureSource per page, their regions PictureSelections in pixels of the stored page;
+// on import, consecutive "Name (page n)" picture sources are joined into one document again.
+// Selection positions in the standard count Unicode characters of that plain text, where
+// our transcripts join lines with '\n'. Our own offsets index the concatenated line texts
+// without separators, so every conversion goes through the line structure.
+
+export const QDA_PROJECT_NS = 'urn:QDA-XML:project:1.0';
+export const QDA_CODEBOOK_NS = 'urn:QDA-XML:codebook:1.0';
+
+const GUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const escapeXml = (text: string): string =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+
+/**
+ * Maps our ids to GUIDs. Ids created with crypto.randomUUID are reused as-is,
+ * anything else (e.g. the default codes '1', '2') gets a fresh GUID.
+ */
+export const createGuidMapper = () => {
+    const map = new Map<string, string>();
+    return (id: string): string => {
+        let guid = map.get(id);
+        if (!guid) {
+            guid = GUID_REGEX.test(id) ? id : crypto.randomUUID();
+            map.set(id, guid);
+        }
+        return guid;
+    };
+};
+
+const toIsoDate = (ts?: number) => new Date(ts || Date.now()).toISOString();
+
+const parseIsoDate = (value: string | null): number => {
+    const parsed = value ? Date.parse(value) : NaN;
+    return isNaN(parsed) ? Date.now() : parsed;
+};
+
+/** REFI-QDA colors must be #RRGGBB. */
+const normalizeColor = (color: string): string | null => {
+    const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/i.exec(color);
+    if (short) return `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`.toUpperCase();
+    return /^#[0-9a-f]{6}$/i.test(color) ? color.toUpperCase() : null;
+};
+
+// ─── Code Descriptions ───
+// The standard only has a single Description per code, so inclusion/exclusion criteria
+// and examples are appended as labelled paragraphs and split back out on import.
+
+const CRITERIA_LABELS: [keyof Code, string][] = [
+    ['inclusionCriteria', 'Inclusion criteria'],
+    ['exclusionCriteria', 'Exclusion criteria'],
+    ['examples', 'Examples'],
+];
+
+export const encodeCodeDescription = (code: Code): string => {
+    const parts: string[] = [];
+    if (code.description) parts.push(code.description);
+    CRITERIA_LABELS.forEach(([field, label]) => {
+        const value = code[field];
+        if (typeof value === 'string' && value.trim()) parts.push(`${label}: ${value}`);
+    });
+    return parts.join('\n\n');
+};
+
+export const decodeCodeDescription = (text: string): Pick<Code, 'description' | 'inclusionCriteria' | 'exclusionCriteria' | 'examples'> => {
+    const result: Pick<Code, 'description' | 'inclusionCriteria' | 'exclusionCriteria' | 'examples'> = {};
+    const labelPattern = new RegExp(`^(${CRITERIA_LABELS.map(([, l]) => l).join('|')}):\\s*`, 'gim');
+    const markers: { field: keyof Code; start: number; contentStart: number }[] = [];
+    let match;
+    while ((match = labelPattern.exec(text)) !== null) {
+        const entry = CRITERIA_LABELS.find(([, l]) => l.toLowerCase() === match![1].toLowerCase());
+        if (entry) markers.push({ field: entry[0], start: match.index, contentStart: match.index + match[0].length });
+    }
+
+    const description = (markers.length > 0 ? text.slice(0, markers[0].start) : text).trim();
+    if (description) result.description = description;
+    markers.forEach((m, i) => {
+        const end = i + 1 < markers.length ? markers[i + 1].start : text.length;
+        const value = text.slice(m.contentStart, end).trim();
+        if (value) (result as Record<string, string>)[m.field] = value;
+    });
+    return result;
+};
+
+// ─── Offset Conversion ───
+
+const hasSurrogates = (text: string) => /[\uD800-\uDFFF]/.test(text);
+
+/** UTF-16 index → Unicode code point index. */
+const toCodePointIndex = (text: string, index: number): number =>
+    hasSurrogates(text) ? Array.from(text.slice(0, index)).length : index;
+
+/** Unicode code point index → UTF-16 index. */
+const fromCodePointIndex = (text: string, index: number): number => {
+    if (!hasSurrogates(text)) return index;
+    const chars = Array.from(text);
+    return chars.slice(0, index).join('').length;
+};
+
+/**
+ * Converts an offset into the concatenated line texts to an offset into the
+ * newline-joined plain text. End offsets that fall exactly on a line boundary
+ * stay on the earlier line so the exported range does not swallow the newline.
+ */
+const toPlainOffset = (lines: string[], offset: number, isEnd: boolean): number => {
+    let consumed = 0;
+    for (let i = 0; i < lines.length; i++) {
+        const lineEnd = consumed + lines[i].length;
+        if (offset < lineEnd || (isEnd && offset === lineEnd) || i === lines.length - 1) {
+            return Math.min(offset, lineEnd) + i;
+        }
+        consumed = lineEnd;
+    }
+    return offset;
+};
+
+// ─── Export ───
+
+/**
+ * Renders codes as nested REFI-QDA Code elements (by parentId; orphans become roots).
+ * `extra` lets the project exporter attach NoteRefs, which the codebook format lacks.
+ */
+const renderQdaCodes = (codes: Code[], guid: (id: string) => string, extra: (code: Code) => string = () => ''): string => {
+    const codeIds = new Set(codes.map(c => c.id));
+    const visited = new Set<string>();
+    const renderCode = (code: Code): string => {
+        if (visited.has(code.id)) return '';
+        visited.add(code.id);
+        const color = normalizeColor(code.color);
+        const description = encodeCodeDescription(code);
+        const children = codes.filter(c => c.parentId === code.id).map(renderCode).join('');
+        return `<Code guid="${guid(code.id)}" name="${escapeXml(code.name)}" isCodable="true"${color ? ` color="${color}"` : ''}>` +
+            (description ? `<Description>${escapeXml(description)}</Description>` : '') +
+            extra(code) + children + `</Code>`;
+    };
+    return codes
+        .filter(c => !c.parentId || !codeIds.has(c.parentId))
+        .map(renderCode)
+        .join('');
+};
+
+type QdpxSourceFile = { path: string; text: string } | { path: string; base64: string };
+
+export const buildQdeXml = (project: Project): { xml: string; sources: QdpxSourceFile[] } => {
+    const guid = createGuidMapper();
+    const userGuid = crypto.randomUUID();
+    const notes: string[] = [];
+    const sources: QdpxSourceFile[] = [];
+
+    const addNote = (name: string, content: string, ts?: number): string => {
+        const noteGuid = crypto.randomUUID();
+        notes.push(
+            `<Note guid="${noteGuid}" name="${escapeXml(name)}" creatingUser="${userGuid}" creationDateTime="${toIsoDate(ts)}">` +
+            `<PlainTextContent>${escapeXml(content)}</PlainTextContent></Note>`
+        );
+        return noteGuid;
+    };
+
+    // Codes (memos travel as notes)
+    const codeIds = new Set(project.codes.map(c => c.id));
+    const codesXml = renderQdaCodes(project.codes, guid, code =>
+        code.memo ? `<NoteRef targetGUID="${addNote(`Memo: ${code.name}`, code.memo)}"/>` : '');
+
+    const coding = (s: Selection) =>
+        (s.annotation ? `<Description>${escapeXml(s.annotation)}</Description>` : '') +
+        `<Coding guid="${crypto.randomUUID()}" creatingUser="${userGuid}" creationDateTime="${toIsoDate(s.timestamp)}">` +
+        `<CodeRef targetGUID="${guid(s.codeId)}"/></Coding>`;
+
+    const pictureSources = (t: Transcript, memoRef: string) => t.images!.map((page, i) => {
+        const sourceGuid = i === 0 ? guid(t.id) : guid(`${t.id}#page${i + 1}`);
+        const match = page.dataUrl.match(/^data:image\/(\w+);base64,(.*)$/);
+        const fileName = `${sourceGuid}.${match?.[1] === 'png' ? 'png' : 'jpg'}`;
+        sources.push({ path: `sources/${fileName}`, base64: match?.[2] || '' });
+
+        const selectionsXml = project.selections
+            .filter(s => s.transcriptId === t.id && codeIds.has(s.codeId) && s.region?.page === i)
+            .map(s => {
+                const r = s.region!;
+                const [x1, y1] = [Math.round(r.x * page.width), Math.round(r.y * page.height)];
+                const [x2, y2] = [Math.round((r.x + r.width) * page.width), Math.round((r.y + r.height) * page.height)];
+                return `<PictureSelection guid="${guid(s.id)}" name="${escapeXml(s.text || '')}" firstX="${x1}" firstY="${y1}" secondX="${x2}" secondY="${y2}" creatingUser="${userGuid}" creationDateTime="${toIsoDate(s.timestamp)}">` +
+                    coding(s) + `</PictureSelection>`;
+            })
+            .join('');
+
+        const name = t.images!.length > 1 ? `${t.name} (page ${i + 1})` : t.name;
+        return `<PictureSource guid="${sourceGuid}" name="${escapeXml(name)}" path="internal://${fileName}" creatingUser="${userGuid}" creationDateTime="${toIsoDate(t.dateAdded)}">` +
+            selectionsXml + (i === 0 ? memoRef : '') + `</PictureSource>`;
+    }).join('');
+
+    // Sources
+    const sourcesXml = project.transcripts.map(t => {
+        const memoRef = t.memo ? `<NoteRef targetGUID="${addNote(`Memo: ${t.name}`, t.memo, t.dateAdded)}"/>` : '';
+        if (t.images?.length) return pictureSources(t, memoRef);
+
+        const sourceGuid = guid(t.id);
+        const lines = getTranscriptLines(t.content);
+        const plainText = lines.join('\n');
+        const fileName = `${sourceGuid}.txt`;
+        sources.push({ path: `sources/${fileName}`, text: plainText });
+
+        const selectionsXml = project.selections
+            .filter(s => s.transcriptId === t.id && codeIds.has(s.codeId) && isUsableTextSelection(s))
+            .map(s => {
+                const start = toCodePointIndex(plainText, toPlainOffset(lines, s.startIndex, false));
+                const end = toCodePointIndex(plainText, toPlainOffset(lines, s.endIndex, true));
+                const name = (s.text || '').slice(0, 60);
+                return `<PlainTextSelection guid="${guid(s.id)}" name="${escapeXml(name)}" startPosition="${start}" endPosition="${end}" creatingUser="${userGuid}" creationDateTime="${toIsoDate(s.timestamp)}">` +
+                    coding(s) + `</PlainTextSelection>`;
+            })
+            .join('');
+
+        return `<TextSource guid="${sourceGuid}" name="${escapeXml(t.name)}" plainTextPath="internal://${fileName}" creatingUser="${userGuid}" creationDateTime="${toIsoDate(t.dateAdded)}">` +
+            selectionsXml + memoRef + `</TextSource>`;
+    }).join('');
+
+    const xml = `<?xml version="1.0" encoding="utf-8"?>\n` +
+        `<Project xmlns="${QDA_PROJECT_NS}" name="${escapeXml(project.name)}" origin="QualCode Vibed" creatingUserGUID="${userGuid}" creationDateTime="${toIsoDate(project.created)}" modifyingUserGUID="${userGuid}" modifiedDateTime="${toIsoDate(project.lastModified)}">` +
+        `<Users><User guid="${userGuid}" name="QualCode Vibed"/></Users>` +
+        `<CodeBook><Codes>${codesXml}</Codes></CodeBook>` +
+        `<Sources>${sourcesXml}</Sources>` +
+        (notes.length > 0 ? `<Notes>${notes.join('')}</Notes>` : '') +
+        (project.projectMemo ? `<Description>${escapeXml(project.projectMemo)}</Description>` : '') +
+        `</Project>`;
+
+    return { xml, sources };
+};
+
+export const exportProjectToQdpx = async (project: Project) => {
+    const { xml, sources } = buildQdeXml(project);
+    const zip = new JSZip();
+    zip.file('project.qde', xml);
+    sources.forEach(s => 'base64' in s ? zip.file(s.path, s.base64, { base64: true }) : zip.file(s.path, s.text));
+    const blob = await zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+    const safeName = (project.name || 'project').replace(/[^a-z0-9]/gi, '_');
+    saveBlob(blob, `${safeName}.qdpx`);
+};
+
+// ─── Import ───
+
+/** Direct children of `parent` with the given local name (namespace-agnostic). */
+export const childElements = (parent: Element, localName: string): Element[] =>
+    Array.from(parent.children).filter(el => el.localName === localName);
+
+export const childText = (parent: Element, localName: string): string =>
+    childElements(parent, localName)[0]?.textContent || '';
+
+/**
+ * Reads a REFI-QDA code tree into our flat Code[] with parentId links.
+ * Shared with the codebook (.qdc) importer, which uses the same Code element.
+ */
+export const readQdaCodes = (codesEl: Element | undefined): Code[] => {
+    const codes: Code[] = [];
+    const walk = (el: Element, parentId?: string) => {
+        const id = el.getAttribute('guid') || generateId();
+        const color = normalizeColor(el.getAttribute('color') || '');
+        codes.push({
+            id,
+            name: el.getAttribute('name') || 'Untitled Code',
+            color: color || '#cccccc',
+            parentId,
+            ...decodeCodeDescription(childText(el, 'Description')),
+        });
+        childElements(el, 'Code').forEach(child => walk(child, id));
+    };
+    if (codesEl) childElements(codesEl, 'Code').forEach(el => walk(el));
+    return codes;
+};
+
+/**
+ * Builds transcript HTML from plain text, one transcript-line per non-empty line,
+ * and returns a mapper from plain-text offsets to our concatenated-line offsets.
+ */
+const buildTranscriptFromPlainText = (plainText: string) => {
+    const rawLines = plainText.split(/\r?\n/);
+    const htmlParts: string[] = [];
+    const lineStarts: { plainStart: number; plainEnd: number; offset: number }[] = [];
+    let plainPos = 0;
+    let offset = 0;
+    let lineNumber = 1;
+    let lastWasBlank = false;
+
+    // Account for \r\n separators when computing plain positions
+    const separators = plainText.match(/\r?\n/g) || [];
+
+    rawLines.forEach((line, i) => {
+        if (line.trim().length === 0) {
+            if (!lastWasBlank && htmlParts.length > 0) {
+                htmlParts.push('<div class="transcript-paragraph-break" aria-hidden="true"></div>');
+            }
+            lastWasBlank = true;
+        } else {
+            lastWasBlank = false;
+            htmlParts.push(`<div class="transcript-line" data-line="${lineNumber}">${escapeHtml(line)}</div>`);
+            lineStarts.push({ plainStart: plainPos, plainEnd: plainPos + line.length, offset });
+            offset += line.length;
+            lineNumber++;
+        }
+        plainPos += line.length + (separators[i]?.length || 0);
+    });
+
+    const toOffset = (plainIndex: number): number => {
+        for (const l of lineStarts) {
+            if (plainIndex <= l.plainEnd) {
+                return l.offset + Math.max(0, plainIndex - l.plainStart);
+            }
+        }
+        return offset;
+    };
+
+    return { content: htmlParts.join(''), toOffset };
+};
+
+/** The archive entry an `internal://` source path points at, wherever the tool put it. */
+const findSourceFile = (zip: JSZip, path: string): JSZip.JSZipObject | null => {
+    if (!path) return null;
+    const internal = path.replace(/^internal:\/\//, '');
+    const candidates = [`sources/${internal}`, internal, `sources/${internal.split('/').pop()}`];
+    for (const candidate of candidates) {
+        const file = zip.file(candidate);
+        if (file) return file;
+    }
+    return null;
+};
+
+const readSourceText = async (zip: JSZip, sourceEl: Element): Promise<string | null> => {
+    const file = findSourceFile(zip, sourceEl.getAttribute('plainTextPath') || '');
+    if (file) return file.async('string');
+    const inline = childElements(sourceEl, 'PlainTextContent')[0];
+    return inline ? inline.textContent || '' : null;
+};
+
+const IMAGE_MIME_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', bmp: 'image/bmp', webp: 'image/webp' };
+
+/** Reads a picture source as a page; null when the file is missing or not an image the browser can draw. */
+const readSourceImage = async (zip: JSZip, sourceEl: Element) => {
+    const path = sourceEl.getAttribute('path') || '';
+    const file = findSourceFile(zip, path);
+    if (!file) return null;
+    const type = IMAGE_MIME_TYPES[path.split('.').pop()?.toLowerCase() || ''] || '';
+    try {
+        return await readImagePage(new Blob([await file.async('arraybuffer')], { type }));
+    } catch {
+        return null;
+    }
+};
+
+// Our own export writes one PictureSource per page of a multi-page image document
+const PAGE_SOURCE_NAME = /^(.*) \(page (\d+)\)$/;
+
+export interface QdpxImport {
+    project: Project;
+    /** What could not be brought in, for the user to be told about. */
+    warnings: string[];
+}
+
+export const importQdpx = async (file: File): Promise<QdpxImport> => {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const qdeFile = zip.file('project.qde') || zip.file(/\.qde$/i)[0];
+    if (!qdeFile) throw new Error('No project.qde found in archive.');
+
+    const doc = new DOMParser().parseFromString(await qdeFile.async('string'), 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('project.qde is not valid XML.');
+    const root = doc.documentElement;
+
+    // Notes, referenced from codes and sources via NoteRef
+    const notesById = new Map<string, string>();
+    const notesEl = childElements(root, 'Notes')[0];
+    if (notesEl) {
+        childElements(notesEl, 'Note').forEach(n => {
+            const guid = n.getAttribute('guid');
+            if (guid) notesById.set(guid, childText(n, 'PlainTextContent'));
+        });
+    }
+    const collectNotes = (el: Element): string =>
+        childElements(el, 'NoteRef')
+            .map(ref => notesById.get(ref.getAttribute('targetGUID') || '') || '')
+            .filter(Boolean)
+            .join('\n\n');
+
+    // Codes
+    const codeBookEl = childElements(root, 'CodeBook')[0];
+    const codes = readQdaCodes(codeBookEl ? childElements(codeBookEl, 'Codes')[0] : undefined);
+    const codeIds = new Set(codes.map(c => c.id));
+    if (codeBookEl) {
+        // Attach code memos (NoteRefs live on the Code elements themselves)
+        Array.from(codeBookEl.getElementsByTagNameNS('*', 'Code')).forEach(el => {
+            const memo = collectNotes(el);
+            const code = codes.find(c => c.id === el.getAttribute('guid'));
+            if (code && memo) code.memo = memo;
+        });
+    }
+
+    // Sources (text and picture sources map onto transcripts)
+    const transcripts: Transcript[] = [];
+    const selections: Selection[] = [];
+    const sourcesEl = childElements(root, 'Sources')[0];
+    const supportedSources = sourcesEl
+        ? Array.from(sourcesEl.children).filter(el => el.localName === 'TextSource' || el.localName === 'PictureSource')
+        : [];
+    const warnings: string[] = [];
+    const skipped = sourcesEl ? sourcesEl.children.length - supportedSources.length : 0;
+    if (skipped > 0) warnings.push(`${skipped} source(s) other than text documents and pictures were skipped.`);
+
+    /** One selection per Coding of a selection element; the first keeps the element's guid. */
+    const addCodings = (selEl: Element, selection: Omit<Selection, 'id' | 'codeId' | 'timestamp'>) => {
+        const annotation = [childText(selEl, 'Description'), collectNotes(selEl)].filter(Boolean).join('\n\n');
+        const timestamp = parseIsoDate(selEl.getAttribute('creationDateTime'));
+        childElements(selEl, 'Coding').forEach((codingEl, i) => {
+            const codeId = childElements(codingEl, 'CodeRef')[0]?.getAttribute('targetGUID');
+            if (!codeId || !codeIds.has(codeId)) return;
+            selections.push({
+                id: i === 0 ? (selEl.getAttribute('guid') || generateId()) : generateId(),
+                codeId,
+                timestamp,
+                ...selection,
+                ...(annotation ? { annotation } : {}),
+            });
+        });
+    };
+
+    for (const sourceEl of supportedSources) {
+        const sourceName = sourceEl.getAttribute('name') || 'Untitled Document';
+        if (sourceEl.localName === 'PictureSource') {
+            const image = await readSourceImage(zip, sourceEl);
+            if (!image) {
+                warnings.push(`"${sourceName}" was skipped: its picture is missing from the archive or could not be read.`);
+                continue;
+            }
+            // Pages of one document exported by this app are joined back together
+            const pageName = sourceName.match(PAGE_SOURCE_NAME);
+            const previous = transcripts[transcripts.length - 1];
+            const pageNumber = pageName ? parseInt(pageName[2], 10) : 0;
+            const transcript: Transcript = previous?.images && previous.name === pageName?.[1] && previous.images.length === pageNumber - 1
+                ? previous
+                : {
+                    id: sourceEl.getAttribute('guid') || generateId(),
+                    name: pageName && pageNumber === 1 ? pageName[1] : sourceName,
+                    content: '',
+                    images: [],
+                    dateAdded: parseIsoDate(sourceEl.getAttribute('creationDateTime')),
+                    memo: '',
+                };
+            if (transcript !== previous) transcripts.push(transcript);
+            const page = transcript.images!.length;
+            transcript.images!.push(image.page);
+            transcript.memo = [transcript.memo, collectNotes(sourceEl)].filter(Boolean).join('\n\n');
+
+            childElements(sourceEl, 'PictureSelection').forEach(selEl => {
+                const [x1, y1, x2, y2] = ['firstX', 'firstY', 'secondX', 'secondY'].map(a => parseFloat(selEl.getAttribute(a) || ''));
+                if ([x1, y1, x2, y2].some(isNaN)) return;
+                const region = normaliseRegion(page, x1 / image.sourceWidth, y1 / image.sourceHeight, x2 / image.sourceWidth, y2 / image.sourceHeight);
+                if (region.width <= 0 || region.height <= 0) return;
+                addCodings(selEl, { transcriptId: transcript.id, text: '', startIndex: 0, endIndex: 0, region });
+            });
+            continue;
+        }
+
+        const plainText = await readSourceText(zip, sourceEl);
+        if (plainText === null) {
+            warnings.push(`"${sourceName}" was skipped: its text is missing from the archive.`);
+            continue;
+        }
+
+        const transcriptId = sourceEl.getAttribute('guid') || generateId();
+        const { content, toOffset } = buildTranscriptFromPlainText(plainText);
+        const lines = getTranscriptLines(content);
+        const flatText = lines.join('');
+
+        transcripts.push({
+            id: transcriptId,
+            name: sourceName,
+            content,
+            dateAdded: parseIsoDate(sourceEl.getAttribute('creationDateTime')),
+            memo: collectNotes(sourceEl),
+        });
+
+        childElements(sourceEl, 'PlainTextSelection').forEach(selEl => {
+            const startCp = parseInt(selEl.getAttribute('startPosition') || '', 10);
+            const endCp = parseInt(selEl.getAttribute('endPosition') || '', 10);
+            if (isNaN(startCp) || isNaN(endCp) || endCp <= startCp) return;
+
+            const startIndex = toOffset(fromCodePointIndex(plainText, startCp));
+            const endIndex = toOffset(fromCodePointIndex(plainText, endCp));
+            if (endIndex <= startIndex) return;
+
+            addCodings(selEl, { transcriptId, text: flatText.slice(startIndex, endIndex), startIndex, endIndex });
+        });
+    }
+
+    // Region labels name the page only once the page count is known
+    const pageCounts = new Map(transcripts.map(t => [t.id, t.images?.length || 0]));
+    selections.forEach(sel => {
+        if (sel.region) sel.text = `[${regionLabel(sel.region, pageCounts.get(sel.transcriptId))}]`;
+    });
+
+    const project: Project = {
+        id: generateId(),
+        name: root.getAttribute('name') || file.name.replace(/\.qdpx$/i, ''),
+        created: parseIsoDate(root.getAttribute('creationDateTime')),
+        lastModified: Date.now(),
+        codes,
+        transcripts,
+        selections,
+        projectMemo: childText(root, 'Description'),
+    };
+    return { project, warnings };
+};
+
+// ─── Codebook Exchange (.qdc) ───
+// A .qdc file is a bare XML CodeBook (namespace urn:QDA-XML:codebook:1.0) with the same
+// Code elements as a project. It carries no notes, so code memos are not exchanged.
+
+export const buildQdcXml = (codes: Code[]): string => {
+    const codesXml = renderQdaCodes(codes, createGuidMapper());
+    return `<?xml version="1.0" encoding="utf-8"?>\n` +
+        `<CodeBook xmlns="${QDA_CODEBOOK_NS}" origin="QualCode Vibed"><Codes>${codesXml}</Codes></CodeBook>`;
+};
+
+export const exportCodebookToQdc = (codes: Code[], name = 'codebook') => {
+    const blob = new Blob([buildQdcXml(codes)], { type: 'application/xml;charset=utf-8;' });
+    saveBlob(blob, `${name.replace(/[^a-z0-9]/gi, '_')}.qdc`);
+};
+
+/** Reads a .qdc codebook. Also accepts a bare project.qde, whose CodeBook is nested one level down. */
+export const parseQdcFile = async (file: File): Promise<Code[]> => {
+    const doc = new DOMParser().parseFromString(await file.text(), 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Codebook file is not valid XML.');
+    const root = doc.documentElement;
+    const codeBookEl = root.localName === 'CodeBook' ? root : childElements(root, 'CodeBook')[0];
+    if (!codeBookEl) throw new Error('No CodeBook element found.');
+    return readQdaCodes(childElements(codeBookEl, 'Codes')[0]);
+};
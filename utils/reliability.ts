@@ -0,0 +1,322 @@
+import { Code, Selection, Transcript } from '../types';
+import { getTranscriptLines } from './highlightUtils';
+import { CodeRange, mergeRanges } from './codeQuery';
+import { isUsableTextSelection } from './textAnchors';
+
+// --- Inter-coder Reliability ---
+// Chance-corrected agreement for the reliability view. The documents in scope are cut into
+// units (characters, or lines) and every coder either applied a code to a unit or did not,
+// which gives binary ratings per code. A coder "applies" a code to a line when any of the
+// line is coded. Units are laid end to end across documents, so one coder's coding of a code
+// is a list of merged ranges on that axis and the counts below come from range arithmetic
+// rather than per-unit arrays (a long project has millions of characters).
+
+export type ReliabilityUnit = 'character' | 'line';
+
+export interface ReliabilityCoder {
+  id: string;
+  selections: Selection[];
+}
+
+export interface Estimate {
+  value: number | null; // null when undefined, e.g. every unit got the same rating
+  low: number | null;   // 95% bootstrap interval
+  high: number | null;
+}
+
+export interface CodeReliability {
+  codeId: string;
+  coded: number;        // Units at least one coder applied the code to
+  fleissKappa: Estimate;
+  alpha: Estimate;
+}
+
+export interface PairReliability {
+  coderA: string;
+  coderB: string;
+  overall: Estimate;
+  byCode: Record<string, Estimate>; // Cohen's kappa per code
+}
+
+export interface ReliabilityReport {
+  unit: ReliabilityUnit;
+  units: number;        // Units per code
+  documents: number;
+  coders: number;
+  byCode: CodeReliability[];
+  overall: { fleissKappa: Estimate; alpha: Estimate };
+  pairs: PairReliability[];
+}
+
+// Counts with h[k] = units exactly k of m coders applied the code to
+type Histogram = number[];
+// Pair table [both, A only, B only, neither]
+type PairTable = [number, number, number, number];
+
+// --- Statistics ---
+
+export const cohensKappa = ([both, aOnly, bOnly, neither]: PairTable): number | null => {
+  const n = both + aOnly + bOnly + neither;
+  if (n === 0) return null;
+  const observed = (both + neither) / n;
+  const pA = (both + aOnly) / n;
+  const pB = (both + bOnly) / n;
+  const expected = pA * pB + (1 - pA) * (1 - pB);
+  return expected >= 1 ? null : (observed - expected) / (1 - expected);
+};
+
+export const fleissKappa = (h: Histogram): number | null => {
+  const m = h.length - 1;
+  const n = h.reduce((a, b) => a + b, 0);
+  if (m < 2 || n === 0) return null;
+  let agreement = 0;
+  let applied = 0;
+  h.forEach((count, k) => {
+    agreement += count * (k * (k - 1) + (m - k) * (m - k - 1));
+    applied += count * k;
+  });
+  const observed = agreement / (n * m * (m - 1));
+  const p = applied / (n * m);
+  const expected = p * p + (1 - p) * (1 - p);
+  return expected >= 1 ? null : (observed - expected) / (1 - expected);
+};
+
+// Nominal alpha from the coincidence matrix; with two values it reduces to 1 - (n-1)·o01 / (n0·n1)
+export const krippendorffAlpha = (h: Histogram): number | null => {
+  const m = h.length - 1;
+  if (m < 2) return null;
+  let pairable = 0;
+  let n1 = 0;
+  let disagreement = 0;
+  h.forEach((count, k) => {
+    pairable += count * m;
+    n1 += count * k;
+    disagreement += count * k * (m - k) / (m - 1);
+  });
+  const n0 = pairable - n1;
+  return n0 === 0 || n1 === 0 ? null : 1 - (pairable - 1) * disagreement / (n0 * n1);
+};
+
+// --- Bootstrap ---
+// Neighbouring units are rated alike, so resampling single units would treat a coded passage
+// of 400 characters as 400 independent observations. Instead the axis is cut into runs:
+// maximal stretches of units in the same cell, never crossing a document boundary. Runs
+// are resampled with replacement, a multinomial draw of how many runs land in each cell,
+// and each cell's units follow from its run count and the mean and spread of its run lengths.
+// Seeded so that the intervals don't move between renders.
+
+// Runs of one cell (a histogram bucket or pair-table entry): count, total and squared lengths
+interface CellRuns {
+  runs: number;
+  units: number;
+  squares: number;
+}
+
+const BOOTSTRAP_SAMPLES = 1000;
+
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const normal = (random: () => number) => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+const binomial = (n: number, p: number, random: () => number): number => {
+  if (n <= 0 || p <= 0) return 0;
+  if (p >= 1) return n;
+  if (p > 0.5) return n - binomial(n, 1 - p, random);
+  const variance = n * p * (1 - p);
+  if (variance > 30) return Math.min(n, Math.max(0, Math.round(n * p + Math.sqrt(variance) * normal(random))));
+  // Few successes expected: step from one success to the next by geometric waiting times
+  const logMiss = Math.log(1 - p);
+  let successes = 0;
+  for (let trial = Math.floor(Math.log(1 - random()) / logMiss) + 1; trial <= n; trial += Math.floor(Math.log(1 - random()) / logMiss) + 1) {
+    successes++;
+  }
+  return successes;
+};
+
+const multinomial = (counts: number[], random: () => number): number[] => {
+  let remaining = counts.reduce((a, b) => a + b, 0);
+  let weight = remaining;
+  return counts.map((count, i) => {
+    const draw = i === counts.length - 1 ? remaining : binomial(remaining, weight > 0 ? count / weight : 0, random);
+    remaining -= draw;
+    weight -= count;
+    return draw;
+  });
+};
+
+// Units in a cell after drawing `runs` of its runs, by the normal approximation to their sum
+const resampledUnits = (cell: CellRuns, runs: number, random: () => number): number => {
+  if (runs === 0 || cell.runs === 0) return 0;
+  const mean = cell.units / cell.runs;
+  const variance = Math.max(0, cell.squares / cell.runs - mean * mean);
+  return Math.max(0, Math.round(runs * mean + Math.sqrt(runs * variance) * normal(random)));
+};
+
+const estimate = <T extends number[]>(cells: CellRuns[], statistic: (counts: T) => number | null): Estimate => {
+  const value = statistic(cells.map(c => c.units) as T);
+  if (value === null) return { value, low: null, high: null };
+  const random = seededRandom(cells.length * 7919 + Math.round(cells[0].units));
+  const runCounts = cells.map(c => c.runs);
+  const samples: number[] = [];
+  for (let i = 0; i < BOOTSTRAP_SAMPLES; i++) {
+    const drawn = multinomial(runCounts, random);
+    const sample = statistic(cells.map((c, j) => resampledUnits(c, drawn[j], random)) as T);
+    if (sample !== null) samples.push(sample);
+  }
+  if (samples.length === 0) return { value, low: null, high: null };
+  samples.sort((a, b) => a - b);
+  const at = (q: number) => samples[Math.min(samples.length - 1, Math.floor(q * samples.length))];
+  return { value, low: at(0.025), high: at(0.975) };
+};
+
+// --- Counting ---
+
+const emptyCells = (count: number): CellRuns[] => Array.from({ length: count }, () => ({ runs: 0, units: 0, squares: 0 }));
+
+const addCells = (total: CellRuns[], cells: CellRuns[]) => cells.forEach((c, i) => {
+  total[i].runs += c.runs;
+  total[i].units += c.units;
+  total[i].squares += c.squares;
+});
+
+/**
+ * Sweeps the unit axis and sorts it into runs by cell, where `cellOf` maps how many ranges
+ * of each coder cover a unit to its cell. A run also ends at every document boundary.
+ */
+const cellRunsOf = (
+  rangesByCoder: CodeRange[][],
+  units: number,
+  boundaries: number[],
+  cellCount: number,
+  cellOf: (covered: number[]) => number
+): CellRuns[] => {
+  const cells = emptyCells(cellCount);
+  // [position, coder (-1 for a document boundary), +1 / -1 / 0]
+  const events: [number, number, number][] = boundaries.map(at => [at, -1, 0]);
+  rangesByCoder.forEach((ranges, coder) => ranges.forEach(([s, e]) => events.push([s, coder, 1], [e, coder, -1])));
+  events.sort((a, b) => a[0] - b[0]);
+
+  const covered = rangesByCoder.map(() => 0);
+  let cell = cellOf(covered);
+  let runStart = 0;
+  const closeRun = (at: number) => {
+    const length = at - runStart;
+    if (length > 0) {
+      cells[cell].runs++;
+      cells[cell].units += length;
+      cells[cell].squares += length * length;
+    }
+    runStart = at;
+  };
+  for (let i = 0; i < events.length;) {
+    const at = events[i][0];
+    let boundary = false;
+    for (; i < events.length && events[i][0] === at; i++) {
+      const [, coder, delta] = events[i];
+      if (coder < 0) boundary = true;
+      else covered[coder] += delta;
+    }
+    const next = cellOf(covered);
+    if (boundary || next !== cell) {
+      closeRun(at);
+      cell = next;
+    }
+  }
+  closeRun(units);
+  return cells;
+};
+
+// Histogram cells: units exactly k coders applied the code to
+const histogramOf = (rangesByCoder: CodeRange[][], units: number, boundaries: number[]): CellRuns[] =>
+  cellRunsOf(rangesByCoder, units, boundaries, rangesByCoder.length + 1, covered => covered.filter(n => n > 0).length);
+
+// Pair-table cells in PairTable order: both, A only, B only, neither
+const pairTableOf = (a: CodeRange[], b: CodeRange[], units: number, boundaries: number[]): CellRuns[] =>
+  cellRunsOf([a, b], units, boundaries, 4, ([inA, inB]) => inA > 0 && inB > 0 ? 0 : inA > 0 ? 1 : inB > 0 ? 2 : 3);
+
+/**
+ * Agreement of two or more coders on each code and pooled over the codes (each unit-code
+ * pair counting as one rating). Only documents someone has coded in are counted, so that
+ * documents nobody has reached yet don't inflate the agreement on "not coded".
+ */
+export const computeReliability = (
+  codes: Code[],
+  coders: ReliabilityCoder[],
+  transcripts: Transcript[],
+  unit: ReliabilityUnit
+): ReliabilityReport => {
+  const codeIds = new Set(codes.map(c => c.id));
+  const usable = coders.map(c => c.selections.filter(s => codeIds.has(s.codeId) && isUsableTextSelection(s)));
+  const documents = transcripts.filter(t => !t.images && usable.some(sels => sels.some(s => s.transcriptId === t.id)));
+
+  // Place each document on the shared unit axis; map its character offsets to units
+  const toUnits = new Map<string, (start: number, end: number) => CodeRange>();
+  const boundaries: number[] = [];
+  let units = 0;
+  documents.forEach(t => {
+    const lines = getTranscriptLines(t.content);
+    const offset = units;
+    if (offset > 0) boundaries.push(offset);
+    if (unit === 'character') {
+      const length = lines.reduce((sum, line) => sum + line.length, 0);
+      toUnits.set(t.id, (start, end) => [offset + Math.max(0, start), offset + Math.min(length, end)]);
+      units += length;
+    } else {
+      const ends: number[] = [];
+      lines.reduce((sum, line) => { ends.push(sum + line.length); return sum + line.length; }, 0);
+      const lineAt = (pos: number) => {
+        const i = ends.findIndex(e => pos < e);
+        return i === -1 ? lines.length - 1 : i;
+      };
+      toUnits.set(t.id, (start, end) => end <= start ? [offset, offset] : [offset + lineAt(start), offset + lineAt(end - 1) + 1]);
+      units += lines.length;
+    }
+  });
+
+  const rangesOf = (sels: Selection[], codeId: string) => mergeRanges(sels
+    .filter(s => s.codeId === codeId && toUnits.has(s.transcriptId))
+    .map(s => toUnits.get(s.transcriptId)!(s.startIndex, s.endIndex)));
+
+  const pooled = emptyCells(coders.length + 1);
+  const pairIndexes: [number, number][] = [];
+  for (let i = 0; i < coders.length; i++) {
+    for (let j = i + 1; j < coders.length; j++) pairIndexes.push([i, j]);
+  }
+  const pairTotals = pairIndexes.map(() => emptyCells(4));
+  const pairs: PairReliability[] = pairIndexes.map(([i, j]) => ({ coderA: coders[i].id, coderB: coders[j].id, overall: { value: null, low: null, high: null }, byCode: {} }));
+
+  const byCode: CodeReliability[] = [];
+  codes.forEach(code => {
+    const ranges = usable.map(sels => rangesOf(sels, code.id));
+    if (ranges.every(r => r.length === 0)) return;
+    const h = histogramOf(ranges, units, boundaries);
+    addCells(pooled, h);
+    byCode.push({
+      codeId: code.id,
+      coded: units - h[0].units,
+      fleissKappa: estimate(h, fleissKappa),
+      alpha: estimate(h, krippendorffAlpha),
+    });
+    pairIndexes.forEach(([i, j], p) => {
+      const table = pairTableOf(ranges[i], ranges[j], units, boundaries);
+      addCells(pairTotals[p], table);
+      pairs[p].byCode[code.id] = estimate(table, cohensKappa);
+    });
+  });
+  pairs.forEach((pair, p) => { pair.overall = estimate(pairTotals[p], cohensKappa); });
+
+  return {
+    unit,
+    units,
+    documents: documents.length,
+    coders: coders.length,
+    byCode,
+    overall: { fleissKappa: estimate(pooled, fleissKappa), alpha: estimate(pooled, krippendorffAlpha) },
+    pairs,
+  };
+};
@@ -0,0 +1,336 @@
+import { Code, Project } from '../types';
+import { getTranscriptLines } from './highlightUtils';
+import { isUsableTextSelection } from './textAnchors';
+
+// ─── Search Queries ───
+// A small boolean query language for the global search:
+//
+//   interview AND (stress OR anxi*)      operators are upper case; AND is implied between terms
+//   "line manager" NOT -meeting          phrases in quotes; NOT or a leading minus excludes
+//   support NEAR/5 family                both within 5 words of each other (NEAR alone = 10)
+//   wor?ied coded:"Work stress"          ? is one character, * any run; coded: limits to text
+//                                        coded with that code or one of its sub-codes
+//
+// Transcripts are searched line by line; memos, annotations and code names as a whole.
+
+export type QueryNode =
+    | { type: 'term'; pattern: string }
+    | { type: 'phrase'; words: string[] }
+    | { type: 'near'; left: QueryNode; right: QueryNode; distance: number }
+    | { type: 'coded'; name: string }
+    | { type: 'and' | 'or'; left: QueryNode; right: QueryNode }
+    | { type: 'not'; operand: QueryNode };
+
+type Token =
+    | { type: 'word' | 'phrase' | 'coded'; value: string }
+    | { type: 'and' | 'or' | 'not' | 'open' | 'close' }
+    | { type: 'near'; distance: number };
+
+const DEFAULT_NEAR = 10;
+const WORD = /[\p{L}\p{N}_'’]+/gu;
+
+function tokenize(input: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    const readQuoted = () => {
+        const close = input.indexOf('"', i + 1);
+        const value = input.slice(i + 1, close < 0 ? input.length : close);
+        i = close < 0 ? input.length : close + 1;
+        return value;
+    };
+    while (i < input.length) {
+        const ch = input[i];
+        if (/\s/.test(ch)) { i++; continue; }
+        if (ch === '(') { tokens.push({ type: 'open' }); i++; continue; }
+        if (ch === ')') { tokens.push({ type: 'close' }); i++; continue; }
+        if (ch === '"') { tokens.push({ type: 'phrase', value: readQuoted() }); continue; }
+        if (ch === '-' && i + 1 < input.length && !/[\s)]/.test(input[i + 1])) {
+            tokens.push({ type: 'not' });
+            i++;
+            continue;
+        }
+        let j = i;
+        while (j < input.length && !/[\s()"]/.test(input[j])) j++;
+        const word = input.slice(i, j);
+        i = j;
+        const near = /^NEAR(?:\/(\d+))?$/.exec(word);
+        if (/^coded:/i.test(word)) {
+            const name = word.slice('coded:'.length);
+            tokens.push({ type: 'coded', value: name || (input[i] === '"' ? readQuoted() : '') });
+        } else if (word === 'AND' || word === '&&') tokens.push({ type: 'and' });
+        else if (word === 'OR' || word === '||') tokens.push({ type: 'or' });
+        else if (word === 'NOT') tokens.push({ type: 'not' });
+        else if (near) tokens.push({ type: 'near', distance: near[1] ? parseInt(near[1], 10) : DEFAULT_NEAR });
+        else tokens.push({ type: 'word', value: word });
+    }
+    return tokens;
+}
+
+const isTextual = (node: QueryNode) => node.type === 'term' || node.type === 'phrase' || node.type === 'near';
+
+/** Parses a query, throwing an Error that describes the first problem found. */
+export function parseSearchQuery(input: string): QueryNode {
+    const tokens = tokenize(input);
+    let pos = 0;
+    const peek = () => tokens[pos];
+
+    const primary = (): QueryNode => {
+        const token = tokens[pos++];
+        if (!token) throw new Error('The query ends too soon.');
+        switch (token.type) {
+            case 'open': {
+                const inner = or();
+                if (peek()?.type !== 'close') throw new Error('A bracket is not closed.');
+                pos++;
+                return inner;
+            }
+            case 'word': {
+                const words = token.value.match(/[\p{L}\p{N}_'’*?]+/gu) || [];
+                if (words.length === 0) throw new Error(`"${token.value}" contains no letters to search for.`);
+                return words.length === 1 ? { type: 'term', pattern: words[0] } : { type: 'phrase', words };
+            }
+            case 'phrase': {
+                const words = token.value.match(/[\p{L}\p{N}_'’*?]+/gu) || [];
+                if (words.length === 0) throw new Error('Empty phrase.');
+                return words.length === 1 ? { type: 'term', pattern: words[0] } : { type: 'phrase', words };
+            }
+            case 'coded':
+                if (!token.value) throw new Error('Name a code after coded:, e.g. coded:"Work stress".');
+                return { type: 'coded', name: token.value };
+            case 'close': throw new Error('Unexpected closing bracket.');
+            default: throw new Error(`${token.type.toUpperCase()} needs a search term before and after it.`);
+        }
+    };
+
+    const near = (): QueryNode => {
+        let left = primary();
+        while (peek()?.type === 'near') {
+            const distance = (tokens[pos++] as { distance: number }).distance;
+            const right = primary();
+            if (!isTextual(left) || !isTextual(right)) throw new Error('NEAR only joins words and phrases.');
+            left = { type: 'near', left, right, distance };
+        }
+        return left;
+    };
+
+    const not = (): QueryNode => {
+        if (peek()?.type === 'not') {
+            pos++;
+            return { type: 'not', operand: not() };
+        }
+        return near();
+    };
+
+    const and = (): QueryNode => {
+        let left = not();
+        while (peek() && peek().type !== 'or' && peek().type !== 'close') {
+            if (peek().type === 'and') pos++;
+            left = { type: 'and', left, right: not() };
+        }
+        return left;
+    };
+
+    const or = (): QueryNode => {
+        let left = and();
+        while (peek()?.type === 'or') {
+            pos++;
+            left = { type: 'or', left, right: and() };
+        }
+        return left;
+    };
+
+    if (tokens.length === 0) throw new Error('Type something to search for.');
+    const query = or();
+    if (pos < tokens.length) throw new Error('Unexpected closing bracket.');
+    return query;
+}
+
+// ─── Evaluation ───
+
+interface Word {
+    start: number;
+    end: number;
+    text: string; // Lower case
+}
+
+interface SearchUnit {
+    text: string;
+    words: Word[];
+    codeIds: Set<string>;
+}
+
+type WordRange = { from: number; to: number }; // Inclusive word indices
+
+const wordPattern = (pattern: string) => new RegExp(
+    `^${pattern.toLowerCase().replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`,
+    'u'
+);
+
+type CompiledNode =
+    | { type: 'term'; regex: RegExp }
+    | { type: 'phrase'; regexes: RegExp[] }
+    | { type: 'near'; left: CompiledNode; right: CompiledNode; distance: number }
+    | { type: 'coded'; codeIds: Set<string> }
+    | { type: 'and' | 'or'; left: CompiledNode; right: CompiledNode }
+    | { type: 'not'; operand: CompiledNode };
+
+/** Code ids for a coded: filter, the named code(s) plus all their sub-codes. */
+function resolveCodes(name: string, codes: Code[]): Set<string> {
+    const regex = wordPattern(name.trim());
+    const ids = new Set(codes.filter(c => regex.test(c.name.toLowerCase())).map(c => c.id));
+    if (ids.size === 0) throw new Error(`No code is called "${name}".`);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        codes.forEach(c => {
+            if (c.parentId && ids.has(c.parentId) && !ids.has(c.id)) {
+                ids.add(c.id);
+                grew = true;
+            }
+        });
+    }
+    return ids;
+}
+
+function compile(node: QueryNode, codes: Code[]): CompiledNode {
+    switch (node.type) {
+        case 'term': return { type: 'term', regex: wordPattern(node.pattern) };
+        case 'phrase': return { type: 'phrase', regexes: node.words.map(wordPattern) };
+        case 'coded': return { type: 'coded', codeIds: resolveCodes(node.name, codes) };
+        case 'not': return { type: 'not', operand: compile(node.operand, codes) };
+        case 'near': return { type: 'near', left: compile(node.left, codes), right: compile(node.right, codes), distance: node.distance };
+        default: return { type: node.type, left: compile(node.left, codes), right: compile(node.right, codes) };
+    }
+}
+
+function positions(node: CompiledNode, unit: SearchUnit): WordRange[] {
+    const { words } = unit;
+    if (node.type === 'term') {
+        return words.flatMap((w, i) => (node.regex.test(w.text) ? [{ from: i, to: i }] : []));
+    }
+    if (node.type === 'phrase') {
+        const found: WordRange[] = [];
+        for (let i = 0; i + node.regexes.length <= words.length; i++) {
+            if (node.regexes.every((r, k) => r.test(words[i + k].text))) found.push({ from: i, to: i + node.regexes.length - 1 });
+        }
+        return found;
+    }
+    if (node.type === 'near') {
+        const left = positions(node.left, unit);
+        const right = positions(node.right, unit);
+        const found: WordRange[] = [];
+        left.forEach(a => right.forEach(b => {
+            const gap = a.to < b.from ? b.from - a.to - 1 : b.to < a.from ? a.from - b.to - 1 : 0;
+            if (gap <= node.distance) found.push(a, b);
+        }));
+        return found;
+    }
+    return [];
+}
+
+function evaluate(node: CompiledNode, unit: SearchUnit): { ok: boolean; ranges: WordRange[] } {
+    switch (node.type) {
+        case 'coded': return { ok: Array.from(unit.codeIds).some(id => node.codeIds.has(id)), ranges: [] };
+        case 'not': return { ok: !evaluate(node.operand, unit).ok, ranges: [] };
+        case 'and': {
+            const a = evaluate(node.left, unit);
+            if (!a.ok) return a;
+            const b = evaluate(node.right, unit);
+            return b.ok ? { ok: true, ranges: [...a.ranges, ...b.ranges] } : b;
+        }
+        case 'or': {
+            const a = evaluate(node.left, unit);
+            const b = evaluate(node.right, unit);
+            return { ok: a.ok || b.ok, ranges: [...(a.ok ? a.ranges : []), ...(b.ok ? b.ranges : [])] };
+        }
+        default: {
+            const ranges = positions(node, unit);
+            return { ok: ranges.length > 0, ranges };
+        }
+    }
+}
+
+const toUnit = (text: string, codeIds: Set<string> = new Set()): SearchUnit => ({
+    text,
+    codeIds,
+    words: Array.from(text.matchAll(WORD), m => ({ start: m.index!, end: m.index! + m[0].length, text: m[0].toLowerCase() })),
+});
+
+/** Character spans of the matched words, merged and in order. */
+const toSpans = (unit: SearchUnit, ranges: WordRange[]): [number, number][] => {
+    const spans = ranges
+        .map(r => [unit.words[r.from].start, unit.words[r.to].end] as [number, number])
+        .sort((a, b) => a[0] - b[0]);
+    const merged: [number, number][] = [];
+    spans.forEach(span => {
+        const last = merged[merged.length - 1];
+        if (last && span[0] <= last[1]) last[1] = Math.max(last[1], span[1]);
+        else merged.push([...span]);
+    });
+    return merged;
+};
+
+// ─── Project Search ───
+
+export type SearchSource = 'line' | 'annotation' | 'transcriptMemo' | 'projectMemo' | 'codeName' | 'codeMemo';
+
+export interface SearchResult {
+    id: string;
+    source: SearchSource;
+    text: string;
+    spans: [number, number][]; // Matched text within `text`
+    transcriptId?: string;
+    line?: number;             // Line index, for transcript lines and annotations
+    lineStart?: number;        // Offsets of the line in the transcript text, for coding results
+    lineEnd?: number;
+    codeId?: string;
+    selectionId?: string;
+}
+
+export const MAX_SEARCH_RESULTS = 2000;
+
+/** Runs a query over the whole project. Throws for a malformed query or an unknown code. */
+export function searchProject(project: Project, input: string): SearchResult[] {
+    const query = compile(parseSearchQuery(input), project.codes);
+    const results: SearchResult[] = [];
+    const add = (unit: SearchUnit, result: Omit<SearchResult, 'text' | 'spans'>) => {
+        if (results.length >= MAX_SEARCH_RESULTS) return;
+        const { ok, ranges } = evaluate(query, unit);
+        if (ok) results.push({ ...result, text: unit.text, spans: toSpans(unit, ranges) });
+    };
+
+    project.transcripts.forEach(t => {
+        if (t.images) return;
+        const lines = getTranscriptLines(t.content);
+        const starts: number[] = [];
+        lines.reduce((offset, line) => { starts.push(offset); return offset + line.length; }, 0);
+        const lineOf = (offset: number) => {
+            let line = 0;
+            while (line + 1 < starts.length && starts[line + 1] <= offset) line++;
+            return line;
+        };
+        const selections = project.selections.filter(s => s.transcriptId === t.id && isUsableTextSelection(s));
+        const lineCodes = lines.map(() => new Set<string>());
+        selections.forEach(s => {
+            for (let line = lineOf(s.startIndex); line < lines.length && starts[line] < s.endIndex; line++) lineCodes[line].add(s.codeId);
+        });
+
+        lines.forEach((line, i) => add(toUnit(line, lineCodes[i]), {
+            id: `line:${t.id}:${i}`, source: 'line', transcriptId: t.id, line: i, lineStart: starts[i], lineEnd: starts[i] + line.length,
+        }));
+        selections.forEach(s => {
+            if (s.annotation) add(toUnit(s.annotation, new Set([s.codeId])), {
+                id: `annotation:${s.id}`, source: 'annotation', transcriptId: t.id, line: lineOf(s.startIndex), codeId: s.codeId, selectionId: s.id,
+            });
+        });
+        if (t.memo) add(toUnit(t.memo), { id: `transcriptMemo:${t.id}`, source: 'transcriptMemo', transcriptId: t.id });
+    });
+
+    project.codes.forEach(c => {
+        add(toUnit(c.name, new Set([c.id])), { id: `codeName:${c.id}`, source: 'codeName', codeId: c.id });
+        if (c.memo) add(toUnit(c.memo, new Set([c.id])), { id: `codeMemo:${c.id}`, source: 'codeMemo', codeId: c.id });
+    });
+    if (project.projectMemo) add(toUnit(project.projectMemo), { id: 'projectMemo', source: 'projectMemo' });
+
+    return results;
+}
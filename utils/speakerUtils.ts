@@ -0,0 +1,209 @@
+import { Selection, SpeakerDetectionSettings, SpeakerPatternPreset, Transcript } from '../types';
+import { stripHighlights, getTranscriptLines, getTranscriptLineMeta } from './highlightUtils';
+import { generateColor } from './colorUtils';
+import { isUsableTextSelection, relocateSelection } from './textAnchors';
+
+// ─── Speaker Detection ───
+// Speaker turns live on each `.transcript-line` as data-speaker. Importers that know the
+// speaker (subtitles, Otter/Zoom) set it directly; for plain documents the line text is
+// matched against label patterns like "Interviewer:" or "[Jane Doe]", and lines without
+// a label continue the previous turn.
+
+export const SPEAKER_PATTERN_PRESETS: Record<SpeakerPatternPreset, { label: string; example: string; pattern: RegExp }> = {
+    'name-colon': {
+        label: 'Name followed by a colon',
+        example: 'Interviewer: So tell me…',
+        pattern: /^\s*([A-Z][\w.'\-]*(?: [A-Z][\w.'\-]*){0,3})\s*:\s+/,
+    },
+    'bracket': {
+        label: 'Name in square brackets',
+        example: '[Jane Doe] I think…',
+        pattern: /^\s*\[([A-Z][^\]]{0,40})\]\s*/,
+    },
+};
+
+export const DEFAULT_SPEAKER_DETECTION: SpeakerDetectionSettings = {
+    enabled: true,
+    presets: ['name-colon', 'bracket'],
+};
+
+// A label has to open at least this many lines to count as a speaker, which keeps one-off
+// prefixes such as "Note:" or "Date:" in a document header from becoming speakers.
+const MIN_SPEAKER_TURNS = 2;
+
+/** Returns an error message when a custom pattern is unusable, otherwise null. */
+export function validateSpeakerPattern(pattern: string): string | null {
+    try {
+        const regex = new RegExp(pattern);
+        if (!/(?<!\\)\((?!\?)/.test(regex.source)) return 'The pattern needs a capture group for the speaker name.';
+        return null;
+    } catch (err) {
+        return err instanceof Error ? err.message : 'Invalid regular expression.';
+    }
+}
+
+export function compileSpeakerPatterns(settings: SpeakerDetectionSettings): RegExp[] {
+    const patterns = settings.presets.map(p => SPEAKER_PATTERN_PRESETS[p]?.pattern).filter(Boolean) as RegExp[];
+    const custom = settings.customPattern?.trim();
+    if (custom && !validateSpeakerPattern(custom)) {
+        patterns.push(new RegExp(custom.startsWith('^') ? custom : `^\\s*(?:${custom})`));
+    }
+    return patterns;
+}
+
+function matchSpeakerLabel(text: string, patterns: RegExp[]): string | null {
+    for (const pattern of patterns) {
+        const match = pattern.exec(text);
+        const name = match?.[1]?.trim();
+        if (name) return name;
+    }
+    return null;
+}
+
+/**
+ * Sets data-speaker on lines of a transcript that don't carry one yet. Returns the content
+ * unchanged when detection is disabled or finds nothing.
+ */
+export function detectSpeakers(html: string, settings: SpeakerDetectionSettings): string {
+    const patterns = settings.enabled ? compileSpeakerPatterns(settings) : [];
+    if (patterns.length === 0 || !html) return html;
+
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const lines = Array.from(doc.querySelectorAll('.transcript-line'));
+    const labels = lines.map(l => l.hasAttribute('data-speaker') ? null : matchSpeakerLabel(l.textContent || '', patterns));
+
+    const turnCounts = new Map<string, number>();
+    labels.forEach(label => label && turnCounts.set(label, (turnCounts.get(label) || 0) + 1));
+    const accepted = new Set(Array.from(turnCounts).filter(([, n]) => n >= MIN_SPEAKER_TURNS).map(([name]) => name));
+    if (accepted.size === 0) return html;
+
+    let current: string | null = null;
+    lines.forEach((line, i) => {
+        const existing = line.getAttribute('data-speaker');
+        if (existing) {
+            current = existing;
+            return;
+        }
+        const label = labels[i];
+        if (label && accepted.has(label)) current = label;
+        if (current && (line.textContent || '').trim()) line.setAttribute('data-speaker', current);
+    });
+
+    return doc.body.innerHTML;
+}
+
+// ─── Speaker Listing ───
+
+export interface SpeakerSummary {
+    name: string;
+    lineCount: number;
+}
+
+/** Speakers of one transcript in order of first appearance, with their line counts. */
+export function listSpeakers(html: string): SpeakerSummary[] {
+    const counts = new Map<string, number>();
+    getTranscriptLineMeta(html).forEach(meta => {
+        if (meta.speaker) counts.set(meta.speaker, (counts.get(meta.speaker) || 0) + 1);
+    });
+    return Array.from(counts, ([name, lineCount]) => ({ name, lineCount }));
+}
+
+/** Speaker names across a set of transcripts, in order of first appearance. */
+export function listProjectSpeakers(transcripts: Transcript[]): string[] {
+    const names = new Set<string>();
+    transcripts.forEach(t => listSpeakers(t.content).forEach(s => names.add(s.name)));
+    return Array.from(names);
+}
+
+export function speakerColor(speakers: string[], name: string): string {
+    const index = speakers.indexOf(name);
+    return generateColor(index < 0 ? speakers.length : index);
+}
+
+// ─── Rename / Merge ───
+// Renaming to a name that already exists merges the two speakers. With rewriteLabels the
+// "Name:" / "[Name]" label at the start of each turn is rewritten too, which changes line
+// lengths, so the offset edits are returned for shifting the transcript's selections.
+
+export interface SpeakerLabelEdit {
+    offset: number;
+    oldLength: number;
+    newLength: number;
+}
+
+export interface SpeakerRenameResult {
+    content: string;
+    edits: SpeakerLabelEdit[];
+}
+
+/**
+ * Renames (or merges) a speaker within one transcript. An empty `to` removes the speaker
+ * from those lines without touching their text.
+ */
+export function renameSpeaker(html: string, from: string, to: string, rewriteLabels: boolean): SpeakerRenameResult {
+    const doc = new DOMParser().parseFromString(stripHighlights(html), 'text/html');
+    const edits: SpeakerLabelEdit[] = [];
+    const target = to.trim();
+    let offset = 0;
+
+    doc.querySelectorAll('.transcript-line').forEach(line => {
+        const text = line.textContent || '';
+        if (line.getAttribute('data-speaker') === from) {
+            if (!target) {
+                line.removeAttribute('data-speaker');
+            } else {
+                line.setAttribute('data-speaker', target);
+                const lead = text.length - text.trimStart().length;
+                const body = text.slice(lead);
+                const at = /^\s*:/.test(body.slice(from.length)) && body.startsWith(from) ? lead
+                    : body.startsWith(`[${from}]`) ? lead + 1
+                    : -1;
+                if (rewriteLabels && at >= 0 && from !== target) {
+                    line.textContent = text.slice(0, at) + target + text.slice(at + from.length);
+                    edits.push({ offset: offset + at, oldLength: from.length, newLength: target.length });
+                }
+            }
+        }
+        offset += text.length;
+    });
+
+    return { content: doc.body.innerHTML, edits };
+}
+
+function mapOffset(position: number, edits: SpeakerLabelEdit[]): number {
+    let delta = 0;
+    for (const edit of edits) {
+        if (position >= edit.offset + edit.oldLength) {
+            delta += edit.newLength - edit.oldLength;
+        } else if (position > edit.offset) {
+            return edit.offset + delta + Math.min(position - edit.offset, edit.newLength);
+        } else {
+            break;
+        }
+    }
+    return position + delta;
+}
+
+/**
+ * Moves a transcript's selections past rewritten speaker labels and refreshes their text
+ * and anchor. Orphaned selections keep their stale offsets until they are relocated.
+ */
+export function shiftSelectionsForLabelEdits(
+    selections: Selection[],
+    transcriptId: string,
+    edits: SpeakerLabelEdit[],
+    newContent: string
+): Selection[] {
+    if (edits.length === 0) return selections;
+    const fullText = getTranscriptLines(newContent).join('');
+    return selections.map(s => {
+        if (s.transcriptId !== transcriptId || !isUsableTextSelection(s)) return s;
+        const startIndex = mapOffset(s.startIndex, edits);
+        const endIndex = mapOffset(s.endIndex, edits);
+        // A label renamed to one of the same length moves nothing but still changes the quote
+        const unchanged = startIndex === s.startIndex && endIndex === s.endIndex &&
+            (!s.anchor || s.anchor.quote === fullText.slice(startIndex, endIndex));
+        if (unchanged) return s;
+        return relocateSelection(s, fullText, startIndex, endIndex);
+    });
+}
@@ -0,0 +1,187 @@
+import DiffMatchPatch from 'diff-match-patch';
+import { Selection, SelectionAnchor } from '../types';
+import { getTranscriptLines } from './highlightUtils';
+
+// ─── Text Anchors ───
+// Offsets alone break as soon as a transcript is edited. Each text selection therefore also
+// keeps the quoted text with a little context either side (the W3C "text quote selector"),
+// which lets us find it again: first by mapping the offsets through a diff of the edit,
+// then by searching for the quote, then fuzzily with diff-match-patch.
+
+const CONTEXT_LENGTH = 32;
+// A fuzzy match must be at least this similar to the original quote
+const MIN_SIMILARITY = 0.75;
+// Limit on exact occurrences compared by context, for very common short quotes
+const MAX_CANDIDATES = 200;
+
+const dmp = new DiffMatchPatch();
+dmp.Match_Threshold = 0.4;
+dmp.Match_Distance = 5000;
+
+export const createTextAnchor = (text: string, start: number, end: number): SelectionAnchor => ({
+    quote: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: text.slice(end, end + CONTEXT_LENGTH),
+});
+
+/** True for selections anchored in transcript text (not media ranges or image regions). */
+export const isTextSelection = (s: Selection) => !s.media && !s.region;
+
+/** Text selections whose offsets can be trusted: orphaned ones keep stale offsets until relocated. */
+export const isUsableTextSelection = (s: Selection) => isTextSelection(s) && !s.orphaned;
+
+/** Attaches an anchor to a newly made text selection, taken from the transcript it was made in. */
+export const withTextAnchor = (selection: Selection, html: string): Selection => {
+    if (!isTextSelection(selection) || selection.endIndex <= selection.startIndex) return selection;
+    return { ...selection, anchor: createTextAnchor(getTranscriptLines(html).join(''), selection.startIndex, selection.endIndex) };
+};
+
+const commonPrefixLength = (a: string, b: string) => {
+    let n = 0;
+    while (n < a.length && n < b.length && a[n] === b[n]) n++;
+    return n;
+};
+
+const commonSuffixLength = (a: string, b: string) => {
+    let n = 0;
+    while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+    return n;
+};
+
+/** 0-1 similarity of two strings from their Levenshtein distance. */
+export const textSimilarity = (a: string, b: string): number => {
+    const longest = Math.max(a.length, b.length);
+    if (longest === 0) return 1;
+    return 1 - dmp.diff_levenshtein(dmp.diff_main(a, b)) / longest;
+};
+
+export interface AnchorMatch {
+    start: number;
+    end: number;
+    /** 1 for an exact quote, otherwise the similarity of the matched text. */
+    score: number;
+}
+
+/**
+ * Locates an anchor in `text`, preferring positions near `expectedStart`. Exact occurrences
+ * of the quote are ranked by how much of the prefix/suffix context matches; failing that a
+ * fuzzy match is accepted when it is similar enough to the quote.
+ */
+export function findTextAnchor(text: string, anchor: SelectionAnchor, expectedStart: number): AnchorMatch | null {
+    const { quote, prefix, suffix } = anchor;
+    if (!quote) return null;
+
+    // Exact occurrences, best context first, then nearest
+    let best: { start: number; rank: number } | null = null;
+    for (let i = text.indexOf(quote), n = 0; i >= 0 && n < MAX_CANDIDATES; i = text.indexOf(quote, i + 1), n++) {
+        const context = commonSuffixLength(text.slice(Math.max(0, i - prefix.length), i), prefix) +
+            commonPrefixLength(text.slice(i + quote.length, i + quote.length + suffix.length), suffix);
+        const rank = context * 1e6 - Math.abs(i - expectedStart);
+        if (!best || rank > best.rank) best = { start: i, rank };
+    }
+    if (best) return { start: best.start, end: best.start + quote.length, score: 1 };
+
+    // Fuzzy: bitap only handles patterns up to Match_MaxBits, so match the two ends separately
+    const head = quote.slice(0, dmp.Match_MaxBits);
+    const tail = quote.slice(-dmp.Match_MaxBits);
+    const hint = Math.max(0, Math.min(text.length, expectedStart));
+    let start = dmp.match_main(text, head, hint);
+    if (start < 0 && prefix) {
+        const p = prefix.slice(-dmp.Match_MaxBits);
+        const at = dmp.match_main(text, p, Math.max(0, hint - p.length));
+        if (at >= 0) start = at + p.length;
+    }
+    if (start < 0) return null;
+
+    let end = -1;
+    const tailAt = dmp.match_main(text, tail, Math.max(0, start + quote.length - tail.length));
+    if (tailAt >= start) end = tailAt + tail.length;
+    if (end < 0 && suffix) {
+        const at = dmp.match_main(text, suffix.slice(0, dmp.Match_MaxBits), start + quote.length);
+        if (at > start) end = at;
+    }
+    if (end <= start || end - start > quote.length * 2) return null;
+
+    const score = textSimilarity(quote, text.slice(start, end));
+    return score >= MIN_SIMILARITY ? { start, end, score } : null;
+}
+
+/**
+ * Moves text selections from `oldText` to `newText` after an edit. Selections that can't be
+ * found again keep their last offsets and are flagged `orphaned` for review rather than
+ * dropped. Previously orphaned selections get another chance against the new text.
+ */
+export function reanchorSelections(oldText: string, newText: string, selections: Selection[]): Selection[] {
+    if (oldText === newText) return selections;
+    const diffs = dmp.diff_main(oldText, newText);
+
+    return selections.map(sel => {
+        if (!isTextSelection(sel)) return sel;
+
+        const anchor = sel.orphaned && sel.anchor
+            ? sel.anchor
+            : sel.endIndex > sel.startIndex ? createTextAnchor(oldText, sel.startIndex, sel.endIndex) : sel.anchor;
+        if (!anchor?.quote) return { ...sel, orphaned: true };
+
+        // Edits inside or around the quote usually leave the mapped range as the best answer
+        const mappedStart = dmp.diff_xIndex(diffs, sel.startIndex);
+        const mappedEnd = dmp.diff_xIndex(diffs, sel.endIndex);
+        const mappedFits = !sel.orphaned && mappedEnd > mappedStart &&
+            textSimilarity(anchor.quote, newText.slice(mappedStart, mappedEnd)) >= MIN_SIMILARITY;
+        const match = mappedFits
+            ? { start: mappedStart, end: mappedEnd }
+            : findTextAnchor(newText, anchor, sel.orphaned ? sel.startIndex : mappedStart);
+
+        return match ? relocateSelection(sel, newText, match.start, match.end) : { ...sel, anchor, orphaned: true };
+    });
+}
+
+/** Moves a selection to [start, end) of `text`, refreshing its text and anchor. */
+export function relocateSelection(selection: Selection, text: string, start: number, end: number): Selection {
+    const { orphaned, ...rest } = selection;
+    return {
+        ...rest,
+        startIndex: start,
+        endIndex: end,
+        text: text.slice(start, end),
+        anchor: createTextAnchor(text, start, end),
+    };
+}
+
+// ─── Broken Codings ───
+// Not every change to a transcript goes through reanchorSelections: snapshot restores and
+// accepted change requests replace the content wholesale, and collaborators' offsets in
+// cloud projects are never touched. Anything whose text no longer sits at its offsets is
+// reported here, with the best guess at where it went.
+
+export interface BrokenSelection {
+    selection: Selection;
+    proposal: AnchorMatch | null;
+}
+
+const normaliseSpace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const isSubsequence = (needle: string, haystack: string) => {
+    let j = 0;
+    for (let i = 0; i < haystack.length && j < needle.length; i++) {
+        if (haystack[i] === needle[j]) j++;
+    }
+    return j === needle.length;
+};
+
+const isIntact = (text: string, s: Selection) => {
+    const current = normaliseSpace(text.slice(s.startIndex, s.endIndex));
+    if (s.anchor) return current === normaliseSpace(s.anchor.quote);
+    // Older selections took their text from the DOM range, which can include the margin
+    // labels of the lines it spans, so only require the transcript text to appear in order
+    return current.length > 0 && isSubsequence(current, normaliseSpace(s.text));
+};
+
+export function findBrokenSelections(text: string, selections: Selection[]): BrokenSelection[] {
+    return selections
+        .filter(s => isTextSelection(s) && (s.orphaned || !isIntact(text, s)))
+        .map(selection => ({
+            selection,
+            proposal: findTextAnchor(text, selection.anchor || { quote: selection.text, prefix: '', suffix: '' }, selection.startIndex),
+        }));
+}
@@ -0,0 +1,241 @@
+import { Transcript } from '../types';
+import { getTranscriptLines } from './highlightUtils';
+import { CodeRange } from './codeQuery';
+
+// ─── Text Mining ───
+// Word and n-gram frequencies with a keyword-in-context (KWIC) concordance. Text is read in
+// units: whole transcript lines, or the coded pieces of lines when mining coded segments.
+// An n-gram never runs from one unit into the next. Every occurrence keeps its transcript
+// offsets, so the concordance can jump to it and code it.
+
+export type NgramSize = 1 | 2 | 3;
+
+export interface TextMiningOptions {
+    ngram: NgramSize;
+    removeStopWords: boolean;
+    extraStopWords: string[];
+    stem: boolean;
+    minLength: number;   // Shorter words are skipped (and break n-grams like stop words)
+}
+
+export interface MiningUnit {
+    transcriptId: string;
+    line: number;        // 0-based
+    start: number;       // Transcript-text offset of text[0]
+    text: string;
+}
+
+export interface TermOccurrence {
+    transcriptId: string;
+    line: number;
+    start: number;       // Transcript-text offsets of the matched words
+    end: number;
+}
+
+export interface TermStat {
+    key: string;         // Stemmed form when stemming
+    label: string;       // Most frequent surface form
+    count: number;
+    documents: number;
+    occurrences: TermOccurrence[];
+}
+
+const WORD = /[\p{L}\p{N}'’]+/gu;
+
+// Common English function words
+export const STOP_WORDS = new Set(`a about above after again against all am an and any are aren't as at be because been before
+being below between both but by can can't cannot could couldn't did didn't do does doesn't doing don't down during each few for
+from further had hadn't has hasn't have haven't having he he'd he'll he's her here here's hers herself him himself his how how's
+i i'd i'll i'm i've if in into is isn't it it's its itself just let's like me more most mustn't my myself no nor not of off on
+once only or other ought our ours ourselves out over own same shan't she she'd she'll she's should shouldn't so some such than
+that that's the their theirs them themselves then there there's these they they'd they'll they're they've this those through to
+too under until up very was wasn't we we'd we'll we're we've were weren't what what's when when's where where's which while who
+who's whom why why's will with won't would wouldn't yeah yes you you'd you'll you're you've your yours yourself yourselves um uh
+er erm mm hmm oh okay ok really also well know get got go going gonna kind sort thing things think mean said say says`.split(/\s+/));
+
+// ─── Porter Stemmer ───
+// M. F. Porter, "An algorithm for suffix stripping" (1980), for lower-case English words.
+
+const isConsonant = (w: string, i: number): boolean => {
+    const c = w[i];
+    if ('aeiou'.includes(c)) return false;
+    if (c === 'y') return i === 0 || !isConsonant(w, i - 1);
+    return true;
+};
+
+// Number of vowel-consonant sequences in w
+const measure = (w: string): number => {
+    let m = 0;
+    let i = 0;
+    while (i < w.length && isConsonant(w, i)) i++;
+    while (i < w.length) {
+        while (i < w.length && !isConsonant(w, i)) i++;
+        if (i >= w.length) break;
+        while (i < w.length && isConsonant(w, i)) i++;
+        m++;
+    }
+    return m;
+};
+
+const hasVowel = (w: string) => w.split('').some((_, i) => !isConsonant(w, i));
+const endsDoubleConsonant = (w: string) => w.length > 1 && w[w.length - 1] === w[w.length - 2] && isConsonant(w, w.length - 1);
+// consonant-vowel-consonant, the last not w, x or y
+const endsCvc = (w: string) => {
+    const n = w.length;
+    return n > 2 && isConsonant(w, n - 3) && !isConsonant(w, n - 2) && isConsonant(w, n - 1) && !'wxy'.includes(w[n - 1]);
+};
+
+// Replaces the first matching suffix whose stem passes the test
+const replaceSuffix = (w: string, rules: [string, string][], test: (stem: string) => boolean): string => {
+    for (const [suffix, replacement] of rules) {
+        if (w.endsWith(suffix)) {
+            const stem = w.slice(0, -suffix.length);
+            return test(stem) ? stem + replacement : w;
+        }
+    }
+    return w;
+};
+
+const STEP2: [string, string][] = [
+    ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'], ['abli', 'able'],
+    ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'], ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'],
+    ['alism', 'al'], ['iveness', 'ive'], ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'],
+];
+const STEP3: [string, string][] = [
+    ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', ''],
+];
+const STEP4 = ['al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent', 'ion', 'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize'];
+
+export function stem(word: string): string {
+    if (word.length <= 2) return word;
+    let w = word;
+
+    // Step 1a: plurals
+    if (w.endsWith('sses')) w = w.slice(0, -2);
+    else if (w.endsWith('ies')) w = w.slice(0, -2);
+    else if (!w.endsWith('ss') && w.endsWith('s')) w = w.slice(0, -1);
+
+    // Step 1b: -ed, -ing
+    if (w.endsWith('eed')) {
+        if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+    } else {
+        const suffix = w.endsWith('ed') ? 'ed' : w.endsWith('ing') ? 'ing' : null;
+        if (suffix && hasVowel(w.slice(0, -suffix.length))) {
+            w = w.slice(0, -suffix.length);
+            if (w.endsWith('at') || w.endsWith('bl') || w.endsWith('iz')) w += 'e';
+            else if (endsDoubleConsonant(w) && !'lsz'.includes(w[w.length - 1])) w = w.slice(0, -1);
+            else if (measure(w) === 1 && endsCvc(w)) w += 'e';
+        }
+    }
+
+    // Step 1c: y -> i
+    if (w.endsWith('y') && hasVowel(w.slice(0, -1))) w = w.slice(0, -1) + 'i';
+
+    w = replaceSuffix(w, STEP2, s => measure(s) > 0);
+    w = replaceSuffix(w, STEP3, s => measure(s) > 0);
+
+    // Step 4: drop suffixes from longer stems
+    const suffix4 = STEP4.filter(s => w.endsWith(s)).sort((a, b) => b.length - a.length)[0];
+    if (suffix4) {
+        const s = w.slice(0, -suffix4.length);
+        if (measure(s) > 1 && (suffix4 !== 'ion' || s.endsWith('s') || s.endsWith('t'))) w = s;
+    }
+
+    // Step 5: final e and ll
+    if (w.endsWith('e')) {
+        const s = w.slice(0, -1);
+        const m = measure(s);
+        if (m > 1 || (m === 1 && !endsCvc(s))) w = s;
+    }
+    if (measure(w) > 1 && endsDoubleConsonant(w) && w.endsWith('l')) w = w.slice(0, -1);
+    return w;
+}
+
+// ─── Units ───
+
+/**
+ * One unit per transcript line, or, when coded ranges are given, one per coded piece of a
+ * line (transcripts without ranges are skipped). Image documents have no text.
+ */
+export function buildMiningUnits(transcripts: Transcript[], codedRanges?: Map<string, CodeRange[]>): MiningUnit[] {
+    const units: MiningUnit[] = [];
+    transcripts.forEach(transcript => {
+        if (transcript.images) return;
+        const ranges = codedRanges?.get(transcript.id);
+        if (codedRanges && !ranges?.length) return;
+        let offset = 0;
+        getTranscriptLines(transcript.content).forEach((text, line) => {
+            const lineStart = offset;
+            offset += text.length;
+            if (!ranges) {
+                units.push({ transcriptId: transcript.id, line, start: lineStart, text });
+                return;
+            }
+            ranges.forEach(([s, e]) => {
+                const start = Math.max(s, lineStart);
+                const end = Math.min(e, offset);
+                if (end > start) units.push({ transcriptId: transcript.id, line, start, text: text.slice(start - lineStart, end - lineStart) });
+            });
+        });
+    });
+    return units;
+}
+
+// ─── Counting ───
+
+// Lower case, straight apostrophes, no possessive 's
+const normalizeWord = (word: string) => word.toLowerCase().replace(/’/g, "'").replace(/'s$/, '').replace(/^'+|'+$/g, '');
+const CLAUSE_BREAK = /[.!?;:,()"“”]/;
+
+export function countTerms(units: MiningUnit[], options: TextMiningOptions): TermStat[] {
+    const stopWords = new Set([...(options.removeStopWords ? STOP_WORDS : []), ...options.extraStopWords.map(normalizeWord)]);
+    const stems = new Map<string, string>();
+    const stemOf = (word: string) => {
+        if (!options.stem) return word;
+        if (!stems.has(word)) stems.set(word, stem(word));
+        return stems.get(word)!;
+    };
+
+    const terms = new Map<string, { forms: Map<string, number>; occurrences: TermOccurrence[]; documents: Set<string> }>();
+    units.forEach(unit => {
+        // Runs of usable words; a skipped word or punctuation ends the run so n-grams don't bridge it
+        const runs: { word: string; start: number; end: number }[][] = [[]];
+        let previousEnd = 0;
+        WORD.lastIndex = 0;
+        for (let m = WORD.exec(unit.text); m; m = WORD.exec(unit.text)) {
+            const word = normalizeWord(m[0]);
+            if (CLAUSE_BREAK.test(unit.text.slice(previousEnd, m.index)) && runs[runs.length - 1].length > 0) runs.push([]);
+            previousEnd = m.index + m[0].length;
+            if (word.length < options.minLength || stopWords.has(word) || /^\d+$/.test(word)) {
+                if (runs[runs.length - 1].length > 0) runs.push([]);
+                continue;
+            }
+            runs[runs.length - 1].push({ word, start: unit.start + m.index, end: unit.start + m.index + m[0].length });
+        }
+        runs.forEach(run => {
+            for (let i = 0; i + options.ngram <= run.length; i++) {
+                const words = run.slice(i, i + options.ngram);
+                const key = words.map(w => stemOf(w.word)).join(' ');
+                const form = words.map(w => w.word).join(' ');
+                let term = terms.get(key);
+                if (!term) {
+                    term = { forms: new Map(), occurrences: [], documents: new Set() };
+                    terms.set(key, term);
+                }
+                term.forms.set(form, (term.forms.get(form) || 0) + 1);
+                term.documents.add(unit.transcriptId);
+                term.occurrences.push({ transcriptId: unit.transcriptId, line: unit.line, start: words[0].start, end: words[words.length - 1].end });
+            }
+        });
+    });
+
+    return Array.from(terms.entries())
+        .map(([key, term]) => ({
+            key,
+            label: Array.from(term.forms.entries()).sort((a, b) => b[1] - a[1])[0][0],
+            count: term.occurrences.length,
+            documents: term.documents.size,
+            occurrences: term.occurrences,
+        }))
+        .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
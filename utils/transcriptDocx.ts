@@ -0,0 +1,240 @@
+import { Project, Transcript, Selection, Code } from '../types';
+import { saveBlob } from './dataUtils';
+import { stripHighlights } from './highlightUtils';
+import { tintColor } from './colorUtils';
+import { buildDocx, createCommentStore, createImageStore, CommentStore, ImageStore, paragraph, run, textParagraph, pageBreak } from './docxWriter';
+import { cropRegion, regionLabel } from './imageDocuments';
+
+// ─── Coded Transcript Export (.docx) ───
+// Rebuilds each transcript from its line structure rather than the rendered HTML so
+// the output does not depend on which highlights happen to be visible. Coded spans are
+// shaded in a tint of their code color (the most specific code wins where codes
+// overlap) and every selection becomes a Word comment carrying the code name and
+// annotation. Line numbers come from data-line.
+// Image documents have no lines: each page is drawn scaled to the page width, followed by
+// a thumbnail of every coded region carrying the same comment a text segment would.
+
+const LINE_NUMBER_COLOR = '#999999';
+const SHADING_TINT = 0.55;
+const PAGE_IMAGE_SIZE = 600;
+const REGION_THUMBNAIL_SIZE = 200;
+
+/** Drawing runs for an image document's pages, and for each coded region by selection id. */
+interface RenderedPictures {
+    pages: string[];
+    regions: Map<string, string>;
+}
+
+export interface TranscriptDocxOptions {
+    /** Selections to render; defaults to the project's own selections. */
+    selections?: Selection[];
+    /** Comment author shown in Word's margin. */
+    author?: string;
+}
+
+/** Paragraphs for a text transcript, one per line, with coded spans shaded and commented. */
+const renderLines = (
+    transcript: Transcript,
+    transcriptSelections: Selection[],
+    codesById: Map<string, Code>,
+    comments: CommentStore,
+    commentIds: Map<string, number>
+): string[] => {
+    const parts: string[] = [];
+    const doc = new DOMParser().parseFromString(stripHighlights(transcript.content), 'text/html');
+    let blocks = Array.from(doc.body.querySelectorAll('.transcript-line, .transcript-paragraph-break, .transcript-page-break'));
+    if (blocks.length === 0) {
+        // Legacy content without line markup: treat the whole text as one line
+        const fallback = doc.createElement('div');
+        fallback.className = 'transcript-line';
+        fallback.textContent = doc.body.textContent || '';
+        blocks = [fallback];
+    }
+
+    let offset = 0;
+    let lineCounter = 0;
+    const opened = new Set<string>();
+    const closed = new Set<string>();
+
+    blocks.forEach(block => {
+        if (block.classList.contains('transcript-paragraph-break')) {
+            parts.push(paragraph('', { spacingAfter: 0 }));
+            return;
+        }
+        if (block.classList.contains('transcript-page-break')) {
+            parts.push(pageBreak());
+            return;
+        }
+
+        lineCounter++;
+        const text = block.textContent || '';
+        const lineStart = offset;
+        const lineEnd = offset + text.length;
+        offset = lineEnd;
+        const lineNumber = block.getAttribute('data-line') || String(lineCounter);
+
+        // Split the line wherever a selection starts or ends
+        const boundaries = new Set([lineStart, lineEnd]);
+        transcriptSelections.forEach(s => {
+            if (s.startIndex > lineStart && s.startIndex < lineEnd) boundaries.add(s.startIndex);
+            if (s.endIndex > lineStart && s.endIndex < lineEnd) boundaries.add(s.endIndex);
+        });
+        const points = [...boundaries].sort((a, b) => a - b);
+
+        const content: string[] = [run(`${lineNumber}\t`, { color: LINE_NUMBER_COLOR, size: 8 })];
+        const openStarting = (pos: number, inclusiveEnd: boolean) => {
+            transcriptSelections.forEach(s => {
+                if (opened.has(s.id)) return;
+                if (s.startIndex <= pos && (inclusiveEnd ? s.startIndex <= lineEnd : s.startIndex < lineEnd)) {
+                    opened.add(s.id);
+                    content.push(comments.start(commentIds.get(s.id)!));
+                }
+            });
+        };
+        const closeEnding = (pos: number) => {
+            transcriptSelections.forEach(s => {
+                if (opened.has(s.id) && !closed.has(s.id) && s.endIndex <= pos) {
+                    closed.add(s.id);
+                    content.push(comments.end(commentIds.get(s.id)!));
+                }
+            });
+        };
+
+        if (text.length === 0) {
+            openStarting(lineStart, true);
+            closeEnding(lineEnd);
+        }
+        for (let i = 0; i < points.length - 1; i++) {
+            const a = points[i];
+            const b = points[i + 1];
+            openStarting(a, false);
+
+            const covering = transcriptSelections.filter(s => s.startIndex <= a && s.endIndex >= b);
+            const specific = covering.reduce<Selection | null>((best, s) =>
+                !best || (s.endIndex - s.startIndex) < (best.endIndex - best.startIndex) ? s : best, null);
+            const code: Code | undefined = specific ? codesById.get(specific.codeId) : undefined;
+            content.push(run(text.slice(a - lineStart, b - lineStart), code ? { shading: tintColor(code.color, SHADING_TINT) } : {}));
+
+            closeEnding(b);
+        }
+
+        parts.push(paragraph(content.join(''), { indentLeft: 567, hanging: 567, spacingAfter: 80 }));
+    });
+
+    // Selections that run past the last line (stale offsets) still need a closed range
+    const dangling = transcriptSelections.filter(s => opened.has(s.id) && !closed.has(s.id));
+    if (dangling.length > 0) {
+        parts.push(paragraph(dangling.map(s => comments.end(commentIds.get(s.id)!)).join('')));
+    }
+
+    return parts;
+};
+
+const renderTranscript = (
+    transcript: Transcript,
+    project: Project,
+    selections: Selection[],
+    comments: CommentStore,
+    isFirst: boolean,
+    pictures?: RenderedPictures
+): string => {
+    const codesById = new Map(project.codes.map(c => [c.id, c]));
+    const transcriptSelections = selections
+        .filter(s => s.transcriptId === transcript.id && codesById.has(s.codeId) && (pictures
+            ? pictures.regions.has(s.id)
+            : !s.orphaned && s.endIndex > s.startIndex))
+        .sort((a, b) => a.startIndex - b.startIndex || b.endIndex - a.endIndex);
+
+    const commentIds = new Map<string, number>();
+    transcriptSelections.forEach(s => {
+        const code = codesById.get(s.codeId)!;
+        const lines = [{ text: code.name, bold: true }];
+        if (s.annotation) lines.push({ text: s.annotation, bold: false });
+        commentIds.set(s.id, comments.add(lines));
+    });
+
+    const parts: string[] = [];
+    parts.push(textParagraph(transcript.name, { style: 'Title', pageBreakBefore: !isFirst }));
+    parts.push(textParagraph(
+        `Project: ${project.name} | Exported: ${new Date().toLocaleDateString()} | ${transcriptSelections.length} coded segment(s)`,
+        { style: 'Subtitle', spacingAfter: 240 }
+    ));
+
+    if (pictures) {
+        pictures.pages.forEach((page, i) => {
+            if (pictures.pages.length > 1) parts.push(textParagraph(`Page ${i + 1}`, { style: 'Heading3' }));
+            parts.push(paragraph(page));
+            const onPage = transcriptSelections
+                .filter(s => s.region!.page === i)
+                .sort((a, b) => a.region!.y - b.region!.y || a.region!.x - b.region!.x);
+            if (onPage.length > 0) parts.push(textParagraph('Coded regions', { style: 'Heading3' }));
+            onPage.forEach(s => {
+                const id = commentIds.get(s.id)!;
+                parts.push(paragraph(
+                    comments.start(id) + pictures.regions.get(s.id)! + comments.end(id) +
+                    run(`  ${codesById.get(s.codeId)!.name} — ${regionLabel(s.region!)}`, { color: LINE_NUMBER_COLOR, size: 8 }),
+                    { spacingAfter: 120 }
+                ));
+            });
+        });
+    } else {
+        parts.push(...renderLines(transcript, transcriptSelections, codesById, comments, commentIds));
+    }
+
+    // Legend of the codes used in this transcript
+    const usedCodes = project.codes.filter(c => transcriptSelections.some(s => s.codeId === c.id));
+    if (usedCodes.length > 0) {
+        parts.push(textParagraph('Codes', { style: 'Heading2' }));
+        usedCodes.forEach(c => {
+            const count = transcriptSelections.filter(s => s.codeId === c.id).length;
+            parts.push(paragraph(
+                run('      ', { shading: tintColor(c.color, SHADING_TINT) }) +
+                run(`  ${c.name} (${count})`),
+                { spacingAfter: 40 }
+            ));
+        });
+    }
+
+    if (transcript.memo?.trim()) {
+        parts.push(textParagraph('Transcript Memo', { style: 'Heading2' }));
+        transcript.memo.split(/\n{2,}/).forEach(p => parts.push(textParagraph(p)));
+    }
+
+    return parts.join('');
+};
+
+/** Draws an image document's pages and crops its coded regions, ahead of the synchronous render. */
+const renderPictures = async (transcript: Transcript, selections: Selection[], images: ImageStore): Promise<RenderedPictures> => {
+    const pages = transcript.images!;
+    const whole = (page: number) => ({ page, x: 0, y: 0, width: 1, height: 1 });
+    const rendered: RenderedPictures = { pages: [], regions: new Map() };
+    for (const [i, page] of pages.entries()) {
+        const image = await cropRegion(page, whole(i), PAGE_IMAGE_SIZE);
+        rendered.pages.push(images.add(image.dataUrl, image.width, image.height));
+    }
+    for (const s of selections) {
+        if (s.transcriptId !== transcript.id || !s.region || !pages[s.region.page]) continue;
+        const thumb = await cropRegion(pages[s.region.page], s.region, REGION_THUMBNAIL_SIZE);
+        rendered.regions.set(s.id, images.add(thumb.dataUrl, thumb.width, thumb.height));
+    }
+    return rendered;
+};
+
+/** Builds one Word document; several transcripts are bundled with a page break between each. */
+export const buildTranscriptsDocx = async (transcripts: Transcript[], project: Project, options: TranscriptDocxOptions = {}): Promise<Blob> => {
+    const selections = options.selections || project.selections;
+    const comments = createCommentStore(options.author);
+    const images = createImageStore();
+    const body: string[] = [];
+    for (const [i, t] of transcripts.entries()) {
+        const pictures = t.images?.length ? await renderPictures(t, selections, images) : undefined;
+        body.push(renderTranscript(t, project, selections, comments, i === 0, pictures));
+    }
+    return buildDocx({ body: body.join(''), comments, images });
+};
+
+export const exportTranscriptsDocx = async (transcripts: Transcript[], project: Project, options: TranscriptDocxOptions = {}) => {
+    const blob = await buildTranscriptsDocx(transcripts, project, options);
+    const baseName = transcripts.length === 1 ? transcripts[0].name : `${project.name}_Transcripts`;
+    saveBlob(blob, `${baseName.replace(/\.[^.]+$/, '').replace(/\s+/g, '_')}_Coded.docx`);
+};
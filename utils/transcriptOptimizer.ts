@@ -18,6 +18,8 @@ export function compressTranscriptContent(htmlContent: string): string {
     // If it's already optimized (or effectively empty/invalid), return as is to avoid double-compression
     if (isOptimizedContent(htmlContent)) return htmlContent;
     if (!htmlContent) return '[]';
+    // Lines carrying speaker/timestamp metadata can't be flattened without losing it
+    if (/class=["']transcript-line["'][^>]*data-(speaker|start|end)=/.test(htmlContent)) return htmlContent;
 
     // Simple regex to extract content between div tags
     // Logic matches Editor.tsx generation: <div class="transcript-line" data-line="${i + 1}">${escape(line.content)}</div>
@@ -1,4 +1,7 @@
 import * as mammoth from 'mammoth';
+import { TranscriptLineMeta, SpeakerDetectionSettings, TranscriptImage } from '../types';
+import { detectSpeakers } from './speakerUtils';
+import { canvasToPage, createPageCanvas, isImageDocumentFile, parseImageFile } from './imageDocuments';
 
 // ─── PDF.js Setup ───
 // We use a dynamic import + worker setup for pdfjs-dist
@@ -14,7 +17,7 @@ async function getPdfJs() {
 
 // ─── Helpers ───
 
-function escapeHtml(text: string): string {
+export function escapeHtml(text: string): string {
     return text
         .replace(/&/g, '&amp;')
         .replace(/</g, '&lt;')
@@ -240,12 +243,193 @@ export async function parsePdf(arrayBuffer: ArrayBuffer): Promise<string> {
     return htmlParts.join('');
 }
 
+/**
+ * Renders every page of a PDF to an image. Used for scans, which have no text layer.
+ */
+export async function renderPdfPages(arrayBuffer: ArrayBuffer): Promise<TranscriptImage[]> {
+    const pdfjs = await getPdfJs();
+    const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
+    const pages: TranscriptImage[] = [];
+
+    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+        const page = await pdf.getPage(pageNum);
+        // Render at 2x the PDF's point size; createPageCanvas caps the result
+        const natural = page.getViewport({ scale: 2 });
+        const canvas = createPageCanvas(natural.width, natural.height);
+        const viewport = page.getViewport({ scale: 2 * canvas.width / natural.width });
+        const ctx = canvas.getContext('2d')!;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        await page.render({ canvasContext: ctx, viewport }).promise;
+        pages.push(canvasToPage(canvas));
+    }
+
+    return pages;
+}
+
+// ─── Timestamped Transcripts (SRT / VTT / Otter / Zoom) ───
+// Cues and speaker turns become transcript-lines that carry their metadata as data
+// attributes (data-speaker, data-start, data-end in seconds). The speaker label stays in
+// the line text at the start of each turn so the transcript still reads naturally and
+// exports keep it; a paragraph break separates turns.
+
+interface ParsedLine extends TranscriptLineMeta {
+    text: string;
+}
+
+/** Renders TranscriptLineMeta as data attributes for a transcript-line div. */
+export function lineMetaAttributes(meta: TranscriptLineMeta): string {
+    return [
+        meta.speaker ? ` data-speaker="${escapeHtml(meta.speaker)}"` : '',
+        meta.start !== undefined ? ` data-start="${meta.start}"` : '',
+        meta.end !== undefined ? ` data-end="${meta.end}"` : '',
+    ].join('');
+}
+
+function renderParsedLines(lines: ParsedLine[]): string {
+    const htmlParts: string[] = [];
+    let previousSpeaker: string | undefined;
+    lines.forEach((line, i) => {
+        if (i > 0 && line.speaker && line.speaker !== previousSpeaker) {
+            htmlParts.push('<div class="transcript-paragraph-break" aria-hidden="true"></div>');
+        }
+        htmlParts.push(
+            `<div class="transcript-line" data-line="${i + 1}"${lineMetaAttributes(line)}>${escapeHtml(line.text)}</div>`
+        );
+        previousSpeaker = line.speaker;
+    });
+    return htmlParts.join('');
+}
+
+/** "01:02:03,500", "02:03.5" or "2:03" → seconds. */
+export function parseTimecode(value: string): number | null {
+    const match = /^(?:(\d{1,2}):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/.exec(value.trim());
+    if (!match) return null;
+    const [, h, m, sec, frac] = match;
+    const seconds = (parseInt(h || '0', 10) * 3600) + (parseInt(m, 10) * 60) + parseInt(sec, 10) +
+        (frac ? parseInt(frac.padEnd(3, '0'), 10) / 1000 : 0);
+    return Math.round(seconds * 1000) / 1000;
+}
+
+const SPEAKER_PREFIX = /^([A-Za-z][\w .'\-]{0,40}?):\s+(.*)$/;
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parses SRT and WebVTT. Both are blank-line separated blocks with a
+ * "start --> end" timing line; VTT may name the speaker with a <v Name> voice tag,
+ * Zoom writes "Name: text" into the cue itself.
+ */
+export function parseSubtitles(rawText: string): string {
+    const blocks = rawText.replace(/^﻿/, '').split(/\r?\n\s*\r?\n/);
+    const lines: ParsedLine[] = [];
+    let previousSpeaker: string | undefined;
+
+    for (const block of blocks) {
+        const blockLines = block.split(/\r?\n/);
+        const timingIndex = blockLines.findIndex(l => l.includes('-->'));
+        if (timingIndex === -1) continue; // WEBVTT header, NOTE, STYLE, REGION
+
+        const [startRaw, endRaw] = blockLines[timingIndex].split('-->');
+        const start = parseTimecode(startRaw);
+        // VTT cue settings ("align:start position:10%") follow the end time
+        const end = parseTimecode((endRaw || '').trim().split(/\s+/)[0] || '');
+
+        let rawCue = blockLines.slice(timingIndex + 1).map(l => l.trim()).filter(Boolean).join(' ');
+        let speaker: string | undefined;
+        const voice = /<v(?:\.[^\s>]+)?\s+([^>]+)>/.exec(rawCue);
+        if (voice) speaker = voice[1].trim();
+        rawCue = decodeEntities(rawCue.replace(/<[^>]+>/g, '')).trim();
+        if (!rawCue) continue;
+
+        let text = rawCue;
+        if (!speaker) {
+            const prefixed = SPEAKER_PREFIX.exec(rawCue);
+            if (prefixed) speaker = prefixed[1].trim();
+        } else if (speaker !== previousSpeaker) {
+            // Voice tags are not part of the text, so label the start of each turn
+            text = `${speaker}: ${rawCue}`;
+        }
+
+        lines.push({ text, speaker, start: start ?? undefined, end: end ?? undefined });
+        previousSpeaker = speaker;
+    }
+
+    return renderParsedLines(lines);
+}
+
+// Otter ("Jane Doe  0:02") and Zoom ("[Jane Doe] 10:02:33") text exports put the speaker
+// and time on a header line above each turn.
+const SPEAKER_HEADER = /^\[?([^\]\d][^\]]{0,60}?)\]?\s+\(?((?:\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\)?\s*$/;
+
+export function looksLikeSpeakerTimestampText(rawText: string): boolean {
+    const nonEmpty = rawText.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+    if (nonEmpty.length < 2) return false;
+    const headers = nonEmpty.filter(l => SPEAKER_HEADER.test(l)).length;
+    // Each turn is a header plus at least one text line
+    return headers >= 1 && headers >= nonEmpty.length * 0.2;
+}
+
+export function parseSpeakerTimestampText(rawText: string): string {
+    const lines: ParsedLine[] = [];
+    let speaker: string | undefined;
+    let start: number | undefined;
+    let turnStartIndex = -1;
+
+    for (const raw of rawText.replace(/^﻿/, '').split(/\r?\n/)) {
+        const trimmed = raw.trim();
+        if (!trimmed) continue;
+
+        const header = SPEAKER_HEADER.exec(trimmed);
+        if (header) {
+            speaker = header[1].trim();
+            start = parseTimecode(header[2]) ?? undefined;
+            // The previous turn ends where this one starts
+            const previousTurn = lines[turnStartIndex];
+            if (previousTurn && previousTurn.start !== undefined && start !== undefined) previousTurn.end = start;
+            turnStartIndex = lines.length;
+            continue;
+        }
+
+        const isFirstOfTurn = lines.length === turnStartIndex;
+        lines.push({
+            text: isFirstOfTurn && speaker ? `${speaker}: ${trimmed}` : trimmed,
+            speaker,
+            start: isFirstOfTurn ? start : undefined,
+        });
+    }
+
+    return renderParsedLines(lines);
+}
+
 // ─── Master Parse Function ───
 
-export async function parseTranscriptFile(file: File): Promise<{ name: string; content: string }> {
+export interface TranscriptParseOptions {
+    speakerDetection?: SpeakerDetectionSettings;
+}
+
+export interface ParsedTranscriptFile {
+    name: string;
+    content: string;
+    images?: TranscriptImage[]; // Image documents: photos, and PDFs without a text layer
+}
+
+export async function parseTranscriptFile(file: File, options: TranscriptParseOptions = {}): Promise<ParsedTranscriptFile> {
     const ext = file.name.split('.').pop()?.toLowerCase() || '';
     let content = '';
 
+    if (isImageDocumentFile(file.name)) {
+        return { name: file.name, content: '', images: await parseImageFile(file) };
+    }
+
     switch (ext) {
         case 'docx': {
             const arrayBuffer = await file.arrayBuffer();
@@ -255,6 +439,17 @@ export async function parseTranscriptFile(file: File): Promise<{ name: string; c
         case 'pdf': {
             const arrayBuffer = await file.arrayBuffer();
             content = await parsePdf(arrayBuffer);
+            // Scanned PDFs yield no text at all; import their pages as images instead.
+            // pdf.js detaches the buffer it is given, so each pass gets a fresh copy.
+            if (!content.includes('transcript-line')) {
+                return { name: file.name, content: '', images: await renderPdfPages(await file.arrayBuffer()) };
+            }
+            break;
+        }
+        case 'srt':
+        case 'vtt': {
+            const rawText = await file.text();
+            content = parseSubtitles(rawText);
             break;
         }
         case 'txt':
@@ -262,10 +457,16 @@ export async function parseTranscriptFile(file: File): Promise<{ name: string; c
         case 'md':
         default: {
             const rawText = await file.text();
-            content = parsePlainText(rawText);
+            content = looksLikeSpeakerTimestampText(rawText)
+                ? parseSpeakerTimestampText(rawText)
+                : parsePlainText(rawText);
             break;
         }
     }
 
+    if (options.speakerDetection) {
+        content = detectSpeakers(content, options.speakerDetection);
+    }
+
     return { name: file.name, content };
 }
@@ -0,0 +1,100 @@
+import { Project, TranscriptSet } from '../types';
+import { generateId } from './dataUtils';
+import { AttributeDimension, MISSING_ATTRIBUTE_VALUE } from './attributeUtils';
+import { MatrixCell, MatrixCellMode, MatrixColumn } from './analysisUtils';
+
+// ─── Transcript Sets ───
+// Named groups of transcripts for longitudinal designs. Sets sharing a group are one
+// dimension, ordered as listed (Wave 1, Wave 2, ...); a second group such as "Participant"
+// lets each person's interviews be followed across the waves.
+
+export interface TranscriptSetGroup {
+    group: string;
+    sets: TranscriptSet[];
+}
+
+export function createTranscriptSet(name: string, group: string): TranscriptSet {
+    return { id: generateId(), name, group, transcriptIds: [] };
+}
+
+/** Groups in order of first appearance, each with its sets in list order. */
+export function groupTranscriptSets(sets: TranscriptSet[]): TranscriptSetGroup[] {
+    const groups: TranscriptSetGroup[] = [];
+    sets.forEach(set => {
+        const existing = groups.find(g => g.group === set.group);
+        if (existing) existing.sets.push(set);
+        else groups.push({ group: set.group, sets: [set] });
+    });
+    return groups;
+}
+
+/** Adds the transcript to the set, or removes it if it is already a member. */
+export function toggleSetMember(project: Project, setId: string, transcriptId: string): Project {
+    return {
+        ...project,
+        transcriptSets: (project.transcriptSets || []).map(set => set.id !== setId ? set : {
+            ...set,
+            transcriptIds: set.transcriptIds.includes(transcriptId)
+                ? set.transcriptIds.filter(id => id !== transcriptId)
+                : [...set.transcriptIds, transcriptId],
+        }),
+    };
+}
+
+/** Swaps a set with its previous (-1) or next (+1) neighbour in the same group. */
+export function moveTranscriptSet(project: Project, setId: string, direction: -1 | 1): Project {
+    const sets = [...(project.transcriptSets || [])];
+    const index = sets.findIndex(s => s.id === setId);
+    if (index < 0) return project;
+    let other = index + direction;
+    while (other >= 0 && other < sets.length && sets[other].group !== sets[index].group) other += direction;
+    if (other < 0 || other >= sets.length) return project;
+    [sets[index], sets[other]] = [sets[other], sets[index]];
+    return { ...project, transcriptSets: sets };
+}
+
+/** One set per attribute bucket (documents without a value are left out), named after the bucket. */
+export function setsFromAttribute(dimension: AttributeDimension, project: Project): TranscriptSet[] {
+    return dimension.buckets
+        .filter(bucket => bucket !== MISSING_ATTRIBUTE_VALUE)
+        .map(bucket => ({
+            ...createTranscriptSet(bucket, dimension.attribute.name),
+            transcriptIds: project.transcripts.filter(t => dimension.bucketOf(t) === bucket).map(t => t.id),
+        }));
+}
+
+// ─── Trends ───
+// Sets differ in size, so prevalence is given per document: the share of a set's documents
+// with the code, codings per document, or the share of the set's text that is coded.
+
+export const TREND_MEASURES: { mode: MatrixCellMode; label: string; unit: string }[] = [
+    { mode: 'documents', label: '% of documents', unit: '%' },
+    { mode: 'segments', label: 'Codings per document', unit: '' },
+    { mode: 'coverage', label: '% of text coded', unit: '%' },
+];
+
+/**
+ * Matrix columns for a trend: one per set in `across`, or with `per` one per pair of sets
+ * (key `acrossId|perId`) holding the documents in both. Only documents in scope count.
+ */
+export function trendColumns(across: TranscriptSet[], per: TranscriptSet[] | null, inScope: Set<string>): MatrixColumn[] {
+    const members = (set: TranscriptSet) => set.transcriptIds.filter(id => inScope.has(id));
+    return across.flatMap(a => {
+        const ids = members(a);
+        if (!per) return [{ key: a.id, label: a.name, transcriptIds: ids }];
+        return per.map(p => {
+            const perIds = new Set(members(p));
+            return { key: `${a.id}|${p.id}`, label: `${a.name} · ${p.name}`, transcriptIds: ids.filter(id => perIds.has(id)) };
+        });
+    });
+}
+
+/** Prevalence in one column, or null when it has no documents (a gap in the line). */
+export function trendValue(cell: MatrixCell | undefined, column: MatrixColumn, mode: MatrixCellMode): number | null {
+    const documents = column.transcriptIds.length;
+    if (documents === 0) return null;
+    if (!cell) return 0;
+    if (mode === 'documents') return (cell.documents / documents) * 100;
+    if (mode === 'coverage') return cell.totalChars > 0 ? (cell.codedChars / cell.totalChars) * 100 : 0;
+    return cell.segments / documents;
+}